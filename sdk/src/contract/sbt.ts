@@ -228,6 +228,51 @@ export class ThurinSBT {
     return result as string;
   }
 
+  /**
+   * List the IACA roots currently trusted, with their state names
+   *
+   * Replays IACARootAdded/IACARootRemoved events, since the contract keeps
+   * the roots in a mapping that cannot be enumerated.
+   *
+   * @param fromBlock - Block the contract was deployed at (defaults to 0)
+   */
+  async getTrustedIACARoots(fromBlock = 0n): Promise<Array<{ root: Hex; stateName: string }>> {
+    const [added, removed] = await Promise.all([
+      this.publicClient.getContractEvents({
+        address: this.address,
+        abi: THURIN_SBT_ABI,
+        eventName: 'IACARootAdded',
+        fromBlock,
+      }),
+      this.publicClient.getContractEvents({
+        address: this.address,
+        abi: THURIN_SBT_ABI,
+        eventName: 'IACARootRemoved',
+        fromBlock,
+      }),
+    ]);
+
+    const events = [...added, ...removed].sort((a, b) =>
+      a.blockNumber === b.blockNumber
+        ? a.logIndex - b.logIndex
+        : a.blockNumber < b.blockNumber
+          ? -1
+          : 1
+    );
+
+    const roots = new Map<Hex, string>();
+    for (const event of events) {
+      const { root, stateName } = event.args as { root: Hex; stateName?: string };
+      if (event.eventName === 'IACARootAdded') {
+        roots.set(root, stateName ?? '');
+      } else {
+        roots.delete(root);
+      }
+    }
+
+    return [...roots].map(([root, stateName]) => ({ root, stateName }));
+  }
+
   /**
    * Get referral count for a token
    */
@@ -0,0 +1,30 @@
+/**
+ * cborg decode options shared by the mdoc parsers
+ *
+ * cborg rejects tags it has no decoder for, and mdoc structures embed
+ * encoded CBOR as tag 24 (IssuerSignedItemBytes, MobileSecurityObjectBytes,
+ * DeviceNameSpacesBytes). Digests and signatures are computed over those
+ * embedded bytes, so they are kept as bytes rather than decoded in place.
+ * Dates (tdate, tag 0, and full-date, tag 1004) decode to Date; a malformed
+ * date decodes to an invalid Date for the caller to reject.
+ */
+
+import type { TagDecoder } from 'cborg';
+
+const FULL_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * A full-date (tag 1004) value, midnight UTC of the day, kept apart from
+ * date-times so a day-granular bound can be read as the whole day
+ */
+export class FullDate extends Date {}
+
+/** Tag decoders for mdoc structures: tag 24 yields its embedded bytes */
+export const MDOC_TAGS: TagDecoder[] = [];
+MDOC_TAGS[24] = (inner: Uint8Array) => inner;
+// RFC 3339 date-time, e.g. validityInfo.validUntil
+MDOC_TAGS[0] = (value: unknown) => new Date(typeof value === 'string' ? value : NaN);
+// RFC 8943 full-date, taken as midnight UTC
+MDOC_TAGS[1004] = (value: unknown) =>
+  new FullDate(typeof value === 'string' && FULL_DATE.test(value) ? `${value}T00:00:00Z` : NaN);
+
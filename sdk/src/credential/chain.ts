@@ -0,0 +1,185 @@
+/**
+ * Document Signer to IACA certificate chain validation
+ *
+ * The MSO is signed by a Document Signer (DS) certificate, which is issued
+ * by the jurisdiction's IACA (Issuing Authority Certificate Authority). Only
+ * the IACA is long-lived and published, so trust is anchored there:
+ *
+ * - DS: valid now, digitalSignature key usage, mDL DS extended key usage
+ * - every issuer up to the anchor: valid now, a CA with keyCertSign, and its
+ *   key verifies the signature of the certificate below it
+ * - the chain ends at one of the configured IACA root certificates
+ *
+ * Reference: ISO 18013-5 Annex B, RFC 5280
+ */
+
+import { CredentialError } from './types.js';
+import {
+  type X509Certificate,
+  MDL_DS_EKU_OID,
+  getP256PublicKey,
+  parseCertificate,
+  verifyCertificateSignature,
+} from './x509.js';
+
+/**
+ * Options for validating an issuer certificate chain
+ */
+export interface ChainValidationOptions {
+  /** Trusted IACA root certificates (DER or parsed) */
+  iacaRoots: Array<Uint8Array | X509Certificate>;
+  /** Time to check validity periods at (defaults to now) */
+  now?: Date;
+  /**
+   * Extended key usage the DS certificate must carry
+   * Defaults to the mDL DS purpose; pass null for document types without one.
+   */
+  extendedKeyUsage?: string | null;
+}
+
+/**
+ * Successful chain validation
+ */
+export interface IssuerChainValidation {
+  /** Document Signer certificate (the MSO signer) */
+  documentSigner: X509Certificate;
+  /** IACA root certificate that anchors the chain */
+  iaca: X509Certificate;
+  /** IACA public key, if it is P-256 */
+  iacaPubkey?: {
+    x: Uint8Array;
+    y: Uint8Array;
+  };
+  /** Certificates from the DS up to and including the IACA */
+  path: X509Certificate[];
+}
+
+/**
+ * Validate an x5chain from the Document Signer to a trusted IACA
+ *
+ * @param chain - Parsed x5chain, DS first (ParsedCredential.certificateChain)
+ * @param options - Trusted IACA roots and validation time
+ * @returns The validated path and the IACA that anchors it
+ * @throws CredentialError UNTRUSTED_ISSUER if any check fails
+ */
+export async function validateIssuerChain(
+  chain: X509Certificate[],
+  options: ChainValidationOptions
+): Promise<IssuerChainValidation> {
+  const now = options.now ?? new Date();
+  const roots = options.iacaRoots.map((root) =>
+    root instanceof Uint8Array ? parseCertificate(root) : root
+  );
+  const extendedKeyUsage =
+    options.extendedKeyUsage === undefined ? MDL_DS_EKU_OID : options.extendedKeyUsage;
+
+  const [documentSigner] = chain;
+  if (!documentSigner) {
+    throw new CredentialError('No Document Signer certificate', 'UNTRUSTED_ISSUER');
+  }
+
+  checkValidity(documentSigner, now, 'Document Signer');
+  if (!documentSigner.keyUsage?.includes('digitalSignature')) {
+    throw new CredentialError(
+      'Document Signer certificate lacks the digitalSignature key usage',
+      'UNTRUSTED_ISSUER'
+    );
+  }
+  if (extendedKeyUsage && !documentSigner.extendedKeyUsage?.includes(extendedKeyUsage)) {
+    throw new CredentialError(
+      `Document Signer certificate lacks the ${extendedKeyUsage} extended key usage`,
+      'UNTRUSTED_ISSUER'
+    );
+  }
+
+  const path = [documentSigner];
+  let current = documentSigner;
+
+  // Each step needs an issuer that is a configured root or the next x5chain entry
+  for (let depth = 1; depth <= chain.length; depth++) {
+    const root = await findIssuer(current, roots);
+    if (root) {
+      checkIssuer(root, now, 'IACA');
+      path.push(root);
+      return {
+        documentSigner,
+        iaca: root,
+        iacaPubkey: tryP256PublicKey(root),
+        path,
+      };
+    }
+
+    const intermediate = chain[depth];
+    if (!intermediate || !(await findIssuer(current, [intermediate]))) {
+      throw new CredentialError(
+        `No trusted IACA issued "${current.subject.text}" (issuer "${current.issuer.text}")`,
+        'UNTRUSTED_ISSUER'
+      );
+    }
+    checkIssuer(intermediate, now, 'Intermediate CA');
+    path.push(intermediate);
+    current = intermediate;
+  }
+
+  throw new CredentialError('Certificate chain does not reach an IACA', 'UNTRUSTED_ISSUER');
+}
+
+/**
+ * Find the candidate whose name and key issued `cert`
+ */
+async function findIssuer(
+  cert: X509Certificate,
+  candidates: X509Certificate[]
+): Promise<X509Certificate | undefined> {
+  for (const candidate of candidates) {
+    if (
+      bytesEqual(candidate.subject.der, cert.issuer.der) &&
+      (await verifyCertificateSignature(cert, candidate))
+    ) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Checks for a certificate that issues others
+ */
+function checkIssuer(cert: X509Certificate, now: Date, role: string): void {
+  checkValidity(cert, now, role);
+  if (!cert.basicConstraints?.ca) {
+    throw new CredentialError(
+      `${role} certificate "${cert.subject.text}" is not a CA`,
+      'UNTRUSTED_ISSUER'
+    );
+  }
+  if (cert.keyUsage && !cert.keyUsage.includes('keyCertSign')) {
+    throw new CredentialError(
+      `${role} certificate "${cert.subject.text}" lacks the keyCertSign key usage`,
+      'UNTRUSTED_ISSUER'
+    );
+  }
+}
+
+function checkValidity(cert: X509Certificate, now: Date, role: string): void {
+  const { notBefore, notAfter } = cert.validity;
+  if (now < notBefore || now > notAfter) {
+    throw new CredentialError(
+      `${role} certificate "${cert.subject.text}" is not valid at ${now.toISOString()} ` +
+        `(valid ${notBefore.toISOString()} to ${notAfter.toISOString()})`,
+      'UNTRUSTED_ISSUER'
+    );
+  }
+}
+
+function tryP256PublicKey(cert: X509Certificate): IssuerChainValidation['iacaPubkey'] {
+  try {
+    return getP256PublicKey(cert);
+  } catch {
+    return undefined;
+  }
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
@@ -0,0 +1,386 @@
+/**
+ * Circuit layout compatibility
+ *
+ * The circuit does not parse CBOR. It reads fixed positions out of
+ * fixed-size buffers (circuits/src/mso.nr, cbor.nr):
+ *
+ * - MSO: zero-padded to 512 bytes, validUntil as "YYYY-MM-DD" at byte 96
+ * - age_over_21: 96-byte slot, digestID 0, digest at MSO byte 143, value at byte 65
+ * - jurisdiction: 107-byte slot, digestID 1, digest at MSO byte 179, 2-letter code at byte 66
+ * - age_over_18: 96-byte slot, digestID 2, digest at MSO byte 215, value at byte 65
+ *
+ * and checks SHA-256 of each whole slot against the digest at its offset.
+ * A credential laid out any other way fails as an opaque assertion after
+ * proving, or worse, is silently truncated. analyzeCircuitLayout() names
+ * every place a credential departs from this layout, so an unsupported
+ * issuer can be reported before the user is asked to prove anything.
+ *
+ * Circuit variants that take each claim's digest offset, length and value
+ * offset as private witness values only keep the buffer sizes fixed;
+ * locateClaim() finds those positions for toProverCredential().
+ */
+
+import {
+  type ParsedClaim,
+  type ParsedCredential,
+  type ParsedMSO,
+  CredentialError,
+} from './types.js';
+import { type DocTypeProfile, getDocTypeProfile } from './doctypes.js';
+import { wrapInTag24 } from './device-request.js';
+import { claimKey } from './elements.js';
+import type { ClaimLayout } from '../prover/types.js';
+
+/** Circuit slot a claim is placed in */
+export type CircuitSlot = 'ageOver21' | 'jurisdiction' | 'ageOver18';
+
+/**
+ * Fixed position of one claim slot
+ */
+export interface CircuitSlotLayout {
+  /** digestID the claim must carry */
+  digestID: number;
+  /** Offset of the claim's 32-byte digest in the MSO */
+  digestOffset: number;
+  /** Slot size; the item is zero-padded to it */
+  size: number;
+  /** Offset of the elementValue encoding in the item */
+  valueOffset: number;
+}
+
+/**
+ * The circuit's fixed schema (must match circuits/src)
+ */
+export const CIRCUIT_LAYOUT: {
+  /** MSO buffer size; the MSO is zero-padded to it */
+  msoSize: number;
+  /** Offset of validUntil ("YYYY-MM-DD") in the MSO */
+  msoValidUntilOffset: number;
+  slots: Record<CircuitSlot, CircuitSlotLayout>;
+} = {
+  msoSize: 512,
+  msoValidUntilOffset: 96,
+  slots: {
+    ageOver21: { digestID: 0, digestOffset: 143, size: 96, valueOffset: 65 },
+    jurisdiction: { digestID: 1, digestOffset: 179, size: 107, valueOffset: 65 },
+    ageOver18: { digestID: 2, digestOffset: 215, size: 96, valueOffset: 65 },
+  },
+};
+
+/**
+ * One way a credential departs from the circuit layout
+ */
+export interface CircuitLayoutViolation {
+  /**
+   * - doctype: no profile maps the docType onto circuit slots
+   * - missing-claim: a slot's claim is not in the credential
+   * - mso-size / claim-size: larger than the circuit's buffer
+   * - digest-id: the claim's digestID is not the slot's
+   * - digest-offset: the slot's digest is not at its fixed MSO offset
+   * - claim-digest: SHA-256 of the slot does not match that digest
+   * - value-position: the value is not where or what the circuit reads
+   * - valid-until: validUntil is not at its fixed MSO offset
+   */
+  kind:
+    | 'doctype'
+    | 'missing-claim'
+    | 'mso-size'
+    | 'claim-size'
+    | 'digest-id'
+    | 'digest-offset'
+    | 'claim-digest'
+    | 'value-position'
+    | 'valid-until';
+  /** Slot concerned, if any */
+  slot?: CircuitSlot;
+  /** Claim concerned (`namespace:identifier`), if any */
+  claim?: string;
+  message: string;
+}
+
+/**
+ * Result of analyzeCircuitLayout
+ */
+export interface CircuitLayoutReport {
+  /** No violations: the credential can be proven as is */
+  compatible: boolean;
+  violations: CircuitLayoutViolation[];
+}
+
+/**
+ * Options for analyzeCircuitLayout
+ */
+export interface CircuitLayoutOptions {
+  /**
+   * - fixed (default): claims must sit at the offsets in CIRCUIT_LAYOUT
+   * - located: the circuit takes each claim's digest offset, length and
+   *   value offset as witness values (see acceptsClaimLayout), so any
+   *   digestID order and item encoding that fits the buffers is accepted
+   */
+  claimLayout?: 'fixed' | 'located';
+}
+
+/** CBOR text string "elementValue", the key preceding each item's value */
+const ELEMENT_VALUE_KEY = new Uint8Array([0x6c, ...new TextEncoder().encode('elementValue')]);
+
+/**
+ * Check a credential against the circuit's layout
+ *
+ * @param parsed - Credential from parseCredential
+ * @param options - Which kind of circuit the credential is for
+ * @returns Every violation found; nothing is thrown for incompatibilities
+ */
+export async function analyzeCircuitLayout(
+  parsed: ParsedCredential,
+  options: CircuitLayoutOptions = {}
+): Promise<CircuitLayoutReport> {
+  const violations: CircuitLayoutViolation[] = [];
+  const { mso } = parsed;
+
+  const profile = getDocTypeProfile(mso.docType);
+  if (!profile) {
+    violations.push({
+      kind: 'doctype',
+      message: `Document type ${mso.docType} has no circuit claim mapping`,
+    });
+    return { compatible: false, violations };
+  }
+
+  if (mso.bytes.length > CIRCUIT_LAYOUT.msoSize) {
+    violations.push({
+      kind: 'mso-size',
+      message:
+        `MSO is ${mso.bytes.length} bytes; ` +
+        `the circuit takes at most ${CIRCUIT_LAYOUT.msoSize}`,
+    });
+  }
+
+  const validUntilOffset = CIRCUIT_LAYOUT.msoValidUntilOffset;
+  const validUntil = new TextDecoder().decode(
+    mso.bytes.subarray(validUntilOffset, validUntilOffset + 10)
+  );
+  if (validUntil !== mso.validityInfo.validUntil.toISOString().slice(0, 10)) {
+    violations.push({
+      kind: 'valid-until',
+      message:
+        `MSO bytes ${validUntilOffset}-${validUntilOffset + 9} are not validUntil as ` +
+        `"YYYY-MM-DD" (found ${JSON.stringify(validUntil)})`,
+    });
+  }
+
+  const slotClaims = slotCandidates(profile);
+  for (const slot of Object.keys(slotClaims) as CircuitSlot[]) {
+    const candidates = slotClaims[slot];
+    const claim = findSlotClaim(parsed, candidates);
+    if (!claim) {
+      violations.push({
+        kind: 'missing-claim',
+        slot,
+        message: `${candidates.join(' or ')} claim is required`,
+      });
+      continue;
+    }
+    const located = options.claimLayout === 'located';
+    violations.push(...(await analyzeSlot(parsed, slot, claim, located)));
+  }
+
+  return { compatible: violations.length === 0, violations };
+}
+
+/**
+ * Check a credential against the circuit's layout, failing on any violation
+ *
+ * @throws CredentialError UNSUPPORTED_CREDENTIAL listing every violation
+ */
+export async function requireCircuitLayout(
+  parsed: ParsedCredential,
+  options: CircuitLayoutOptions = {}
+): Promise<void> {
+  const { violations } = await analyzeCircuitLayout(parsed, options);
+  if (violations.length > 0) {
+    const issuer = parsed.certificateChain[0]?.subject.text ?? 'this issuer';
+    throw new CredentialError(
+      `Credentials from ${issuer} are not supported yet: ` +
+        violations.map((violation) => violation.message).join('; '),
+      'UNSUPPORTED_CREDENTIAL'
+    );
+  }
+}
+
+/**
+ * Circuit slot a claim is read into, if any
+ *
+ * A jurisdiction slot takes the first of its candidate claims present.
+ */
+export function circuitSlotOf(
+  parsed: ParsedCredential,
+  claim: ParsedClaim
+): CircuitSlot | undefined {
+  const profile = getDocTypeProfile(parsed.mso.docType);
+  if (!profile) {
+    return undefined;
+  }
+  const slotClaims = slotCandidates(profile);
+  return (Object.keys(slotClaims) as CircuitSlot[]).find(
+    (slot) => findSlotClaim(parsed, slotClaims[slot]) === claim
+  );
+}
+
+/**
+ * Claims that can fill each slot, by claim key
+ */
+function slotCandidates(profile: DocTypeProfile): Record<CircuitSlot, string[]> {
+  const { circuitClaims } = profile;
+  return {
+    ageOver21: [circuitClaims.ageOver21],
+    jurisdiction: circuitClaims.jurisdiction,
+    ageOver18: [circuitClaims.ageOver18],
+  };
+}
+
+function findSlotClaim(parsed: ParsedCredential, candidates: string[]): ParsedClaim | undefined {
+  return candidates
+    .map((key) => parsed.claims.get(key))
+    .find((found): found is ParsedClaim => found !== undefined);
+}
+
+/**
+ * Locate a claim's digest in the MSO and its value in the item
+ *
+ * @returns Positions for a circuit that takes them as witness values, or
+ *   undefined if the MSO bytes do not contain the claim's digest
+ */
+export function locateClaim(mso: ParsedMSO, claim: ParsedClaim): ClaimLayout | undefined {
+  const digest = mso.valueDigests.get(claim.namespace)?.get(claim.digestIndex);
+  const digestOffset = digest ? indexOf(mso.bytes, digest) : -1;
+  const valueOffset = elementValueOffset(claim.bytes);
+  if (digestOffset < 0 || valueOffset < 0) {
+    return undefined;
+  }
+  return { digestOffset, length: claim.bytes.length, valueOffset };
+}
+
+/**
+ * Check one claim against its slot
+ */
+async function analyzeSlot(
+  parsed: ParsedCredential,
+  slot: CircuitSlot,
+  claim: ParsedClaim,
+  located: boolean
+): Promise<CircuitLayoutViolation[]> {
+  const layout = CIRCUIT_LAYOUT.slots[slot];
+  const name = claimKey(claim.namespace, claim.id);
+  const violations: CircuitLayoutViolation[] = [];
+  const violation = (kind: CircuitLayoutViolation['kind'], message: string) =>
+    violations.push({ kind, slot, claim: name, message });
+
+  if (claim.bytes.length > layout.size) {
+    violation(
+      'claim-size',
+      `${name} is ${claim.bytes.length} bytes; the circuit slot holds ${layout.size}`
+    );
+  }
+
+  if (!located && claim.digestIndex !== layout.digestID) {
+    violation(
+      'digest-id',
+      `${name} has digestID ${claim.digestIndex}; the circuit expects ${layout.digestID}`
+    );
+  }
+
+  // The fixed circuit reads the slot's digestID at a fixed offset: it must be
+  // there as the bstr(32) value of its key (uint or, in the circuit's own
+  // fixtures, text). A located circuit reads the claim's own digest wherever
+  // it is.
+  const msoBytes = parsed.mso.bytes;
+  const digestID = located ? claim.digestIndex : layout.digestID;
+  const listed = parsed.mso.valueDigests.get(claim.namespace)?.get(digestID);
+  const found = listed ? indexOf(msoBytes, listed) : -1;
+  const offset = located ? found : layout.digestOffset;
+  const keyed =
+    msoBytes[offset - 2] === 0x58 &&
+    msoBytes[offset - 1] === 0x20 &&
+    (msoBytes[offset - 3] === digestID ||
+      (msoBytes[offset - 4] === 0x61 && msoBytes[offset - 3] === 0x30 + digestID));
+  if (!listed) {
+    violation(
+      'digest-offset',
+      `MSO lists no digest for digestID ${digestID} in ${claim.namespace}`
+    );
+  } else if (found < 0) {
+    violation('digest-offset', `MSO digest for digestID ${digestID} is not in the MSO bytes`);
+  } else if (!located && (!keyed || found !== offset)) {
+    violation(
+      'digest-offset',
+      `MSO digest for digestID ${digestID} is at byte ${found}; the circuit reads byte ${offset}`
+    );
+  } else if (claim.bytes.length <= layout.size) {
+    // The fixed circuit hashes the whole zero-padded slot, a located one the claim's length
+    const hashed = located ? claim.bytes : new Uint8Array(layout.size);
+    hashed.set(claim.bytes);
+    if (!bytesEqual(await sha256(hashed), listed)) {
+      const isoDigest = bytesEqual(await sha256(wrapInTag24(claim.bytes)), listed);
+      violation(
+        'claim-digest',
+        `SHA-256 of the ${hashed.length}-byte ${name} ${located ? 'item' : 'slot'} ` +
+          `does not match MSO bytes ${offset}-${offset + 31}` +
+          (isoDigest
+            ? '; the issuer digests IssuerSignedItemBytes (tag 24), the circuit the bare item'
+            : '')
+      );
+    }
+  }
+
+  const valueOffset = elementValueOffset(claim.bytes);
+  if (valueOffset < 0) {
+    violation('value-position', `${name} has no elementValue`);
+  } else if (!located && valueOffset !== layout.valueOffset) {
+    violation(
+      'value-position',
+      `${name} value starts at byte ${valueOffset}; the circuit reads byte ${layout.valueOffset}`
+    );
+  }
+  if (slot === 'jurisdiction') {
+    if (typeof claim.value !== 'string' || !/^[A-Z]{2}$/.test(claim.value)) {
+      const codeOffset = (located ? valueOffset : layout.valueOffset) + 1;
+      violation(
+        'value-position',
+        `${name} is ${JSON.stringify(claim.value)}; the circuit reads a 2-letter code ` +
+          `at bytes ${codeOffset}-${codeOffset + 1}`
+      );
+    }
+  } else if (typeof claim.value !== 'boolean') {
+    violation('value-position', `${name} is not a boolean; the circuit reads true or false`);
+  }
+
+  return violations;
+}
+
+/**
+ * Offset of the elementValue encoding in an IssuerSignedItem, or -1
+ */
+function elementValueOffset(item: Uint8Array): number {
+  const key = indexOf(item, ELEMENT_VALUE_KEY);
+  return key < 0 ? -1 : key + ELEMENT_VALUE_KEY.length;
+}
+
+async function sha256(bytes: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+}
+
+function indexOf(haystack: Uint8Array, needle: Uint8Array): number {
+  outer: for (let i = 0; i + needle.length <= haystack.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) {
+        continue outer;
+      }
+    }
+    return i;
+  }
+  return -1;
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
@@ -0,0 +1,164 @@
+/**
+ * COSE_Sign1 handling for issuer-signed structures (RFC 9052, RFC 9360)
+ *
+ * issuerAuth and signed trust lists (VICAL) are COSE_Sign1 messages that
+ * carry their signer's certificate chain in the x5chain header:
+ *
+ * COSE_Sign1 = [protected: bstr, unprotected: {}, payload: bstr / nil, signature: bstr]
+ * Sig_structure = ["Signature1", protected, external_aad, payload]
+ */
+
+import { type TagDecoder, decode, encode } from 'cborg';
+import { CredentialError } from './types.js';
+import { MDOC_TAGS } from './cbor.js';
+import { type X509Certificate, importCertificateKey, parseCertificate } from './x509.js';
+
+/** COSE header labels */
+export const COSE_HEADER_ALG = 1;
+export const COSE_HEADER_X5CHAIN = 33;
+
+/** COSE ECDSA algorithms and their hashes (RFC 9053) */
+const ECDSA_ALGORITHMS: Record<number, string> = {
+  [-7]: 'SHA-256', // ES256
+  [-35]: 'SHA-384', // ES384
+  [-36]: 'SHA-512', // ES512
+};
+
+/** Tag 18 marks a COSE_Sign1; embedded tag 24 items stay as bytes */
+const COSE_TAGS: TagDecoder[] = MDOC_TAGS.slice();
+COSE_TAGS[18] = (inner: unknown) => inner;
+
+/**
+ * Decoded COSE_Sign1
+ */
+export interface CoseSign1 {
+  /** Protected header as signed (bstr) */
+  protectedHeader: Uint8Array;
+  /** Decoded protected header parameters */
+  protectedParams: Map<unknown, unknown>;
+  /** Unprotected header parameters */
+  unprotectedParams: Map<unknown, unknown>;
+  /** Payload, or null when detached */
+  payload: Uint8Array | null;
+  /** Signature (r || s for ECDSA) */
+  signature: Uint8Array;
+}
+
+/**
+ * Decode a COSE_Sign1 message (tagged 18 or untagged)
+ *
+ * @param bytes - CBOR-encoded COSE_Sign1
+ * @param what - Name of the structure, for error messages
+ * @throws CredentialError PARSE_ERROR if it is not a COSE_Sign1
+ */
+export function decodeCoseSign1(bytes: Uint8Array, what = 'COSE_Sign1'): CoseSign1 {
+  let cose: unknown;
+  try {
+    cose = decode(bytes, { useMaps: true, tags: COSE_TAGS });
+  } catch (error) {
+    throw new CredentialError(
+      `${what} is not valid CBOR: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'PARSE_ERROR'
+    );
+  }
+
+  if (!Array.isArray(cose) || cose.length !== 4) {
+    throw new CredentialError(`Invalid COSE_Sign1 structure for ${what}`, 'PARSE_ERROR');
+  }
+
+  const [protectedHeader, unprotectedParams, payload, signature] = cose;
+  if (
+    !(protectedHeader instanceof Uint8Array) ||
+    !(unprotectedParams instanceof Map) ||
+    !(payload instanceof Uint8Array || payload === null) ||
+    !(signature instanceof Uint8Array)
+  ) {
+    throw new CredentialError(`Invalid COSE_Sign1 structure for ${what}`, 'PARSE_ERROR');
+  }
+
+  return {
+    protectedHeader,
+    protectedParams: decodeProtectedHeader(protectedHeader, what),
+    unprotectedParams,
+    payload,
+    signature,
+  };
+}
+
+/**
+ * Decode protected header bytes (empty bytes are an empty map)
+ *
+ * @throws CredentialError PARSE_ERROR if the header is not a CBOR map
+ */
+export function decodeProtectedHeader(
+  protectedHeader: Uint8Array,
+  what = 'COSE_Sign1'
+): Map<unknown, unknown> {
+  if (protectedHeader.length === 0) {
+    return new Map();
+  }
+  let params: unknown;
+  try {
+    params = decode(protectedHeader, { useMaps: true });
+  } catch {
+    params = undefined;
+  }
+  if (!(params instanceof Map)) {
+    throw new CredentialError(`${what} protected header is not a map`, 'PARSE_ERROR');
+  }
+  return params;
+}
+
+/**
+ * Read and parse the x5chain header (protected first, then unprotected)
+ *
+ * @returns Certificates, signer first
+ * @throws CredentialError PARSE_ERROR if there is no chain or an entry is not DER
+ */
+export function readX5Chain(cose: CoseSign1, what = 'COSE_Sign1'): X509Certificate[] {
+  const x5chain =
+    cose.protectedParams.get(COSE_HEADER_X5CHAIN) ??
+    cose.unprotectedParams.get(COSE_HEADER_X5CHAIN);
+
+  const certificates: unknown = x5chain instanceof Uint8Array ? [x5chain] : x5chain ?? [];
+  if (!Array.isArray(certificates) || certificates.length === 0) {
+    throw new CredentialError(`No certificate chain found in ${what}`, 'PARSE_ERROR');
+  }
+
+  return certificates.map((cert) => {
+    if (!(cert instanceof Uint8Array)) {
+      throw new CredentialError('x5chain entries must be DER certificates', 'PARSE_ERROR');
+    }
+    return parseCertificate(cert);
+  });
+}
+
+/**
+ * Verify a COSE_Sign1 signature with a certificate's key
+ *
+ * @param cose - Decoded COSE_Sign1
+ * @param signer - Certificate whose key made the signature
+ * @param detachedPayload - Payload, when the message carries none
+ * @returns Whether the signature verifies
+ * @throws CredentialError NOT_SUPPORTED for algorithms other than ES256/384/512
+ */
+export async function verifyCoseSign1(
+  cose: CoseSign1,
+  signer: X509Certificate,
+  detachedPayload?: Uint8Array
+): Promise<boolean> {
+  const alg = cose.protectedParams.get(COSE_HEADER_ALG);
+  const hash = typeof alg === 'number' ? ECDSA_ALGORITHMS[alg] : undefined;
+  if (!hash) {
+    throw new CredentialError(`Unsupported COSE algorithm ${String(alg)}`, 'NOT_SUPPORTED');
+  }
+
+  const payload = cose.payload ?? detachedPayload;
+  if (!payload) {
+    throw new CredentialError('COSE_Sign1 payload is detached and was not given', 'PARSE_ERROR');
+  }
+
+  const toBeSigned = encode(['Signature1', cose.protectedHeader, new Uint8Array(0), payload]);
+  const key = await importCertificateKey(signer);
+  return crypto.subtle.verify({ name: 'ECDSA', hash }, key, cose.signature, toBeSigned);
+}
@@ -0,0 +1,539 @@
+/**
+ * Cross-device presentation (desktop browser, phone wallet)
+ *
+ * The Digital Credentials API needs the wallet on the same device. For a
+ * session started on a desktop, the backend instead runs a redirect-based
+ * OpenID4VP 1.0 flow with the request passed by reference:
+ *
+ * 1. `createCrossDeviceRequest()` (server) creates a request object
+ *    (response_type vp_token, response_mode direct_post.jwt, nonce, DCQL
+ *    query, and an ECDH key for the response in client_metadata) and returns
+ *    the QR payload `openid4vp://?client_id=...&request_uri=...`.
+ * 2. The phone wallet scans the QR code, fetches the request object from
+ *    the request URI as a JWT-secured authorization request (RFC 9101) and
+ *    POSTs its response, `vp_token` and `state` encrypted to that key as a
+ *    JWE, to the response URI. Both are served by `handleCrossDeviceRequest()`.
+ * 3. The desktop polls the backend, which reads the outcome with
+ *    `getCrossDevicePresentation()`.
+ *
+ * The DeviceResponse in the vp_token signs the OpenID4VPHandover
+ * SessionTranscript over the request's client_id, nonce, response_uri and
+ * the thumbprint of the encryption key, so a presentation made for another
+ * request or encrypted to another key is rejected.
+ *
+ * Transactions are kept in a CrossDeviceStore: in memory on the creating
+ * process by default, or a shared store when several processes serve the
+ * endpoints. They are plain data, the response decryption key included.
+ *
+ * Reference: OpenID for Verifiable Presentations 1.0, 5.1 (client_metadata),
+ * 5.7 (request_uri), 8.3 (direct_post.jwt), Appendix B.2.6.1
+ */
+
+import {
+  type ClaimType,
+  type CredentialErrorCode,
+  type NullifierStrategy,
+  type OpenID4VPRequestSigner,
+  type RawCredentialResponse,
+  CredentialError,
+} from './types.js';
+import type { CompletedPresentation } from './presentation.js';
+import {
+  type DCQLQuery,
+  type OpenID4VPRequestObject,
+  buildDCQLQuery,
+  buildOpenID4VPHandoverSessionTranscript,
+  parseOpenID4VPResponse,
+} from './openid4vp.js';
+import { verifyDeviceAuth } from './device-auth.js';
+import { parseCredential } from './parse.js';
+import { type JweEncryption, computeJwkThumbprint, decryptJwe } from './jwe.js';
+import { toBase64Url } from './encoding.js';
+
+/** URI scheme wallets register for OpenID4VP requests */
+const QR_SCHEME = 'openid4vp://';
+
+/** Media type of a JWT-secured authorization request (RFC 9101) */
+const REQUEST_OBJECT_TYPE = 'oauth-authz-req+jwt';
+
+/** Audience of a request object for a wallet without metadata (OpenID4VP 5.8) */
+const SELF_ISSUED_AUDIENCE = 'https://self-issued.me/v2';
+
+/** How long a cross-device request can be answered, by default */
+const DEFAULT_TTL_SECONDS = 300;
+
+/** Content encryption accepted for responses */
+const RESPONSE_ENCRYPTION: JweEncryption[] = ['A128GCM', 'A256GCM'];
+
+/** Statuses in which the wallet can still answer */
+const OPEN_STATUSES: CrossDeviceTransactionState['status'][] = ['pending', 'request_retrieved'];
+
+/**
+ * Options for creating a cross-device presentation request
+ */
+export interface CrossDeviceRequestOptions {
+  /** Which claims to request from the wallet */
+  claims: ClaimType[];
+  /**
+   * Public URL handleCrossDeviceRequest is mounted at, e.g.
+   * "https://verifier.example/mdoc"
+   */
+  baseUrl: string;
+  /**
+   * Verifier client_id, e.g. `x509_san_dns:verifier.example`; requires
+   * signRequest. Defaults to `redirect_uri:<response URI>` with an unsigned
+   * request object.
+   */
+  clientId?: string;
+  /** Signs the request object, required with clientId */
+  signRequest?: OpenID4VPRequestSigner;
+  /** Document type to request (defaults to `org.iso.18013.5.1.mDL`) */
+  docType?: string;
+  /** Nullifier strategy (defaults to the document type's; see nullifier.ts) */
+  nullifierStrategy?: NullifierStrategy;
+  /** Seconds the request stays answerable (defaults to 300) */
+  ttlSeconds?: number;
+  /** Where the transaction is kept (defaults to this process's memory) */
+  store?: CrossDeviceStore;
+}
+
+/**
+ * Cross-device request, to be shown to the user as a QR code
+ */
+export interface CrossDeviceRequest {
+  /** Transaction id; keep it to poll for the result */
+  transactionId: string;
+  /** Where the wallet fetches the request object */
+  requestUri: string;
+  /** Where the wallet posts its response */
+  responseUri: string;
+  /** Text to encode in the QR code (or use as a same-device link) */
+  qrPayload: string;
+  /** When the request stops being accepted */
+  expiresAt: Date;
+}
+
+/**
+ * Request object served, as a JWT, at the request URI
+ */
+export interface CrossDeviceRequestObject extends OpenID4VPRequestObject {
+  response_mode: 'direct_post.jwt';
+  dcql_query: DCQLQuery;
+  response_uri: string;
+  client_metadata: CrossDeviceClientMetadata;
+  /** Transaction id, echoed back by the wallet */
+  state: string;
+  aud: string;
+}
+
+/**
+ * Verifier metadata sent in the request object
+ */
+export interface CrossDeviceClientMetadata {
+  /** The ECDH-ES P-256 key to encrypt the response to */
+  jwks: { keys: JsonWebKey[] };
+  encrypted_response_enc_values_supported: JweEncryption[];
+}
+
+/**
+ * Outcome of a cross-device transaction
+ */
+export type CrossDeviceStatus =
+  | { status: 'pending' }
+  | { status: 'request_retrieved' }
+  | { status: 'processing' }
+  | { status: 'completed'; presentation: CompletedPresentation }
+  | { status: 'failed'; error: CredentialError };
+
+/**
+ * Transaction state as stored: plain data, read back as a CrossDeviceStatus
+ */
+export type CrossDeviceTransactionState =
+  | { status: 'pending' }
+  | { status: 'request_retrieved' }
+  /** A wallet response claimed the transaction and is being verified */
+  | { status: 'processing' }
+  | { status: 'completed'; credential: RawCredentialResponse }
+  | { status: 'failed'; code: CredentialErrorCode; message: string };
+
+/**
+ * Transaction kept until the wallet responds and the result is read
+ */
+export interface CrossDeviceTransaction {
+  requestObject: CrossDeviceRequestObject;
+  /** Request object JWT, as served to the wallet */
+  request: string;
+  /** ECDH private key the response is encrypted to */
+  responseKey: JsonWebKey;
+  nullifierStrategy?: NullifierStrategy;
+  state: CrossDeviceTransactionState;
+  /** Epoch milliseconds after which the wallet can no longer answer */
+  expiresAt: number;
+}
+
+/**
+ * Storage for cross-device transactions
+ *
+ * Every process serving the endpoints or polling must share one.
+ * Transactions are plain data (byte strings included), so a store that
+ * leaves the process can serialize them as CBOR or with structuredClone.
+ */
+export interface CrossDeviceStore {
+  get(transactionId: string): Promise<CrossDeviceTransaction | undefined>;
+  set(transactionId: string, transaction: CrossDeviceTransaction): Promise<void>;
+  /**
+   * Replace the transaction's state if its status is one of `from`, in one
+   * atomic step (compare-and-set). A wallet response claims the transaction
+   * this way, so two concurrent responses cannot both complete it.
+   * @returns Whether the state was replaced
+   */
+  transition(
+    transactionId: string,
+    from: CrossDeviceTransactionState['status'][],
+    state: CrossDeviceTransactionState
+  ): Promise<boolean>;
+  delete(transactionId: string): Promise<void>;
+}
+
+/**
+ * Create a store that keeps transactions in this process's memory
+ *
+ * Expired transactions nobody read are dropped as new ones are added.
+ */
+export function createMemoryCrossDeviceStore(): CrossDeviceStore {
+  const transactions = new Map<string, CrossDeviceTransaction>();
+
+  return {
+    async get(transactionId) {
+      return transactions.get(transactionId);
+    },
+    async set(transactionId, transaction) {
+      const now = Date.now();
+      for (const [id, stored] of transactions) {
+        if (stored.expiresAt <= now) {
+          transactions.delete(id);
+        }
+      }
+      transactions.set(transactionId, transaction);
+    },
+    async transition(transactionId, from, state) {
+      const transaction = transactions.get(transactionId);
+      if (!transaction || !from.includes(transaction.state.status)) {
+        return false;
+      }
+      transactions.set(transactionId, { ...transaction, state });
+      return true;
+    },
+    async delete(transactionId) {
+      transactions.delete(transactionId);
+    },
+  };
+}
+
+/** Store used when none is passed */
+const defaultStore = createMemoryCrossDeviceStore();
+
+/**
+ * Create a cross-device presentation request (backend)
+ *
+ * @param options - Claims, public endpoint URL and request settings
+ * @returns Request and QR payload for the desktop page
+ * @throws CredentialError NOT_SUPPORTED for a clientId without signRequest
+ */
+export async function createCrossDeviceRequest(
+  options: CrossDeviceRequestOptions
+): Promise<CrossDeviceRequest> {
+  if (Boolean(options.clientId) !== Boolean(options.signRequest)) {
+    throw new CredentialError(
+      'Cross-device requests take clientId and signRequest together',
+      'NOT_SUPPORTED'
+    );
+  }
+
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const transactionId = toBase64Url(crypto.getRandomValues(new Uint8Array(16)));
+  const requestUri = `${baseUrl}/request/${transactionId}`;
+  const responseUri = `${baseUrl}/response/${transactionId}`;
+  const clientId = options.clientId ?? `redirect_uri:${responseUri}`;
+  const expiresAt = Date.now() + (options.ttlSeconds ?? DEFAULT_TTL_SECONDS) * 1000;
+
+  // A fresh key per transaction for the wallet to encrypt its response to
+  const responseKeyPair = await crypto.subtle.generateKey(
+    { name: 'ECDH', namedCurve: 'P-256' },
+    true,
+    ['deriveBits']
+  );
+  const { kty, crv, x, y } = await crypto.subtle.exportKey('jwk', responseKeyPair.publicKey);
+
+  const requestObject: CrossDeviceRequestObject = {
+    response_type: 'vp_token',
+    response_mode: 'direct_post.jwt',
+    client_id: clientId,
+    response_uri: responseUri,
+    nonce: toBase64Url(crypto.getRandomValues(new Uint8Array(16))),
+    state: transactionId,
+    aud: SELF_ISSUED_AUDIENCE,
+    dcql_query: buildDCQLQuery(options.claims, options.docType, options.nullifierStrategy),
+    client_metadata: {
+      jwks: { keys: [{ kty, crv, x, y, use: 'enc', alg: 'ECDH-ES' }] },
+      encrypted_response_enc_values_supported: RESPONSE_ENCRYPTION,
+    },
+  };
+  // redirect_uri client ids cannot sign (OpenID4VP 5.9.3): an unsecured JWT
+  const request = options.signRequest
+    ? await options.signRequest(requestObject)
+    : unsecuredJwt(requestObject);
+
+  await (options.store ?? defaultStore).set(transactionId, {
+    requestObject,
+    request,
+    responseKey: await crypto.subtle.exportKey('jwk', responseKeyPair.privateKey),
+    nullifierStrategy: options.nullifierStrategy,
+    state: { status: 'pending' },
+    expiresAt,
+  });
+
+  const query = new URLSearchParams({ client_id: clientId, request_uri: requestUri });
+
+  return {
+    transactionId,
+    requestUri,
+    responseUri,
+    qrPayload: `${QR_SCHEME}?${query}`,
+    expiresAt: new Date(expiresAt),
+  };
+}
+
+/**
+ * Serve the wallet-facing endpoints (backend)
+ *
+ * Mount at the `baseUrl` given to createCrossDeviceRequest. Handles
+ * `GET <baseUrl>/request/<id>` (the request object JWT) and
+ * `POST <baseUrl>/response/<id>` (form-encoded `response`, the JWE of
+ * `vp_token` and `state`, or `error` and `state` if the user declined).
+ *
+ * @param request - Fetch API request (Node 18+, Deno, Bun, workers)
+ * @param store - Store the transaction was created in
+ * @returns Fetch API response for the wallet
+ */
+export async function handleCrossDeviceRequest(
+  request: Request,
+  store: CrossDeviceStore = defaultStore
+): Promise<Response> {
+  const [endpoint, transactionId] = new URL(request.url).pathname.split('/').slice(-2);
+  if (endpoint !== 'request' && endpoint !== 'response') {
+    return errorResponse(404, 'invalid_request', 'Unknown endpoint');
+  }
+
+  const transaction = await store.get(transactionId);
+  if (!transaction || transaction.expiresAt <= Date.now()) {
+    return errorResponse(404, 'invalid_request', 'Unknown or expired transaction');
+  }
+
+  if (endpoint === 'request') {
+    if (request.method !== 'GET') {
+      return errorResponse(405, 'invalid_request', 'Use GET');
+    }
+    await store.transition(transactionId, ['pending'], { status: 'request_retrieved' });
+    return new Response(transaction.request, {
+      headers: { 'content-type': `application/${REQUEST_OBJECT_TYPE}` },
+    });
+  }
+
+  if (request.method !== 'POST') {
+    return errorResponse(405, 'invalid_request', 'Use POST');
+  }
+  if (!OPEN_STATUSES.includes(transaction.state.status)) {
+    return errorResponse(400, 'invalid_request', 'Transaction already answered');
+  }
+
+  let response: AuthorizationResponse;
+  try {
+    response = await readAuthorizationResponse(
+      new URLSearchParams(await request.text()),
+      transaction
+    );
+  } catch (error) {
+    return errorResponse(400, 'invalid_request', errorMessage(error));
+  }
+  if (response.state !== transactionId) {
+    return errorResponse(400, 'invalid_request', 'state does not match the request');
+  }
+
+  if (!(await store.transition(transactionId, OPEN_STATUSES, { status: 'processing' }))) {
+    return errorResponse(400, 'invalid_request', 'Transaction already answered');
+  }
+
+  let state: CrossDeviceTransactionState;
+  try {
+    state = { status: 'completed', credential: await verifyPresentation(response, transaction) };
+  } catch (error) {
+    state =
+      error instanceof CredentialError
+        ? { status: 'failed', code: error.code, message: error.message }
+        : {
+            status: 'failed',
+            code: 'PARSE_ERROR',
+            message: `Invalid wallet response: ${errorMessage(error)}`,
+          };
+  }
+  await store.transition(transactionId, ['processing'], state);
+
+  if (state.status === 'failed') {
+    return errorResponse(400, 'invalid_request', state.message);
+  }
+  return Response.json({});
+}
+
+/**
+ * Read the outcome of a cross-device transaction (backend)
+ *
+ * Completed and failed outcomes are returned once, then forgotten.
+ *
+ * @param transactionId - Id from createCrossDeviceRequest
+ * @param store - Store the transaction was created in
+ * @throws CredentialError SESSION_EXPIRED for unknown, read or expired transactions
+ */
+export async function getCrossDevicePresentation(
+  transactionId: string,
+  store: CrossDeviceStore = defaultStore
+): Promise<CrossDeviceStatus> {
+  const transaction = await store.get(transactionId);
+  const { state } = transaction ?? {};
+  const finished = state?.status === 'completed' || state?.status === 'failed';
+  if (!transaction || !state || (transaction.expiresAt <= Date.now() && !finished)) {
+    await store.delete(transactionId);
+    throw new CredentialError(
+      'Cross-device transaction is unknown, already read or expired',
+      'SESSION_EXPIRED'
+    );
+  }
+
+  switch (state.status) {
+    case 'completed':
+      await store.delete(transactionId);
+      return {
+        status: 'completed',
+        presentation: {
+          credential: state.credential,
+          parsed: parseCredential(state.credential, {
+            nullifierStrategy: transaction.nullifierStrategy,
+          }),
+        },
+      };
+    case 'failed':
+      await store.delete(transactionId);
+      return { status: 'failed', error: new CredentialError(state.message, state.code) };
+    default:
+      return { status: state.status };
+  }
+}
+
+/**
+ * Authorization response parameters, decrypted
+ */
+interface AuthorizationResponse {
+  state?: string;
+  vp_token?: unknown;
+  error?: string;
+  error_description?: string;
+}
+
+/**
+ * Decode a direct_post.jwt body: the decrypted `response` JWE, or the plain
+ * error parameters a wallet sends when it declines
+ */
+async function readAuthorizationResponse(
+  body: URLSearchParams,
+  transaction: CrossDeviceTransaction
+): Promise<AuthorizationResponse> {
+  const error = body.get('error');
+  if (error) {
+    return {
+      error,
+      error_description: body.get('error_description') ?? undefined,
+      state: body.get('state') ?? undefined,
+    };
+  }
+
+  const jwe = body.get('response');
+  if (!jwe) {
+    throw new CredentialError(
+      'Expected an encrypted authorization response (direct_post.jwt)',
+      'PARSE_ERROR'
+    );
+  }
+
+  const privateKey = await crypto.subtle.importKey(
+    'jwk',
+    transaction.responseKey,
+    { name: 'ECDH', namedCurve: 'P-256' },
+    false,
+    ['deriveBits']
+  );
+  const { plaintext } = await decryptJwe(jwe, privateKey);
+  try {
+    return JSON.parse(new TextDecoder().decode(plaintext));
+  } catch {
+    throw new CredentialError('Authorization response is not valid JSON', 'PARSE_ERROR');
+  }
+}
+
+/**
+ * Check the vp_token's DeviceAuth against this request and parse it
+ */
+async function verifyPresentation(
+  response: AuthorizationResponse,
+  transaction: CrossDeviceTransaction
+): Promise<RawCredentialResponse> {
+  if (response.error) {
+    throw new CredentialError(
+      `Wallet returned ${response.error}: ${response.error_description ?? 'no description'}`,
+      response.error === 'access_denied' ? 'USER_CANCELLED' : 'WALLET_ERROR'
+    );
+  }
+  if (!response.vp_token) {
+    throw new CredentialError('No vp_token in the authorization response', 'PARSE_ERROR');
+  }
+
+  const { requestObject } = transaction;
+  const credential = parseOpenID4VPResponse(
+    { vp_token: response.vp_token },
+    requestObject.dcql_query.credentials[0].meta.doctype_value
+  );
+  await verifyDeviceAuth(credential, {
+    sessionTranscript: await buildOpenID4VPHandoverSessionTranscript(
+      requestObject.client_id,
+      requestObject.nonce,
+      requestObject.response_uri,
+      await computeJwkThumbprint(transaction.responseKey)
+    ),
+  });
+
+  // Fail now, not when the result is read, if it cannot be parsed
+  parseCredential(credential, { nullifierStrategy: transaction.nullifierStrategy });
+  return credential;
+}
+
+/**
+ * Message of a thrown value
+ */
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/**
+ * Unsecured JWT (alg "none") carrying a request object
+ */
+function unsecuredJwt(payload: CrossDeviceRequestObject): string {
+  const encodeJson = (value: unknown) =>
+    toBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+  return `${encodeJson({ alg: 'none', typ: REQUEST_OBJECT_TYPE })}.${encodeJson(payload)}.`;
+}
+
+/**
+ * OAuth-style error response for the wallet
+ */
+function errorResponse(status: number, error: string, description: string): Response {
+  return Response.json({ error, error_description: description }, { status });
+}
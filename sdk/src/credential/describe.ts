@@ -0,0 +1,273 @@
+/**
+ * Redacted credential diagnostics
+ *
+ * A Credential or ParsedCredential holds the document number and every
+ * disclosed claim, so it must never be logged. describeCredential() reports
+ * what support needs to tell why a proof fails without any of that: sizes,
+ * digestIDs, the doctype, validity dates, the Document Signer, the issuer
+ * signature and circuit layout verdicts, and fingerprints in place of bytes.
+ *
+ * The MSO and every IssuerSignedItem are the same bytes each time a holder
+ * presents the credential, so a plain hash of them would identify the holder
+ * across reports. Fingerprints are therefore truncated SHA-256 under a random
+ * salt drawn for each report: they match within one report and nowhere else.
+ * The MSO gets its length only, and the nullifier input, which a short
+ * document number makes guessable, is never hashed into the report. Layout
+ * violation messages quote values (e.g. the jurisdiction), so only their
+ * kind, slot and claim are kept. Every field is a string, number or boolean,
+ * so the report can go straight into JSON.stringify and a bug report.
+ */
+
+import type {
+  ElementError,
+  NullifierStrategy,
+  ParsedCredential,
+} from './types.js';
+import {
+  type CircuitLayoutOptions,
+  type CircuitLayoutViolation,
+  type CircuitSlot,
+  CIRCUIT_LAYOUT,
+  analyzeCircuitLayout,
+} from './circuit-layout.js';
+import { verifyIssuerSigned } from './issuer-auth.js';
+import { claimKey } from './elements.js';
+import type { Credential } from '../prover/types.js';
+
+/** Hex characters kept of each SHA-256 fingerprint */
+const FINGERPRINT_LENGTH = 16;
+
+/**
+ * Size and fingerprint of a byte string
+ */
+export interface BytesSummary {
+  length: number;
+  /** First 8 bytes of SHA-256 under this report's salt, hex */
+  fingerprint: string;
+}
+
+/**
+ * One disclosed claim, without its value
+ */
+export interface ClaimSummary extends BytesSummary {
+  /** Claim key (`namespace:identifier`) */
+  claim: string;
+  digestID: number;
+  /** Type of the decoded value, e.g. "boolean", "Date", "bytes" */
+  valueType: string;
+  /** Result of checking the item against its MSO digest */
+  digest: 'valid' | 'mismatch' | 'missing';
+}
+
+/**
+ * One circuit claim buffer of a prover Credential
+ */
+export interface SlotSummary extends BytesSummary {
+  slot: CircuitSlot;
+  /** SHA-256 of the claim matches the MSO bytes where the circuit reads it */
+  digestMatches: boolean;
+}
+
+/**
+ * Result of describeCredential
+ */
+export interface CredentialReport {
+  /** Whether a ParsedCredential or a prover Credential was described */
+  source: 'parsed' | 'prover';
+  /** MSO length (zero-padded for a prover Credential) */
+  mso: { length: number };
+  docType?: string;
+  digestAlgorithm?: string;
+  /** MSO validityInfo, ISO 8601 */
+  validity?: {
+    signed: string;
+    validFrom: string;
+    validUntil: string;
+    expectedUpdate?: string;
+  };
+  /** Document Signer certificate (first x5chain entry) */
+  documentSigner?: {
+    subject: string;
+    issuer: string;
+    serialNumber: string;
+    notAfter: string;
+  };
+  certificateChainLength?: number;
+  /** Nullifier strategy and source element; never the input itself */
+  nullifier: {
+    strategy?: NullifierStrategy;
+    element?: string;
+  };
+  /** Disclosed claims in parse order (ParsedCredential only) */
+  claims?: ClaimSummary[];
+  /** Elements the wallet reported as not returned */
+  elementErrors?: ElementError[];
+  /** Issuer signature verdict (ParsedCredential only) */
+  issuerSigned?: {
+    signatureValid: boolean;
+    error?: string;
+  };
+  /** Circuit claim buffers (prover Credential only) */
+  slots?: SlotSummary[];
+  /** Whether the circuit can prove this credential, and why not */
+  circuitLayout: {
+    compatible: boolean;
+    violations: Array<Pick<CircuitLayoutViolation, 'kind' | 'slot' | 'claim'>>;
+  };
+}
+
+/**
+ * Describe a credential without revealing any claim value
+ *
+ * @param credential - From parseCredential, or the prover Credential from
+ *   toProverCredential / Thurin.requestCredential
+ * @param options - Which kind of circuit to check the layout against
+ *   (ParsedCredential only; a prover Credential carries its layout)
+ */
+export async function describeCredential(
+  credential: ParsedCredential | Credential,
+  options: CircuitLayoutOptions = {}
+): Promise<CredentialReport> {
+  return 'mso' in credential
+    ? describeParsedCredential(credential, options)
+    : describeProverCredential(credential);
+}
+
+async function describeParsedCredential(
+  parsed: ParsedCredential,
+  options: CircuitLayoutOptions
+): Promise<CredentialReport> {
+  const { mso, certificateChain } = parsed;
+  const [documentSigner] = certificateChain;
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const issuerSigned = await verifyIssuerSigned(parsed);
+  const digestStatus = new Map(issuerSigned.claims.map((check) => [check.claim, check.status]));
+
+  const claims: ClaimSummary[] = [];
+  for (const claim of parsed.claims.values()) {
+    const key = claimKey(claim.namespace, claim.id);
+    claims.push({
+      claim: key,
+      digestID: claim.digestIndex,
+      ...(await summarize(claim.bytes, salt)),
+      valueType: describeType(claim.value),
+      digest: digestStatus.get(key) ?? 'missing',
+    });
+  }
+
+  const layout = await analyzeCircuitLayout(parsed, options);
+
+  return {
+    source: 'parsed',
+    mso: { length: mso.bytes.length },
+    docType: mso.docType,
+    digestAlgorithm: mso.digestAlgorithm,
+    validity: {
+      signed: mso.validityInfo.signed.toISOString(),
+      validFrom: mso.validityInfo.validFrom.toISOString(),
+      validUntil: mso.validityInfo.validUntil.toISOString(),
+      expectedUpdate: mso.validityInfo.expectedUpdate?.toISOString(),
+    },
+    documentSigner: documentSigner && {
+      subject: documentSigner.subject.text,
+      issuer: documentSigner.issuer.text,
+      serialNumber: documentSigner.serialNumber,
+      notAfter: documentSigner.validity.notAfter.toISOString(),
+    },
+    certificateChainLength: certificateChain.length,
+    nullifier: { ...parsed.nullifierSource },
+    claims,
+    elementErrors: parsed.elementErrors,
+    issuerSigned: {
+      signatureValid: issuerSigned.signatureValid,
+      error: issuerSigned.issuerAuthError,
+    },
+    circuitLayout: {
+      compatible: layout.compatible,
+      violations: layout.violations.map(({ kind, slot, claim }) => ({ kind, slot, claim })),
+    },
+  };
+}
+
+/**
+ * Describe the prover's view: repeat the circuit's digest checks on the
+ * claim buffers, at the fixed offsets or at the credential's located ones
+ */
+async function describeProverCredential(credential: Credential): Promise<CredentialReport> {
+  const buffers: Record<CircuitSlot, Uint8Array> = {
+    ageOver21: credential.ageOver21ClaimBytes,
+    jurisdiction: credential.stateClaimBytes,
+    ageOver18: credential.ageOver18ClaimBytes,
+  };
+  const located = credential.layout && {
+    ageOver21: credential.layout.ageOver21,
+    jurisdiction: credential.layout.state,
+    ageOver18: credential.layout.ageOver18,
+  };
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const slots: SlotSummary[] = [];
+  for (const slot of Object.keys(buffers) as CircuitSlot[]) {
+    const bytes = buffers[slot];
+    const digestOffset = located?.[slot].digestOffset ?? CIRCUIT_LAYOUT.slots[slot].digestOffset;
+    const hashed = located ? bytes.subarray(0, located[slot].length) : bytes;
+    const expected = credential.msoBytes.subarray(digestOffset, digestOffset + 32);
+    slots.push({
+      slot,
+      ...(await summarize(bytes, salt)),
+      digestMatches: bytesEqual(await sha256(hashed), expected),
+    });
+  }
+
+  const violations = slots
+    .filter((slot) => !slot.digestMatches)
+    .map(({ slot }) => ({ kind: 'claim-digest' as const, slot }));
+
+  return {
+    source: 'prover',
+    mso: { length: credential.msoBytes.length },
+    nullifier: { strategy: credential.nullifierStrategy },
+    slots,
+    circuitLayout: { compatible: violations.length === 0, violations },
+  };
+}
+
+async function summarize(bytes: Uint8Array, salt: Uint8Array): Promise<BytesSummary> {
+  const salted = new Uint8Array(salt.length + bytes.length);
+  salted.set(salt);
+  salted.set(bytes, salt.length);
+  const digest = await sha256(salted);
+  const hex = Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return { length: bytes.length, fingerprint: hex.slice(0, FINGERPRINT_LENGTH) };
+}
+
+/**
+ * Name the type of a decoded value (never the value)
+ */
+function describeType(value: unknown): string {
+  if (value instanceof Uint8Array) {
+    return 'bytes';
+  }
+  if (value instanceof Date) {
+    return 'Date';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (value === null) {
+    return 'null';
+  }
+  if (typeof value === 'object' && 'mimeType' in value) {
+    return `image (${String(value.mimeType)})`;
+  }
+  return typeof value;
+}
+
+async function sha256(bytes: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
@@ -0,0 +1,312 @@
+/**
+ * ISO 18013-5 device authentication (DeviceAuth)
+ *
+ * IssuerSigned data proves what the issuer said but can be replayed by
+ * anyone who has seen it. DeviceAuth proves the response was produced for
+ * this session by the device holding the MSO's deviceKey. The device signs
+ * or MACs a detached payload:
+ *
+ * DeviceAuthentication = [
+ *   "DeviceAuthentication",
+ *   SessionTranscript,
+ *   DocType,
+ *   DeviceNameSpacesBytes        // #6.24(bstr .cbor DeviceNameSpaces)
+ * ]
+ * DeviceAuthenticationBytes = #6.24(bstr .cbor DeviceAuthentication)
+ *
+ * - deviceSignature: COSE_Sign1 (ES256) with the device key
+ * - deviceMac: COSE_Mac0 (HMAC 256/256) with EMacKey, derived by ECDH between
+ *   the device key and the reader's ephemeral key
+ *
+ * Reference: ISO 18013-5 clause 9.1.3
+ */
+
+import { decode, encode } from 'cborg';
+import { type RawCredentialResponse, CredentialError } from './types.js';
+import { parseMSO } from './parse.js';
+import { wrapInTag24 } from './device-request.js';
+import { concatBytes } from './encoding.js';
+
+// COSE header labels and algorithm identifiers (RFC 9052 / RFC 9053)
+const COSE_HEADER_ALG = 1;
+const COSE_ALG_ES256 = -7;
+const COSE_ALG_HMAC_256 = 5;
+
+/**
+ * Session context a DeviceResponse is verified against
+ */
+export interface DeviceAuthContext {
+  /** CBOR-encoded SessionTranscript of the presentation */
+  sessionTranscript: Uint8Array;
+  /** Reader's ephemeral ECDH private key; needed to check a deviceMac */
+  readerPrivateKey?: CryptoKey;
+}
+
+/**
+ * Verify the DeviceAuth of a document against the MSO's deviceKey
+ *
+ * @param raw - Credential response including deviceSigned
+ * @param context - SessionTranscript (and reader key for deviceMac)
+ * @returns Which mechanism the device used
+ * @throws CredentialError DEVICE_AUTH_FAILED if deviceSigned is missing or
+ *   does not verify
+ */
+export async function verifyDeviceAuth(
+  raw: RawCredentialResponse,
+  context: DeviceAuthContext
+): Promise<'deviceSignature' | 'deviceMac'> {
+  const mso = parseMSO(raw.issuerAuth);
+
+  if (!raw.deviceSigned) {
+    throw new CredentialError(
+      'Document has no deviceSigned; the presentation is not bound to this session',
+      'DEVICE_AUTH_FAILED'
+    );
+  }
+  if (!mso.deviceKey) {
+    throw new CredentialError('MSO has no deviceKeyInfo', 'DEVICE_AUTH_FAILED');
+  }
+
+  const { deviceSignature, deviceMac, nameSpaces } = raw.deviceSigned;
+  const deviceAuthenticationBytes = buildDeviceAuthenticationBytes(
+    context.sessionTranscript,
+    mso.docType,
+    nameSpaces
+  );
+  const devicePublicKey = concatBytes([
+    new Uint8Array([0x04]),
+    mso.deviceKey.x,
+    mso.deviceKey.y,
+  ]);
+
+  if (deviceSignature) {
+    const [protectedHeader, signature] = readDetachedCose(deviceSignature, COSE_ALG_ES256);
+    const toBeSigned = encode([
+      'Signature1',
+      protectedHeader,
+      new Uint8Array(0),
+      deviceAuthenticationBytes,
+    ]);
+
+    const key = await crypto.subtle.importKey(
+      'raw',
+      devicePublicKey,
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+    const valid = await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      key,
+      signature,
+      toBeSigned
+    );
+    if (!valid) {
+      throw new CredentialError('DeviceSignature does not verify', 'DEVICE_AUTH_FAILED');
+    }
+    return 'deviceSignature';
+  }
+
+  if (deviceMac) {
+    if (!context.readerPrivateKey) {
+      throw new CredentialError(
+        'DeviceMac needs the reader private key to verify',
+        'DEVICE_AUTH_FAILED'
+      );
+    }
+    const [protectedHeader, tag] = readDetachedCose(deviceMac, COSE_ALG_HMAC_256);
+    const toBeMaced = encode([
+      'MAC0',
+      protectedHeader,
+      new Uint8Array(0),
+      deviceAuthenticationBytes,
+    ]);
+
+    const macKey = await deriveEMacKey(
+      context.readerPrivateKey,
+      devicePublicKey,
+      context.sessionTranscript
+    );
+    if (!(await crypto.subtle.verify('HMAC', macKey, tag, toBeMaced))) {
+      throw new CredentialError('DeviceMac does not verify', 'DEVICE_AUTH_FAILED');
+    }
+    return 'deviceMac';
+  }
+
+  throw new CredentialError(
+    'deviceAuth has neither deviceSignature nor deviceMac',
+    'DEVICE_AUTH_FAILED'
+  );
+}
+
+/**
+ * Build DeviceAuthenticationBytes
+ *
+ * The SessionTranscript is embedded as a CBOR data item (not a bstr), so the
+ * array is assembled from pre-encoded parts to keep its bytes intact.
+ *
+ * @param sessionTranscript - CBOR-encoded SessionTranscript
+ * @param docType - Document type from the MSO
+ * @param deviceNameSpaces - CBOR-encoded DeviceNameSpaces (untagged)
+ */
+export function buildDeviceAuthenticationBytes(
+  sessionTranscript: Uint8Array,
+  docType: string,
+  deviceNameSpaces: Uint8Array
+): Uint8Array {
+  const deviceAuthentication = concatBytes([
+    new Uint8Array([0x84]), // array(4)
+    encode('DeviceAuthentication'),
+    sessionTranscript,
+    encode(docType),
+    wrapInTag24(deviceNameSpaces),
+  ]);
+
+  return wrapInTag24(deviceAuthentication);
+}
+
+/**
+ * Produce a deviceSignature, as a wallet would (wallets and test wallets)
+ *
+ * @param devicePrivateKey - ECDSA P-256 key matching the MSO deviceKey
+ * @param sessionTranscript - CBOR-encoded SessionTranscript
+ * @param docType - Document type
+ * @param deviceNameSpaces - CBOR-encoded DeviceNameSpaces (defaults to empty)
+ * @returns CBOR-encoded COSE_Sign1 with a null (detached) payload
+ */
+export async function signDeviceAuthentication(
+  devicePrivateKey: CryptoKey,
+  sessionTranscript: Uint8Array,
+  docType: string,
+  deviceNameSpaces: Uint8Array = encode({})
+): Promise<Uint8Array> {
+  const protectedHeader = encode(new Map([[COSE_HEADER_ALG, COSE_ALG_ES256]]));
+  const toBeSigned = encode([
+    'Signature1',
+    protectedHeader,
+    new Uint8Array(0),
+    buildDeviceAuthenticationBytes(sessionTranscript, docType, deviceNameSpaces),
+  ]);
+
+  // WebCrypto ECDSA already returns the IEEE P1363 (r || s) form COSE uses
+  const signature = new Uint8Array(
+    await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, devicePrivateKey, toBeSigned)
+  );
+
+  return encode([protectedHeader, new Map(), null, signature]);
+}
+
+/**
+ * Produce a deviceMac, as a wallet would (wallets and test wallets)
+ *
+ * @param devicePrivateKey - ECDH P-256 key matching the MSO deviceKey
+ * @param readerPublicKey - Reader's ephemeral public key (uncompressed point)
+ * @param sessionTranscript - CBOR-encoded SessionTranscript
+ * @param docType - Document type
+ * @param deviceNameSpaces - CBOR-encoded DeviceNameSpaces (defaults to empty)
+ * @returns CBOR-encoded COSE_Mac0 with a null (detached) payload
+ */
+export async function macDeviceAuthentication(
+  devicePrivateKey: CryptoKey,
+  readerPublicKey: Uint8Array,
+  sessionTranscript: Uint8Array,
+  docType: string,
+  deviceNameSpaces: Uint8Array = encode({})
+): Promise<Uint8Array> {
+  const protectedHeader = encode(new Map([[COSE_HEADER_ALG, COSE_ALG_HMAC_256]]));
+  const toBeMaced = encode([
+    'MAC0',
+    protectedHeader,
+    new Uint8Array(0),
+    buildDeviceAuthenticationBytes(sessionTranscript, docType, deviceNameSpaces),
+  ]);
+
+  const macKey = await deriveEMacKey(devicePrivateKey, readerPublicKey, sessionTranscript);
+  const tag = new Uint8Array(await crypto.subtle.sign('HMAC', macKey, toBeMaced));
+
+  return encode([protectedHeader, new Map(), null, tag]);
+}
+
+/**
+ * Decode a COSE_Sign1/COSE_Mac0 with a detached payload
+ *
+ * @returns Protected header bytes and the signature or tag
+ */
+function readDetachedCose(
+  coseBytes: Uint8Array,
+  expectedAlg: number
+): [Uint8Array, Uint8Array] {
+  let cose: unknown;
+  try {
+    cose = decode(coseBytes, { useMaps: true });
+  } catch {
+    throw new CredentialError('deviceAuth is not valid CBOR', 'DEVICE_AUTH_FAILED');
+  }
+
+  if (!Array.isArray(cose) || cose.length !== 4) {
+    throw new CredentialError('deviceAuth is not a COSE structure', 'DEVICE_AUTH_FAILED');
+  }
+
+  const [protectedHeader, , payload, signature] = cose;
+  if (payload !== null) {
+    throw new CredentialError('deviceAuth payload must be detached', 'DEVICE_AUTH_FAILED');
+  }
+  if (!(protectedHeader instanceof Uint8Array) || !(signature instanceof Uint8Array)) {
+    throw new CredentialError('deviceAuth is not a COSE structure', 'DEVICE_AUTH_FAILED');
+  }
+
+  const alg =
+    protectedHeader.length > 0
+      ? decode(protectedHeader, { useMaps: true }).get(COSE_HEADER_ALG)
+      : undefined;
+  if (alg !== expectedAlg) {
+    throw new CredentialError(
+      `Unsupported deviceAuth algorithm ${alg}`,
+      'DEVICE_AUTH_FAILED'
+    );
+  }
+
+  return [protectedHeader, signature];
+}
+
+/**
+ * Derive EMacKey (ISO 18013-5 9.1.3.5)
+ *
+ * EMacKey = HKDF-SHA256(ECDH(privateKey, publicKey),
+ *   salt = SHA-256(SessionTranscriptBytes), info = "EMacKey", L = 32)
+ * The same key results from either side's private key.
+ */
+async function deriveEMacKey(
+  privateKey: CryptoKey,
+  publicKey: Uint8Array,
+  sessionTranscript: Uint8Array
+): Promise<CryptoKey> {
+  const peerKey = await crypto.subtle.importKey(
+    'raw',
+    publicKey,
+    { name: 'ECDH', namedCurve: 'P-256' },
+    false,
+    []
+  );
+  const sharedSecret = await crypto.subtle.deriveBits(
+    { name: 'ECDH', public: peerKey },
+    privateKey,
+    256
+  );
+
+  const salt = await crypto.subtle.digest('SHA-256', wrapInTag24(sessionTranscript));
+  const ikm = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveBits']);
+  const macKeyBytes = await crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode('EMacKey') },
+    ikm,
+    256
+  );
+
+  return crypto.subtle.importKey(
+    'raw',
+    macKeyBytes,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
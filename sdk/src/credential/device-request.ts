@@ -0,0 +1,182 @@
+/**
+ * ISO 18013-5 DeviceRequest construction
+ *
+ * Builds the CBOR request bytes sent to the wallet. Shared by every
+ * presentation protocol that carries an mdoc DeviceRequest.
+ */
+
+import { encode } from 'cborg';
+import { type ClaimType, type NullifierStrategy, CredentialError } from './types.js';
+import {
+  MDL_DOCTYPE,
+  getNullifierStrategy,
+  nullifierElements,
+  requireDocTypeProfile,
+  resolveClaim,
+} from './doctypes.js';
+import { concatBytes } from './encoding.js';
+
+/**
+ * Build the nameSpaces object for ISO 18013-5 ItemsRequest
+ *
+ * Claims are grouped under the namespace their registry definition names.
+ * The elements for the nullifier strategy (the document type's unless one
+ * is given) and the expiry element are always requested.
+ */
+export function buildNameSpaces(
+  claims: ClaimType[],
+  docType: string = MDL_DOCTYPE,
+  nullifierStrategy?: NullifierStrategy
+): Record<string, Record<string, boolean>> {
+  const profile = requireDocTypeProfile(docType);
+  const nameSpaces: Record<string, Record<string, boolean>> = {};
+
+  const requested = [
+    ...claims,
+    ...nullifierElements(profile, getNullifierStrategy(profile, nullifierStrategy)),
+    profile.expiryElement,
+  ];
+
+  for (const claim of requested) {
+    const definition = resolveClaim(profile, claim);
+    if (!definition) {
+      throw new CredentialError(`Unknown claim type: ${claim}`, 'INVALID_CLAIM');
+    }
+    const { namespace, identifier } = definition;
+    nameSpaces[namespace] ??= {};
+    nameSpaces[namespace][identifier] = false; // false = don't retain
+  }
+
+  return nameSpaces;
+}
+
+/** Tag 24 header (0xd8 = tag with 1-byte number, 0x18 = 24) */
+const TAG_24 = new Uint8Array([0xd8, 0x18]);
+
+/**
+ * Wrap CBOR bytes in Tag 24 (encoded CBOR data item)
+ * Tag 24 indicates the byte string contains CBOR-encoded data
+ *
+ * cborg writes the bstr header, so any length gets the right 1-9 byte
+ * length encoding.
+ */
+export function wrapInTag24(bytes: Uint8Array): Uint8Array {
+  return concatBytes([TAG_24, encode(bytes)]);
+}
+
+/**
+ * Build the CBOR-encoded ItemsRequest for the given claims
+ * Per ISO 18013-5 clause 8.3.2.1.2.1
+ *
+ * ItemsRequest = {
+ *   docType: tstr,
+ *   nameSpaces: { namespace: { element: intent-to-retain } }
+ * }
+ */
+export function buildItemsRequest(
+  claims: ClaimType[],
+  docType: string = MDL_DOCTYPE,
+  nullifierStrategy?: NullifierStrategy
+): Uint8Array {
+  const itemsRequest = {
+    docType,
+    nameSpaces: buildNameSpaces(claims, docType, nullifierStrategy),
+  };
+
+  return encode(itemsRequest);
+}
+
+/**
+ * A single DocRequest, with its ItemsRequest already CBOR-encoded
+ */
+export interface DocRequestParts {
+  /** CBOR-encoded ItemsRequest (untagged) */
+  itemsRequest: Uint8Array;
+  /** Optional CBOR-encoded ReaderAuth COSE_Sign1 */
+  readerAuth?: Uint8Array;
+}
+
+/**
+ * Build CBOR-encoded DeviceRequest per ISO 18013-7
+ *
+ * Structure:
+ * DeviceRequest = {
+ *   version: "1.0",
+ *   docRequests: [DocRequest]
+ * }
+ * DocRequest = {
+ *   itemsRequest: #6.24(bstr .cbor ItemsRequest),  // Tag 24 wrapped
+ *   ? readerAuth: COSE_Sign1
+ * }
+ */
+export function buildDeviceRequest(
+  claims: ClaimType[],
+  docType: string = MDL_DOCTYPE
+): Uint8Array {
+  return encodeDeviceRequest([{ itemsRequest: buildItemsRequest(claims, docType) }]);
+}
+
+/**
+ * Encode a DeviceRequest from pre-encoded DocRequests
+ *
+ * The map is assembled by hand so the Tag 24 wrapped ItemsRequest and the
+ * ReaderAuth bytes are embedded exactly as they were signed.
+ */
+export function encodeDeviceRequest(docRequests: DocRequestParts[]): Uint8Array {
+  const encodedDocRequests = docRequests.map((docRequest) => {
+    const entries: Array<[string, Uint8Array]> = [
+      ['itemsRequest', wrapInTag24(docRequest.itemsRequest)],
+    ];
+    if (docRequest.readerAuth) {
+      entries.push(['readerAuth', docRequest.readerAuth]);
+    }
+    return encodeRawMap(entries);
+  });
+
+  return encodeRawMap([
+    ['version', encode('1.0')],
+    ['docRequests', concatBytes([arrayHeader(docRequests.length), ...encodedDocRequests])],
+  ]);
+}
+
+/**
+ * Encode a CBOR map with text keys whose values are already CBOR-encoded
+ */
+function encodeRawMap(entries: Array<[string, Uint8Array]>): Uint8Array {
+  const parts: Uint8Array[] = [typeHeader(MAJOR_MAP, entries.length)];
+  for (const [key, value] of entries) {
+    parts.push(encode(key), value);
+  }
+  return concatBytes(parts);
+}
+
+/**
+ * CBOR array header
+ */
+function arrayHeader(length: number): Uint8Array {
+  return typeHeader(MAJOR_ARRAY, length);
+}
+
+/** CBOR major types for the headers written by hand */
+const MAJOR_ARRAY = 4;
+const MAJOR_MAP = 5;
+
+/**
+ * CBOR initial byte plus length argument (RFC 8949 §3.1)
+ */
+function typeHeader(majorType: number, length: number): Uint8Array {
+  if (length < 24) {
+    return new Uint8Array([(majorType << 5) | length]);
+  }
+
+  // Argument follows in 1, 2, 4 or 8 big-endian bytes (additional info 24-27)
+  const size = length < 0x100 ? 1 : length < 0x10000 ? 2 : length < 0x100000000 ? 4 : 8;
+  const header = new Uint8Array(1 + size);
+  header[0] = (majorType << 5) | (24 + Math.log2(size));
+  let rest = BigInt(length);
+  for (let i = size; i > 0; i--) {
+    header[i] = Number(rest & 0xffn);
+    rest >>= 8n;
+  }
+  return header;
+}
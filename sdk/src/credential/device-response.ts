@@ -0,0 +1,342 @@
+/**
+ * ISO 18013-5 DeviceResponse parsing
+ *
+ * decodeDeviceResponse() reads the whole response into a typed model:
+ *
+ * DeviceResponse = {
+ *   "version": tstr, ? "documents": [+ Document],
+ *   ? "documentErrors": [+ { DocType => ErrorCode }], "status": uint
+ * }
+ * Document = {
+ *   "docType": DocType, "issuerSigned": IssuerSigned, "deviceSigned": DeviceSigned,
+ *   ? "errors": { NameSpace => { DataElementIdentifier => ErrorCode } }
+ * }
+ *
+ * parseDeviceResponse() picks one document out of it in the
+ * RawCredentialResponse shape consumed by parseCredential, regardless of
+ * which protocol delivered it, and turns wallet-reported errors into
+ * precise CredentialErrors.
+ *
+ * Reference: ISO 18013-5 clause 8.3.2.1.2.2
+ */
+
+import { decode, encode } from 'cborg';
+import {
+  type ElementError,
+  type RawCredentialResponse,
+  type RawDeviceSigned,
+  type RawIssuerSignedItem,
+  CredentialError,
+} from './types.js';
+import { getDocTypeProfile, requireDocTypeProfile } from './doctypes.js';
+import { MDOC_TAGS } from './cbor.js';
+
+/** DeviceResponse status codes (ISO 18013-5 Table 8) */
+export const DEVICE_RESPONSE_STATUS = {
+  OK: 0,
+  GENERAL_ERROR: 10,
+  CBOR_DECODING_ERROR: 11,
+  CBOR_VALIDATION_ERROR: 12,
+} as const;
+
+export type DeviceResponseStatus =
+  (typeof DEVICE_RESPONSE_STATUS)[keyof typeof DEVICE_RESPONSE_STATUS];
+
+/** Descriptions of the status codes, for error messages */
+const STATUS_MESSAGES: Record<DeviceResponseStatus, string> = {
+  0: 'OK',
+  10: 'general error',
+  11: 'CBOR decoding error',
+  12: 'CBOR validation error',
+};
+
+/**
+ * IssuerSigned part of a document
+ */
+export interface IssuerSigned {
+  /** COSE_Sign1 containing the MSO */
+  issuerAuth: Uint8Array;
+  /** Decoded IssuerSignedItems by namespace */
+  nameSpaces: Record<string, RawIssuerSignedItem[]>;
+}
+
+/**
+ * One document in a DeviceResponse
+ */
+export interface MdocDocument {
+  docType: string;
+  issuerSigned: IssuerSigned;
+  deviceSigned?: RawDeviceSigned;
+  /** Elements the wallet did not return */
+  errors: ElementError[];
+}
+
+/**
+ * A requested document the wallet did not return
+ */
+export interface DocumentError {
+  docType: string;
+  /** ErrorCode; 0 is "data not returned" */
+  errorCode: number;
+}
+
+/**
+ * Decoded DeviceResponse
+ */
+export interface DeviceResponse {
+  version: string;
+  documents: MdocDocument[];
+  documentErrors: DocumentError[];
+  status: DeviceResponseStatus;
+}
+
+/**
+ * Read a decoded DeviceResponse into the typed model
+ *
+ * Wallet-reported errors (status, documentErrors, element errors) are kept
+ * in the model, not thrown.
+ *
+ * @param deviceResponse - DeviceResponse as decoded by cborg (tag 24 as bytes)
+ * @throws CredentialError PARSE_ERROR if the structure is malformed
+ */
+export function decodeDeviceResponse(deviceResponse: unknown): DeviceResponse {
+  const resp = asRecord(deviceResponse, 'DeviceResponse');
+
+  const status = resp.status ?? DEVICE_RESPONSE_STATUS.OK;
+  if (typeof status !== 'number' || !(status in STATUS_MESSAGES)) {
+    throw new CredentialError(`Unknown DeviceResponse status ${String(status)}`, 'PARSE_ERROR');
+  }
+
+  const documents = resp.documents ?? [];
+  if (!Array.isArray(documents)) {
+    throw new CredentialError('DeviceResponse documents is not a list', 'PARSE_ERROR');
+  }
+
+  const documentErrors = resp.documentErrors ?? [];
+  if (!Array.isArray(documentErrors)) {
+    throw new CredentialError('DeviceResponse documentErrors is not a list', 'PARSE_ERROR');
+  }
+
+  return {
+    version: typeof resp.version === 'string' ? resp.version : '1.0',
+    documents: documents.map(parseDocument),
+    documentErrors: documentErrors.flatMap((entry) =>
+      Object.entries(asRecord(entry, 'DeviceResponse documentErrors entry')).map(
+        ([docType, errorCode]) => ({
+          docType,
+          errorCode: asErrorCode(errorCode, `documentErrors for ${docType}`),
+        })
+      )
+    ),
+    status: status as DeviceResponseStatus,
+  };
+}
+
+/**
+ * Parse DeviceResponse structure to extract credential data
+ *
+ * @param deviceResponse - Decoded DeviceResponse
+ * @param docType - Document type to extract; defaults to the first document
+ *   with a registered profile
+ * @throws CredentialError WALLET_ERROR for a non-zero status,
+ *   DOCUMENT_NOT_RETURNED if the wallet reported the document as an error,
+ *   PARSE_ERROR if there is no usable document
+ */
+export function parseDeviceResponse(
+  deviceResponse: unknown,
+  docType?: string
+): RawCredentialResponse {
+  const response = decodeDeviceResponse(deviceResponse);
+
+  if (response.status !== DEVICE_RESPONSE_STATUS.OK) {
+    throw new CredentialError(
+      `Wallet returned DeviceResponse status ${response.status} ` +
+        `(${STATUS_MESSAGES[response.status]})`,
+      'WALLET_ERROR'
+    );
+  }
+
+  // Get the first document of the requested (or any supported) type
+  const wanted = (type: string) =>
+    docType === undefined ? getDocTypeProfile(type) !== undefined : type === docType;
+  const doc = response.documents.find((d) => wanted(d.docType));
+
+  if (!doc) {
+    const documentError = response.documentErrors.find((error) => wanted(error.docType));
+    if (documentError) {
+      throw new CredentialError(
+        `Wallet did not return the ${documentError.docType} document ` +
+          `(error code ${documentError.errorCode})`,
+        'DOCUMENT_NOT_RETURNED'
+      );
+    }
+    throw new CredentialError(
+      response.documents.length === 0
+        ? 'No documents in DeviceResponse'
+        : docType === undefined
+          ? 'No supported document in DeviceResponse'
+          : `No ${docType} document in DeviceResponse`,
+      'PARSE_ERROR'
+    );
+  }
+
+  // The profile's primary namespace is mandatory (others, e.g. AAMVA, are
+  // optional) unless the wallet reported its elements as not returned
+  const [primaryNamespace] = requireDocTypeProfile(doc.docType).namespaces;
+  const namespaces = { ...doc.issuerSigned.nameSpaces };
+  if (!namespaces[primaryNamespace]) {
+    if (!doc.errors.some((error) => error.namespace === primaryNamespace)) {
+      throw new CredentialError(`No ${primaryNamespace} namespace in response`, 'PARSE_ERROR');
+    }
+    namespaces[primaryNamespace] = [];
+  }
+
+  return {
+    issuerAuth: doc.issuerSigned.issuerAuth,
+    namespaces,
+    deviceSigned: doc.deviceSigned,
+    elementErrors: doc.errors.length > 0 ? doc.errors : undefined,
+  };
+}
+
+/**
+ * Read one Document
+ */
+function parseDocument(document: unknown, index: number): MdocDocument {
+  const where = `DeviceResponse documents[${index}]`;
+  const doc = asRecord(document, where);
+  if (typeof doc.docType !== 'string') {
+    throw new CredentialError(`${where} has no docType`, 'PARSE_ERROR');
+  }
+  if (!doc.issuerSigned) {
+    throw new CredentialError('No issuerSigned in document', 'PARSE_ERROR');
+  }
+  const issuerSigned = asRecord(doc.issuerSigned, `${where} issuerSigned`);
+
+  // Extract issuerAuth (COSE_Sign1)
+  const { issuerAuth } = issuerSigned;
+  if (!issuerAuth) {
+    throw new CredentialError('No issuerAuth in issuerSigned', 'PARSE_ERROR');
+  }
+
+  // Extract namespaces with IssuerSignedItems (all may be withheld)
+  const nameSpaces: Record<string, RawIssuerSignedItem[]> = {};
+  if (issuerSigned.nameSpaces === undefined && doc.errors === undefined) {
+    throw new CredentialError('No nameSpaces in issuerSigned', 'PARSE_ERROR');
+  }
+  const signedNamespaces = asRecord(issuerSigned.nameSpaces ?? {}, `${where} nameSpaces`);
+
+  // Convert IssuerSignedItemBytes to our format
+  // Each item is tagged CBOR (tag 24) containing the IssuerSignedItem
+  for (const [namespace, itemBytesList] of Object.entries(signedNamespaces)) {
+    if (!Array.isArray(itemBytesList)) {
+      throw new CredentialError(`Invalid ${namespace} namespace in response`, 'PARSE_ERROR');
+    }
+    nameSpaces[namespace] = itemBytesList.map(parseIssuerSignedItem);
+  }
+
+  const errors: ElementError[] = [];
+  for (const [namespace, elements] of Object.entries(
+    asRecord(doc.errors ?? {}, `${where} errors`)
+  )) {
+    for (const [elementIdentifier, errorCode] of Object.entries(
+      asRecord(elements, `${where} errors for ${namespace}`)
+    )) {
+      errors.push({
+        namespace,
+        elementIdentifier,
+        errorCode: asErrorCode(errorCode, `errors for ${namespace}:${elementIdentifier}`),
+      });
+    }
+  }
+
+  return {
+    docType: doc.docType,
+    issuerSigned: {
+      issuerAuth: issuerAuth instanceof Uint8Array ? issuerAuth : encode(issuerAuth),
+      nameSpaces,
+    },
+    deviceSigned: doc.deviceSigned ? parseDeviceSigned(doc.deviceSigned) : undefined,
+    errors,
+  };
+}
+
+/**
+ * Extract DeviceSigned for device authentication
+ * DeviceSigned = { nameSpaces: DeviceNameSpacesBytes, deviceAuth: DeviceAuth }
+ * DeviceAuth = { deviceSignature: COSE_Sign1 } / { deviceMac: COSE_Mac0 }
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function parseDeviceSigned(deviceSigned: any): RawDeviceSigned {
+  const { nameSpaces, deviceAuth } = deviceSigned;
+  if (!(nameSpaces instanceof Uint8Array) || !deviceAuth) {
+    throw new CredentialError('Invalid deviceSigned in document', 'PARSE_ERROR');
+  }
+
+  const asBytes = (cose: unknown) =>
+    cose === undefined ? undefined : cose instanceof Uint8Array ? cose : encode(cose);
+
+  return {
+    nameSpaces,
+    deviceSignature: asBytes(deviceAuth.deviceSignature),
+    deviceMac: asBytes(deviceAuth.deviceMac),
+  };
+}
+
+/**
+ * Decode one IssuerSignedItemBytes, keeping the bytes for digest checks
+ *
+ * Tagged elementValues (full-date, tdate, embedded CBOR) decode through
+ * MDOC_TAGS; parseCredential then checks them against their definitions.
+ */
+function parseIssuerSignedItem(itemBytes: unknown): RawIssuerSignedItem {
+  if (!(itemBytes instanceof Uint8Array)) {
+    throw new CredentialError('IssuerSignedItemBytes is not a byte string', 'PARSE_ERROR');
+  }
+  let decoded: unknown;
+  try {
+    decoded = decode(itemBytes, { tags: MDOC_TAGS });
+  } catch (error) {
+    throw new CredentialError(
+      `Failed to decode IssuerSignedItem: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'PARSE_ERROR'
+    );
+  }
+  const item = asRecord(decoded, 'IssuerSignedItem');
+  if (typeof item.digestID !== 'number' || typeof item.elementIdentifier !== 'string') {
+    throw new CredentialError(
+      'IssuerSignedItem has no digestID or elementIdentifier',
+      'PARSE_ERROR'
+    );
+  }
+  if (!(item.random instanceof Uint8Array)) {
+    throw new CredentialError(
+      `IssuerSignedItem ${item.elementIdentifier} has no random`,
+      'PARSE_ERROR'
+    );
+  }
+  return {
+    digestID: item.digestID,
+    random: item.random,
+    elementIdentifier: item.elementIdentifier,
+    elementValue: item.elementValue,
+    rawBytes: itemBytes,
+  };
+}
+
+function asRecord(value: unknown, what: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new CredentialError(`${what} is not a map`, 'PARSE_ERROR');
+  }
+  if (value instanceof Map) {
+    return Object.fromEntries(value);
+  }
+  return value as Record<string, unknown>;
+}
+
+function asErrorCode(value: unknown, what: string): number {
+  if (typeof value !== 'number' || !Number.isInteger(value)) {
+    throw new CredentialError(`DeviceResponse ${what} is not an ErrorCode`, 'PARSE_ERROR');
+  }
+  return value;
+}
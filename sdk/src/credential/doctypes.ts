@@ -0,0 +1,235 @@
+/**
+ * Document type profiles
+ *
+ * A profile tells the SDK what a given mdoc document type looks like: which
+ * namespaces it issues elements under, which element identifies the
+ * document for the nullifier, and which elements feed the circuit. Requests,
+ * response parsing and toProverCredential all go through the profile, so
+ * supporting a new document type only needs a new profile (plus element
+ * definitions in the registry).
+ *
+ * Element references are qualified claims (`namespace:identifier`).
+ */
+
+import { type NullifierStrategy, CredentialError } from './types.js';
+import {
+  type DataElementDefinition,
+  AAMVA_NAMESPACE,
+  EU_PID_NAMESPACE,
+  ISO_23220_NAMESPACE,
+  MDL_NAMESPACE,
+  PHOTOID_NAMESPACE,
+  claimKey,
+  getDataElement,
+} from './elements.js';
+import { MDL_DS_EKU_OID } from './x509.js';
+
+/** ISO 18013-5 mobile driving licence */
+export const MDL_DOCTYPE = 'org.iso.18013.5.1.mDL';
+
+/** EU Digital Identity Wallet Person Identification Data */
+export const EU_PID_DOCTYPE = 'eu.europa.ec.eudi.pid.1';
+
+/** ISO 23220 Photo ID (e.g. Apple Wallet Digital ID) */
+export const PHOTOID_DOCTYPE = 'org.iso.23220.photoid.1';
+
+/**
+ * Description of one mdoc document type
+ */
+export interface DocTypeProfile {
+  /** Document type, e.g. "org.iso.18013.5.1.mDL" */
+  docType: string;
+  /**
+   * Namespaces the document issues elements under
+   * The first is mandatory in responses; unqualified claims are looked up
+   * in this order.
+   */
+  namespaces: string[];
+  /**
+   * Candidates for the document-number nullifier source; the first present
+   * is used
+   */
+  nullifierSources: string[];
+  /**
+   * Candidates for the issuer-id nullifier source: identifiers the issuer
+   * keeps stable for the holder
+   */
+  issuerIdSources?: string[];
+  /**
+   * How the nullifier is derived by default (defaults to document-number);
+   * callers can override it with their own nullifierStrategy option
+   */
+  nullifierStrategy?: NullifierStrategy;
+  /** Element holding the document expiry date */
+  expiryElement: string;
+  /** Extended key usage required of Document Signer certificates, if any */
+  documentSignerEku?: string;
+  /** Elements placed in the circuit's claim slots */
+  circuitClaims: {
+    ageOver21: string;
+    ageOver18: string;
+    /** Candidates for the jurisdiction slot; the first present is used */
+    jurisdiction: string[];
+  };
+}
+
+/** Registered profiles by docType */
+const profiles = new Map<string, DocTypeProfile>([
+  [
+    MDL_DOCTYPE,
+    {
+      docType: MDL_DOCTYPE,
+      namespaces: [MDL_NAMESPACE, AAMVA_NAMESPACE],
+      nullifierSources: [claimKey(MDL_NAMESPACE, 'document_number')],
+      expiryElement: claimKey(MDL_NAMESPACE, 'expiry_date'),
+      documentSignerEku: MDL_DS_EKU_OID,
+      circuitClaims: {
+        ageOver21: claimKey(MDL_NAMESPACE, 'age_over_21'),
+        ageOver18: claimKey(MDL_NAMESPACE, 'age_over_18'),
+        jurisdiction: [claimKey(MDL_NAMESPACE, 'issuing_jurisdiction')],
+      },
+    },
+  ],
+  [
+    EU_PID_DOCTYPE,
+    {
+      docType: EU_PID_DOCTYPE,
+      namespaces: [EU_PID_NAMESPACE],
+      // document_number is optional in the PID rulebook; wallets without one
+      // need the issuer-id strategy
+      nullifierSources: [claimKey(EU_PID_NAMESPACE, 'document_number')],
+      issuerIdSources: [claimKey(EU_PID_NAMESPACE, 'personal_administrative_number')],
+      expiryElement: claimKey(EU_PID_NAMESPACE, 'expiry_date'),
+      circuitClaims: {
+        ageOver21: claimKey(EU_PID_NAMESPACE, 'age_over_21'),
+        ageOver18: claimKey(EU_PID_NAMESPACE, 'age_over_18'),
+        jurisdiction: [
+          claimKey(EU_PID_NAMESPACE, 'issuing_jurisdiction'),
+          claimKey(EU_PID_NAMESPACE, 'issuing_country'),
+        ],
+      },
+    },
+  ],
+  [
+    PHOTOID_DOCTYPE,
+    {
+      docType: PHOTOID_DOCTYPE,
+      namespaces: [ISO_23220_NAMESPACE, PHOTOID_NAMESPACE],
+      nullifierSources: [claimKey(ISO_23220_NAMESPACE, 'document_number')],
+      issuerIdSources: [claimKey(PHOTOID_NAMESPACE, 'person_id')],
+      expiryElement: claimKey(ISO_23220_NAMESPACE, 'expiry_date'),
+      circuitClaims: {
+        ageOver21: claimKey(ISO_23220_NAMESPACE, 'age_over_21'),
+        ageOver18: claimKey(ISO_23220_NAMESPACE, 'age_over_18'),
+        jurisdiction: [claimKey(ISO_23220_NAMESPACE, 'issuing_country')],
+      },
+    },
+  ],
+]);
+
+/**
+ * Register (or replace) a document type profile
+ *
+ * Element definitions for the profile's namespaces must be registered
+ * separately with `registerDataElement()`.
+ */
+export function registerDocTypeProfile(profile: DocTypeProfile): void {
+  if (!profile.docType || profile.namespaces.length === 0) {
+    throw new Error('Document type profiles need a docType and at least one namespace');
+  }
+  // Throws if the profile has no source for its own strategy
+  nullifierElements(profile);
+  profiles.set(profile.docType, profile);
+}
+
+/**
+ * Nullifier strategy for a profile: the caller's choice, else the profile's
+ *
+ * @param strategy - Strategy from the caller's configuration, if any
+ */
+export function getNullifierStrategy(
+  profile: DocTypeProfile,
+  strategy?: NullifierStrategy
+): NullifierStrategy {
+  return strategy ?? profile.nullifierStrategy ?? 'document-number';
+}
+
+/**
+ * Candidate elements for a nullifier strategy, to request and read in
+ * order; none for device-key
+ *
+ * @param strategy - Defaults to the profile's strategy
+ * @throws CredentialError NOT_SUPPORTED if the profile has no source for it
+ */
+export function nullifierElements(
+  profile: DocTypeProfile,
+  strategy: NullifierStrategy = getNullifierStrategy(profile)
+): string[] {
+  const elements =
+    strategy === 'document-number'
+      ? profile.nullifierSources
+      : strategy === 'issuer-id'
+        ? (profile.issuerIdSources ?? [])
+        : [];
+  if (strategy !== 'device-key' && elements.length === 0) {
+    throw new CredentialError(
+      `Profile for ${profile.docType} has no ${strategy} nullifier source`,
+      'NOT_SUPPORTED'
+    );
+  }
+  return elements;
+}
+
+/**
+ * Look up the profile for a document type
+ */
+export function getDocTypeProfile(docType: string): DocTypeProfile | undefined {
+  return profiles.get(docType);
+}
+
+/**
+ * Look up the profile for a document type, failing if there is none
+ *
+ * @throws CredentialError (NOT_SUPPORTED) for unknown document types
+ */
+export function requireDocTypeProfile(docType: string): DocTypeProfile {
+  const profile = profiles.get(docType);
+  if (!profile) {
+    throw new CredentialError(
+      `Unsupported docType ${docType}; register it with registerDocTypeProfile()`,
+      'NOT_SUPPORTED'
+    );
+  }
+  return profile;
+}
+
+/**
+ * Resolve a claim to its data element within a document type
+ *
+ * Qualified claims name their namespace. Unqualified claims are looked up in
+ * the profile's namespaces in order, then anywhere in the registry.
+ */
+export function resolveClaim(
+  profile: DocTypeProfile,
+  claim: string
+): DataElementDefinition | undefined {
+  if (claim.includes(':')) {
+    return getDataElement(claim);
+  }
+
+  for (const namespace of profile.namespaces) {
+    const definition = getDataElement(claim, namespace);
+    if (definition) {
+      return definition;
+    }
+  }
+
+  return getDataElement(claim);
+}
+
+/**
+ * All registered document type profiles
+ */
+export function listDocTypeProfiles(): DocTypeProfile[] {
+  return Array.from(profiles.values());
+}
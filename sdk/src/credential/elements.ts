@@ -0,0 +1,520 @@
+/**
+ * ISO 18013-5 data element registry
+ *
+ * Describes every data element the SDK knows how to request and decode:
+ * which namespace it lives in, its CBOR type, and the TypeScript type it is
+ * decoded to. The registry is consulted when building requests and when
+ * parsing responses, and can be extended at runtime with
+ * `registerDataElement()` for elements we don't ship a definition for.
+ *
+ * The same identifier can exist in more than one namespace (AAMVA defines
+ * its own `sex`), so claims may be qualified as `namespace:identifier`.
+ * Unqualified claims resolve to the mDL namespace first.
+ *
+ * Reference: ISO 18013-5 clause 7.2.1, Table 5;
+ * AAMVA Mobile Driver License Implementation Guidelines, clause 3.2;
+ * EUDI PID Rulebook (ARF Annex 3.1); ISO/IEC TS 23220-4 Annex C
+ */
+
+import { ClaimValueError } from './types.js';
+
+/** Namespace holding the ISO 18013-5 mDL data elements */
+export const MDL_NAMESPACE = 'org.iso.18013.5.1';
+
+/** Namespace holding the AAMVA (US) data elements */
+export const AAMVA_NAMESPACE = 'org.iso.18013.5.1.aamva';
+
+/** Namespace holding the EU Person Identification Data elements */
+export const EU_PID_NAMESPACE = 'eu.europa.ec.eudi.pid.1';
+
+/** Namespace holding the ISO 23220-2 core data elements */
+export const ISO_23220_NAMESPACE = 'org.iso.23220.1';
+
+/** Namespace holding the ISO 23220 Photo ID specific data elements */
+export const PHOTOID_NAMESPACE = 'org.iso.23220.photoid.1';
+
+/**
+ * CBOR type of a data element, as listed in ISO 18013-5 Table 5
+ * - `full-date`: RFC 3339 full-date (YYYY-MM-DD)
+ * - `tdate`: RFC 3339 date-time
+ * - `image`: bstr holding a JPEG or JPEG 2000 image, such as portrait
+ * - `array`: structured element such as driving_privileges, left undecoded
+ */
+export type DataElementCborType =
+  | 'bool'
+  | 'uint'
+  | 'tstr'
+  | 'bstr'
+  | 'full-date'
+  | 'tdate'
+  | 'image'
+  | 'array';
+
+/**
+ * Image element value, with its format detected from the bytes
+ */
+export interface DataElementImage {
+  bytes: Uint8Array;
+  mimeType: 'image/jpeg' | 'image/jp2';
+}
+
+/**
+ * TypeScript type each CBOR type decodes to
+ */
+export interface DataElementCborValues {
+  bool: boolean;
+  uint: number;
+  tstr: string;
+  bstr: Uint8Array;
+  'full-date': Date;
+  tdate: Date;
+  image: DataElementImage;
+  array: unknown[];
+}
+
+/**
+ * Definition of a single data element
+ */
+export interface DataElementDefinition<
+  T extends DataElementCborType = DataElementCborType,
+> {
+  /** Namespace the element is issued under */
+  namespace: string;
+  /** Element identifier, e.g. "birth_date" */
+  identifier: string;
+  /** CBOR type of elementValue */
+  cborType: T;
+}
+
+/**
+ * Decoded value type of each AAMVA data element
+ */
+export interface AamvaDataElementValues {
+  domestic_driving_privileges: unknown[];
+  name_suffix: string;
+  organ_donor: number;
+  veteran: number;
+  family_name_truncation: string;
+  given_name_truncation: string;
+  'aka_family_name.v2': string;
+  'aka_given_name.v2': string;
+  aka_suffix: string;
+  weight_range: number;
+  race_ethnicity: string;
+  /** "F" for a REAL ID compliant credential, "N" otherwise */
+  DHS_compliance: string;
+  DHS_compliance_text: string;
+  DHS_temporary_lawful_status: number;
+  EDL_credential: number;
+  resident_county: string;
+  hazmat_endorsement_expiration_date: Date;
+  /** AAMVA sex code; request as `org.iso.18013.5.1.aamva:sex` */
+  sex: number;
+  CDL_indicator: number;
+  aamva_version: number;
+}
+
+/**
+ * Decoded value type of each known data element
+ *
+ * Unqualified AAMVA identifiers are included where they don't clash with an
+ * mDL identifier. Augment this interface (declaration merging) alongside
+ * `registerDataElement()` to get typed values for custom elements.
+ */
+export interface DataElementValues extends Omit<AamvaDataElementValues, 'sex'> {
+  family_name: string;
+  given_name: string;
+  birth_date: Date;
+  issue_date: Date;
+  expiry_date: Date;
+  issuing_country: string;
+  issuing_authority: string;
+  issuing_jurisdiction: string;
+  document_number: string;
+  portrait: DataElementImage;
+  driving_privileges: unknown[];
+  un_distinguishing_sign: string;
+  administrative_number: string;
+  sex: number;
+  height: number;
+  weight: number;
+  eye_colour: string;
+  hair_colour: string;
+  birth_place: string;
+  resident_address: string;
+  resident_city: string;
+  resident_state: string;
+  resident_postal_code: string;
+  resident_country: string;
+  portrait_capture_date: Date;
+  age_in_years: number;
+  age_birth_year: number;
+  nationality: string;
+  family_name_national_character: string;
+  given_name_national_character: string;
+  signature_usual_mark: DataElementImage;
+  [ageOver: `age_over_${number}`]: boolean;
+}
+
+/**
+ * Namespace-qualified AAMVA claim, e.g. `org.iso.18013.5.1.aamva:DHS_compliance`
+ */
+export type QualifiedAamvaElement =
+  `${typeof AAMVA_NAMESPACE}:${keyof AamvaDataElementValues & string}`;
+
+/**
+ * Identifier of a data element with a built-in definition
+ */
+export type KnownDataElement = (keyof DataElementValues & string) | QualifiedAamvaElement;
+
+/**
+ * Decoded value type for a claim
+ * Elements without a known type decode to `unknown`.
+ */
+export type DataElementValue<K extends string> = K extends keyof DataElementValues
+  ? DataElementValues[K]
+  : K extends `${typeof AAMVA_NAMESPACE}:${infer E extends keyof AamvaDataElementValues}`
+    ? AamvaDataElementValues[E]
+    : unknown;
+
+/** age_over_NN elements: NN is always two digits (ISO 18013-5 7.2.5) */
+const AGE_OVER_PATTERN = /^age_over_\d{2}$/;
+
+/** Namespaces that define age_over_NN */
+const AGE_OVER_NAMESPACES = new Set([MDL_NAMESPACE, EU_PID_NAMESPACE, ISO_23220_NAMESPACE]);
+
+/** Built-in ISO 18013-5 mDL elements */
+const MDL_ELEMENTS: Array<[string, DataElementCborType]> = [
+  ['family_name', 'tstr'],
+  ['given_name', 'tstr'],
+  ['birth_date', 'full-date'],
+  ['issue_date', 'full-date'],
+  ['expiry_date', 'full-date'],
+  ['issuing_country', 'tstr'],
+  ['issuing_authority', 'tstr'],
+  ['issuing_jurisdiction', 'tstr'],
+  ['document_number', 'tstr'],
+  ['portrait', 'image'],
+  ['driving_privileges', 'array'],
+  ['un_distinguishing_sign', 'tstr'],
+  ['administrative_number', 'tstr'],
+  ['sex', 'uint'],
+  ['height', 'uint'],
+  ['weight', 'uint'],
+  ['eye_colour', 'tstr'],
+  ['hair_colour', 'tstr'],
+  ['birth_place', 'tstr'],
+  ['resident_address', 'tstr'],
+  ['resident_city', 'tstr'],
+  ['resident_state', 'tstr'],
+  ['resident_postal_code', 'tstr'],
+  ['resident_country', 'tstr'],
+  ['portrait_capture_date', 'tdate'],
+  ['age_in_years', 'uint'],
+  ['age_birth_year', 'uint'],
+  ['nationality', 'tstr'],
+  ['family_name_national_character', 'tstr'],
+  ['given_name_national_character', 'tstr'],
+  ['signature_usual_mark', 'image'],
+];
+
+/** Built-in AAMVA elements */
+const AAMVA_ELEMENTS: Array<[string, DataElementCborType]> = [
+  ['domestic_driving_privileges', 'array'],
+  ['name_suffix', 'tstr'],
+  ['organ_donor', 'uint'],
+  ['veteran', 'uint'],
+  ['family_name_truncation', 'tstr'],
+  ['given_name_truncation', 'tstr'],
+  ['aka_family_name.v2', 'tstr'],
+  ['aka_given_name.v2', 'tstr'],
+  ['aka_suffix', 'tstr'],
+  ['weight_range', 'uint'],
+  ['race_ethnicity', 'tstr'],
+  ['DHS_compliance', 'tstr'],
+  ['DHS_compliance_text', 'tstr'],
+  ['DHS_temporary_lawful_status', 'uint'],
+  ['EDL_credential', 'uint'],
+  ['resident_county', 'tstr'],
+  ['hazmat_endorsement_expiration_date', 'full-date'],
+  ['sex', 'uint'],
+  ['CDL_indicator', 'uint'],
+  ['aamva_version', 'uint'],
+];
+
+/** Built-in EU PID elements */
+const EU_PID_ELEMENTS: Array<[string, DataElementCborType]> = [
+  ['family_name', 'tstr'],
+  ['given_name', 'tstr'],
+  ['birth_date', 'full-date'],
+  ['age_in_years', 'uint'],
+  ['age_birth_year', 'uint'],
+  ['family_name_birth', 'tstr'],
+  ['given_name_birth', 'tstr'],
+  ['birth_place', 'tstr'],
+  ['birth_country', 'tstr'],
+  ['birth_state', 'tstr'],
+  ['birth_city', 'tstr'],
+  ['resident_address', 'tstr'],
+  ['resident_country', 'tstr'],
+  ['resident_state', 'tstr'],
+  ['resident_city', 'tstr'],
+  ['resident_postal_code', 'tstr'],
+  ['resident_street', 'tstr'],
+  ['resident_house_number', 'tstr'],
+  ['sex', 'uint'],
+  ['nationality', 'array'],
+  ['issuance_date', 'full-date'],
+  ['expiry_date', 'full-date'],
+  ['issuing_authority', 'tstr'],
+  ['document_number', 'tstr'],
+  ['personal_administrative_number', 'tstr'],
+  ['issuing_country', 'tstr'],
+  ['issuing_jurisdiction', 'tstr'],
+  ['portrait', 'image'],
+  ['email_address', 'tstr'],
+  ['mobile_phone_number', 'tstr'],
+];
+
+/** Built-in ISO 23220-2 core elements */
+const ISO_23220_ELEMENTS: Array<[string, DataElementCborType]> = [
+  ['family_name_unicode', 'tstr'],
+  ['given_name_unicode', 'tstr'],
+  ['family_name_latin1', 'tstr'],
+  ['given_name_latin1', 'tstr'],
+  ['birth_date', 'full-date'],
+  ['portrait', 'image'],
+  ['issue_date', 'full-date'],
+  ['expiry_date', 'full-date'],
+  ['issuing_authority_unicode', 'tstr'],
+  ['issuing_country', 'tstr'],
+  ['sex', 'uint'],
+  ['nationality', 'tstr'],
+  ['document_number', 'tstr'],
+  ['name_suffix', 'tstr'],
+  ['age_in_years', 'uint'],
+  ['age_birth_year', 'uint'],
+  ['portrait_capture_date', 'tdate'],
+  ['birthplace', 'tstr'],
+  ['resident_address_unicode', 'tstr'],
+  ['resident_city_unicode', 'tstr'],
+  ['resident_postal_code', 'tstr'],
+  ['resident_country', 'tstr'],
+];
+
+/** Built-in ISO 23220 Photo ID elements */
+const PHOTOID_ELEMENTS: Array<[string, DataElementCborType]> = [
+  ['person_id', 'tstr'],
+  ['birth_country', 'tstr'],
+  ['birth_state', 'tstr'],
+  ['birth_city', 'tstr'],
+  ['administrative_number', 'tstr'],
+  ['resident_street', 'tstr'],
+  ['resident_house_number', 'tstr'],
+  ['resident_state', 'tstr'],
+  ['travel_document_number', 'tstr'],
+];
+
+/** Registered elements by claim key (namespace:identifier) */
+const registry = new Map<string, DataElementDefinition>();
+
+for (const [namespace, elements] of [
+  [MDL_NAMESPACE, MDL_ELEMENTS],
+  [AAMVA_NAMESPACE, AAMVA_ELEMENTS],
+  [EU_PID_NAMESPACE, EU_PID_ELEMENTS],
+  [ISO_23220_NAMESPACE, ISO_23220_ELEMENTS],
+  [PHOTOID_NAMESPACE, PHOTOID_ELEMENTS],
+] as const) {
+  for (const [identifier, cborType] of elements) {
+    registry.set(claimKey(namespace, identifier), { namespace, identifier, cborType });
+  }
+}
+
+/**
+ * Key identifying an element across namespaces, e.g. `org.iso.18013.5.1:age_over_21`
+ * Used for ParsedCredential.claims and for qualified claims.
+ */
+export function claimKey(namespace: string, identifier: string): string {
+  return `${namespace}:${identifier}`;
+}
+
+/**
+ * Register (or replace) a data element definition
+ *
+ * @example
+ * registerDataElement({
+ *   namespace: 'org.example.loyalty.1',
+ *   identifier: 'member_tier',
+ *   cborType: 'tstr',
+ * });
+ */
+export function registerDataElement(definition: DataElementDefinition): void {
+  if (!definition.namespace || !definition.identifier) {
+    throw new Error('Data element definitions need a namespace and identifier');
+  }
+  registry.set(claimKey(definition.namespace, definition.identifier), { ...definition });
+}
+
+/**
+ * Look up a data element
+ *
+ * @param claim - Identifier, or `namespace:identifier` when qualified
+ * @param namespace - Namespace to look in; inferred when omitted
+ *
+ * Unqualified identifiers resolve to the mDL namespace if defined there,
+ * otherwise to the first namespace that defines them. `age_over_NN`
+ * resolves for any two-digit NN without being registered.
+ */
+export function getDataElement(
+  claim: string,
+  namespace?: string
+): DataElementDefinition | undefined {
+  const separator = claim.lastIndexOf(':');
+  if (namespace === undefined && separator > 0) {
+    return getDataElement(claim.slice(separator + 1), claim.slice(0, separator));
+  }
+
+  if (namespace !== undefined) {
+    const definition = registry.get(claimKey(namespace, claim));
+    if (definition) {
+      return definition;
+    }
+    if (AGE_OVER_NAMESPACES.has(namespace) && AGE_OVER_PATTERN.test(claim)) {
+      return { namespace, identifier: claim, cborType: 'bool' };
+    }
+    return undefined;
+  }
+
+  const mdlDefinition = getDataElement(claim, MDL_NAMESPACE);
+  if (mdlDefinition) {
+    return mdlDefinition;
+  }
+
+  for (const definition of registry.values()) {
+    if (definition.identifier === claim) {
+      return definition;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * All registered data element definitions
+ */
+export function listDataElements(): DataElementDefinition[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Decode an elementValue into the TypeScript type for its CBOR type
+ *
+ * @throws ClaimValueError (code INVALID_CLAIM) if the value has the wrong type
+ */
+export function decodeDataElement<T extends DataElementCborType>(
+  definition: DataElementDefinition<T>,
+  value: unknown
+): DataElementCborValues[T] {
+  const decoded = decodeCborValue(definition.cborType, value);
+
+  if (decoded === undefined) {
+    throw new ClaimValueError(
+      definition.namespace,
+      definition.identifier,
+      definition.cborType,
+      definition.cborType === 'image' && value instanceof Uint8Array
+        ? 'bytes that are not JPEG or JPEG 2000'
+        : describeValue(value)
+    );
+  }
+
+  return decoded as DataElementCborValues[T];
+}
+
+/**
+ * Convert a CBOR-decoded value, returning undefined when it doesn't match
+ */
+function decodeCborValue(cborType: DataElementCborType, value: unknown): unknown {
+  switch (cborType) {
+    case 'bool':
+      return typeof value === 'boolean' ? value : undefined;
+    case 'uint':
+      if (typeof value === 'bigint' && value >= 0n && value <= BigInt(Number.MAX_SAFE_INTEGER)) {
+        return Number(value);
+      }
+      return typeof value === 'number' && Number.isInteger(value) && value >= 0
+        ? value
+        : undefined;
+    case 'tstr':
+      return typeof value === 'string' ? value : undefined;
+    case 'bstr':
+      return value instanceof Uint8Array ? value : undefined;
+    case 'full-date':
+      return parseFullDate(value);
+    case 'tdate':
+      return parseDateTime(value);
+    case 'image':
+      return parseImage(value);
+    case 'array':
+      return Array.isArray(value) ? value : undefined;
+  }
+}
+
+/**
+ * Parse an RFC 3339 full-date as midnight UTC
+ * Some issuers send a date-time for full-date elements, which we accept.
+ */
+function parseFullDate(value: unknown): Date | undefined {
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return validDate(new Date(`${value}T00:00:00Z`));
+  }
+  return parseDateTime(value);
+}
+
+/**
+ * Parse an RFC 3339 date-time
+ */
+function parseDateTime(value: unknown): Date | undefined {
+  if (value instanceof Date) {
+    return validDate(value);
+  }
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return validDate(new Date(value));
+  }
+  return undefined;
+}
+
+/**
+ * Detect a JPEG or JPEG 2000 image (JP2 file or bare codestream)
+ * ISO 18013-5 allows only these for portrait and signature_usual_mark.
+ */
+function parseImage(value: unknown): DataElementImage | undefined {
+  if (!(value instanceof Uint8Array)) {
+    return undefined;
+  }
+  const startsWith = (...magic: number[]) => magic.every((byte, i) => value[i] === byte);
+  if (startsWith(0xff, 0xd8, 0xff)) {
+    return { bytes: value, mimeType: 'image/jpeg' };
+  }
+  if (
+    startsWith(0x00, 0x00, 0x00, 0x0c, 0x6a, 0x50, 0x20, 0x20) ||
+    startsWith(0xff, 0x4f, 0xff, 0x51)
+  ) {
+    return { bytes: value, mimeType: 'image/jp2' };
+  }
+  return undefined;
+}
+
+function validDate(date: Date): Date | undefined {
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Short description of a value for error messages (never the value itself)
+ */
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (value instanceof Uint8Array) return 'bytes';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
@@ -1,12 +1,13 @@
 /**
- * HPKE decryption for ISO 18013-7 mDL responses
+ * HPKE encryption for ISO 18013-7 mDL responses
  *
  * Uses DHKEM(P-256, HKDF-SHA256) + AES-128-GCM as specified in ISO 18013-7
  * Reference: RFC 9180 (HPKE)
  */
 
-import { encode } from 'cborg';
+import { decode, encode } from 'cborg';
 import { CredentialError } from './types.js';
+import { fromBase64Url, toBase64 } from './encoding.js';
 
 /**
  * HPKE cipher suite constants for ISO 18013-7
@@ -39,6 +40,8 @@ export interface HPKESession {
   nonce: Uint8Array;
   /** Origin of the requesting website */
   origin: string;
+  /** When the session stops accepting responses (set by importSession) */
+  expiresAt?: Date;
 }
 
 /**
@@ -81,6 +84,23 @@ export async function createHPKESession(origin: string): Promise<{
   // Generate nonce (16 bytes per ISO 18013-7 dcapi format)
   const nonce = crypto.getRandomValues(new Uint8Array(16));
 
+  return {
+    session: {
+      privateKey: keyPair.privateKey,
+      publicKeyBytes,
+      nonce,
+      origin,
+    },
+    encryptionInfo: encodeEncryptionInfo(nonce, publicKeyBytes),
+  };
+}
+
+/**
+ * Encode the dcapi encryptionInfo for a recipient key and nonce
+ *
+ * Deterministic, so a session rebuilds the exact bytes it sent.
+ */
+function encodeEncryptionInfo(nonce: Uint8Array, publicKeyBytes: Uint8Array): Uint8Array {
   // Extract x and y coordinates from uncompressed public key
   const x = publicKeyBytes.slice(1, 33); // Skip 0x04 prefix
   const y = publicKeyBytes.slice(33, 65);
@@ -93,60 +113,52 @@ export async function createHPKESession(origin: string): Promise<{
   coseKey.set(-2, x); // x coordinate
   coseKey.set(-3, y); // y coordinate
 
-  // Build encryptionInfo per ISO 18013-7 dcapi format
   // Structure: ["dcapi", { nonce, recipientPublicKey: COSE_Key }]
-  const encryptionInfo = encode([
+  return encode([
     'dcapi',
     {
       nonce: nonce,
       recipientPublicKey: coseKey,
     },
   ]);
-
-  return {
-    session: {
-      privateKey: keyPair.privateKey,
-      publicKeyBytes,
-      nonce,
-      origin,
-    },
-    encryptionInfo,
-  };
+}
+/**
+ * Build the SessionTranscript of an HPKE session
+ *
+ * ISO 18013-7 Annex C uses one transcript for everything in a request:
+ * ReaderAuth signs it, it is the HPKE info of the response, and DeviceAuth
+ * signs it. It depends only on what the verifier sent, so it is known before
+ * the wallet answers.
+ *
+ * @returns CBOR-encoded SessionTranscript (see buildDCAPISessionTranscript)
+ */
+export async function buildSessionTranscript(
+  session: Pick<HPKESession, 'nonce' | 'publicKeyBytes' | 'origin'>
+): Promise<Uint8Array> {
+  const encryptionInfo = encodeEncryptionInfo(session.nonce, session.publicKeyBytes);
+  return buildDCAPISessionTranscript(toBase64(encryptionInfo), session.origin);
 }
 
 /**
- * Build SessionTranscript for AAD in HPKE decryption
+ * Build the SessionTranscript per ISO 18013-7 Annex C
  *
- * For browser-based presentation (BrowserHandover):
- * SessionTranscript = [null, null, BrowserHandover]
- * BrowserHandover = ["BrowserHandoverv1", Nonce, OriginInfoBytes, RequesterIdentity, pkEm]
+ * SessionTranscript = [null, null, ["dcapi", sha256(cbor(dcapiInfo))]]
+ * dcapiInfo = [Base64EncryptionInfo, SerializedOrigin]
+ *
+ * @param encryptionInfo - encryptionInfo exactly as sent in the request data
+ * @param origin - Origin of the requesting website
+ * @returns CBOR-encoded SessionTranscript
  */
-function buildSessionTranscript(
-  session: HPKESession,
-  pkEm: Uint8Array
-): Uint8Array {
-  // Build OriginInfoBytes - origin of the requesting website
-  const originInfo = encode({
-    origin: session.origin,
-  });
-
-  // RequesterIdentity - can be empty for basic requests
-  const requesterIdentity = encode({});
-
-  // BrowserHandover structure
-  const browserHandover = [
-    'BrowserHandoverv1',
-    session.nonce,
-    originInfo,
-    requesterIdentity,
-    pkEm,
-  ];
-
-  // SessionTranscript = [DeviceEngagementBytes, EReaderKeyBytes, Handover]
-  // For browser API, DeviceEngagementBytes and EReaderKeyBytes are null
-  const sessionTranscript = [null, null, browserHandover];
-
-  return encode(sessionTranscript);
+export async function buildDCAPISessionTranscript(
+  encryptionInfo: string,
+  origin: string
+): Promise<Uint8Array> {
+  const dcapiInfo = encode([encryptionInfo, origin]);
+  const dcapiInfoHash = new Uint8Array(
+    await crypto.subtle.digest('SHA-256', dcapiInfo)
+  );
+
+  return encode([null, null, ['dcapi', dcapiInfoHash]]);
 }
 
 /**
@@ -312,11 +324,42 @@ async function decap(
   skR: CryptoKey,
   pkR: Uint8Array
 ): Promise<Uint8Array> {
-  const kemSuiteId = buildKemSuiteId();
-
   // Derive shared secret via ECDH
   const dh = await deriveSharedSecret(skR, enc);
 
+  return extractAndExpand(dh, enc, pkR);
+}
+
+/**
+ * HPKE Encap - generate an ephemeral key and encapsulate a shared secret
+ * (sender side, used by wallets and test wallets)
+ */
+async function encap(
+  pkR: Uint8Array
+): Promise<{ sharedSecret: Uint8Array; enc: Uint8Array }> {
+  const ephemeral = await crypto.subtle.generateKey(
+    { name: 'ECDH', namedCurve: 'P-256' },
+    true,
+    ['deriveBits']
+  );
+  const enc = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey));
+
+  // Derive shared secret via ECDH
+  const dh = await deriveSharedSecret(ephemeral.privateKey, pkR);
+
+  return { sharedSecret: await extractAndExpand(dh, enc, pkR), enc };
+}
+
+/**
+ * DHKEM ExtractAndExpand over kem_context = concat(enc, pkR)
+ */
+async function extractAndExpand(
+  dh: Uint8Array,
+  enc: Uint8Array,
+  pkR: Uint8Array
+): Promise<Uint8Array> {
+  const kemSuiteId = buildKemSuiteId();
+
   // kem_context = concat(enc, pkR)
   const kemContext = new Uint8Array(enc.length + pkR.length);
   kemContext.set(enc, 0);
@@ -425,6 +468,36 @@ async function aesGcmDecrypt(
   return new Uint8Array(plaintext);
 }
 
+/**
+ * Encrypt data using AES-128-GCM
+ */
+async function aesGcmEncrypt(
+  key: Uint8Array,
+  nonce: Uint8Array,
+  aad: Uint8Array,
+  plaintext: Uint8Array
+): Promise<Uint8Array> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    key,
+    { name: 'AES-GCM' },
+    false,
+    ['encrypt']
+  );
+
+  const ciphertext = await crypto.subtle.encrypt(
+    {
+      name: 'AES-GCM',
+      iv: nonce,
+      additionalData: aad,
+    },
+    cryptoKey,
+    plaintext
+  );
+
+  return new Uint8Array(ciphertext);
+}
+
 /**
  * Decrypt an ISO 18013-7 encrypted credential response
  *
@@ -436,12 +509,16 @@ export async function decryptCredentialResponse(
   encrypted: EncryptedCredentialDocument,
   session: HPKESession
 ): Promise<Uint8Array> {
+  if (session.expiresAt && session.expiresAt.getTime() <= Date.now()) {
+    throw new CredentialError('HPKE session has expired', 'SESSION_EXPIRED');
+  }
+
   try {
     const enc = encrypted.encryptionParameters.EDeviceKey;
     const ciphertext = encrypted.data;
 
-    // Build SessionTranscript for AAD
-    const sessionTranscript = buildSessionTranscript(session, enc);
+    // SessionTranscript is the HPKE info
+    const sessionTranscript = await buildSessionTranscript(session);
 
     // Decap: derive shared secret
     const sharedSecret = await decap(
@@ -451,18 +528,14 @@ export async function decryptCredentialResponse(
     );
 
     // KeyScheduleR: derive key and nonce
-    // info is empty for ISO 18013-7
-    const { key, baseNonce } = await keyScheduleR(
-      sharedSecret,
-      new Uint8Array(0)
-    );
+    const { key, baseNonce } = await keyScheduleR(sharedSecret, sessionTranscript);
 
-    // Decrypt using AES-128-GCM
+    // Decrypt using AES-128-GCM, with empty aad
     // For the first message, sequence number is 0, so nonce = base_nonce XOR 0 = base_nonce
     const plaintext = await aesGcmDecrypt(
       key,
       baseNonce,
-      sessionTranscript,
+      new Uint8Array(0),
       ciphertext
     );
 
@@ -474,3 +547,68 @@ export async function decryptCredentialResponse(
     );
   }
 }
+
+/**
+ * Encrypt a DeviceResponse to the verifier, as a wallet would
+ *
+ * The inverse of decryptCredentialResponse, for wallet implementations and
+ * test wallets. Reads the verifier's key and nonce from encryptionInfo.
+ *
+ * DeviceAuth signs the same SessionTranscript the response is encrypted
+ * under, so the DeviceResponse can be given as a function that builds it
+ * from the SessionTranscript.
+ *
+ * @param deviceResponse - CBOR-encoded DeviceResponse, or a builder for it
+ * @param encryptionInfo - encryptionInfo as sent in the request (base64), or its bytes
+ * @param origin - Origin of the requesting website
+ * @returns Encrypted credential document
+ */
+export async function encryptCredentialResponse(
+  deviceResponse: Uint8Array | ((sessionTranscript: Uint8Array) => Promise<Uint8Array>),
+  encryptionInfo: string | Uint8Array,
+  origin: string
+): Promise<EncryptedCredentialDocument> {
+  let recipientPublicKey: Uint8Array;
+  let encodedEncryptionInfo: string;
+  try {
+    encodedEncryptionInfo =
+      typeof encryptionInfo === 'string' ? encryptionInfo : toBase64(encryptionInfo);
+    const [label, info] = decode(
+      typeof encryptionInfo === 'string' ? fromBase64Url(encryptionInfo) : encryptionInfo,
+      { useMaps: true }
+    );
+    if (label !== 'dcapi') {
+      throw new Error(`unexpected encryptionInfo type ${label}`);
+    }
+    const coseKey = info.get('recipientPublicKey');
+    recipientPublicKey = new Uint8Array(N_PK);
+    recipientPublicKey[0] = 0x04;
+    recipientPublicKey.set(coseKey.get(-2), 1);
+    recipientPublicKey.set(coseKey.get(-3), 33);
+  } catch (error) {
+    throw new CredentialError(
+      `Invalid encryptionInfo: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'PARSE_ERROR'
+    );
+  }
+
+  const { sharedSecret, enc } = await encap(recipientPublicKey);
+  const sessionTranscript = await buildDCAPISessionTranscript(encodedEncryptionInfo, origin);
+
+  const plaintext =
+    deviceResponse instanceof Uint8Array
+      ? deviceResponse
+      : await deviceResponse(sessionTranscript);
+
+  const { key, baseNonce } = await keyScheduleR(sharedSecret, sessionTranscript);
+
+  return {
+    version: '1.0',
+    encryptionParameters: {
+      version: '1.0',
+      EDeviceKey: enc,
+      originInfoBytes: encode({ origin }),
+    },
+    data: await aesGcmEncrypt(key, baseNonce, new Uint8Array(0), plaintext),
+  };
+}
@@ -1,32 +1,269 @@
 export {
   requestCredential,
+  negotiateCredential,
   requestCredentialIdentity,
   isDigitalCredentialsSupported,
 } from './request.js';
 
 export {
   parseCredential,
+  getClaim,
+  getClaimValue,
   toProverCredential,
   createMockCredential,
 } from './parse.js';
 
+export {
+  DEVICE_RESPONSE_STATUS,
+  decodeDeviceResponse,
+  parseDeviceResponse,
+} from './device-response.js';
+
+export {
+  MDL_NAMESPACE,
+  AAMVA_NAMESPACE,
+  EU_PID_NAMESPACE,
+  ISO_23220_NAMESPACE,
+  PHOTOID_NAMESPACE,
+  claimKey,
+  registerDataElement,
+  getDataElement,
+  listDataElements,
+  decodeDataElement,
+} from './elements.js';
+
+export {
+  MDL_DOCTYPE,
+  EU_PID_DOCTYPE,
+  PHOTOID_DOCTYPE,
+  registerDocTypeProfile,
+  getDocTypeProfile,
+  listDocTypeProfiles,
+} from './doctypes.js';
+
+export {
+  createPresentationRequest,
+  completePresentation,
+  relayPresentationRequest,
+  createMemoryPresentationStore,
+} from './presentation.js';
+
+export {
+  createCrossDeviceRequest,
+  handleCrossDeviceRequest,
+  getCrossDevicePresentation,
+  createMemoryCrossDeviceStore,
+} from './cross-device.js';
+
+export {
+  EC_PUBLIC_KEY_OID,
+  P256_CURVE_OID,
+  P384_CURVE_OID,
+  P521_CURVE_OID,
+  ECDSA_SHA256_OID,
+  ECDSA_SHA384_OID,
+  ECDSA_SHA512_OID,
+  MDL_DS_EKU_OID,
+  parseCertificate,
+  getP256PublicKey,
+  verifyCertificateSignature,
+} from './x509.js';
+
+export { validateIssuerChain } from './chain.js';
+
+export {
+  decodeCoseSign1,
+  decodeProtectedHeader,
+  readX5Chain,
+  verifyCoseSign1,
+} from './cose.js';
+
+export { verifyIssuerSigned, requireIssuerSigned } from './issuer-auth.js';
+
+export { checkMSOValidity } from './validity.js';
+
+export {
+  CIRCUIT_LAYOUT,
+  analyzeCircuitLayout,
+  requireCircuitLayout,
+} from './circuit-layout.js';
+
+export { describeCredential } from './describe.js';
+
+export { createMockIssuer } from './mock-issuer.js';
+
+export { createMockWallet } from './mock-wallet.js';
+
+export { parseVical, verifyVical } from './vical.js';
+
 export {
   createHPKESession,
   decryptCredentialResponse,
+  encryptCredentialResponse,
+  buildSessionTranscript,
+  buildDCAPISessionTranscript,
 } from './hpke.js';
 
+export { computeJwkThumbprint, encryptJwe, decryptJwe } from './jwe.js';
+
+export {
+  verifyDeviceAuth,
+  buildDeviceAuthenticationBytes,
+  signDeviceAuthentication,
+  macDeviceAuthentication,
+} from './device-auth.js';
+
+export { exportSession, importSession } from './session.js';
+
+export {
+  buildReaderAuth,
+  buildReaderAuthenticationBytes,
+} from './reader-auth.js';
+
+export {
+  buildOpenID4VPRequest,
+  buildSignedOpenID4VPRequest,
+  buildDCQLQuery,
+  buildPresentationDefinition,
+  parseOpenID4VPResponse,
+  buildOpenID4VPSessionTranscript,
+  buildOpenID4VPHandoverSessionTranscript,
+} from './openid4vp.js';
+
 export type {
   RawCredentialResponse,
   RawIssuerSignedItem,
+  RawDeviceSigned,
+  ElementError,
+  NullifierStrategy,
+  NullifierSource,
   EncryptedCredentialResponse,
   ParsedCredential,
   ParsedMSO,
   ParsedClaim,
   ClaimType,
+  CredentialProtocol,
+  NegotiableProtocol,
   CredentialRequestOptions,
+  CredentialNegotiationOptions,
+  NegotiatedCredential,
+  DigitalCredentialRequest,
+  DigitalCredentialResponse,
+  OpenID4VPQueryFormat,
+  OpenID4VPRequestSigner,
+  ReaderAuthConfig,
+  ReaderAuthRemoteSigner,
   CredentialErrorCode,
 } from './types.js';
 
+export type {
+  DataElementCborType,
+  DataElementCborValues,
+  DataElementDefinition,
+  DataElementImage,
+  DataElementValues,
+  DataElementValue,
+  AamvaDataElementValues,
+  QualifiedAamvaElement,
+  KnownDataElement,
+} from './elements.js';
+
+export type { DocTypeProfile } from './doctypes.js';
+
+export type {
+  DeviceResponse,
+  DeviceResponseStatus,
+  MdocDocument,
+  IssuerSigned,
+  DocumentError,
+} from './device-response.js';
+
+export type {
+  PresentationRequestOptions,
+  PresentationRequest,
+  CompletePresentationOptions,
+  CompletedPresentation,
+  PendingPresentation,
+  PresentationStore,
+} from './presentation.js';
+
+export type {
+  CrossDeviceRequestOptions,
+  CrossDeviceRequest,
+  CrossDeviceRequestObject,
+  CrossDeviceClientMetadata,
+  CrossDeviceStatus,
+  CrossDeviceStore,
+  CrossDeviceTransaction,
+  CrossDeviceTransactionState,
+} from './cross-device.js';
+
+export type {
+  X509Certificate,
+  X509Extension,
+  DistinguishedName,
+  SubjectPublicKeyInfo,
+  KeyUsage,
+} from './x509.js';
+
+export type { ChainValidationOptions, IssuerChainValidation } from './chain.js';
+
+export type { CoseSign1 } from './cose.js';
+
+export type {
+  IssuerSignedReport,
+  ClaimDigestCheck,
+  IssuerSignedForm,
+  IssuerSignedOptions,
+} from './issuer-auth.js';
+
+export type { ValidityOptions } from './validity.js';
+export type { ParseOptions } from './parse.js';
+
+export type {
+  CircuitSlot,
+  CircuitSlotLayout,
+  CircuitLayoutOptions,
+  CircuitLayoutViolation,
+  CircuitLayoutReport,
+} from './circuit-layout.js';
+
+export type {
+  MockIssuer,
+  MockIssuerOptions,
+  MockCredentialOptions,
+  MockIssuedCredential,
+} from './mock-issuer.js';
+
+export type {
+  MockWallet,
+  MockWalletOptions,
+  MockWalletDocument,
+  MockWalletRequest,
+} from './mock-wallet.js';
+
+export type {
+  CredentialReport,
+  ClaimSummary,
+  SlotSummary,
+  BytesSummary,
+} from './describe.js';
+
+export type { Vical, VicalCertificateInfo, VicalVerificationOptions } from './vical.js';
+
 export type { HPKESession } from './hpke.js';
+export type { JweEncryption, JweHeader, JweEncryptOptions } from './jwe.js';
+export type { DeviceAuthContext } from './device-auth.js';
+export type { ExportSessionOptions, ImportSessionOptions } from './session.js';
+
+export type {
+  OpenID4VPRequest,
+  OpenID4VPRequestObject,
+  OpenID4VPRequestOptions,
+  SignedOpenID4VPRequest,
+  SignedOpenID4VPRequestOptions,
+  DCQLQuery,
+  PresentationDefinition,
+} from './openid4vp.js';
 
-export { CredentialError } from './types.js';
+export { CredentialError, ClaimValueError } from './types.js';
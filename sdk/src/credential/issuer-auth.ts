@@ -0,0 +1,250 @@
+/**
+ * Off-circuit verification of IssuerSigned data
+ *
+ * The circuit checks the issuer signature and the claim digests too, but a
+ * failure there is an opaque assertion after seconds of proving. These
+ * checks run first and say exactly what is wrong. There are two forms:
+ *
+ * iso (ISO 18013-5 clause 9.1.2.4):
+ * - issuerAuth: ES256 over Sig_structure = ["Signature1", protected, h'', MSO bytes],
+ *   with the key of the Document Signer certificate (first x5chain entry)
+ * - each IssuerSignedItem: SHA-256(IssuerSignedItemBytes) equals
+ *   valueDigests[namespace][digestID], where IssuerSignedItemBytes is the
+ *   item wrapped in tag 24
+ *
+ * circuit (circuits/src/main.nr), what a proof will verify:
+ * - issuerAuth: ES256 with a low s, by the Document Signer's P-256 key, over
+ *   the MSO zero-padded to CIRCUIT_LAYOUT.msoSize bytes
+ * - each IssuerSignedItem in a circuit slot: SHA-256 of the bare item,
+ *   zero-padded to the slot, equals its MSO digest
+ * - every other IssuerSignedItem (document_number, ...): the ISO rule, since
+ *   the circuit never hashes it and the issuer digests it as ISO says
+ */
+
+import { type ParsedClaim, type ParsedCredential, CredentialError } from './types.js';
+import { decodeProtectedHeader, verifyCoseSign1 } from './cose.js';
+import { wrapInTag24 } from './device-request.js';
+import { claimKey } from './elements.js';
+import { type CircuitSlot, CIRCUIT_LAYOUT, circuitSlotOf } from './circuit-layout.js';
+import { P256_ORDER, getP256PublicKey } from './x509.js';
+
+/**
+ * What the issuer signed and digested: ISO 18013-5 structures, or the
+ * circuit's padded buffers
+ */
+export type IssuerSignedForm = 'iso' | 'circuit';
+
+/**
+ * Options for verifyIssuerSigned
+ */
+export interface IssuerSignedOptions {
+  /** Which signature and digests to check (defaults to 'iso') */
+  form?: IssuerSignedForm;
+}
+
+/**
+ * Digest check for one claim
+ */
+export interface ClaimDigestCheck {
+  /** Claim key (`namespace:identifier`) */
+  claim: string;
+  namespace: string;
+  digestID: number;
+  /**
+   * - valid: the item hashes to its MSO digest
+   * - mismatch: the MSO lists a different digest
+   * - missing: the MSO has no digest for this digestID
+   */
+  status: 'valid' | 'mismatch' | 'missing';
+  /**
+   * SHA-256 of the item's tag 24 bytes, or in circuit form for a claim in a
+   * circuit slot, of the bare item zero-padded to the slot
+   */
+  computed: Uint8Array;
+  /** Digest listed in the MSO, if any */
+  expected?: Uint8Array;
+}
+
+/**
+ * Result of verifyIssuerSigned
+ */
+export interface IssuerSignedReport {
+  /** Form that was checked */
+  form: IssuerSignedForm;
+  /** Signature valid and every claim digest valid */
+  valid: boolean;
+  /** issuerAuth signature verifies with the Document Signer key */
+  signatureValid: boolean;
+  /** Why issuerAuth failed or could not be checked (signature, digestAlgorithm) */
+  issuerAuthError?: string;
+  /** One entry per claim, in parse order */
+  claims: ClaimDigestCheck[];
+}
+
+/**
+ * Verify the issuer signature and every claim digest of a credential
+ *
+ * @param parsed - Credential from parseCredential
+ * @param options - Form to check (ISO 18013-5 by default)
+ * @returns Per-claim report; nothing is thrown for verification failures
+ */
+export async function verifyIssuerSigned(
+  parsed: ParsedCredential,
+  options: IssuerSignedOptions = {}
+): Promise<IssuerSignedReport> {
+  const { mso } = parsed;
+  const form = options.form ?? 'iso';
+
+  let signatureValid = false;
+  let issuerAuthError: string | undefined;
+  if (mso.digestAlgorithm !== 'SHA-256') {
+    issuerAuthError = `Unsupported digestAlgorithm ${mso.digestAlgorithm}`;
+  }
+  try {
+    signatureValid =
+      form === 'circuit' ? await verifyCircuitSignature(parsed) : await verifyIsoSignature(parsed);
+    if (!signatureValid) {
+      issuerAuthError =
+        form === 'circuit'
+          ? 'issuerAuth signature over the zero-padded MSO does not verify with the ' +
+            'Document Signer key'
+          : 'issuerAuth signature does not verify with the Document Signer key';
+    }
+  } catch (error) {
+    issuerAuthError = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  const claims: ClaimDigestCheck[] = [];
+  for (const claim of parsed.claims.values()) {
+    const slot = form === 'circuit' ? circuitSlotOf(parsed, claim) : undefined;
+    const computed = slot
+      ? await sha256(slotBytes(claim, slot))
+      : await sha256(wrapInTag24(claim.bytes));
+    const expected = mso.valueDigests.get(claim.namespace)?.get(claim.digestIndex);
+    claims.push({
+      claim: claimKey(claim.namespace, claim.id),
+      namespace: claim.namespace,
+      digestID: claim.digestIndex,
+      status: !expected ? 'missing' : bytesEqual(computed, expected) ? 'valid' : 'mismatch',
+      computed,
+      expected,
+    });
+  }
+
+  return {
+    form,
+    valid: issuerAuthError === undefined && claims.every((claim) => claim.status === 'valid'),
+    signatureValid,
+    issuerAuthError,
+    claims,
+  };
+}
+
+/**
+ * Verify IssuerSigned data, failing on the first problem
+ *
+ * @throws CredentialError ISSUER_AUTH_FAILED naming the signature or the claims that fail
+ */
+export async function requireIssuerSigned(
+  parsed: ParsedCredential,
+  options: IssuerSignedOptions = {}
+): Promise<IssuerSignedReport> {
+  const report = await verifyIssuerSigned(parsed, options);
+  if (report.issuerAuthError) {
+    throw new CredentialError(report.issuerAuthError, 'ISSUER_AUTH_FAILED');
+  }
+
+  const failed = report.claims.filter((claim) => claim.status !== 'valid');
+  if (failed.length > 0) {
+    throw new CredentialError(
+      `Claim digests do not match the MSO: ${failed
+        .map((claim) => `${claim.claim} (digestID ${claim.digestID}, ${claim.status})`)
+        .join(', ')}`,
+      'ISSUER_AUTH_FAILED'
+    );
+  }
+
+  return report;
+}
+
+/**
+ * ES256 over the COSE Sig_structure
+ */
+async function verifyIsoSignature(parsed: ParsedCredential): Promise<boolean> {
+  const { mso, certificateChain } = parsed;
+  return verifyCoseSign1(
+    {
+      protectedHeader: mso.protectedHeader,
+      protectedParams: decodeProtectedHeader(mso.protectedHeader, 'issuerAuth'),
+      unprotectedParams: new Map(),
+      payload: mso.bytes,
+      signature: mso.signature,
+    },
+    certificateChain[0]
+  );
+}
+
+/**
+ * ES256 over the zero-padded MSO, as the circuit's secp256r1 check: P-256
+ * key, r || s with s in the lower half of the group order
+ */
+async function verifyCircuitSignature(parsed: ParsedCredential): Promise<boolean> {
+  const { mso, certificateChain } = parsed;
+  if (mso.bytes.length > CIRCUIT_LAYOUT.msoSize) {
+    throw new CredentialError(
+      `MSO is ${mso.bytes.length} bytes; the circuit takes at most ${CIRCUIT_LAYOUT.msoSize}`,
+      'UNSUPPORTED_CREDENTIAL'
+    );
+  }
+  if (mso.signature.length !== 64) {
+    throw new CredentialError(
+      `issuerAuth signature is ${mso.signature.length} bytes; the circuit takes r || s`,
+      'UNSUPPORTED_CREDENTIAL'
+    );
+  }
+  const s = BigInt('0x' + toHex(mso.signature.subarray(32)));
+  if (s > P256_ORDER / 2n) {
+    throw new CredentialError(
+      'issuerAuth signature has a high s, which the circuit rejects',
+      'UNSUPPORTED_CREDENTIAL'
+    );
+  }
+
+  const { x, y } = getP256PublicKey(certificateChain[0]);
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new Uint8Array([0x04, ...x, ...y]),
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['verify']
+  );
+  const padded = new Uint8Array(CIRCUIT_LAYOUT.msoSize);
+  padded.set(mso.bytes);
+  return crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, key, mso.signature, padded);
+}
+
+/**
+ * Bytes the circuit digests for a claim in one of its slots: the bare item,
+ * zero-padded to the slot
+ */
+function slotBytes(claim: ParsedClaim, slot: CircuitSlot): Uint8Array {
+  const { size } = CIRCUIT_LAYOUT.slots[slot];
+  if (claim.bytes.length >= size) {
+    return claim.bytes;
+  }
+  const padded = new Uint8Array(size);
+  padded.set(claim.bytes);
+  return padded;
+}
+
+async function sha256(bytes: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
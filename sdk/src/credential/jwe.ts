@@ -0,0 +1,241 @@
+/**
+ * JWE for OpenID4VP encrypted responses (response_mode direct_post.jwt)
+ *
+ * The verifier publishes an ECDH P-256 key in the request's client_metadata
+ * and the wallet encrypts its authorization response to it as a compact JWE:
+ * alg ECDH-ES (direct key agreement through the Concat KDF) with enc A128GCM
+ * or A256GCM. The key's JWK thumbprint goes into the OpenID4VPHandover
+ * SessionTranscript, so the DeviceResponse is bound to the encryption key.
+ *
+ * Reference: RFC 7516, RFC 7518 4.6 and 5.3, RFC 7638, OpenID4VP 1.0 8.3
+ */
+
+import { CredentialError } from './types.js';
+import { concatBytes, fromBase64Url, toBase64Url } from './encoding.js';
+
+/**
+ * Content encryption algorithms supported for responses
+ */
+export type JweEncryption = 'A128GCM' | 'A256GCM';
+
+/**
+ * JWE protected header
+ */
+export interface JweHeader {
+  alg: 'ECDH-ES';
+  enc: JweEncryption;
+  /** Sender's ephemeral public key */
+  epk: JsonWebKey;
+  kid?: string;
+  /** Agreement PartyUInfo, base64url */
+  apu?: string;
+  /** Agreement PartyVInfo, base64url */
+  apv?: string;
+}
+
+/**
+ * Options for encryptJwe
+ */
+export interface JweEncryptOptions {
+  /** Content encryption (defaults to A128GCM) */
+  enc?: JweEncryption;
+  /** Recipient key id to put in the header */
+  kid?: string;
+  /** Agreement PartyUInfo */
+  apu?: Uint8Array;
+  /** Agreement PartyVInfo */
+  apv?: Uint8Array;
+}
+
+/** AES-GCM key length in bits, by enc */
+const KEY_BITS: Record<JweEncryption, number> = { A128GCM: 128, A256GCM: 256 };
+
+/** AES-GCM nonce size */
+const IV_BYTES = 12;
+
+/** AES-GCM tag size */
+const TAG_BYTES = 16;
+
+/**
+ * RFC 7638 SHA-256 thumbprint of a P-256 public key
+ *
+ * @param jwk - EC public (or private) key as JWK
+ * @returns 32-byte thumbprint
+ */
+export async function computeJwkThumbprint(jwk: JsonWebKey): Promise<Uint8Array> {
+  if (jwk.kty !== 'EC' || !jwk.crv || !jwk.x || !jwk.y) {
+    throw new CredentialError('JWK thumbprints are computed for EC keys only', 'NOT_SUPPORTED');
+  }
+  // Required members only, in lexicographic order, no whitespace
+  const canonical = JSON.stringify({ crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y });
+  return new Uint8Array(
+    await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical))
+  );
+}
+
+/**
+ * Encrypt to a P-256 key as a compact ECDH-ES JWE (wallet side, and tests)
+ *
+ * @param plaintext - Payload, e.g. the JSON authorization response
+ * @param recipient - Recipient public key as JWK
+ * @param options - enc, kid and agreement party info
+ * @returns Compact serialization
+ */
+export async function encryptJwe(
+  plaintext: Uint8Array,
+  recipient: JsonWebKey,
+  options: JweEncryptOptions = {}
+): Promise<string> {
+  const enc = options.enc ?? 'A128GCM';
+  const ephemeral = await crypto.subtle.generateKey(
+    { name: 'ECDH', namedCurve: 'P-256' },
+    true,
+    ['deriveBits']
+  );
+  const { kty, crv, x, y } = await crypto.subtle.exportKey('jwk', ephemeral.publicKey);
+
+  const header: JweHeader = { alg: 'ECDH-ES', enc, epk: { kty, crv, x, y } };
+  if (options.kid) header.kid = options.kid;
+  if (options.apu) header.apu = toBase64Url(options.apu);
+  if (options.apv) header.apv = toBase64Url(options.apv);
+  const protectedHeader = toBase64Url(new TextEncoder().encode(JSON.stringify(header)));
+
+  const key = await deriveContentKey(
+    ephemeral.privateKey,
+    await importPublicKey(recipient),
+    header
+  );
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const sealed = new Uint8Array(
+    await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(protectedHeader) },
+      key,
+      plaintext
+    )
+  );
+
+  // No encrypted key: ECDH-ES agrees on the content key directly
+  return [
+    protectedHeader,
+    '',
+    toBase64Url(iv),
+    toBase64Url(sealed.slice(0, -TAG_BYTES)),
+    toBase64Url(sealed.slice(-TAG_BYTES)),
+  ].join('.');
+}
+
+/**
+ * Decrypt a compact ECDH-ES JWE
+ *
+ * @param jwe - Compact serialization
+ * @param privateKey - Recipient ECDH P-256 private key
+ * @returns Protected header and plaintext
+ * @throws CredentialError PARSE_ERROR if the JWE is malformed, uses another
+ *   algorithm or does not decrypt
+ */
+export async function decryptJwe(
+  jwe: string,
+  privateKey: CryptoKey
+): Promise<{ header: JweHeader; plaintext: Uint8Array }> {
+  const parts = jwe.split('.');
+  if (parts.length !== 5 || parts[1] !== '') {
+    throw new CredentialError('Expected a compact ECDH-ES JWE', 'PARSE_ERROR');
+  }
+  const [protectedHeader, , iv, ciphertext, tag] = parts;
+
+  let header: JweHeader;
+  try {
+    header = JSON.parse(new TextDecoder().decode(fromBase64Url(protectedHeader)));
+  } catch {
+    throw new CredentialError('JWE protected header is not valid JSON', 'PARSE_ERROR');
+  }
+  if (header.alg !== 'ECDH-ES' || !(header.enc in KEY_BITS) || !header.epk) {
+    throw new CredentialError(
+      `Unsupported JWE algorithms: ${header.alg} / ${header.enc}`,
+      'PARSE_ERROR'
+    );
+  }
+
+  try {
+    const key = await deriveContentKey(privateKey, await importPublicKey(header.epk), header);
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: fromBase64Url(iv),
+        additionalData: new TextEncoder().encode(protectedHeader),
+      },
+      key,
+      concatBytes([fromBase64Url(ciphertext), fromBase64Url(tag)])
+    );
+    return { header, plaintext: new Uint8Array(plaintext) };
+  } catch (error) {
+    throw new CredentialError(
+      `JWE decryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'PARSE_ERROR'
+    );
+  }
+}
+
+/**
+ * Import a P-256 public key for ECDH
+ */
+async function importPublicKey(jwk: JsonWebKey): Promise<CryptoKey> {
+  const { kty, crv, x, y } = jwk;
+  return crypto.subtle.importKey(
+    'jwk',
+    { kty, crv, x, y },
+    { name: 'ECDH', namedCurve: 'P-256' },
+    false,
+    []
+  );
+}
+
+/**
+ * ECDH-ES content key: Concat KDF (NIST SP 800-56A) over the shared secret
+ * with AlgorithmID = enc (RFC 7518 4.6.2)
+ */
+async function deriveContentKey(
+  privateKey: CryptoKey,
+  publicKey: CryptoKey,
+  header: JweHeader
+): Promise<CryptoKey> {
+  const z = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256)
+  );
+  const keyBits = KEY_BITS[header.enc];
+
+  const otherInfo = concatBytes([
+    lengthPrefixed(new TextEncoder().encode(header.enc)),
+    lengthPrefixed(header.apu ? fromBase64Url(header.apu) : new Uint8Array(0)),
+    lengthPrefixed(header.apv ? fromBase64Url(header.apv) : new Uint8Array(0)),
+    uint32(keyBits),
+  ]);
+  // One SHA-256 round covers both key sizes
+  const digest = new Uint8Array(
+    await crypto.subtle.digest('SHA-256', concatBytes([uint32(1), z, otherInfo]))
+  );
+
+  return crypto.subtle.importKey(
+    'raw',
+    digest.slice(0, keyBits / 8),
+    { name: 'AES-GCM' },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * 32-bit big-endian length followed by the bytes
+ */
+function lengthPrefixed(bytes: Uint8Array): Uint8Array {
+  return concatBytes([uint32(bytes.length), bytes]);
+}
+
+/**
+ * 32-bit big-endian integer
+ */
+function uint32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+}
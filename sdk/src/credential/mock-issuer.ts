@@ -0,0 +1,392 @@
+/**
+ * Mock mDL issuer
+ *
+ * createMockCredential() fills the signature, keys and digests with random
+ * bytes, so it can only exercise code paths that never prove. A mock issuer
+ * holds a real P-256 IACA key and issues credentials the circuit accepts:
+ *
+ * - IssuerSignedItems with 32-byte salts, so age_over_21 / age_over_18 /
+ *   issuing_jurisdiction fill their 96 / 107-byte slots exactly
+ * - an MSO in the circuit's layout (CIRCUIT_LAYOUT): validUntil at byte 96,
+ *   digestIDs 0/1/2 at bytes 143/179/215, each digest SHA-256 of the bare
+ *   item; the other elements' digests are ISO ones, over the tag 24 item
+ * - ES256 by the Document Signer key over SHA-256 of the MSO zero-padded to
+ *   512 bytes, which is what the circuit verifies
+ *
+ * As a real issuer, it has a self-signed IACA certificate and a Document
+ * Signer (DS) certificate issued by it, the x5chain of every credential:
+ * validateIssuerChain() accepts the chain with the IACA certificate as the
+ * root. The circuit takes the DS key (its iaca_pubkey input), so iacaPubkey
+ * and iacaRoot() are the DS key's, the value to register with
+ * ThurinSBT.addIACARoot() on a local chain.
+ *
+ * Like every circuit-layout credential, the issuer signature and the slot
+ * digests are not ISO 18013-5 ones (no COSE Sig_structure, no tag 24):
+ * verifyIssuerSigned() accepts them with form 'circuit', as
+ * Thurin.requestCredential() checks them. For tests and staging only.
+ */
+
+import { encode } from 'cborg';
+import type { Hex } from 'viem';
+import type { RawCredentialResponse, RawIssuerSignedItem } from './types.js';
+import { CIRCUIT_LAYOUT } from './circuit-layout.js';
+import { MDL_DOCTYPE } from './doctypes.js';
+import { MDL_NAMESPACE } from './elements.js';
+import { concatBytes } from './encoding.js';
+import { wrapInTag24 } from './device-request.js';
+import { parseCredential, toProverCredential } from './parse.js';
+import { ECDSA_SHA256_OID, MDL_DS_EKU_OID, P256_ORDER } from './x509.js';
+import type { Credential } from '../prover/types.js';
+
+const ECDSA_P256 = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+
+/** digestIDs of the circuit's claims; other elements follow */
+const CIRCUIT_DIGEST_IDS = {
+  age_over_21: CIRCUIT_LAYOUT.slots.ageOver21.digestID,
+  issuing_jurisdiction: CIRCUIT_LAYOUT.slots.jurisdiction.digestID,
+  age_over_18: CIRCUIT_LAYOUT.slots.ageOver18.digestID,
+};
+
+/**
+ * Options for createMockIssuer
+ */
+export interface MockIssuerOptions {
+  /** IACA certificate common name (defaults to "Thurin Mock IACA") */
+  commonName?: string;
+  /** IACA certificate country (defaults to "US") */
+  country?: string;
+  /** PKCS#8 P-256 IACA private key, for an issuer that is the same across runs */
+  privateKey?: Uint8Array;
+  /** PKCS#8 P-256 Document Signer private key, likewise */
+  documentSignerKey?: Uint8Array;
+}
+
+/**
+ * Options for MockIssuer.issue
+ */
+export interface MockCredentialOptions {
+  ageOver21?: boolean;
+  ageOver18?: boolean;
+  /** 2-letter code the circuit reads from issuing_jurisdiction (defaults to "CA") */
+  state?: string;
+  /** Nullifier source (defaults to "D1234567") */
+  documentNumber?: string;
+  /** MSO validity; dates are written as "YYYY-MM-DD" (defaults: today, +1 year) */
+  validFrom?: Date;
+  validUntil?: Date;
+  /** More mDL elements to issue, after the circuit's claims */
+  claims?: Record<string, unknown>;
+}
+
+/**
+ * A credential from a mock issuer
+ */
+export interface MockIssuedCredential {
+  /** What a wallet would return, for parseCredential */
+  response: RawCredentialResponse;
+  /** Ready for generateProof */
+  credential: Credential;
+  /** Private key for the MSO deviceKey, for DeviceAuth */
+  devicePrivateKey: CryptoKey;
+}
+
+/**
+ * Issuer with P-256 IACA and Document Signer keys
+ */
+export interface MockIssuer {
+  /** Self-signed IACA certificate (DER), the trust anchor */
+  certificate: Uint8Array;
+  /** DS certificate (DER) issued by the IACA, the x5chain of every credential */
+  documentSigner: Uint8Array;
+  /** DS public key, as the circuit takes it (iaca_pubkey) */
+  iacaPubkey: {
+    x: Uint8Array;
+    y: Uint8Array;
+  };
+  /**
+   * Poseidon2 IACA root of iacaPubkey, for ThurinSBT.addIACARoot()
+   */
+  iacaRoot(): Promise<Hex>;
+  /** Issue an mDL in the circuit's layout */
+  issue(options?: MockCredentialOptions): Promise<MockIssuedCredential>;
+}
+
+/**
+ * Create a mock issuer with its own IACA and Document Signer keys and certificates
+ */
+export async function createMockIssuer(options: MockIssuerOptions = {}): Promise<MockIssuer> {
+  const iaca = await keyPair(options.privateKey);
+  const ds = await keyPair(options.documentSignerKey);
+
+  const commonName = options.commonName ?? 'Thurin Mock IACA';
+  const iacaName = distinguishedName(commonName, options.country ?? 'US');
+  const certificate = await buildCertificate(iaca.privateKey, iacaName, iaca.publicKey, iacaName, [
+    // basicConstraints: cA, pathLenConstraint 0
+    extension(
+      '2.5.29.19',
+      sequence(der(0x01, new Uint8Array([0xff])), integer(new Uint8Array([0])))
+    ),
+    // keyUsage: keyCertSign, cRLSign
+    extension('2.5.29.15', der(0x03, new Uint8Array([0x01, 0x06]))),
+  ]);
+  const documentSigner = await buildCertificate(
+    iaca.privateKey,
+    iacaName,
+    ds.publicKey,
+    distinguishedName(`${commonName} Document Signer`, options.country ?? 'US'),
+    [
+      // keyUsage: digitalSignature
+      extension('2.5.29.15', der(0x03, new Uint8Array([0x07, 0x80]))),
+      // extendedKeyUsage: mDL Document Signer
+      extension('2.5.29.37', sequence(oid(MDL_DS_EKU_OID))),
+    ]
+  );
+
+  const rawPublicKey = new Uint8Array(await crypto.subtle.exportKey('raw', ds.publicKey));
+  const iacaPubkey = { x: rawPublicKey.slice(1, 33), y: rawPublicKey.slice(33, 65) };
+
+  return {
+    certificate,
+    documentSigner,
+    iacaPubkey,
+    iacaRoot: async () => {
+      // Loaded on demand so the credential entry point does not pull in bb.js
+      const { computeIacaRoot } = await import('../prover/index.js');
+      return computeIacaRoot(iacaPubkey.x, iacaPubkey.y);
+    },
+    issue: (credentialOptions = {}) => issue(ds.privateKey, documentSigner, credentialOptions),
+  };
+}
+
+async function issue(
+  documentSignerKey: CryptoKey,
+  certificate: Uint8Array,
+  options: MockCredentialOptions
+): Promise<MockIssuedCredential> {
+  const state = options.state ?? 'CA';
+  if (!/^[A-Z]{2}$/.test(state)) {
+    throw new Error(`Mock credential state must be a 2-letter code, got "${state}"`);
+  }
+  const validFrom = options.validFrom ?? new Date();
+  const validUntil =
+    options.validUntil ?? new Date(validFrom.getTime() + 365 * 24 * 60 * 60 * 1000);
+
+  const elements: Array<[string, unknown]> = [
+    ['age_over_21', options.ageOver21 ?? true],
+    ['issuing_jurisdiction', state],
+    ['age_over_18', options.ageOver18 ?? true],
+    ['document_number', options.documentNumber ?? 'D1234567'],
+    ...Object.entries(options.claims ?? {}),
+  ];
+  let nextDigestID = Object.keys(CIRCUIT_DIGEST_IDS).length;
+  const items: RawIssuerSignedItem[] = elements.map(([elementIdentifier, elementValue]) => {
+    const item = {
+      digestID:
+        CIRCUIT_DIGEST_IDS[elementIdentifier as keyof typeof CIRCUIT_DIGEST_IDS] ??
+        nextDigestID++,
+      random: crypto.getRandomValues(new Uint8Array(32)),
+      elementIdentifier,
+      elementValue,
+    };
+    return { ...item, rawBytes: encode(item) };
+  });
+
+  // Digests keyed by text digestIDs, as in circuits/Prover.toml, so each
+  // lands at its fixed offset. The circuit hashes its slots bare; the other
+  // elements are digested as ISO 18013-5 says, over IssuerSignedItemBytes
+  const slotDigestIDs: number[] = Object.values(CIRCUIT_DIGEST_IDS);
+  const digests: Record<string, Uint8Array> = {};
+  for (const item of items) {
+    digests[String(item.digestID)] = await sha256(
+      slotDigestIDs.includes(item.digestID) ? item.rawBytes : wrapInTag24(item.rawBytes)
+    );
+  }
+
+  const device = await crypto.subtle.generateKey(ECDSA_P256, true, ['sign', 'verify']);
+  const deviceKey = new Uint8Array(await crypto.subtle.exportKey('raw', device.publicKey));
+
+  const date = (d: Date) => d.toISOString().slice(0, 10);
+  const mso = encode({
+    docType: MDL_DOCTYPE,
+    validityInfo: {
+      signed: date(validFrom),
+      validFrom: date(validFrom),
+      validUntil: date(validUntil),
+    },
+    valueDigests: { [MDL_NAMESPACE]: digests },
+    deviceKeyInfo: {
+      deviceKey: new Map<number, unknown>([
+        [1, 2],
+        [-1, 1],
+        [-2, deviceKey.slice(1, 33)],
+        [-3, deviceKey.slice(33, 65)],
+      ]),
+    },
+    digestAlgorithm: 'SHA-256',
+  });
+  if (mso.length > CIRCUIT_LAYOUT.msoSize) {
+    throw new Error(
+      `Mock credential MSO is ${mso.length} bytes; the circuit takes at most ` +
+        `${CIRCUIT_LAYOUT.msoSize} (issue fewer extra claims)`
+    );
+  }
+
+  // The circuit verifies the signature over SHA-256 of the padded MSO
+  const padded = new Uint8Array(CIRCUIT_LAYOUT.msoSize);
+  padded.set(mso);
+  const signature = await sign(documentSignerKey, padded);
+
+  const response: RawCredentialResponse = {
+    issuerAuth: encode([
+      encode(new Map([[1, -7]])),
+      new Map([[33, certificate]]),
+      mso,
+      signature,
+    ]),
+    namespaces: { [MDL_NAMESPACE]: items },
+  };
+
+  return {
+    response,
+    credential: toProverCredential(parseCredential(response)),
+    devicePrivateKey: device.privateKey,
+  };
+}
+
+/**
+ * Import a PKCS#8 private key and derive its public key, or generate a pair
+ */
+async function keyPair(pkcs8?: Uint8Array): Promise<CryptoKeyPair> {
+  if (!pkcs8) {
+    return crypto.subtle.generateKey(ECDSA_P256, true, ['sign', 'verify']);
+  }
+  const privateKey = await crypto.subtle.importKey('pkcs8', pkcs8, ECDSA_P256, true, ['sign']);
+  const { kty, crv, x, y } = await crypto.subtle.exportKey('jwk', privateKey);
+  const publicKey = await crypto.subtle.importKey(
+    'jwk',
+    { kty, crv, x, y },
+    ECDSA_P256,
+    true,
+    ['verify']
+  );
+  return { privateKey, publicKey };
+}
+
+/**
+ * ES256 signature as r || s, with s in the lower half of the group order
+ * (the form the circuit's secp256r1 verification accepts)
+ */
+async function sign(key: CryptoKey, data: Uint8Array): Promise<Uint8Array> {
+  const signature = new Uint8Array(
+    await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, key, data)
+  );
+  const s = BigInt('0x' + toHex(signature.subarray(32)));
+  if (s > P256_ORDER / 2n) {
+    signature.set(fromHex((P256_ORDER - s).toString(16).padStart(64, '0')), 32);
+  }
+  return signature;
+}
+
+/**
+ * X.509 v3 certificate, signed with the issuer's key
+ */
+async function buildCertificate(
+  issuerKey: CryptoKey,
+  issuerName: Uint8Array,
+  subjectKey: CryptoKey,
+  subjectName: Uint8Array,
+  extensions: Uint8Array[]
+): Promise<Uint8Array> {
+  const signatureAlgorithm = sequence(oid(ECDSA_SHA256_OID));
+  const tbs = sequence(
+    der(0xa0, integer(new Uint8Array([2]))), // v3
+    integer(crypto.getRandomValues(new Uint8Array(8))),
+    signatureAlgorithm,
+    issuerName,
+    sequence(utcTime('20200101000000Z'), utcTime('20491231235959Z')),
+    subjectName,
+    new Uint8Array(await crypto.subtle.exportKey('spki', subjectKey)),
+    der(0xa3, sequence(...extensions))
+  );
+
+  // X.509 wants ECDSA-Sig-Value ::= SEQUENCE { r INTEGER, s INTEGER }
+  const signature = await sign(issuerKey, tbs);
+  const sigValue = sequence(integer(signature.subarray(0, 32)), integer(signature.subarray(32)));
+
+  return sequence(tbs, signatureAlgorithm, der(0x03, new Uint8Array([0]), sigValue));
+}
+
+function distinguishedName(commonName: string, country: string): Uint8Array {
+  const text = (value: string) => new TextEncoder().encode(value);
+  return sequence(
+    der(0x31, sequence(oid('2.5.4.6'), der(0x13, text(country)))),
+    der(0x31, sequence(oid('2.5.4.3'), der(0x0c, text(commonName))))
+  );
+}
+
+/**
+ * Critical extension
+ */
+function extension(id: string, value: Uint8Array): Uint8Array {
+  return sequence(oid(id), der(0x01, new Uint8Array([0xff])), der(0x04, value));
+}
+
+/**
+ * DER TLV with a definite length (short form below 128, else long form)
+ */
+function der(tag: number, ...contents: Uint8Array[]): Uint8Array {
+  const body = concatBytes(contents);
+  const length: number[] = [];
+  for (let value = body.length; value > 0; value = Math.floor(value / 0x100)) {
+    length.unshift(value & 0xff);
+  }
+  const header =
+    body.length < 0x80 ? [tag, body.length] : [tag, 0x80 | length.length, ...length];
+  return concatBytes([new Uint8Array(header), body]);
+}
+
+function sequence(...contents: Uint8Array[]): Uint8Array {
+  return der(0x30, ...contents);
+}
+
+/**
+ * Unsigned big-endian INTEGER, minimally encoded
+ */
+function integer(bytes: Uint8Array): Uint8Array {
+  let start = 0;
+  while (start < bytes.length - 1 && bytes[start] === 0) {
+    start++;
+  }
+  const value = bytes.subarray(start);
+  return der(0x02, value[0] & 0x80 ? concatBytes([new Uint8Array([0]), value]) : value);
+}
+
+function oid(dotted: string): Uint8Array {
+  const [first, second, ...rest] = dotted.split('.').map(Number);
+  const bytes = [40 * first + second];
+  for (const arc of rest) {
+    const base128 = [arc & 0x7f];
+    for (let value = arc >> 7; value > 0; value >>= 7) {
+      base128.unshift((value & 0x7f) | 0x80);
+    }
+    bytes.push(...base128);
+  }
+  return der(0x06, new Uint8Array(bytes));
+}
+
+function utcTime(generalized: string): Uint8Array {
+  // UTCTime has a 2-digit year (valid through 2049)
+  return der(0x17, new TextEncoder().encode(generalized.slice(2)));
+}
+
+async function sha256(bytes: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  return new Uint8Array(hex.match(/../g)!.map((byte) => parseInt(byte, 16)));
+}
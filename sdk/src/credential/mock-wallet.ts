@@ -0,0 +1,352 @@
+/**
+ * Mock Digital Credentials wallet
+ *
+ * requestCredential() needs `navigator.credentials.get`, which Node and
+ * headless browsers don't have. A mock wallet implements it for the
+ * org-iso-mdoc protocol, the way a platform wallet answers our requests:
+ *
+ * - reads the DeviceRequest (each DocRequest's ItemsRequest) and the dcapi
+ *   encryptionInfo from the request data, and verifies each ReaderAuth
+ *   against its x5chain leaf over the request's SessionTranscript
+ * - discloses the requested elements of the held document of each requested
+ *   doctype, IssuerSignedItems untouched (tag 24), and reports the rest under
+ *   the document's errors; a doctype it holds nothing for goes in
+ *   documentErrors
+ * - signs DeviceAuth over the ISO 18013-7 Annex C SessionTranscript and
+ *   HPKE-encrypts the DeviceResponse to the recipient key under it, for the
+ *   origin the request came from
+ *
+ * It can also simulate the holder cancelling or withholding elements. The
+ * reader certificate is not checked against any trust list. Pair it with
+ * createMockIssuer() for documents; for tests only.
+ */
+
+import { decode, encode, Token, Type } from 'cborg';
+import {
+  type ClaimType,
+  type ElementError,
+  type RawCredentialResponse,
+  CredentialError,
+} from './types.js';
+import { buildDCAPISessionTranscript, encryptCredentialResponse } from './hpke.js';
+import { signDeviceAuthentication } from './device-auth.js';
+import { buildReaderAuthenticationBytes } from './reader-auth.js';
+import { decodeCoseSign1, readX5Chain, verifyCoseSign1 } from './cose.js';
+import { parseMSO } from './parse.js';
+import { claimKey } from './elements.js';
+import { MDOC_TAGS } from './cbor.js';
+import { fromBase64Url } from './encoding.js';
+
+/** ErrorCode for data not returned (ISO 18013-5 Table 9) */
+const DATA_NOT_RETURNED = 0;
+
+/**
+ * A document held by the mock wallet
+ *
+ * A MockIssuedCredential from createMockIssuer() fits as is.
+ */
+export interface MockWalletDocument {
+  /** IssuerSigned data as issued (issuerAuth and every item) */
+  response: RawCredentialResponse;
+  /** ECDSA P-256 key matching the MSO deviceKey, for the deviceSignature */
+  devicePrivateKey: CryptoKey;
+}
+
+/**
+ * Options for createMockWallet
+ */
+export interface MockWalletOptions {
+  /** Documents in the wallet */
+  documents: MockWalletDocument[];
+  /**
+   * Origin the browser reports to the wallet; it goes into the
+   * SessionTranscript (defaults to the page origin, or https://localhost
+   * outside a browser, as requestCredential does)
+   */
+  origin?: string;
+  /** Decline every request, as a holder dismissing the wallet UI would */
+  cancel?: boolean;
+  /** Elements the holder declines to share: identifiers or `namespace:identifier` */
+  withhold?: ClaimType[];
+}
+
+/**
+ * A request the mock wallet received
+ */
+export interface MockWalletRequest {
+  origin: string;
+  docRequests: Array<{
+    docType: string;
+    /** Requested elements and their intent-to-retain flags */
+    nameSpaces: Record<string, Record<string, boolean>>;
+    /** Whether the DocRequest carried ReaderAuth */
+    readerAuth: boolean;
+  }>;
+}
+
+/**
+ * Mock wallet answering Digital Credentials API requests
+ */
+export interface MockWallet {
+  /** `navigator.credentials.get` for `{ digital: { requests } }` */
+  get(options: { digital?: { requests?: Array<{ protocol: string; data: unknown }> } }): Promise<{
+    protocol: 'org-iso-mdoc';
+    data: unknown;
+  }>;
+  /** Requests received so far, oldest first */
+  requests: MockWalletRequest[];
+  /**
+   * Make this wallet `navigator.credentials` (creating `navigator` if needed)
+   * @returns Function that restores the previous state
+   */
+  install(): () => void;
+}
+
+/**
+ * Create a mock wallet holding the given documents
+ */
+export function createMockWallet(options: MockWalletOptions): MockWallet {
+  const requests: MockWalletRequest[] = [];
+
+  const get: MockWallet['get'] = async ({ digital }) => {
+    const request = digital?.requests?.find(({ protocol }) => protocol === 'org-iso-mdoc');
+    if (!request) {
+      throw new DOMException('No supported protocol in the request', 'NotSupportedError');
+    }
+
+    const origin = options.origin ?? globalThis.location?.origin ?? 'https://localhost';
+    const { docRequests, readerAuths, encryptionInfo } = readRequest(request.data);
+    requests.push({ origin, docRequests });
+
+    const sessionTranscript = await buildDCAPISessionTranscript(encryptionInfo, origin);
+    for (const readerAuth of readerAuths) {
+      if (readerAuth) {
+        await verifyReaderAuth(readerAuth, sessionTranscript);
+      }
+    }
+
+    if (options.cancel) {
+      throw new DOMException('The user declined the request', 'NotAllowedError');
+    }
+
+    const data = await encryptCredentialResponse(
+      (sessionTranscript) => buildDeviceResponse(options, docRequests, sessionTranscript),
+      encryptionInfo,
+      origin
+    );
+    return { protocol: 'org-iso-mdoc', data };
+  };
+
+  return {
+    get,
+    requests,
+    install: () => installCredentials({ get }),
+  };
+}
+
+/**
+ * ReaderAuth of one DocRequest, with the ItemsRequest it signs
+ */
+interface ReceivedReaderAuth {
+  /** CBOR-encoded COSE_Sign1 */
+  coseSign1: Uint8Array;
+  /** CBOR-encoded ItemsRequest (untagged) */
+  itemsRequest: Uint8Array;
+}
+
+/**
+ * Read the org-iso-mdoc request data (base64 DeviceRequest and encryptionInfo)
+ */
+function readRequest(data: unknown): {
+  docRequests: MockWalletRequest['docRequests'];
+  readerAuths: Array<ReceivedReaderAuth | undefined>;
+  encryptionInfo: string;
+} {
+  try {
+    const { deviceRequest, encryptionInfo } = data as Record<string, string>;
+    // With Maps: a ReaderAuth COSE_Sign1 has an integer-keyed header
+    const request = decode(fromBase64Url(deviceRequest), { useMaps: true, tags: MDOC_TAGS });
+    const received: Array<Map<string, unknown>> = request.get('docRequests');
+    return {
+      docRequests: received.map((docRequest) => {
+        const { docType, nameSpaces } = decode(docRequest.get('itemsRequest') as Uint8Array);
+        return { docType, nameSpaces, readerAuth: docRequest.has('readerAuth') };
+      }),
+      readerAuths: received.map((docRequest) =>
+        docRequest.has('readerAuth')
+          ? {
+              coseSign1: encode(docRequest.get('readerAuth')),
+              itemsRequest: docRequest.get('itemsRequest') as Uint8Array,
+            }
+          : undefined
+      ),
+      encryptionInfo,
+    };
+  } catch (error) {
+    throw new CredentialError(
+      `Mock wallet could not read the request: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+      'PARSE_ERROR'
+    );
+  }
+}
+
+/**
+ * Check a ReaderAuth signature with its x5chain leaf, as a wallet would
+ * before showing the reader as authenticated
+ *
+ * @throws CredentialError READER_AUTH_FAILED if it does not verify
+ */
+async function verifyReaderAuth(
+  readerAuth: ReceivedReaderAuth,
+  sessionTranscript: Uint8Array
+): Promise<void> {
+  let valid: boolean;
+  try {
+    const cose = decodeCoseSign1(readerAuth.coseSign1, 'ReaderAuth');
+    const [readerCertificate] = readX5Chain(cose, 'ReaderAuth');
+    valid = await verifyCoseSign1(
+      cose,
+      readerCertificate,
+      buildReaderAuthenticationBytes(sessionTranscript, readerAuth.itemsRequest)
+    );
+  } catch (error) {
+    throw new CredentialError(
+      `Mock wallet could not check ReaderAuth: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+      'READER_AUTH_FAILED'
+    );
+  }
+  if (!valid) {
+    throw new CredentialError(
+      'ReaderAuth does not verify over this request',
+      'READER_AUTH_FAILED'
+    );
+  }
+}
+
+/**
+ * Build the DeviceResponse for the requested documents, bound to the session
+ */
+async function buildDeviceResponse(
+  options: MockWalletOptions,
+  docRequests: MockWalletRequest['docRequests'],
+  sessionTranscript: Uint8Array
+): Promise<Uint8Array> {
+  const withheld = new Set(options.withhold ?? []);
+  const documents: unknown[] = [];
+  const documentErrors: Array<Record<string, number>> = [];
+
+  for (const { docType, nameSpaces } of docRequests) {
+    const held = options.documents.find(
+      (document) => parseMSO(document.response.issuerAuth).docType === docType
+    );
+    if (!held) {
+      documentErrors.push({ [docType]: DATA_NOT_RETURNED });
+      continue;
+    }
+
+    const disclosed: Record<string, EmbeddedCbor[]> = {};
+    const errors: ElementError[] = [];
+    for (const [namespace, elements] of Object.entries(nameSpaces)) {
+      for (const elementIdentifier of Object.keys(elements)) {
+        const item = held.response.namespaces[namespace]?.find(
+          (candidate) => candidate.elementIdentifier === elementIdentifier
+        );
+        if (
+          item &&
+          !withheld.has(elementIdentifier) &&
+          !withheld.has(claimKey(namespace, elementIdentifier))
+        ) {
+          (disclosed[namespace] ??= []).push(new EmbeddedCbor(item.rawBytes));
+        } else {
+          errors.push({ namespace, elementIdentifier, errorCode: DATA_NOT_RETURNED });
+        }
+      }
+    }
+
+    const deviceNameSpaces = encode({});
+    const deviceSignature = await signDeviceAuthentication(
+      held.devicePrivateKey,
+      sessionTranscript,
+      docType,
+      deviceNameSpaces
+    );
+
+    documents.push({
+      docType,
+      // As encoded COSE_Sign1 bytes, the form parseDeviceResponse keeps: the
+      // DeviceResponse is decoded without Maps, so an inline COSE_Sign1's
+      // integer-keyed header would not decode
+      issuerSigned: { nameSpaces: disclosed, issuerAuth: held.response.issuerAuth },
+      deviceSigned: {
+        nameSpaces: new EmbeddedCbor(deviceNameSpaces),
+        deviceAuth: { deviceSignature: decode(deviceSignature) },
+      },
+      ...(errors.length > 0 && { errors: groupErrors(errors) }),
+    });
+  }
+
+  return encode(
+    {
+      version: '1.0',
+      ...(documents.length > 0 && { documents }),
+      ...(documentErrors.length > 0 && { documentErrors }),
+      status: 0,
+    },
+    { typeEncoders: { Object: encodeEmbeddedCbor } }
+  );
+}
+
+/**
+ * Errors as DeviceResponse `errors`: { NameSpace => { element => ErrorCode } }
+ */
+function groupErrors(errors: ElementError[]): Record<string, Record<string, number>> {
+  const grouped: Record<string, Record<string, number>> = {};
+  for (const { namespace, elementIdentifier, errorCode } of errors) {
+    (grouped[namespace] ??= {})[elementIdentifier] = errorCode;
+  }
+  return grouped;
+}
+
+/**
+ * Encoded CBOR to embed as #6.24(bstr), byte for byte
+ */
+class EmbeddedCbor {
+  constructor(readonly bytes: Uint8Array) {}
+}
+
+function encodeEmbeddedCbor(value: unknown): Token[] | null {
+  return value instanceof EmbeddedCbor
+    ? [new Token(Type.tag, 24), new Token(Type.bytes, value.bytes)]
+    : null;
+}
+
+/**
+ * Put a credentials container on `navigator`
+ */
+function installCredentials(credentials: Pick<MockWallet, 'get'>): () => void {
+  if (typeof navigator === 'undefined') {
+    Object.defineProperty(globalThis, 'navigator', {
+      value: { credentials },
+      configurable: true,
+      writable: true,
+    });
+    return () => {
+      delete (globalThis as { navigator?: unknown }).navigator;
+    };
+  }
+
+  // Browsers define credentials on Navigator.prototype; shadow it
+  const previous = Object.getOwnPropertyDescriptor(navigator, 'credentials');
+  Object.defineProperty(navigator, 'credentials', { value: credentials, configurable: true });
+  return () => {
+    if (previous) {
+      Object.defineProperty(navigator, 'credentials', previous);
+    } else {
+      delete (navigator as { credentials?: unknown }).credentials;
+    }
+  };
+}
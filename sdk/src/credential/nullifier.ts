@@ -0,0 +1,75 @@
+/**
+ * Nullifier sources
+ *
+ * The circuit derives the nullifier from a private 32-byte input (named
+ * document_number in the circuit), the event ID and the IACA root. Which
+ * credential data fills that input is the nullifier strategy, passed as a
+ * nullifierStrategy option or taken from the document type's profile:
+ *
+ * - `document-number`: the profile's nullifierSources element, UTF-8 and
+ *   zero-padded (unchanged, so existing nullifiers stay valid)
+ * - `device-key`: the MSO deviceKey, for wallets that won't release a
+ *   document number. The key belongs to one provisioning of the document,
+ *   so each device (or reinstall) the holder provisions yields its own
+ *   nullifier. That makes it unsafe for one-per-person events such as SBT
+ *   minting or anti-sybil checks; Thurin.requestCredential refuses it.
+ * - `issuer-id`: the profile's issuerIdSources element, an identifier the
+ *   issuer keeps stable for the holder across documents
+ *
+ * Hashed inputs start with a tag byte no document number starts with, and a
+ * document type uses exactly one strategy with no fallback. Both hold only
+ * in this SDK: the circuit takes the input as a private witness and knows
+ * neither the tag nor the strategy, so a holder running their own prover
+ * can fill it with anything. These rules keep honest clients' nullifiers
+ * consistent; they are not double-mint protection. Enforcing the separation
+ * needs a circuit change that binds the input to the signed credential.
+ */
+
+import { sha256 } from 'viem';
+import { type NullifierStrategy, CredentialError } from './types.js';
+
+/** Size of the circuit's nullifier input */
+const NULLIFIER_INPUT_SIZE = 32;
+
+/** First byte of hashed nullifier inputs, by strategy */
+const STRATEGY_TAGS: Record<Exclude<NullifierStrategy, 'document-number'>, number> = {
+  'device-key': 0x01,
+  'issuer-id': 0x02,
+};
+
+/**
+ * Nullifier input for a document number: its UTF-8 bytes, zero-padded
+ *
+ * @throws CredentialError (INVALID_CLAIM) if it starts with a control
+ *   character and could collide with a hashed input's tag
+ */
+export function documentNumberInput(documentNumber: string): Uint8Array {
+  const bytes = new TextEncoder().encode(documentNumber);
+  if (bytes.length === 0 || bytes[0] < 0x20) {
+    throw new CredentialError(
+      'Document number is empty or starts with a control character',
+      'INVALID_CLAIM'
+    );
+  }
+  const input = new Uint8Array(NULLIFIER_INPUT_SIZE);
+  input.set(bytes.subarray(0, NULLIFIER_INPUT_SIZE));
+  return input;
+}
+
+/**
+ * Nullifier input for a hashed strategy: tag byte, then the first 31 bytes
+ * of SHA-256 over the source
+ *
+ * Keeping the top byte small also keeps the input below the field modulus.
+ *
+ * @param source - deviceKey x || y, or the issuer identifier's UTF-8 bytes
+ */
+export function hashedNullifierInput(
+  strategy: Exclude<NullifierStrategy, 'document-number'>,
+  source: Uint8Array
+): Uint8Array {
+  const input = new Uint8Array(NULLIFIER_INPUT_SIZE);
+  input[0] = STRATEGY_TAGS[strategy];
+  input.set(sha256(source, 'bytes').subarray(0, NULLIFIER_INPUT_SIZE - 1), 1);
+  return input;
+}
@@ -0,0 +1,365 @@
+/**
+ * OpenID4VP request building and response decoding
+ *
+ * Chrome on Android accepts `openid4vp` requests through the Digital
+ * Credentials API in addition to `org-iso-mdoc`. The wallet answers with a
+ * `vp_token` holding a base64url-encoded ISO 18013-5 DeviceResponse, which we
+ * decode into the same RawCredentialResponse the org-iso-mdoc path produces.
+ *
+ * Reference: OpenID for Verifiable Presentations 1.0, Appendix B.2 (mso_mdoc)
+ */
+
+import { decode, encode } from 'cborg';
+import {
+  type ClaimType,
+  type NullifierStrategy,
+  type OpenID4VPQueryFormat,
+  type OpenID4VPRequestSigner,
+  type RawCredentialResponse,
+  CredentialError,
+} from './types.js';
+import { buildNameSpaces } from './device-request.js';
+import { MDL_DOCTYPE } from './doctypes.js';
+import { parseDeviceResponse } from './device-response.js';
+import { fromBase64Url } from './encoding.js';
+import { MDOC_TAGS } from './cbor.js';
+
+/** Identifier of the single credential query / input descriptor we send */
+export const OPENID4VP_CREDENTIAL_ID = 'mdl';
+
+/**
+ * DCQL query for an mso_mdoc credential
+ */
+export interface DCQLQuery {
+  credentials: Array<{
+    id: string;
+    format: 'mso_mdoc';
+    meta: { doctype_value: string };
+    claims: Array<{
+      path: [string, string];
+      intent_to_retain: boolean;
+    }>;
+  }>;
+}
+
+/**
+ * Presentation Exchange definition for an mso_mdoc credential
+ */
+export interface PresentationDefinition {
+  id: string;
+  input_descriptors: Array<{
+    id: string;
+    format: { mso_mdoc: { alg: string[] } };
+    constraints: {
+      limit_disclosure: 'required';
+      fields: Array<{
+        path: string[];
+        intent_to_retain: boolean;
+      }>;
+    };
+  }>;
+}
+
+/**
+ * Unsigned OpenID4VP request passed as `data` to the Digital Credentials API
+ *
+ * Cross-device requests use `direct_post.jwt` instead (see cross-device.ts).
+ */
+export interface OpenID4VPRequest {
+  response_type: 'vp_token';
+  response_mode: 'dc_api' | 'direct_post.jwt';
+  nonce: string;
+  dcql_query?: DCQLQuery;
+  presentation_definition?: PresentationDefinition;
+}
+
+/**
+ * Request object of a signed OpenID4VP request, as passed to the signer
+ */
+export interface OpenID4VPRequestObject extends OpenID4VPRequest {
+  client_id: string;
+  expected_origins?: string[];
+}
+
+/**
+ * Options for building an OpenID4VP request
+ */
+export interface OpenID4VPRequestOptions {
+  /** Freshness nonce echoed back in the SessionTranscript */
+  nonce: string;
+  /** Query language to express the claims in (defaults to `dcql`) */
+  queryFormat?: OpenID4VPQueryFormat;
+  /** Document type to request (defaults to the mDL) */
+  docType?: string;
+  /** Nullifier strategy deciding which source element is requested */
+  nullifierStrategy?: NullifierStrategy;
+}
+
+/**
+ * Options for building a signed OpenID4VP request
+ */
+export interface SignedOpenID4VPRequestOptions extends OpenID4VPRequestOptions {
+  /** Verifier client identifier, e.g. `x509_san_dns:verifier.example` */
+  clientId: string;
+  /** Origins allowed to present this request (defaults to none) */
+  expectedOrigins?: string[];
+  /** Signs the request object */
+  signer: OpenID4VPRequestSigner;
+}
+
+/**
+ * Signed OpenID4VP request passed as `data` to the Digital Credentials API
+ */
+export interface SignedOpenID4VPRequest {
+  /** Compact JWS over the request object */
+  request: string;
+}
+
+/**
+ * Build the DCQL query requesting the given claims from a document
+ */
+export function buildDCQLQuery(
+  claims: ClaimType[],
+  docType: string = MDL_DOCTYPE,
+  nullifierStrategy?: NullifierStrategy
+): DCQLQuery {
+  const nameSpaces = buildNameSpaces(claims, docType, nullifierStrategy);
+
+  return {
+    credentials: [
+      {
+        id: OPENID4VP_CREDENTIAL_ID,
+        format: 'mso_mdoc',
+        meta: { doctype_value: docType },
+        claims: flattenNameSpaces(nameSpaces).map(([namespace, element, retain]) => ({
+          path: [namespace, element],
+          intent_to_retain: retain,
+        })),
+      },
+    ],
+  };
+}
+
+/**
+ * Build the Presentation Exchange definition requesting the given claims
+ *
+ * Field paths use the `$['namespace']['element']` form mandated for mso_mdoc.
+ */
+export function buildPresentationDefinition(
+  claims: ClaimType[],
+  docType: string = MDL_DOCTYPE,
+  nullifierStrategy?: NullifierStrategy
+): PresentationDefinition {
+  const nameSpaces = buildNameSpaces(claims, docType, nullifierStrategy);
+
+  return {
+    id: OPENID4VP_CREDENTIAL_ID,
+    input_descriptors: [
+      {
+        id: docType,
+        format: { mso_mdoc: { alg: ['ES256'] } },
+        constraints: {
+          limit_disclosure: 'required',
+          fields: flattenNameSpaces(nameSpaces).map(([namespace, element, retain]) => ({
+            path: [`$['${namespace}']['${element}']`],
+            intent_to_retain: retain,
+          })),
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Build an unsigned OpenID4VP request for the Digital Credentials API
+ */
+export function buildOpenID4VPRequest(
+  claims: ClaimType[],
+  options: OpenID4VPRequestOptions
+): OpenID4VPRequest {
+  const request: OpenID4VPRequest = {
+    response_type: 'vp_token',
+    response_mode: 'dc_api',
+    nonce: options.nonce,
+  };
+
+  if ((options.queryFormat ?? 'dcql') === 'dcql') {
+    request.dcql_query = buildDCQLQuery(claims, options.docType, options.nullifierStrategy);
+  } else {
+    request.presentation_definition = buildPresentationDefinition(
+      claims,
+      options.docType,
+      options.nullifierStrategy
+    );
+  }
+
+  return request;
+}
+
+/**
+ * Build a signed OpenID4VP request (`openid4vp-v1-signed` protocol)
+ *
+ * The request object is the unsigned request plus `client_id` and
+ * `expected_origins`, signed by the caller-provided signer.
+ */
+export async function buildSignedOpenID4VPRequest(
+  claims: ClaimType[],
+  options: SignedOpenID4VPRequestOptions
+): Promise<SignedOpenID4VPRequest> {
+  const payload: OpenID4VPRequestObject = {
+    ...buildOpenID4VPRequest(claims, options),
+    client_id: options.clientId,
+  };
+
+  if (options.expectedOrigins && options.expectedOrigins.length > 0) {
+    payload.expected_origins = options.expectedOrigins;
+  }
+
+  return { request: await options.signer(payload) };
+}
+
+/**
+ * Parse the `data` of an OpenID4VP Digital Credentials response
+ *
+ * Accepts the response as an object or JSON string. The `vp_token` may be:
+ * - a DCQL result: `{ [credentialId]: string[] | string }`
+ * - a Presentation Exchange result: `string` or `string[]`
+ *
+ * @param data - Response data from the wallet
+ * @param docType - Document type that was requested (defaults to any known one)
+ * @returns Raw credential response extracted from the mdoc DeviceResponse
+ */
+export function parseOpenID4VPResponse(
+  data: unknown,
+  docType?: string
+): RawCredentialResponse {
+  let response: unknown = data;
+
+  if (typeof response === 'string') {
+    try {
+      response = JSON.parse(response);
+    } catch {
+      throw new CredentialError(
+        'OpenID4VP response is not valid JSON',
+        'PARSE_ERROR'
+      );
+    }
+  }
+
+  if (
+    !response ||
+    typeof response !== 'object' ||
+    (response as { vp_token?: unknown }).vp_token === undefined
+  ) {
+    throw new CredentialError('No vp_token in OpenID4VP response', 'PARSE_ERROR');
+  }
+
+  const token = extractMdocToken((response as { vp_token: unknown }).vp_token);
+
+  let deviceResponse: unknown;
+  try {
+    deviceResponse = decode(fromBase64Url(token), { tags: MDOC_TAGS });
+  } catch (error) {
+    throw new CredentialError(
+      `Failed to decode vp_token DeviceResponse: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'PARSE_ERROR'
+    );
+  }
+
+  return parseDeviceResponse(deviceResponse, docType);
+}
+
+/**
+ * Build the SessionTranscript of an OpenID4VP request over the DC API
+ *
+ * The DeviceResponse in a vp_token signs it in DeviceAuth
+ * (OpenID4VP 1.0 Appendix B.2.6.2):
+ * SessionTranscript = [null, null, ["OpenID4VPDCAPIHandover", sha256(cbor(handoverInfo))]]
+ * handoverInfo = [origin, nonce, jwkThumbprint]
+ *
+ * @param origin - Origin of the requesting website
+ * @param nonce - nonce of the request
+ * @param jwkThumbprint - SHA-256 JWK thumbprint of the response encryption
+ *   key, or null for unencrypted responses
+ * @returns CBOR-encoded SessionTranscript
+ */
+export async function buildOpenID4VPSessionTranscript(
+  origin: string,
+  nonce: string,
+  jwkThumbprint: Uint8Array | null = null
+): Promise<Uint8Array> {
+  const handoverInfo = encode([origin, nonce, jwkThumbprint]);
+  const handoverInfoHash = new Uint8Array(await crypto.subtle.digest('SHA-256', handoverInfo));
+
+  return encode([null, null, ['OpenID4VPDCAPIHandover', handoverInfoHash]]);
+}
+
+/**
+ * Build the SessionTranscript of a redirect-based OpenID4VP request
+ *
+ * Used when the wallet fetches the request itself and POSTs the response
+ * to response_uri (OpenID4VP 1.0 Appendix B.2.6.1):
+ * SessionTranscript = [null, null, ["OpenID4VPHandover", sha256(cbor(handoverInfo))]]
+ * handoverInfo = [clientId, nonce, jwkThumbprint, responseUri]
+ *
+ * @param clientId - client_id of the request, prefix included
+ * @param nonce - nonce of the request
+ * @param responseUri - response_uri of the request
+ * @param jwkThumbprint - SHA-256 JWK thumbprint of the response encryption
+ *   key, or null for unencrypted responses
+ * @returns CBOR-encoded SessionTranscript
+ */
+export async function buildOpenID4VPHandoverSessionTranscript(
+  clientId: string,
+  nonce: string,
+  responseUri: string,
+  jwkThumbprint: Uint8Array | null = null
+): Promise<Uint8Array> {
+  const handoverInfo = encode([clientId, nonce, jwkThumbprint, responseUri]);
+  const handoverInfoHash = new Uint8Array(await crypto.subtle.digest('SHA-256', handoverInfo));
+
+  return encode([null, null, ['OpenID4VPHandover', handoverInfoHash]]);
+}
+
+/**
+ * Pick the base64url DeviceResponse out of a vp_token
+ */
+function extractMdocToken(vpToken: unknown): string {
+  if (typeof vpToken === 'string') {
+    return vpToken;
+  }
+
+  if (Array.isArray(vpToken)) {
+    if (vpToken.length === 0 || typeof vpToken[0] !== 'string') {
+      throw new CredentialError('Empty vp_token in OpenID4VP response', 'NO_CREDENTIAL');
+    }
+    return vpToken[0];
+  }
+
+  if (vpToken && typeof vpToken === 'object') {
+    const tokens = vpToken as Record<string, unknown>;
+    const entry = tokens[OPENID4VP_CREDENTIAL_ID] ?? Object.values(tokens)[0];
+    if (entry === undefined) {
+      throw new CredentialError(
+        'No mDL presentation in vp_token',
+        'NO_CREDENTIAL'
+      );
+    }
+    return extractMdocToken(entry);
+  }
+
+  throw new CredentialError('Unsupported vp_token format', 'PARSE_ERROR');
+}
+
+/**
+ * Flatten ItemsRequest nameSpaces into [namespace, element, intentToRetain]
+ */
+function flattenNameSpaces(
+  nameSpaces: Record<string, Record<string, boolean>>
+): Array<[string, string, boolean]> {
+  return Object.entries(nameSpaces).flatMap(([namespace, elements]) =>
+    Object.entries(elements).map(
+      ([element, retain]): [string, string, boolean] => [namespace, element, retain]
+    )
+  );
+}
@@ -7,66 +7,117 @@
 
 import { decode, encode } from 'cborg';
 import {
+  type ClaimType,
+  type ElementError,
+  type NullifierStrategy,
   type RawCredentialResponse,
+  type RawIssuerSignedItem,
   type ParsedCredential,
   type ParsedMSO,
   type ParsedClaim,
+  ClaimValueError,
   CredentialError,
 } from './types.js';
+import {
+  type DataElementValue,
+  MDL_NAMESPACE,
+  claimKey,
+  decodeDataElement,
+  getDataElement,
+} from './elements.js';
+import {
+  type DocTypeProfile,
+  getDocTypeProfile,
+  getNullifierStrategy,
+  nullifierElements,
+  requireDocTypeProfile,
+  resolveClaim,
+} from './doctypes.js';
+import { documentNumberInput, hashedNullifierInput } from './nullifier.js';
+import { concatBytes } from './encoding.js';
+import { FullDate, MDOC_TAGS } from './cbor.js';
+import { type X509Certificate, getP256PublicKey } from './x509.js';
+import { decodeCoseSign1, readX5Chain } from './cose.js';
+import { locateClaim } from './circuit-layout.js';
 import type { Credential } from '../prover/types.js';
 
+/** Milliseconds in a day */
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Options for parseCredential
+ */
+export interface ParseOptions {
+  /**
+   * How to derive the nullifier input (defaults to the document type's
+   * strategy). Use the strategy the request was made with.
+   */
+  nullifierStrategy?: NullifierStrategy;
+}
+
 /**
  * Parse a raw credential response into a format ready for proof generation
  *
  * @param raw - Raw response from Digital Credentials API
+ * @param options - Nullifier strategy
  * @returns Parsed credential with MSO, claims, and keys
  */
-export function parseCredential(raw: RawCredentialResponse): ParsedCredential {
+export function parseCredential(
+  raw: RawCredentialResponse,
+  options: ParseOptions = {}
+): ParsedCredential {
   try {
     // Parse the issuerAuth (COSE_Sign1 containing MSO)
     const mso = parseMSO(raw.issuerAuth);
 
-    // Parse all claims from the namespace
-    const claims = new Map<string, ParsedClaim>();
-    const namespace = raw.namespaces['org.iso.18013.5.1'];
+    // The document type decides namespaces and the nullifier source
+    const profile = requireDocTypeProfile(mso.docType);
+    const [primaryNamespace] = profile.namespaces;
 
-    if (!namespace) {
+    if (!raw.namespaces[primaryNamespace]) {
       throw new CredentialError(
-        'Missing org.iso.18013.5.1 namespace in credential',
+        `Missing ${primaryNamespace} namespace in credential`,
         'PARSE_ERROR'
       );
     }
 
-    for (const item of namespace) {
-      claims.set(item.elementIdentifier, {
-        id: item.elementIdentifier,
-        bytes: item.rawBytes,
-        value: item.elementValue,
-        digestIndex: item.digestID,
-      });
-    }
-
-    // Extract document number for nullifier
-    const docNumberClaim = claims.get('document_number');
-    if (!docNumberClaim) {
-      throw new CredentialError(
-        'document_number claim is required but not present',
-        'INVALID_CLAIM'
-      );
+    // Parse all claims from every namespace, keyed by namespace:identifier
+    const claims = new Map<string, ParsedClaim>();
+    for (const [namespace, items] of Object.entries(raw.namespaces)) {
+      for (const item of items) {
+        claims.set(claimKey(namespace, item.elementIdentifier), {
+          id: item.elementIdentifier,
+          namespace,
+          bytes: item.rawBytes,
+          value: decodeItemValue(namespace, item),
+          digestIndex: item.digestID,
+        });
+      }
     }
 
-    const documentNumber = stringToBytes(docNumberClaim.value as string, 32);
+    // Derive the nullifier input with the configured or document type's strategy
+    const { documentNumber, nullifierSource } = readNullifierSource(
+      profile,
+      getNullifierStrategy(profile, options.nullifierStrategy),
+      mso,
+      claims,
+      raw.elementErrors
+    );
 
-    // Extract IACA public key from the certificate chain
-    // Note: In a real implementation, this would come from the certificate
-    // For now, we expect it to be provided or extracted from issuerAuth
-    const iacaPubkey = extractIACAPubkey(raw.issuerAuth);
+    // The circuit verifies the MSO with the Document Signer key, the first
+    // x5chain certificate; the IACA above it is only known once the chain is
+    // validated against trusted roots
+    const certificateChain = extractCertificateChain(raw.issuerAuth);
+    const iacaPubkey = getP256PublicKey(certificateChain[0]);
 
     return {
       mso,
       claims,
       iacaPubkey,
       documentNumber,
+      nullifierSource,
+      certificateChain,
+      elementErrors: raw.elementErrors,
     };
   } catch (error) {
     if (error instanceof CredentialError) {
@@ -80,208 +131,358 @@ export function parseCredential(raw: RawCredentialResponse): ParsedCredential {
 }
 
 /**
- * Parse COSE_Sign1 structure containing the MSO
+ * Look up a parsed claim
+ *
+ * Known elements come back typed: parseCredential decoded their values with
+ * the same definitions (see decodeDataElement).
+ *
+ * @param claim - Identifier, or `namespace:identifier` for other namespaces
  */
-function parseMSO(issuerAuth: Uint8Array): ParsedMSO {
-  // COSE_Sign1 = [protected, unprotected, payload, signature]
-  const coseSign1 = decode(issuerAuth);
+export function getClaim<K extends ClaimType>(
+  parsed: ParsedCredential,
+  claim: K
+): ParsedClaim<DataElementValue<K>> | undefined {
+  return findParsedClaim(parsed, claim) as ParsedClaim<DataElementValue<K>> | undefined;
+}
 
-  if (!Array.isArray(coseSign1) || coseSign1.length < 4) {
-    throw new CredentialError('Invalid COSE_Sign1 structure', 'PARSE_ERROR');
+function findParsedClaim(parsed: ParsedCredential, claim: ClaimType): ParsedClaim | undefined {
+  const profile = getDocTypeProfile(parsed.mso.docType);
+  const definition = profile ? resolveClaim(profile, claim) : getDataElement(claim);
+  if (definition) {
+    return parsed.claims.get(claimKey(definition.namespace, definition.identifier));
   }
+  // Unregistered element: qualified claims are already keys
+  const primaryNamespace = profile?.namespaces[0] ?? MDL_NAMESPACE;
+  return parsed.claims.get(claim) ?? parsed.claims.get(claimKey(primaryNamespace, claim));
+}
 
-  const [_protected, _unprotected, payload, signature] = coseSign1;
-
-  // Payload is the MSO
-  const msoBytes = payload instanceof Uint8Array ? payload : encode(payload);
-  const msoDecoded = decode(msoBytes);
+/**
+ * Nullifier input for a strategy (see nullifier.ts)
+ */
+function readNullifierSource(
+  profile: DocTypeProfile,
+  strategy: NullifierStrategy,
+  mso: ParsedMSO,
+  claims: Map<string, ParsedClaim>,
+  elementErrors: ElementError[] | undefined
+): Pick<ParsedCredential, 'documentNumber' | 'nullifierSource'> {
+
+  if (strategy === 'device-key') {
+    if (!mso.deviceKey) {
+      throw new CredentialError(
+        'MSO has no deviceKey, which the device-key nullifier strategy requires',
+        'INVALID_CLAIM'
+      );
+    }
+    return {
+      documentNumber: hashedNullifierInput(
+        strategy,
+        concatBytes([mso.deviceKey.x, mso.deviceKey.y])
+      ),
+      nullifierSource: { strategy },
+    };
+  }
 
-  // Extract validity info
-  const validityInfo = msoDecoded.validityInfo ?? {};
-  const signed = parseDate(validityInfo.signed);
-  const validFrom = parseDate(validityInfo.validFrom);
-  const validUntil = parseDate(validityInfo.validUntil);
+  const candidates = nullifierElements(profile, strategy);
+  const claim = findClaim(claims, candidates);
+  if (!claim) {
+    throw missingClaimError(
+      candidates,
+      elementErrors,
+      `${candidates.join(' or ')} claim is required but not present`
+    );
+  }
+  if (typeof claim.value !== 'string') {
+    throw new ClaimValueError(claim.namespace, claim.id, 'tstr', typeof claim.value);
+  }
 
   return {
-    bytes: msoBytes,
-    signature: signature as Uint8Array,
-    validityInfo: {
-      signed,
-      validFrom,
-      validUntil,
-    },
-    digestAlgorithm: msoDecoded.digestAlgorithm ?? 'SHA-256',
-    docType: msoDecoded.docType ?? 'org.iso.18013.5.1.mDL',
+    documentNumber:
+      strategy === 'document-number'
+        ? documentNumberInput(claim.value)
+        : hashedNullifierInput(strategy, new TextEncoder().encode(claim.value)),
+    nullifierSource: { strategy, element: claimKey(claim.namespace, claim.id) },
   };
 }
 
 /**
- * Extract IACA public key from issuerAuth certificate chain
+ * First claim present among qualified candidates
+ */
+function findClaim(
+  claims: Map<string, ParsedClaim>,
+  candidates: string[]
+): ParsedClaim | undefined {
+  for (const candidate of candidates) {
+    const claim = claims.get(candidate);
+    if (claim) {
+      return claim;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Error for a required claim that is absent
  *
- * Note: This is a simplified implementation. In production, you would:
- * 1. Extract the X.509 certificate from the COSE_Sign1 header
- * 2. Parse the certificate to get the public key
- * 3. Validate the certificate chain back to a trusted root
+ * CLAIM_NOT_RETURNED if the wallet reported one of the candidates as not
+ * returned (e.g. the user withheld it), INVALID_CLAIM otherwise.
  */
-function extractIACAPubkey(issuerAuth: Uint8Array): {
-  x: Uint8Array;
-  y: Uint8Array;
-} {
-  // Decode COSE_Sign1
-  const coseSign1 = decode(issuerAuth);
-
-  if (!Array.isArray(coseSign1) || coseSign1.length < 2) {
-    throw new CredentialError(
-      'Invalid COSE_Sign1 structure for key extraction',
-      'PARSE_ERROR'
+function missingClaimError(
+  candidates: string[],
+  elementErrors: ElementError[] | undefined,
+  message: string
+): CredentialError {
+  const withheld = elementErrors?.find((error) =>
+    candidates.includes(claimKey(error.namespace, error.elementIdentifier))
+  );
+  if (withheld) {
+    return new CredentialError(
+      `Wallet did not return ${claimKey(withheld.namespace, withheld.elementIdentifier)} ` +
+        `(error code ${withheld.errorCode}), which is required`,
+      'CLAIM_NOT_RETURNED'
     );
   }
+  return new CredentialError(message, 'INVALID_CLAIM');
+}
 
-  // The protected header contains the certificate chain
-  const protectedHeader = decode(coseSign1[0]);
+/**
+ * Read a decoded claim value with the type its data element definition gives
+ */
+export function getClaimValue<K extends ClaimType>(
+  parsed: ParsedCredential,
+  claim: K
+): DataElementValue<K> | undefined {
+  return getClaim(parsed, claim)?.value;
+}
 
-  // x5chain (33) contains the certificate chain
-  const x5chain = protectedHeader.get?.(33) ?? protectedHeader[33];
+/**
+ * Decode an IssuerSignedItem value using the data element registry
+ * Elements we have no definition for keep their CBOR-decoded value.
+ */
+function decodeItemValue(namespace: string, item: RawIssuerSignedItem): unknown {
+  const definition = getDataElement(item.elementIdentifier, namespace);
+  if (!definition) {
+    return item.elementValue;
+  }
+  return decodeDataElement(definition, item.elementValue);
+}
 
-  if (!x5chain || !Array.isArray(x5chain) || x5chain.length === 0) {
-    // If no x5chain, try to get from unprotected header
-    const unprotectedHeader = coseSign1[1];
-    const certChain =
-      unprotectedHeader?.get?.(33) ?? unprotectedHeader?.[33] ?? [];
+/**
+ * Parse COSE_Sign1 structure containing the MSO
+ */
+export function parseMSO(issuerAuth: Uint8Array): ParsedMSO {
+  // COSE_Sign1 = [protected, unprotected, payload, signature]
+  const { protectedHeader, payload, signature } = decodeCoseSign1(issuerAuth, 'issuerAuth');
+  if (!payload) {
+    throw new CredentialError('issuerAuth has no MSO payload', 'PARSE_ERROR');
+  }
 
-    if (!certChain || certChain.length === 0) {
-      throw new CredentialError(
-        'No certificate chain found in issuerAuth',
-        'PARSE_ERROR'
-      );
-    }
+  // Payload is the MSO, usually wrapped as MobileSecurityObjectBytes (tag 24).
+  // Maps are decoded as Maps because deviceKeyInfo holds an integer-keyed COSE_Key.
+  const msoBytes = payload;
+  let msoDecoded = decode(msoBytes, { useMaps: true, tags: MDOC_TAGS });
+  if (msoDecoded instanceof Uint8Array) {
+    msoDecoded = decode(msoDecoded, { useMaps: true, tags: MDOC_TAGS });
+  }
+
+  if (!(msoDecoded instanceof Map) || typeof msoDecoded.get('docType') !== 'string') {
+    throw new CredentialError('MSO is missing docType', 'PARSE_ERROR');
+  }
 
-    return extractPubkeyFromCert(certChain[0]);
+  // Extract validity info; a missing or malformed date is an error, never a default
+  const validityInfo = msoDecoded.get('validityInfo');
+  if (!(validityInfo instanceof Map)) {
+    throw new CredentialError('MSO is missing validityInfo', 'PARSE_ERROR');
   }
+  const signed = parseDate(validityInfo.get('signed'), 'signed');
+  const validFrom = parseDate(validityInfo.get('validFrom'), 'validFrom');
+  // A full-date validUntil covers that whole day
+  const validUntil = parseDate(validityInfo.get('validUntil'), 'validUntil', 'end');
+  const expectedUpdate = validityInfo.has('expectedUpdate')
+    ? parseDate(validityInfo.get('expectedUpdate'), 'expectedUpdate')
+    : undefined;
 
-  // First certificate in chain is the issuer certificate
-  return extractPubkeyFromCert(x5chain[0]);
+  return {
+    bytes: msoBytes,
+    protectedHeader,
+    signature,
+    valueDigests: parseValueDigests(msoDecoded.get('valueDigests')),
+    validityInfo: {
+      signed,
+      validFrom,
+      validUntil,
+      expectedUpdate,
+    },
+    digestAlgorithm: msoDecoded.get('digestAlgorithm') ?? 'SHA-256',
+    docType: msoDecoded.get('docType'),
+    deviceKey: parseDeviceKey(msoDecoded.get('deviceKeyInfo')?.get('deviceKey')),
+  };
 }
 
 /**
- * Extract P-256 public key from an X.509 certificate
- *
- * Note: This is a simplified parser for the specific case of
- * ECDSA P-256 keys. A full implementation would use a proper
- * ASN.1 parser.
+ * Read valueDigests: namespace -> digestID -> digest
  */
-function extractPubkeyFromCert(certBytes: Uint8Array): {
-  x: Uint8Array;
-  y: Uint8Array;
-} {
-  // This is a placeholder - in production, use a proper X.509 parser
-  // The public key is in the SubjectPublicKeyInfo field
-  //
-  // For P-256, the public key is 65 bytes: 0x04 || x (32) || y (32)
-  // We need to find this in the certificate
-
-  // Look for the uncompressed point marker (0x04) followed by 64 bytes
-  for (let i = 0; i < certBytes.length - 64; i++) {
-    if (certBytes[i] === 0x04) {
-      // Check if this looks like a valid public key position
-      // (heuristic: preceded by length byte 0x41 = 65)
-      if (i > 0 && certBytes[i - 1] === 0x41) {
-        const x = certBytes.slice(i + 1, i + 33);
-        const y = certBytes.slice(i + 33, i + 65);
-
-        // Basic validation: x and y should not be all zeros
-        if (!isAllZeros(x) && !isAllZeros(y)) {
-          return { x, y };
-        }
+function parseValueDigests(valueDigests: unknown): Map<string, Map<number, Uint8Array>> {
+  const result = new Map<string, Map<number, Uint8Array>>();
+  if (!(valueDigests instanceof Map)) {
+    return result;
+  }
+  for (const [namespace, digests] of valueDigests) {
+    if (typeof namespace !== 'string' || !(digests instanceof Map)) {
+      throw new CredentialError('MSO valueDigests is malformed', 'PARSE_ERROR');
+    }
+    const byId = new Map<number, Uint8Array>();
+    for (const [key, digest] of digests) {
+      // DigestIDs are uints; the circuit's fixed-layout MSOs key them as decimal text
+      const digestID = typeof key === 'string' && /^\d+$/.test(key) ? Number(key) : key;
+      if (typeof digestID !== 'number' || !(digest instanceof Uint8Array)) {
+        throw new CredentialError(`MSO valueDigests for ${namespace} is malformed`, 'PARSE_ERROR');
       }
+      byId.set(digestID, digest);
     }
+    result.set(namespace, byId);
   }
+  return result;
+}
 
-  throw new CredentialError(
-    'Could not extract public key from certificate',
-    'PARSE_ERROR'
-  );
+/**
+ * Read a P-256 COSE_Key (kty EC2, crv P-256) into its coordinates
+ */
+function parseDeviceKey(coseKey: unknown): { x: Uint8Array; y: Uint8Array } | undefined {
+  if (!(coseKey instanceof Map)) {
+    return undefined;
+  }
+  // 1 = kty (2 = EC2), -1 = crv (1 = P-256), -2 = x, -3 = y
+  const x = coseKey.get(-2);
+  const y = coseKey.get(-3);
+  if (
+    coseKey.get(1) !== 2 ||
+    coseKey.get(-1) !== 1 ||
+    !(x instanceof Uint8Array) ||
+    !(y instanceof Uint8Array)
+  ) {
+    throw new CredentialError('MSO deviceKey is not a P-256 COSE_Key', 'PARSE_ERROR');
+  }
+  return { x, y };
 }
 
 /**
- * Check if a byte array is all zeros
+ * Extract and parse the x5chain certificates from issuerAuth
+ *
+ * x5chain (label 33) is a single certificate or an array, leaf (Document
+ * Signer) first. ISO 18013-5 puts it in the unprotected header; the
+ * protected header is checked first in case an issuer protects it.
  */
-function isAllZeros(bytes: Uint8Array): boolean {
-  return bytes.every((b) => b === 0);
+function extractCertificateChain(issuerAuth: Uint8Array): X509Certificate[] {
+  return readX5Chain(decodeCoseSign1(issuerAuth, 'issuerAuth'), 'issuerAuth');
 }
 
 /**
- * Parse a CBOR date string to Date object
+ * Read an MSO validityInfo date
+ *
+ * tdate (tag 0) and full-date (tag 1004) arrive as Dates from MDOC_TAGS;
+ * untagged RFC 3339 strings are accepted too. A full-date is the start of
+ * its day (midnight UTC), or its last millisecond with fullDateAs 'end'.
  */
-function parseDate(dateValue: unknown): Date {
+function parseDate(
+  dateValue: unknown,
+  field: string,
+  fullDateAs: 'start' | 'end' = 'start'
+): Date {
+  let date: Date | undefined;
+  let fullDate = dateValue instanceof FullDate;
   if (dateValue instanceof Date) {
-    return dateValue;
+    date = dateValue;
+  } else if (typeof dateValue === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(dateValue)) {
+    date = new Date(`${dateValue}T00:00:00Z`);
+    fullDate = true;
+  } else if (typeof dateValue === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(dateValue)) {
+    date = new Date(dateValue);
   }
-  if (typeof dateValue === 'string') {
-    return new Date(dateValue);
+
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new CredentialError(`MSO validityInfo.${field} is not a valid date`, 'PARSE_ERROR');
   }
-  if (typeof dateValue === 'number') {
-    return new Date(dateValue * 1000); // Unix timestamp
+  if (fullDate && fullDateAs === 'end') {
+    return new Date(date.getTime() + MS_PER_DAY - 1);
   }
-  return new Date(0); // Invalid date
-}
-
-/**
- * Convert a string to a fixed-size byte array (padded with zeros)
- */
-function stringToBytes(str: string, size: number): Uint8Array {
-  const bytes = new TextEncoder().encode(str);
-  const result = new Uint8Array(size);
-  result.set(bytes.slice(0, size));
-  return result;
+  return new Date(date.getTime());
 }
 
 /**
  * Convert parsed credential to the format expected by the prover
  */
 export function toProverCredential(parsed: ParsedCredential): Credential {
-  // Get required claims
-  const ageOver21Claim = parsed.claims.get('age_over_21');
-  const ageOver18Claim = parsed.claims.get('age_over_18');
-  const stateClaim = parsed.claims.get('issuing_jurisdiction');
+  // Get required claims for this document type's circuit slots
+  const { circuitClaims } = requireDocTypeProfile(parsed.mso.docType);
+  const ageOver21Claim = parsed.claims.get(circuitClaims.ageOver21);
+  const ageOver18Claim = parsed.claims.get(circuitClaims.ageOver18);
+  const stateClaim = findClaim(parsed.claims, circuitClaims.jurisdiction);
 
   if (!ageOver21Claim) {
-    throw new CredentialError(
-      'age_over_21 claim is required',
-      'INVALID_CLAIM'
+    throw missingClaimError(
+      [circuitClaims.ageOver21],
+      parsed.elementErrors,
+      `${circuitClaims.ageOver21} claim is required`
     );
   }
 
   if (!ageOver18Claim) {
-    throw new CredentialError(
-      'age_over_18 claim is required',
-      'INVALID_CLAIM'
+    throw missingClaimError(
+      [circuitClaims.ageOver18],
+      parsed.elementErrors,
+      `${circuitClaims.ageOver18} claim is required`
     );
   }
 
   if (!stateClaim) {
-    throw new CredentialError(
-      'issuing_jurisdiction claim is required',
-      'INVALID_CLAIM'
+    throw missingClaimError(
+      circuitClaims.jurisdiction,
+      parsed.elementErrors,
+      `${circuitClaims.jurisdiction.join(' or ')} claim is required`
     );
   }
 
+  // Positions for circuits that take claim offsets; absent if a digest is
+  // not in the MSO bytes
+  const ageOver21Layout = locateClaim(parsed.mso, ageOver21Claim);
+  const ageOver18Layout = locateClaim(parsed.mso, ageOver18Claim);
+  const stateLayout = locateClaim(parsed.mso, stateClaim);
+
   return {
-    msoBytes: padToSize(parsed.mso.bytes, 512),
-    msoSignature: padToSize(parsed.mso.signature, 64),
-    ageOver21ClaimBytes: padToSize(ageOver21Claim.bytes, 96),
-    ageOver18ClaimBytes: padToSize(ageOver18Claim.bytes, 96),
-    stateClaimBytes: padToSize(stateClaim.bytes, 107),
+    msoBytes: padToSize(parsed.mso.bytes, 512, 'MSO'),
+    msoSignature: padToSize(parsed.mso.signature, 64, 'MSO signature'),
+    ageOver21ClaimBytes: padToSize(ageOver21Claim.bytes, 96, circuitClaims.ageOver21),
+    ageOver18ClaimBytes: padToSize(ageOver18Claim.bytes, 96, circuitClaims.ageOver18),
+    stateClaimBytes: padToSize(
+      stateClaim.bytes,
+      107,
+      claimKey(stateClaim.namespace, stateClaim.id)
+    ),
     documentNumber: parsed.documentNumber,
-    iacaPubkeyX: padToSize(parsed.iacaPubkey.x, 32),
-    iacaPubkeyY: padToSize(parsed.iacaPubkey.y, 32),
+    nullifierStrategy: parsed.nullifierSource.strategy,
+    iacaPubkeyX: padToSize(parsed.iacaPubkey.x, 32, 'IACA public key x'),
+    iacaPubkeyY: padToSize(parsed.iacaPubkey.y, 32, 'IACA public key y'),
+    iaca: parsed.iaca,
+    layout:
+      ageOver21Layout && ageOver18Layout && stateLayout
+        ? { ageOver21: ageOver21Layout, ageOver18: ageOver18Layout, state: stateLayout }
+        : undefined,
   };
 }
 
 /**
- * Pad or truncate a byte array to a specific size
+ * Zero-pad a byte array to a circuit buffer size
+ *
+ * @throws CredentialError UNSUPPORTED_CREDENTIAL if the bytes do not fit
  */
-function padToSize(bytes: Uint8Array, size: number): Uint8Array {
+function padToSize(bytes: Uint8Array, size: number, what: string): Uint8Array {
+  if (bytes.length > size) {
+    throw new CredentialError(
+      `${what} is ${bytes.length} bytes; the circuit takes at most ${size}`,
+      'UNSUPPORTED_CREDENTIAL'
+    );
+  }
   if (bytes.length === size) {
     return bytes;
   }
@@ -292,6 +493,9 @@ function padToSize(bytes: Uint8Array, size: number): Uint8Array {
 
 /**
  * Create a mock credential for testing (when real mDL is not available)
+ *
+ * Keys, signature and digests are random, so it never proves; use
+ * createMockIssuer() for credentials that do.
  */
 export function createMockCredential(options?: {
   ageOver21?: boolean;
@@ -352,12 +556,13 @@ export function createMockCredential(options?: {
   const mockSignature = crypto.getRandomValues(new Uint8Array(64));
 
   return {
-    msoBytes: padToSize(mso, 512),
+    msoBytes: padToSize(mso, 512, 'MSO'),
     msoSignature: mockSignature,
-    ageOver21ClaimBytes: padToSize(ageOver21Claim, 96),
-    ageOver18ClaimBytes: padToSize(ageOver18Claim, 96),
-    stateClaimBytes: padToSize(stateClaim, 107),
-    documentNumber: stringToBytes(documentNumber, 32),
+    ageOver21ClaimBytes: padToSize(ageOver21Claim, 96, 'age_over_21'),
+    ageOver18ClaimBytes: padToSize(ageOver18Claim, 96, 'age_over_18'),
+    stateClaimBytes: padToSize(stateClaim, 107, 'issuing_jurisdiction'),
+    documentNumber: documentNumberInput(documentNumber),
+    nullifierStrategy: 'document-number',
     iacaPubkeyX: mockPubkeyX,
     iacaPubkeyY: mockPubkeyY,
   };
@@ -0,0 +1,307 @@
+/**
+ * Two-phase presentation API for verifier backends
+ *
+ * `requestCredential` does everything in the browser, including HPKE
+ * decryption, so the backend has to trust whatever plaintext the front end
+ * hands it. Here the backend owns the HPKE key instead:
+ *
+ * 1. `createPresentationRequest()` (server) builds the org-iso-mdoc request
+ *    and keeps the HPKE session under an opaque handle.
+ * 2. The browser passes `request.digital` to `relayPresentationRequest()`,
+ *    which calls the Digital Credentials API and returns the wallet's
+ *    response as an opaque string, unread.
+ * 3. `completePresentation(handle, response, { iacaRoots })` (server)
+ *    decrypts and parses it, checks DeviceAuth, the Document Signer chain up
+ *    to one of the caller's IACA roots and the issuer signature and digests.
+ *    Plaintext responses are rejected.
+ *
+ * Pending sessions are kept in a PresentationStore, in memory on the
+ * creating process by default, and can be completed once.
+ */
+
+import { decode, encode } from 'cborg';
+import {
+  type ClaimType,
+  type DigitalCredentialRequest,
+  type NullifierStrategy,
+  type ParsedCredential,
+  type RawCredentialResponse,
+  type ReaderAuthConfig,
+  CredentialError,
+} from './types.js';
+import { decodeMdocResponse, prepareProtocolRequest } from './protocols.js';
+import { parseCredential } from './parse.js';
+import { validateIssuerChain } from './chain.js';
+import { type IssuerSignedForm, requireIssuerSigned } from './issuer-auth.js';
+import { getDocTypeProfile } from './doctypes.js';
+import { exportSession, importSession } from './session.js';
+import type { X509Certificate } from './x509.js';
+import { getDigitalCredential } from './request.js';
+import { fromBase64Url, toBase64Url } from './encoding.js';
+
+/** How long a presentation request can be answered, by default */
+const DEFAULT_TTL_SECONDS = 300;
+
+/**
+ * Options for creating a presentation request on the backend
+ */
+export interface PresentationRequestOptions {
+  /** Which claims to request from the wallet */
+  claims: ClaimType[];
+  /** Origin of the page that will call the Digital Credentials API */
+  origin: string;
+  /** Document type to request (defaults to `org.iso.18013.5.1.mDL`) */
+  docType?: string;
+  /** Reader certificate and key; adds ReaderAuth to the DocRequest */
+  readerAuth?: ReaderAuthConfig;
+  /** Nullifier strategy (defaults to the document type's; see nullifier.ts) */
+  nullifierStrategy?: NullifierStrategy;
+  /** Seconds the request stays answerable (defaults to 300) */
+  ttlSeconds?: number;
+  /** Where the pending session is kept (defaults to this process's memory) */
+  store?: PresentationStore;
+  /** AES-GCM key sealing the HPKE private key in the store (see exportSession) */
+  sessionKey?: CryptoKey;
+}
+
+/**
+ * Options for completing a presentation
+ */
+export interface CompletePresentationOptions {
+  /** Trusted IACA root certificates (DER or parsed) the issuer must chain to */
+  iacaRoots: Array<Uint8Array | X509Certificate>;
+  /**
+   * Issuer signature and digest rules (defaults to 'iso'); 'circuit' for
+   * credentials headed for toProverCredential (see issuer-auth.ts)
+   */
+  form?: IssuerSignedForm;
+  /** Time to check the certificate chain at (defaults to now) */
+  now?: Date;
+  /** Store the request was created in */
+  store?: PresentationStore;
+  /** Key the session was sealed with, if any */
+  sessionKey?: CryptoKey;
+}
+
+/**
+ * Request created on the backend, to be relayed by the browser
+ */
+export interface PresentationRequest {
+  /** Pass as `digital` to navigator.credentials.get (or relayPresentationRequest) */
+  digital: DigitalCredentialRequest;
+  /** Opaque session handle; keep it server-side */
+  handle: string;
+  /** When the handle stops being accepted */
+  expiresAt: Date;
+}
+
+/**
+ * Decrypted and parsed presentation
+ */
+export interface CompletedPresentation {
+  /** Decrypted credential response */
+  credential: RawCredentialResponse;
+  /** Parsed credential, with `iaca` set, ready for toProverCredential */
+  parsed: ParsedCredential;
+}
+
+/**
+ * Pending presentation kept until the response arrives
+ */
+export interface PendingPresentation {
+  /** HPKE session, as exportSession output */
+  session: string;
+  docType?: string;
+  nullifierStrategy?: NullifierStrategy;
+  /** Epoch milliseconds after which the response is refused */
+  expiresAt: number;
+}
+
+/**
+ * Storage for pending presentations
+ *
+ * Every process creating or completing presentations must share one. Entries
+ * are plain data and hold the HPKE private key unless a sessionKey seals it.
+ */
+export interface PresentationStore {
+  set(handle: string, presentation: PendingPresentation): Promise<void>;
+  /**
+   * Remove and return the presentation in one step, so that concurrent
+   * completions of a handle cannot both get it
+   */
+  take(handle: string): Promise<PendingPresentation | undefined>;
+}
+
+/**
+ * DigitalCredential response as relayed by the browser
+ */
+interface RelayedResponse {
+  protocol?: string;
+  data: unknown;
+}
+
+/**
+ * Create a store that keeps pending presentations in this process's memory
+ *
+ * Expired presentations nobody completed are dropped as new ones are added.
+ */
+export function createMemoryPresentationStore(): PresentationStore {
+  const pending = new Map<string, PendingPresentation>();
+
+  return {
+    async set(handle, presentation) {
+      const now = Date.now();
+      for (const [stored, { expiresAt }] of pending) {
+        if (expiresAt <= now) {
+          pending.delete(stored);
+        }
+      }
+      pending.set(handle, presentation);
+    },
+    async take(handle) {
+      const presentation = pending.get(handle);
+      pending.delete(handle);
+      return presentation;
+    },
+  };
+}
+
+/** Store used when none is passed */
+const defaultStore = createMemoryPresentationStore();
+
+/**
+ * Create an org-iso-mdoc presentation request (backend)
+ *
+ * @param options - Claims, page origin and request settings
+ * @returns Request payload for the browser plus an opaque session handle
+ */
+export async function createPresentationRequest(
+  options: PresentationRequestOptions
+): Promise<PresentationRequest> {
+  const prepared = await prepareProtocolRequest('org-iso-mdoc', {
+    claims: options.claims,
+    nonce: toBase64Url(crypto.getRandomValues(new Uint8Array(16))),
+    origin: options.origin,
+    readerAuth: options.readerAuth,
+    docType: options.docType,
+    nullifierStrategy: options.nullifierStrategy,
+  });
+
+  const handle = toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+  const expiresAt = Date.now() + (options.ttlSeconds ?? DEFAULT_TTL_SECONDS) * 1000;
+
+  await (options.store ?? defaultStore).set(handle, {
+    session: await exportSession(
+      { ...prepared.session!, expiresAt: new Date(expiresAt) },
+      { encryptionKey: options.sessionKey }
+    ),
+    docType: options.docType,
+    nullifierStrategy: options.nullifierStrategy,
+    expiresAt,
+  });
+
+  return {
+    digital: {
+      requests: [{ protocol: prepared.protocol, data: prepared.data }],
+    },
+    handle,
+    expiresAt: new Date(expiresAt),
+  };
+}
+
+/**
+ * Decrypt, parse and verify the wallet response for a presentation request
+ * (backend)
+ *
+ * The handle is consumed, even if decryption or verification fails.
+ *
+ * @param handle - Handle returned by createPresentationRequest
+ * @param encryptedResponse - Opaque response from relayPresentationRequest
+ * @param options - Trusted IACA roots and issuer signature form
+ * @throws CredentialError SESSION_EXPIRED for unknown, used or expired handles,
+ *   UNTRUSTED_ISSUER if the Document Signer does not chain to iacaRoots,
+ *   ISSUER_AUTH_FAILED for a bad issuer signature or digest
+ */
+export async function completePresentation(
+  handle: string,
+  encryptedResponse: string,
+  options: CompletePresentationOptions
+): Promise<CompletedPresentation> {
+  const pending = await (options.store ?? defaultStore).take(handle);
+
+  if (!pending || pending.expiresAt <= Date.now()) {
+    throw new CredentialError(
+      'Presentation session is unknown, already completed or expired',
+      'SESSION_EXPIRED'
+    );
+  }
+
+  const { protocol, data } = decodeRelayedResponse(encryptedResponse);
+  if (protocol !== undefined && protocol !== 'org-iso-mdoc') {
+    throw new CredentialError(
+      `Wallet answered with protocol "${protocol}" which was not requested`,
+      'PARSE_ERROR'
+    );
+  }
+
+  const session = await importSession(pending.session, { encryptionKey: options.sessionKey });
+  const credential = await decodeMdocResponse(data, session, pending.docType);
+  const parsed = parseCredential(credential, { nullifierStrategy: pending.nullifierStrategy });
+
+  // DeviceAuth only shows the device holds the document; whether an issuer
+  // signed it, and which one, is checked here
+  const { iaca } = await validateIssuerChain(parsed.certificateChain, {
+    iacaRoots: options.iacaRoots,
+    now: options.now,
+    extendedKeyUsage: getDocTypeProfile(parsed.mso.docType)?.documentSignerEku ?? null,
+  });
+  parsed.iaca = iaca;
+  await requireIssuerSigned(parsed, { form: options.form });
+
+  return { credential, parsed };
+}
+
+/**
+ * Pass a backend-created request to the wallet (browser)
+ *
+ * The response is returned as an opaque string for the backend to complete;
+ * nothing is decrypted in the browser.
+ *
+ * @param digital - `digital` from the backend's PresentationRequest
+ * @returns Opaque response to send to completePresentation
+ */
+export async function relayPresentationRequest(
+  digital: PresentationRequest['digital']
+): Promise<string> {
+  const credential = await getDigitalCredential(digital);
+
+  if (!credential) {
+    throw new CredentialError('No credential returned from wallet', 'NO_CREDENTIAL');
+  }
+
+  const response: RelayedResponse = { data: credential.data ?? credential.response };
+  if (typeof credential.protocol === 'string') {
+    response.protocol = credential.protocol;
+  }
+
+  // CBOR keeps the wallet's byte strings intact, unlike JSON
+  return toBase64Url(encode(response));
+}
+
+/**
+ * Decode the string produced by relayPresentationRequest
+ */
+function decodeRelayedResponse(encoded: string): RelayedResponse {
+  try {
+    const response = decode(fromBase64Url(encoded));
+    if (!response || typeof response !== 'object' || response.data === undefined) {
+      throw new Error('missing data');
+    }
+    return response;
+  } catch (error) {
+    throw new CredentialError(
+      `Invalid relayed presentation response: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'PARSE_ERROR'
+    );
+  }
+}
@@ -0,0 +1,312 @@
+/**
+ * Digital Credentials API protocol handlers
+ *
+ * Each handler builds the `data` for one entry of `digital.requests` and
+ * knows how to decode that protocol's response back into a
+ * RawCredentialResponse. Handlers keep their per-request state (e.g. the
+ * HPKE session) so the caller can route a response without knowing which
+ * protocol the wallet picked.
+ */
+
+import { decode } from 'cborg';
+import {
+  type ClaimType,
+  type CredentialProtocol,
+  type DigitalCredentialResponse,
+  type EncryptedCredentialResponse,
+  type NullifierStrategy,
+  type OpenID4VPQueryFormat,
+  type OpenID4VPRequestSigner,
+  type RawCredentialResponse,
+  type ReaderAuthConfig,
+  CredentialError,
+} from './types.js';
+import {
+  type HPKESession,
+  buildSessionTranscript,
+  createHPKESession,
+  decryptCredentialResponse,
+} from './hpke.js';
+import {
+  type DocRequestParts,
+  buildItemsRequest,
+  encodeDeviceRequest,
+} from './device-request.js';
+import { buildReaderAuth } from './reader-auth.js';
+import { parseDeviceResponse } from './device-response.js';
+import { verifyDeviceAuth } from './device-auth.js';
+import { MDOC_TAGS } from './cbor.js';
+import {
+  buildOpenID4VPRequest,
+  buildOpenID4VPSessionTranscript,
+  buildSignedOpenID4VPRequest,
+  parseOpenID4VPResponse,
+} from './openid4vp.js';
+import { toBase64 } from './encoding.js';
+
+/**
+ * Inputs shared by every protocol handler
+ */
+export interface ProtocolRequestContext {
+  /** Which claims to request from the wallet */
+  claims: ClaimType[];
+  /** Freshness nonce for openid4vp requests */
+  nonce: string;
+  /** Origin the request is made from (bound into the HPKE SessionTranscript) */
+  origin: string;
+  /** Query language for openid4vp requests */
+  queryFormat?: OpenID4VPQueryFormat;
+  /** Verifier client identifier, required for `openid4vp-v1-signed` */
+  clientId?: string;
+  /** Request signer, required for `openid4vp-v1-signed` */
+  signRequest?: OpenID4VPRequestSigner;
+  /** Reader certificate and key for org-iso-mdoc ReaderAuth */
+  readerAuth?: ReaderAuthConfig;
+  /** Document type to request (defaults to the mDL) */
+  docType?: string;
+  /** Nullifier strategy deciding which source element is requested */
+  nullifierStrategy?: NullifierStrategy;
+}
+
+/**
+ * A request ready to be placed in `digital.requests`, plus its decoder
+ */
+export interface PreparedProtocolRequest {
+  protocol: CredentialProtocol;
+  data: unknown;
+  /** HPKE session the response is encrypted to (org-iso-mdoc only) */
+  session?: HPKESession;
+  /** Decode this protocol's response data */
+  decode(data: unknown): Promise<RawCredentialResponse>;
+}
+
+/**
+ * Build the request for a single protocol
+ */
+export async function prepareProtocolRequest(
+  protocol: CredentialProtocol,
+  context: ProtocolRequestContext
+): Promise<PreparedProtocolRequest> {
+  switch (protocol) {
+    case 'org-iso-mdoc':
+      return prepareMdocRequest(context);
+    case 'openid4vp':
+    case 'openid4vp-v1-unsigned':
+      return {
+        protocol,
+        data: buildOpenID4VPRequest(context.claims, {
+          nonce: context.nonce,
+          queryFormat: context.queryFormat,
+          docType: context.docType,
+          nullifierStrategy: context.nullifierStrategy,
+        }),
+        decode: (data) => decodeOpenID4VPResponse(data, context),
+      };
+    case 'openid4vp-v1-signed':
+      return prepareSignedOpenID4VPRequest(context);
+    default:
+      throw new CredentialError(
+        `Unsupported credential protocol: ${protocol}`,
+        'NOT_SUPPORTED'
+      );
+  }
+}
+
+/**
+ * Work out which of the offered protocols a response belongs to
+ *
+ * Browsers that implement the current DC API report `protocol` on the
+ * returned DigitalCredential. Older implementations omit it, so we fall back
+ * to the shape of the response data.
+ */
+export function detectResponseProtocol(
+  credential: DigitalCredentialResponse,
+  offered: CredentialProtocol[]
+): CredentialProtocol {
+  const reported = credential.protocol;
+  if (typeof reported === 'string') {
+    if (!offered.includes(reported as CredentialProtocol)) {
+      throw new CredentialError(
+        `Wallet answered with protocol "${reported}" which was not requested`,
+        'PARSE_ERROR'
+      );
+    }
+    return reported as CredentialProtocol;
+  }
+
+  if (offered.length === 1) {
+    return offered[0];
+  }
+
+  let data = credential.data ?? credential.response;
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      // Not JSON - cannot be an openid4vp response
+    }
+  }
+
+  if (data && typeof data === 'object' && 'vp_token' in data) {
+    const openid4vp = offered.find((p) => p.startsWith('openid4vp'));
+    if (openid4vp) {
+      return openid4vp;
+    }
+  } else if (offered.includes('org-iso-mdoc')) {
+    return 'org-iso-mdoc';
+  }
+
+  throw new CredentialError(
+    'Could not determine which protocol the wallet answered with',
+    'PARSE_ERROR'
+  );
+}
+
+/**
+ * org-iso-mdoc (ISO 18013-7 Annex C): DeviceRequest plus HPKE encryptionInfo
+ */
+async function prepareMdocRequest(
+  context: ProtocolRequestContext
+): Promise<PreparedProtocolRequest> {
+  // Create HPKE session for encrypted response
+  const { session, encryptionInfo } = await createHPKESession(context.origin);
+  // ReaderAuth, the HPKE info and DeviceAuth all use this one transcript
+  const sessionTranscript = await buildSessionTranscript(session);
+
+  // Build the request components
+  const docRequests: DocRequestParts[] = [
+    {
+      itemsRequest: buildItemsRequest(
+        context.claims,
+        context.docType,
+        context.nullifierStrategy
+      ),
+    },
+  ];
+
+  // Sign each DocRequest over the SessionTranscript
+  if (context.readerAuth) {
+    for (const docRequest of docRequests) {
+      docRequest.readerAuth = await buildReaderAuth(
+        context.readerAuth,
+        sessionTranscript,
+        docRequest.itemsRequest
+      );
+    }
+  }
+
+  const deviceRequest = encodeDeviceRequest(docRequests);
+
+  return {
+    protocol: 'org-iso-mdoc',
+    // Safari expects data as object with deviceRequest and encryptionInfo
+    data: {
+      deviceRequest: toBase64(deviceRequest),
+      encryptionInfo: toBase64(encryptionInfo),
+    },
+    session,
+    decode: (rawResponse) => decodeMdocResponse(rawResponse, session, context.docType),
+  };
+}
+
+/**
+ * Decrypt an org-iso-mdoc response and check its DeviceAuth
+ *
+ * @param rawResponse - Response data from the wallet
+ * @param session - HPKE session the request was created with
+ * @param docType - Requested document type (defaults to the mDL)
+ * @throws CredentialError PARSE_ERROR for plaintext or undecryptable
+ *   responses, DEVICE_AUTH_FAILED if DeviceAuth is not over this session
+ */
+export async function decodeMdocResponse(
+  rawResponse: unknown,
+  session: HPKESession,
+  docType?: string
+): Promise<RawCredentialResponse> {
+  // A plaintext response carries no DeviceAuth bound to this session,
+  // so whoever relayed it could have forged or replayed it
+  if (!isEncryptedResponse(rawResponse)) {
+    throw new CredentialError('Expected an HPKE-encrypted org-iso-mdoc response', 'PARSE_ERROR');
+  }
+
+  const decryptedBytes = await decryptCredentialResponse(
+    {
+      version: rawResponse.version,
+      encryptionParameters: rawResponse.encryptionParameters,
+      data: rawResponse.data,
+    },
+    session
+  );
+
+  // Parse the decrypted DeviceResponse CBOR
+  const deviceResponse = decode(decryptedBytes, { tags: MDOC_TAGS });
+  const credential = parseDeviceResponse(deviceResponse, docType);
+
+  // Bind the document to this session: DeviceAuth over the same transcript
+  // the request (and ReaderAuth) used
+  await verifyDeviceAuth(credential, {
+    sessionTranscript: await buildSessionTranscript(session),
+    readerPrivateKey: session.privateKey,
+  });
+  return credential;
+}
+
+/**
+ * Whether org-iso-mdoc response data is an HPKE-encrypted response
+ */
+function isEncryptedResponse(data: unknown): data is EncryptedCredentialResponse {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    'encryptionParameters' in data &&
+    'data' in data &&
+    Boolean(data.encryptionParameters) &&
+    Boolean(data.data)
+  );
+}
+
+/**
+ * openid4vp-v1-signed: request object signed by the verifier
+ */
+async function prepareSignedOpenID4VPRequest(
+  context: ProtocolRequestContext
+): Promise<PreparedProtocolRequest> {
+  if (!context.signRequest || !context.clientId) {
+    throw new CredentialError(
+      'openid4vp-v1-signed requires clientId and signRequest',
+      'NOT_SUPPORTED'
+    );
+  }
+
+  return {
+    protocol: 'openid4vp-v1-signed',
+    data: await buildSignedOpenID4VPRequest(context.claims, {
+      nonce: context.nonce,
+      queryFormat: context.queryFormat,
+      docType: context.docType,
+      nullifierStrategy: context.nullifierStrategy,
+      clientId: context.clientId,
+      expectedOrigins: [context.origin],
+      signer: context.signRequest,
+    }),
+    decode: (data) => decodeOpenID4VPResponse(data, context),
+  };
+}
+
+/**
+ * Decode an openid4vp response and check its DeviceAuth
+ *
+ * The DeviceResponse is signed over the OpenID4VPDCAPIHandover transcript
+ * of this request's origin and nonce, so IssuerSigned data replayed from
+ * another presentation is rejected.
+ */
+async function decodeOpenID4VPResponse(
+  data: unknown,
+  context: ProtocolRequestContext
+): Promise<RawCredentialResponse> {
+  const credential = parseOpenID4VPResponse(data, context.docType);
+  await verifyDeviceAuth(credential, {
+    sessionTranscript: await buildOpenID4VPSessionTranscript(context.origin, context.nonce),
+  });
+  return credential;
+}
@@ -0,0 +1,128 @@
+/**
+ * ISO 18013-5 reader authentication (ReaderAuth)
+ *
+ * Signs each DocRequest so the wallet can show the verifier as an
+ * authenticated reader. ReaderAuth is a COSE_Sign1 with a detached payload:
+ *
+ * ReaderAuthentication = [
+ *   "ReaderAuthentication",
+ *   SessionTranscript,
+ *   ItemsRequestBytes            // #6.24(bstr .cbor ItemsRequest)
+ * ]
+ * ReaderAuthenticationBytes = #6.24(bstr .cbor ReaderAuthentication)
+ *
+ * Reference: ISO 18013-5 clause 9.1.4, ISO 18013-7 Annex C
+ */
+
+import { encode } from 'cborg';
+import { type ReaderAuthConfig, CredentialError } from './types.js';
+import { wrapInTag24 } from './device-request.js';
+import { concatBytes } from './encoding.js';
+
+// COSE header labels and algorithm identifiers (RFC 9052 / RFC 9360)
+const COSE_HEADER_ALG = 1;
+const COSE_HEADER_X5CHAIN = 33;
+const COSE_ALG_ES256 = -7;
+
+/**
+ * Build the ReaderAuth COSE_Sign1 for one DocRequest
+ *
+ * @param config - Reader certificate chain and signing key
+ * @param sessionTranscript - CBOR-encoded SessionTranscript
+ * @param itemsRequest - CBOR-encoded ItemsRequest (untagged)
+ * @returns CBOR-encoded COSE_Sign1 with a null (detached) payload
+ * @throws CredentialError READER_AUTH_FAILED for an empty chain or a signature
+ *   that is not 64 bytes
+ */
+export async function buildReaderAuth(
+  config: ReaderAuthConfig,
+  sessionTranscript: Uint8Array,
+  itemsRequest: Uint8Array
+): Promise<Uint8Array> {
+  if (config.certificateChain.length === 0) {
+    throw new CredentialError(
+      'ReaderAuth requires at least one reader certificate',
+      'READER_AUTH_FAILED'
+    );
+  }
+
+  // Protected header: { alg: ES256 }
+  const protectedHeader = encode(new Map([[COSE_HEADER_ALG, COSE_ALG_ES256]]));
+
+  // Unprotected header: { x5chain } - a single bstr for one cert, else an array
+  const x5chain =
+    config.certificateChain.length === 1
+      ? config.certificateChain[0]
+      : config.certificateChain;
+  const unprotectedHeader = new Map<number, unknown>([[COSE_HEADER_X5CHAIN, x5chain]]);
+
+  // Detached payload the signature covers
+  const readerAuthenticationBytes = buildReaderAuthenticationBytes(
+    sessionTranscript,
+    itemsRequest
+  );
+
+  // Sig_structure = ["Signature1", protected, external_aad, payload]
+  const toBeSigned = encode([
+    'Signature1',
+    protectedHeader,
+    new Uint8Array(0),
+    readerAuthenticationBytes,
+  ]);
+
+  const signature = await sign(config, toBeSigned);
+
+  return encode([protectedHeader, unprotectedHeader, null, signature]);
+}
+
+/**
+ * Build ReaderAuthenticationBytes
+ *
+ * The SessionTranscript is embedded as a CBOR data item (not a bstr), so the
+ * array is assembled from pre-encoded parts to keep its bytes intact.
+ */
+export function buildReaderAuthenticationBytes(
+  sessionTranscript: Uint8Array,
+  itemsRequest: Uint8Array
+): Uint8Array {
+  const readerAuthentication = concatBytes([
+    new Uint8Array([0x83]), // array(3)
+    encode('ReaderAuthentication'),
+    sessionTranscript,
+    wrapInTag24(itemsRequest),
+  ]);
+
+  return wrapInTag24(readerAuthentication);
+}
+
+/**
+ * Produce a raw (r || s) ES256 signature with a CryptoKey or remote signer
+ */
+async function sign(
+  config: ReaderAuthConfig,
+  toBeSigned: Uint8Array
+): Promise<Uint8Array> {
+  let signature: Uint8Array;
+
+  if (typeof config.signer === 'function') {
+    signature = await config.signer(toBeSigned);
+  } else {
+    // WebCrypto ECDSA already returns the IEEE P1363 (r || s) form COSE uses
+    signature = new Uint8Array(
+      await crypto.subtle.sign(
+        { name: 'ECDSA', hash: 'SHA-256' },
+        config.signer,
+        toBeSigned
+      )
+    );
+  }
+
+  if (signature.length !== 64) {
+    throw new CredentialError(
+      `ReaderAuth signature must be 64 bytes (r || s), got ${signature.length}`,
+      'READER_AUTH_FAILED'
+    );
+  }
+
+  return signature;
+}
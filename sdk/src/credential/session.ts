@@ -0,0 +1,240 @@
+/**
+ * HPKESession serialization
+ *
+ * An HPKESession only lives as long as the JavaScript context that created
+ * it. exportSession turns it into a string (private key as JWK plus nonce,
+ * origin and expiry) that can be stored across a reload or redirect, or sent
+ * to a backend, and importSession turns it back into a session for
+ * decryptCredentialResponse.
+ *
+ * Blob format:
+ *   hpke1.<base64url(JSON)>                                 plain
+ *   hpke1e.<base64url(iv)>.<base64url(AES-GCM(JSON))>       sealed
+ *
+ * A plain blob contains the private key; only keep it where the session
+ * itself would be safe, or pass an encryptionKey to seal it.
+ */
+
+import { type HPKESession } from './hpke.js';
+import { CredentialError } from './types.js';
+import { fromBase64Url, toBase64Url } from './encoding.js';
+
+/** Blob prefix for unencrypted sessions */
+const PLAIN_PREFIX = 'hpke1';
+
+/** Blob prefix for AES-GCM sealed sessions */
+const SEALED_PREFIX = 'hpke1e';
+
+/** How long an exported session stays importable, by default */
+const DEFAULT_TTL_SECONDS = 300;
+
+/**
+ * Options for exportSession
+ */
+export interface ExportSessionOptions {
+  /**
+   * Seconds the blob stays importable (defaults to 300)
+   * Ignored when the session already carries an expiresAt.
+   */
+  ttlSeconds?: number;
+  /** AES-GCM key to seal the blob with; the same key is needed to import it */
+  encryptionKey?: CryptoKey;
+}
+
+/**
+ * Options for importSession
+ */
+export interface ImportSessionOptions {
+  /** AES-GCM key the blob was sealed with */
+  encryptionKey?: CryptoKey;
+}
+
+/**
+ * Serialized session contents (version 1)
+ */
+interface SerializedSession {
+  v: 1;
+  /** Verifier's ECDH P-256 private key */
+  key: JsonWebKey;
+  /** Request nonce, base64url */
+  nonce: string;
+  origin: string;
+  /** Expiry, seconds since the epoch */
+  exp: number;
+}
+
+/**
+ * Serialize an HPKE session
+ *
+ * @param session - Session from createHPKESession (or importSession)
+ * @param options - Expiry and optional sealing key
+ * @returns Versioned session blob
+ * @throws CredentialError NOT_SUPPORTED if the private key is not extractable
+ */
+export async function exportSession(
+  session: HPKESession,
+  options: ExportSessionOptions = {}
+): Promise<string> {
+  if (!session.privateKey.extractable) {
+    throw new CredentialError(
+      'HPKE session private key is not extractable; create the session with extractable keys',
+      'NOT_SUPPORTED'
+    );
+  }
+
+  const expiresAt =
+    session.expiresAt?.getTime() ??
+    Date.now() + (options.ttlSeconds ?? DEFAULT_TTL_SECONDS) * 1000;
+
+  const serialized: SerializedSession = {
+    v: 1,
+    key: await crypto.subtle.exportKey('jwk', session.privateKey),
+    nonce: toBase64Url(session.nonce),
+    origin: session.origin,
+    exp: Math.floor(expiresAt / 1000),
+  };
+  const payload = new TextEncoder().encode(JSON.stringify(serialized));
+
+  if (!options.encryptionKey) {
+    return `${PLAIN_PREFIX}.${toBase64Url(payload)}`;
+  }
+
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    // The prefix is authenticated so a sealed blob can't be relabelled
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(SEALED_PREFIX) },
+    options.encryptionKey,
+    payload
+  );
+
+  return `${SEALED_PREFIX}.${toBase64Url(iv)}.${toBase64Url(new Uint8Array(ciphertext))}`;
+}
+
+/**
+ * Restore an HPKE session from exportSession output
+ *
+ * @param blob - Session blob
+ * @param options - Sealing key, for sealed blobs
+ * @returns Session usable with decryptCredentialResponse until it expires
+ * @throws CredentialError SESSION_EXPIRED if the blob has expired,
+ *   PARSE_ERROR if it is malformed, or sealed and cannot be unsealed
+ */
+export async function importSession(
+  blob: string,
+  options: ImportSessionOptions = {}
+): Promise<HPKESession> {
+  const serialized = await readSessionBlob(blob, options.encryptionKey);
+
+  const expiresAt = new Date(serialized.exp * 1000);
+  if (expiresAt.getTime() <= Date.now()) {
+    throw new CredentialError('HPKE session has expired', 'SESSION_EXPIRED');
+  }
+
+  let privateKey: CryptoKey;
+  try {
+    privateKey = await crypto.subtle.importKey(
+      'jwk',
+      serialized.key,
+      { name: 'ECDH', namedCurve: 'P-256' },
+      true,
+      ['deriveBits']
+    );
+  } catch (error) {
+    throw new CredentialError(
+      `Invalid HPKE session key: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'PARSE_ERROR'
+    );
+  }
+
+  // Uncompressed public key: 0x04 || x || y
+  const publicKeyBytes = new Uint8Array(65);
+  publicKeyBytes[0] = 0x04;
+  publicKeyBytes.set(decodeBase64Url(serialized.key.x!), 1);
+  publicKeyBytes.set(decodeBase64Url(serialized.key.y!), 33);
+
+  return {
+    privateKey,
+    publicKeyBytes,
+    nonce: decodeBase64Url(serialized.nonce),
+    origin: serialized.origin,
+    expiresAt,
+  };
+}
+
+/**
+ * Unseal (if needed) and validate a session blob
+ */
+async function readSessionBlob(
+  blob: string,
+  encryptionKey: CryptoKey | undefined
+): Promise<SerializedSession> {
+  const [prefix, ...parts] = blob.split('.');
+
+  let payload: Uint8Array;
+  if (prefix === PLAIN_PREFIX && parts.length === 1) {
+    payload = decodeBase64Url(parts[0]);
+  } else if (prefix === SEALED_PREFIX && parts.length === 2) {
+    if (!encryptionKey) {
+      throw new CredentialError(
+        'Sealed HPKE session blobs need the encryptionKey they were sealed with',
+        'PARSE_ERROR'
+      );
+    }
+    const iv = decodeBase64Url(parts[0]);
+    const ciphertext = decodeBase64Url(parts[1]);
+    try {
+      payload = new Uint8Array(
+        await crypto.subtle.decrypt(
+          {
+            name: 'AES-GCM',
+            iv,
+            additionalData: new TextEncoder().encode(SEALED_PREFIX),
+          },
+          encryptionKey,
+          ciphertext
+        )
+      );
+    } catch {
+      throw new CredentialError(
+        'HPKE session blob could not be unsealed with this key',
+        'PARSE_ERROR'
+      );
+    }
+  } else {
+    throw new CredentialError('Unrecognized HPKE session blob', 'PARSE_ERROR');
+  }
+
+  let serialized: SerializedSession;
+  try {
+    serialized = JSON.parse(new TextDecoder().decode(payload));
+  } catch {
+    throw new CredentialError('HPKE session blob is not valid JSON', 'PARSE_ERROR');
+  }
+
+  if (
+    serialized.v !== 1 ||
+    serialized.key?.kty !== 'EC' ||
+    serialized.key.crv !== 'P-256' ||
+    !serialized.key.d ||
+    !serialized.key.x ||
+    !serialized.key.y ||
+    typeof serialized.nonce !== 'string' ||
+    typeof serialized.origin !== 'string' ||
+    typeof serialized.exp !== 'number'
+  ) {
+    throw new CredentialError('HPKE session blob is missing fields', 'PARSE_ERROR');
+  }
+
+  return serialized;
+}
+
+/**
+ * Decode a base64url field of a session blob
+ */
+function decodeBase64Url(value: string): Uint8Array {
+  try {
+    return fromBase64Url(value);
+  } catch {
+    throw new CredentialError('HPKE session blob has malformed base64url', 'PARSE_ERROR');
+  }
+}
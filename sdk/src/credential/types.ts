@@ -2,6 +2,10 @@
  * Credential types for mDL handling
  */
 
+import type { DataElementCborType, KnownDataElement } from './elements.js';
+import type { X509Certificate } from './x509.js';
+import type { OpenID4VPRequestObject } from './openid4vp.js';
+
 /**
  * Encrypted credential document from wallet (ISO 18013-7)
  * This is the raw structure returned by the Digital Credentials API
@@ -28,10 +32,35 @@ export interface EncryptedCredentialResponse {
 export interface RawCredentialResponse {
   /** COSE_Sign1 containing the MSO */
   issuerAuth: Uint8Array;
-  /** Namespaced claim data */
-  namespaces: {
-    'org.iso.18013.5.1': RawIssuerSignedItem[];
-  };
+  /** Claim data by namespace (org.iso.18013.5.1, org.iso.18013.5.1.aamva, ...) */
+  namespaces: Record<string, RawIssuerSignedItem[]>;
+  /** Device-signed part of the document, if the wallet sent one */
+  deviceSigned?: RawDeviceSigned;
+  /** Elements the wallet reported as not returned */
+  elementErrors?: ElementError[];
+}
+
+/**
+ * A requested data element the wallet did not return
+ */
+export interface ElementError {
+  namespace: string;
+  elementIdentifier: string;
+  /** ErrorCode; 0 is "data not returned" (e.g. withheld by the user) */
+  errorCode: number;
+}
+
+/**
+ * Raw DeviceSigned from mDL response
+ * Exactly one of deviceSignature and deviceMac is set.
+ */
+export interface RawDeviceSigned {
+  /** DeviceNameSpaces CBOR (contents of the tag 24 wrapper) */
+  nameSpaces: Uint8Array;
+  /** COSE_Sign1 with a detached payload, CBOR-encoded */
+  deviceSignature?: Uint8Array;
+  /** COSE_Mac0 with a detached payload, CBOR-encoded */
+  deviceMac?: Uint8Array;
 }
 
 /**
@@ -53,13 +82,15 @@ export interface RawIssuerSignedItem {
 /**
  * Parsed claim with its bytes for circuit input
  */
-export interface ParsedClaim {
+export interface ParsedClaim<V = unknown> {
   /** Claim identifier */
   id: string;
+  /** Namespace the claim was issued under */
+  namespace: string;
   /** Original CBOR bytes (for hashing in circuit) */
   bytes: Uint8Array;
-  /** Decoded value */
-  value: unknown;
+  /** Value decoded by its data element definition (see elements.ts) */
+  value: V;
   /** Index in MSO digest list */
   digestIndex: number;
 }
@@ -70,18 +101,29 @@ export interface ParsedClaim {
 export interface ParsedMSO {
   /** Raw MSO bytes (for hashing in circuit) */
   bytes: Uint8Array;
+  /** issuerAuth protected header bytes, as covered by the signature */
+  protectedHeader: Uint8Array;
   /** ECDSA signature over MSO */
   signature: Uint8Array;
+  /** Item digests by namespace, then digestID */
+  valueDigests: Map<string, Map<number, Uint8Array>>;
   /** Validity info */
   validityInfo: {
     signed: Date;
     validFrom: Date;
     validUntil: Date;
+    /** When the issuer expects to have refreshed the MSO, if given */
+    expectedUpdate?: Date;
   };
   /** Digest algorithm (should be "SHA-256") */
   digestAlgorithm: string;
   /** Document type */
   docType: string;
+  /** Device public key from deviceKeyInfo (P-256) */
+  deviceKey?: {
+    x: Uint8Array;
+    y: Uint8Array;
+  };
 }
 
 /**
@@ -91,26 +133,127 @@ export interface ParsedMSO {
 export interface ParsedCredential {
   /** Parsed MSO */
   mso: ParsedMSO;
-  /** Parsed claims by identifier */
+  /** Parsed claims keyed by `namespace:identifier` (see claimKey) */
   claims: Map<string, ParsedClaim>;
-  /** IACA public key */
+  /**
+   * Key that signs the MSO, which the circuit takes as its iaca_pubkey: the
+   * Document Signer's (certificateChain[0]), not the IACA's, so it changes
+   * when the DS key rotates. The IACA is `iaca`, once the chain is validated.
+   */
   iacaPubkey: {
     x: Uint8Array;
     y: Uint8Array;
   };
-  /** Document number (used for nullifier, never revealed) */
+  /** Nullifier input, e.g. the document number (never revealed; see nullifier.ts) */
   documentNumber: Uint8Array;
+  /** What documentNumber was derived from */
+  nullifierSource: NullifierSource;
+  /** Parsed issuerAuth x5chain, leaf (Document Signer) first */
+  certificateChain: X509Certificate[];
+  /**
+   * Trusted IACA that anchors certificateChain, set by the callers that run
+   * validateIssuerChain() (Thurin.requestCredential, completePresentation)
+   */
+  iaca?: X509Certificate;
+  /** Elements the wallet reported as not returned */
+  elementErrors?: ElementError[];
+}
+
+/**
+ * What the nullifier is derived from (see nullifier.ts)
+ * - `document-number`: the profile's nullifierSources element
+ * - `device-key`: the MSO deviceKey
+ * - `issuer-id`: the profile's issuerIdSources element
+ */
+export type NullifierStrategy = 'document-number' | 'device-key' | 'issuer-id';
+
+/**
+ * Record of the nullifier source used for a credential
+ */
+export interface NullifierSource {
+  strategy: NullifierStrategy;
+  /** Qualified element the input came from; absent for device-key */
+  element?: string;
 }
 
 /**
  * Claim types that can be requested
+ *
+ * Any data element in the registry (see elements.ts), including
+ * `age_over_NN` for any two-digit NN and elements registered at runtime.
+ * Known identifiers autocomplete; unknown ones are rejected at request time.
+ */
+export type ClaimType = KnownDataElement | (string & {});
+
+/**
+ * Digital Credentials API protocol used to request the credential
+ * - `org-iso-mdoc`: ISO 18013-7 Annex C, HPKE-encrypted DeviceResponse
+ * - `openid4vp`: OpenID4VP with an mso_mdoc vp_token (pre-1.0 identifier)
+ * - `openid4vp-v1-unsigned`: OpenID4VP 1.0, unsigned request
+ * - `openid4vp-v1-signed`: OpenID4VP 1.0, request object signed by the verifier
  */
-export type ClaimType =
-  | 'age_over_21'
-  | 'age_over_18'
-  | 'issuing_jurisdiction'
-  | 'document_number'
-  | 'expiry_date';
+export type CredentialProtocol =
+  | 'org-iso-mdoc'
+  | 'openid4vp'
+  | 'openid4vp-v1-unsigned'
+  | 'openid4vp-v1-signed';
+
+/**
+ * Protocols that can be offered during negotiation
+ * `identity-credential` is the legacy `navigator.identity.get` API, used only
+ * as a fallback when the Digital Credentials API is unavailable.
+ */
+export type NegotiableProtocol = CredentialProtocol | 'identity-credential';
+
+/**
+ * How the requested claims are expressed in an OpenID4VP request
+ * - `dcql`: Digital Credentials Query Language (OpenID4VP 1.0)
+ * - `presentation_definition`: DIF Presentation Exchange 2.0 (pre-1.0 drafts)
+ */
+export type OpenID4VPQueryFormat = 'dcql' | 'presentation_definition';
+
+/**
+ * Signs an OpenID4VP request object, returning a compact JWS
+ *
+ * The JWS must carry `typ: "oauth-authz-req+jwt"` and be verifiable by the
+ * wallet against the verifier's client identifier (e.g. an x5c chain).
+ */
+export type OpenID4VPRequestSigner = (payload: OpenID4VPRequestObject) => Promise<string>;
+
+/**
+ * `digital` member of a Digital Credentials API request
+ */
+export interface DigitalCredentialRequest {
+  requests: Array<{ protocol: string; data: unknown }>;
+}
+
+/**
+ * DigitalCredential returned by navigator.credentials.get
+ */
+export interface DigitalCredentialResponse {
+  /** Protocol the wallet answered with (omitted by older browsers) */
+  protocol?: string;
+  /** Protocol response data */
+  data?: unknown;
+  /** Older name for `data` */
+  response?: unknown;
+}
+
+/**
+ * Signs ReaderAuth Sig_structure bytes, returning a raw ES256 (r || s) signature
+ * Use this to keep the reader key in an HSM or remote signing service.
+ */
+export type ReaderAuthRemoteSigner = (toBeSigned: Uint8Array) => Promise<Uint8Array>;
+
+/**
+ * Reader authentication material for ISO 18013-5 ReaderAuth
+ */
+export interface ReaderAuthConfig {
+  /** DER-encoded reader certificate chain, leaf first */
+  certificateChain: Uint8Array[];
+  /** ECDSA P-256 private key, or a remote signer callback */
+  signer: CryptoKey | ReaderAuthRemoteSigner;
+}
 
 /**
  * Options for requesting a credential
@@ -120,6 +263,42 @@ export interface CredentialRequestOptions {
   claims: ClaimType[];
   /** Optional nonce for freshness (generated if not provided) */
   nonce?: string;
+  /** Protocol to request with (defaults to `org-iso-mdoc`) */
+  protocol?: CredentialProtocol;
+  /** Query language for openid4vp requests (defaults to `dcql`) */
+  queryFormat?: OpenID4VPQueryFormat;
+  /** Verifier client identifier, required for `openid4vp-v1-signed` */
+  clientId?: string;
+  /** Request signer, required for `openid4vp-v1-signed` */
+  signRequest?: OpenID4VPRequestSigner;
+  /** Reader certificate and key; adds ReaderAuth to org-iso-mdoc DocRequests */
+  readerAuth?: ReaderAuthConfig;
+  /** Document type to request (defaults to `org.iso.18013.5.1.mDL`) */
+  docType?: string;
+  /**
+   * Nullifier strategy, deciding which source element is requested
+   * (defaults to the document type's; see nullifier.ts)
+   */
+  nullifierStrategy?: NullifierStrategy;
+}
+
+/**
+ * Options for offering several protocols in one Digital Credentials call
+ */
+export interface CredentialNegotiationOptions
+  extends Omit<CredentialRequestOptions, 'protocol'> {
+  /** Protocols to offer, most preferred first */
+  protocols: NegotiableProtocol[];
+}
+
+/**
+ * Result of a negotiated credential request
+ */
+export interface NegotiatedCredential {
+  /** Protocol the wallet answered with */
+  protocol: NegotiableProtocol;
+  /** Decoded credential response */
+  credential: RawCredentialResponse;
 }
 
 /**
@@ -135,11 +314,41 @@ export class CredentialError extends Error {
   }
 }
 
+/**
+ * A claim value that does not match its data element definition
+ *
+ * Carries which element failed and why, so callers can report it without
+ * parsing the message. Never carries the value itself.
+ */
+export class ClaimValueError extends CredentialError {
+  constructor(
+    public readonly namespace: string,
+    public readonly identifier: string,
+    /** CBOR type the definition requires */
+    public readonly expected: DataElementCborType,
+    /** Description of what was received, e.g. "string" */
+    public readonly received: string
+  ) {
+    super(`${identifier} should be ${expected}, got ${received}`, 'INVALID_CLAIM');
+    this.name = 'ClaimValueError';
+  }
+}
+
 export type CredentialErrorCode =
   | 'NOT_SUPPORTED' // Browser doesn't support Digital Credentials API
   | 'USER_CANCELLED' // User declined the request
   | 'NO_CREDENTIAL' // No mDL available
+  | 'WALLET_ERROR' // DeviceResponse status 10/11/12: the wallet failed the request
+  | 'DOCUMENT_NOT_RETURNED' // Wallet reported the requested document in documentErrors
+  | 'CLAIM_NOT_RETURNED' // Wallet reported a required element as not returned (withheld)
   | 'PARSE_ERROR' // Failed to parse response
   | 'INVALID_CLAIM' // Requested claim not present
   | 'EXPIRED' // Credential or MSO expired
+  | 'NOT_YET_VALID' // MSO validFrom is in the future
+  | 'SESSION_EXPIRED' // Presentation or HPKE session unknown, already used or expired
+  | 'DEVICE_AUTH_FAILED' // DeviceSignature/DeviceMac missing or invalid
+  | 'READER_AUTH_FAILED' // ReaderAuth could not be built, or a wallet rejected it
+  | 'UNTRUSTED_ISSUER' // Issuer certificate chain does not validate to a trusted IACA
+  | 'ISSUER_AUTH_FAILED' // issuerAuth signature or an item digest does not verify
+  | 'UNSUPPORTED_CREDENTIAL' // Credential does not fit the circuit's fixed layout
   | 'UNKNOWN';
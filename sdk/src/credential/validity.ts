@@ -0,0 +1,67 @@
+/**
+ * MSO validity policy
+ *
+ * The MSO's validityInfo bounds when the issuer vouches for its data:
+ *
+ * - validFrom / validUntil: the MSO is only valid in between
+ * - expectedUpdate (optional): when the issuer expected the wallet to have
+ *   fetched a fresh MSO; a later presentation carries stale data
+ *
+ * The circuit compares validUntil with a day-granular proof date, so these
+ * checks run before proving and fail with a precise reason instead.
+ */
+
+import { type ParsedMSO, CredentialError } from './types.js';
+
+/** Default tolerance for clock differences between wallet, issuer and us */
+const DEFAULT_CLOCK_SKEW_SECONDS = 300;
+
+/**
+ * Options for checking MSO validity
+ */
+export interface ValidityOptions {
+  /** Time to check at (defaults to now) */
+  now?: Date;
+  /** Tolerance applied to every bound, in seconds (defaults to 300) */
+  clockSkewSeconds?: number;
+  /** Accept an MSO past its expectedUpdate (defaults to false) */
+  allowStale?: boolean;
+}
+
+/**
+ * Check an MSO's validityInfo against a clock
+ *
+ * @param mso - MSO from parseCredential
+ * @param options - Clock, skew and staleness policy
+ * @throws CredentialError NOT_YET_VALID before validFrom, EXPIRED after
+ *   validUntil or (unless allowStale) after expectedUpdate
+ */
+export function checkMSOValidity(mso: ParsedMSO, options: ValidityOptions = {}): void {
+  const now = options.now ?? new Date();
+  const skewMs = (options.clockSkewSeconds ?? DEFAULT_CLOCK_SKEW_SECONDS) * 1000;
+  const { validFrom, validUntil, expectedUpdate } = mso.validityInfo;
+
+  if (now.getTime() + skewMs < validFrom.getTime()) {
+    throw new CredentialError(
+      `MSO is not valid until ${validFrom.toISOString()} (now ${now.toISOString()})`,
+      'NOT_YET_VALID'
+    );
+  }
+  if (now.getTime() - skewMs > validUntil.getTime()) {
+    throw new CredentialError(
+      `MSO expired at ${validUntil.toISOString()} (now ${now.toISOString()})`,
+      'EXPIRED'
+    );
+  }
+  if (
+    expectedUpdate &&
+    !options.allowStale &&
+    now.getTime() - skewMs > expectedUpdate.getTime()
+  ) {
+    throw new CredentialError(
+      `MSO was due for an update at ${expectedUpdate.toISOString()} ` +
+        `(now ${now.toISOString()}); the wallet has not refreshed it`,
+      'EXPIRED'
+    );
+  }
+}
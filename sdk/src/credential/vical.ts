@@ -0,0 +1,275 @@
+/**
+ * VICAL (Verified Issuer Certificate Authority List) ingestion
+ *
+ * A VICAL provider such as AAMVA publishes the IACA certificates of the
+ * jurisdictions it has vetted as a COSE_Sign1 over:
+ *
+ * VICAL = {
+ *   "version": tstr, "vicalProvider": tstr, "date": tdate,
+ *   ? "vicalIssueID": uint, ? "nextUpdate": tdate,
+ *   "certificateInfos": [* CertificateInfo]
+ * }
+ * CertificateInfo = {
+ *   "certificate": bstr, "serialNumber": biguint, "ski": bstr, "docType": [+ tstr],
+ *   ? "certificateProfile": [+ tstr], ? "issuingAuthority": tstr,
+ *   ? "issuingCountry": tstr, ? "stateOrProvinceName": tstr, ...
+ * }
+ *
+ * The VICAL signer's x5chain must lead to a VICAL provider certificate the
+ * caller trusts. Rooting their Document Signers for the circuit is buildTrustList().
+ *
+ * Reference: ISO 18013-5 Annex C
+ */
+
+import { type TagDecoder, decode } from 'cborg';
+import { CredentialError } from './types.js';
+import { MDOC_TAGS } from './cbor.js';
+import { decodeCoseSign1, readX5Chain, verifyCoseSign1 } from './cose.js';
+import { type X509Certificate, parseCertificate, verifyCertificateSignature } from './x509.js';
+
+/**
+ * One issuer (IACA) certificate listed in a VICAL
+ */
+export interface VicalCertificateInfo {
+  /** IACA certificate */
+  certificate: X509Certificate;
+  /** Serial number (hex), as listed */
+  serialNumber: string;
+  /** Subject key identifier */
+  ski: Uint8Array;
+  /** Document types the IACA may issue */
+  docTypes: string[];
+  /** Certificate profiles, if listed */
+  certificateProfiles?: string[];
+  /** Issuing authority, e.g. "California DMV" */
+  issuingAuthority?: string;
+  /** ISO 3166-1 country code */
+  issuingCountry?: string;
+  /** State or province, as listed */
+  stateOrProvinceName?: string;
+  /**
+   * Jurisdiction the IACA issues for: stateOrProvinceName, else the
+   * certificate's ST, else the country
+   */
+  jurisdiction: string;
+}
+
+/**
+ * Parsed VICAL
+ */
+export interface Vical {
+  version: string;
+  vicalProvider: string;
+  /** Issue date */
+  date: Date;
+  vicalIssueID?: number;
+  nextUpdate?: Date;
+  certificateInfos: VicalCertificateInfo[];
+  /** x5chain of the VICAL signer, signer first */
+  signerChain: X509Certificate[];
+}
+
+/**
+ * Options for verifying a VICAL
+ */
+export interface VicalVerificationOptions {
+  /** Trusted VICAL provider certificates (DER or parsed) */
+  providerCertificates: Array<Uint8Array | X509Certificate>;
+  /** Time to check the signer certificate at (defaults to now) */
+  now?: Date;
+}
+
+/** VICALs add biguint (tag 2) serial numbers to the mdoc tags */
+const VICAL_TAGS: TagDecoder[] = MDOC_TAGS.slice();
+VICAL_TAGS[2] = (bytes: Uint8Array) => bytes;
+
+/**
+ * Parse a VICAL without checking its signature
+ *
+ * @param bytes - CBOR-encoded COSE_Sign1 VICAL
+ * @throws CredentialError PARSE_ERROR if the VICAL is malformed
+ */
+export function parseVical(bytes: Uint8Array): Vical {
+  const cose = decodeCoseSign1(bytes, 'VICAL');
+  const signerChain = readX5Chain(cose, 'VICAL');
+  if (!cose.payload) {
+    throw new CredentialError('VICAL payload is missing', 'PARSE_ERROR');
+  }
+
+  let vical: unknown;
+  try {
+    vical = decode(cose.payload, { useMaps: true, tags: VICAL_TAGS });
+  } catch (error) {
+    throw new CredentialError(
+      `VICAL payload is not valid CBOR: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'PARSE_ERROR'
+    );
+  }
+  if (!(vical instanceof Map)) {
+    throw new CredentialError('VICAL payload is not a map', 'PARSE_ERROR');
+  }
+
+  const certificateInfos = vical.get('certificateInfos');
+  if (!Array.isArray(certificateInfos)) {
+    throw new CredentialError('VICAL has no certificateInfos', 'PARSE_ERROR');
+  }
+
+  return {
+    version: requireString(vical, 'version', 'VICAL'),
+    vicalProvider: requireString(vical, 'vicalProvider', 'VICAL'),
+    date: requireDate(vical, 'date', 'VICAL'),
+    vicalIssueID: optional(vical, 'vicalIssueID', 'number', 'VICAL'),
+    nextUpdate: vical.has('nextUpdate') ? requireDate(vical, 'nextUpdate', 'VICAL') : undefined,
+    certificateInfos: certificateInfos.map(parseCertificateInfo),
+    signerChain,
+  };
+}
+
+/**
+ * Parse a VICAL and verify it was signed under a trusted provider
+ *
+ * The signer (first x5chain entry) must be a provider certificate or be
+ * issued by one, be valid now, and its key must verify the COSE signature.
+ *
+ * @param bytes - CBOR-encoded COSE_Sign1 VICAL
+ * @param options - Trusted provider certificates and validation time
+ * @throws CredentialError UNTRUSTED_ISSUER if the signature or signer is not trusted
+ */
+export async function verifyVical(
+  bytes: Uint8Array,
+  options: VicalVerificationOptions
+): Promise<Vical> {
+  const vical = parseVical(bytes);
+  const now = options.now ?? new Date();
+  const providers = options.providerCertificates.map((cert) =>
+    cert instanceof Uint8Array ? parseCertificate(cert) : cert
+  );
+  const [signer] = vical.signerChain;
+
+  let trusted = false;
+  for (const provider of providers) {
+    if (
+      bytesEqual(provider.der, signer.der) ||
+      (bytesEqual(provider.subject.der, signer.issuer.der) &&
+        (await verifyCertificateSignature(signer, provider)))
+    ) {
+      trusted = true;
+      break;
+    }
+  }
+  if (!trusted) {
+    throw new CredentialError(
+      `VICAL signer "${signer.subject.text}" is not a trusted VICAL provider`,
+      'UNTRUSTED_ISSUER'
+    );
+  }
+
+  const { notBefore, notAfter } = signer.validity;
+  if (now < notBefore || now > notAfter) {
+    throw new CredentialError(
+      `VICAL signer certificate is not valid at ${now.toISOString()}`,
+      'UNTRUSTED_ISSUER'
+    );
+  }
+
+  if (!(await verifyCoseSign1(decodeCoseSign1(bytes, 'VICAL'), signer))) {
+    throw new CredentialError('VICAL signature does not verify', 'UNTRUSTED_ISSUER');
+  }
+
+  return vical;
+}
+
+/**
+ * Parse one CertificateInfo entry
+ */
+function parseCertificateInfo(info: unknown, index: number): VicalCertificateInfo {
+  const where = `VICAL certificateInfos[${index}]`;
+  if (!(info instanceof Map)) {
+    throw new CredentialError(`${where} is not a map`, 'PARSE_ERROR');
+  }
+
+  const der = info.get('certificate');
+  const serialNumber = info.get('serialNumber');
+  const ski = info.get('ski');
+  const docTypes = info.get('docType');
+  if (!(der instanceof Uint8Array)) {
+    throw new CredentialError(`${where} has no certificate`, 'PARSE_ERROR');
+  }
+  if (!(serialNumber instanceof Uint8Array) || !(ski instanceof Uint8Array)) {
+    throw new CredentialError(`${where} needs serialNumber and ski bytes`, 'PARSE_ERROR');
+  }
+  if (!Array.isArray(docTypes) || !docTypes.every((t) => typeof t === 'string')) {
+    throw new CredentialError(`${where} docType must be a list of strings`, 'PARSE_ERROR');
+  }
+
+  const certificate = parseCertificate(der);
+  const listedSerial = toHex(serialNumber).replace(/^(00)+(?=.)/, '');
+  if (listedSerial !== certificate.serialNumber.replace(/^(00)+(?=.)/, '')) {
+    throw new CredentialError(
+      `${where} serialNumber ${listedSerial} does not match its certificate`,
+      'PARSE_ERROR'
+    );
+  }
+
+  const issuingCountry = optional(info, 'issuingCountry', 'string', where);
+  const stateOrProvinceName = optional(info, 'stateOrProvinceName', 'string', where);
+  const subjectAttribute = (name: string) =>
+    certificate.subject.attributes.find((attribute) => attribute.name === name)?.value;
+
+  return {
+    certificate,
+    serialNumber: listedSerial,
+    ski,
+    docTypes,
+    certificateProfiles: info.get('certificateProfile'),
+    issuingAuthority: optional(info, 'issuingAuthority', 'string', where),
+    issuingCountry,
+    stateOrProvinceName,
+    jurisdiction:
+      stateOrProvinceName ??
+      subjectAttribute('ST') ??
+      issuingCountry ??
+      subjectAttribute('C') ??
+      certificate.subject.text,
+  };
+}
+
+function requireString(map: Map<unknown, unknown>, key: string, where: string): string {
+  const value = map.get(key);
+  if (typeof value !== 'string') {
+    throw new CredentialError(`${where} ${key} must be a string`, 'PARSE_ERROR');
+  }
+  return value;
+}
+
+function requireDate(map: Map<unknown, unknown>, key: string, where: string): Date {
+  const value = map.get(key);
+  if (!(value instanceof Date) || Number.isNaN(value.getTime())) {
+    throw new CredentialError(`${where} ${key} must be a tdate`, 'PARSE_ERROR');
+  }
+  return value;
+}
+
+function optional<T extends 'string' | 'number'>(
+  map: Map<unknown, unknown>,
+  key: string,
+  type: T,
+  where: string
+): (T extends 'string' ? string : number) | undefined {
+  const value = map.get(key);
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== type) {
+    throw new CredentialError(`${where} ${key} must be a ${type}`, 'PARSE_ERROR');
+  }
+  return value as T extends 'string' ? string : number;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
@@ -0,0 +1,571 @@
+/**
+ * X.509 certificate parsing (RFC 5280)
+ *
+ * A small DER reader covering what mdoc trust decisions need from x5chain
+ * certificates: names, serial, validity, key usage, extensions and the
+ * SubjectPublicKeyInfo, plus ECDSA certificate signature verification.
+ * Chain policy lives in chain.ts.
+ */
+
+import { CredentialError } from './types.js';
+
+/** id-ecPublicKey */
+export const EC_PUBLIC_KEY_OID = '1.2.840.10045.2.1';
+
+/** Named curve OIDs */
+export const P256_CURVE_OID = '1.2.840.10045.3.1.7';
+export const P384_CURVE_OID = '1.3.132.0.34';
+export const P521_CURVE_OID = '1.3.132.0.35';
+
+/** P-256 group order, for low-s signatures */
+export const P256_ORDER = 0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551n;
+
+/** ecdsa-with-SHA256/384/512 signature algorithms */
+export const ECDSA_SHA256_OID = '1.2.840.10045.4.3.2';
+export const ECDSA_SHA384_OID = '1.2.840.10045.4.3.3';
+export const ECDSA_SHA512_OID = '1.2.840.10045.4.3.4';
+
+/** ISO 18013-5 extended key usage for mDL Document Signer certificates */
+export const MDL_DS_EKU_OID = '1.0.18013.5.1.2';
+
+// Extension OIDs
+const KEY_USAGE_OID = '2.5.29.15';
+const EXTENDED_KEY_USAGE_OID = '2.5.29.37';
+const BASIC_CONSTRAINTS_OID = '2.5.29.19';
+
+// DER tags
+const TAG_BOOLEAN = 0x01;
+const TAG_INTEGER = 0x02;
+const TAG_BIT_STRING = 0x03;
+const TAG_OCTET_STRING = 0x04;
+const TAG_OID = 0x06;
+const TAG_UTC_TIME = 0x17;
+const TAG_GENERALIZED_TIME = 0x18;
+const TAG_SEQUENCE = 0x30;
+const TAG_VERSION = 0xa0; // [0] EXPLICIT
+const TAG_EXTENSIONS = 0xa3; // [3] EXPLICIT
+
+/** Short names for common name attributes */
+const ATTRIBUTE_NAMES: Record<string, string> = {
+  '2.5.4.3': 'CN',
+  '2.5.4.5': 'serialNumber',
+  '2.5.4.6': 'C',
+  '2.5.4.7': 'L',
+  '2.5.4.8': 'ST',
+  '2.5.4.10': 'O',
+  '2.5.4.11': 'OU',
+  '1.2.840.113549.1.9.1': 'emailAddress',
+};
+
+/** KeyUsage bits in order (RFC 5280 4.2.1.3) */
+const KEY_USAGE_BITS = [
+  'digitalSignature',
+  'nonRepudiation',
+  'keyEncipherment',
+  'dataEncipherment',
+  'keyAgreement',
+  'keyCertSign',
+  'cRLSign',
+  'encipherOnly',
+  'decipherOnly',
+] as const;
+
+export type KeyUsage = (typeof KEY_USAGE_BITS)[number];
+
+/**
+ * Distinguished name (issuer or subject)
+ */
+export interface DistinguishedName {
+  /** DER encoding, for exact issuer/subject matching */
+  der: Uint8Array;
+  /** Attributes in order */
+  attributes: Array<{ oid: string; name?: string; value: string }>;
+  /** Readable form, e.g. "C=US, ST=US-CA, CN=California IACA" */
+  text: string;
+}
+
+/**
+ * Certificate extension
+ */
+export interface X509Extension {
+  oid: string;
+  critical: boolean;
+  /** extnValue contents (DER of the extension's own structure) */
+  value: Uint8Array;
+}
+
+/**
+ * SubjectPublicKeyInfo
+ */
+export interface SubjectPublicKeyInfo {
+  /** Key algorithm OID, e.g. id-ecPublicKey */
+  algorithm: string;
+  /** Named curve OID for EC keys */
+  curve?: string;
+  /** subjectPublicKey contents (the uncompressed point for EC keys) */
+  publicKey: Uint8Array;
+  /** DER of the whole SubjectPublicKeyInfo (importable as "spki") */
+  der: Uint8Array;
+}
+
+/**
+ * Parsed X.509 certificate
+ */
+export interface X509Certificate {
+  /** DER encoding of the certificate */
+  der: Uint8Array;
+  /** DER of tbsCertificate, the part the issuer signed */
+  tbs: Uint8Array;
+  /** Version (1, 2 or 3) */
+  version: number;
+  /** Serial number, lowercase hex */
+  serialNumber: string;
+  /** Signature algorithm OID */
+  signatureAlgorithm: string;
+  /** signatureValue contents (a DER ECDSA-Sig-Value for ECDSA) */
+  signature: Uint8Array;
+  issuer: DistinguishedName;
+  subject: DistinguishedName;
+  validity: {
+    notBefore: Date;
+    notAfter: Date;
+  };
+  subjectPublicKeyInfo: SubjectPublicKeyInfo;
+  /** KeyUsage, if the extension is present */
+  keyUsage?: KeyUsage[];
+  /** ExtendedKeyUsage purpose OIDs, if the extension is present */
+  extendedKeyUsage?: string[];
+  /** BasicConstraints, if the extension is present */
+  basicConstraints?: {
+    ca: boolean;
+    pathLength?: number;
+  };
+  /** All extensions, including the ones decoded above */
+  extensions: X509Extension[];
+}
+
+/**
+ * One DER TLV
+ */
+interface DerNode {
+  tag: number;
+  /** Full TLV bytes */
+  bytes: Uint8Array;
+  /** Contents bytes */
+  value: Uint8Array;
+}
+
+/**
+ * Parse a DER-encoded X.509 certificate
+ *
+ * @throws CredentialError PARSE_ERROR if the certificate is malformed
+ */
+export function parseCertificate(der: Uint8Array): X509Certificate {
+  try {
+    const certificate = readSingle(der);
+    const [tbsNode, signatureAlgorithmNode, signatureNode] = readSequence(
+      certificate,
+      TAG_SEQUENCE
+    );
+    expectTag(signatureNode, TAG_BIT_STRING);
+
+    const tbs = readSequence(tbsNode, TAG_SEQUENCE);
+    let index = 0;
+
+    let version = 1;
+    if (tbs[index].tag === TAG_VERSION) {
+      version = Number(readInteger(readSingle(tbs[index].value))) + 1;
+      index++;
+    }
+
+    const serialNode = expectTag(tbs[index++], TAG_INTEGER);
+    index++; // signature AlgorithmIdentifier (repeated outside tbsCertificate)
+    const issuer = readName(tbs[index++]);
+    const [notBefore, notAfter] = readSequence(tbs[index++], TAG_SEQUENCE).map(readTime);
+    const subject = readName(tbs[index++]);
+    const subjectPublicKeyInfo = readSubjectPublicKeyInfo(tbs[index++]);
+
+    const extensions: X509Extension[] = [];
+    for (; index < tbs.length; index++) {
+      if (tbs[index].tag === TAG_EXTENSIONS) {
+        const list = readSingle(tbs[index].value);
+        for (const extension of readSequence(list, TAG_SEQUENCE)) {
+          extensions.push(readExtension(extension));
+        }
+      }
+    }
+
+    const cert: X509Certificate = {
+      der: certificate.bytes,
+      tbs: tbsNode.bytes,
+      version,
+      serialNumber: toHex(serialNode.value),
+      signatureAlgorithm: readOid(readSequence(signatureAlgorithmNode, TAG_SEQUENCE)[0]),
+      signature: readBitString(signatureNode),
+      issuer,
+      subject,
+      validity: { notBefore, notAfter },
+      subjectPublicKeyInfo,
+      extensions,
+    };
+
+    for (const extension of extensions) {
+      if (extension.oid === KEY_USAGE_OID) {
+        cert.keyUsage = readKeyUsage(extension.value);
+      } else if (extension.oid === EXTENDED_KEY_USAGE_OID) {
+        cert.extendedKeyUsage = readSequence(readSingle(extension.value), TAG_SEQUENCE).map(
+          readOid
+        );
+      } else if (extension.oid === BASIC_CONSTRAINTS_OID) {
+        cert.basicConstraints = readBasicConstraints(extension.value);
+      }
+    }
+
+    return cert;
+  } catch (error) {
+    if (error instanceof CredentialError) {
+      throw error;
+    }
+    throw new CredentialError(
+      `Invalid X.509 certificate: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'PARSE_ERROR'
+    );
+  }
+}
+
+/**
+ * Get the P-256 public key of a certificate as coordinates
+ *
+ * @throws CredentialError PARSE_ERROR if the key is not an uncompressed P-256 point
+ */
+export function getP256PublicKey(cert: X509Certificate): { x: Uint8Array; y: Uint8Array } {
+  const { algorithm, curve, publicKey } = cert.subjectPublicKeyInfo;
+  if (algorithm !== EC_PUBLIC_KEY_OID || curve !== P256_CURVE_OID) {
+    throw new CredentialError(
+      `Certificate "${cert.subject.text}" has a ${curve ?? algorithm} key, expected P-256`,
+      'PARSE_ERROR'
+    );
+  }
+  if (publicKey.length !== 65 || publicKey[0] !== 0x04) {
+    throw new CredentialError(
+      `Certificate "${cert.subject.text}" has a compressed or malformed P-256 point`,
+      'PARSE_ERROR'
+    );
+  }
+  return { x: publicKey.slice(1, 33), y: publicKey.slice(33, 65) };
+}
+
+/** WebCrypto parameters for the supported ECDSA signature algorithms */
+const SIGNATURE_HASHES: Record<string, string> = {
+  [ECDSA_SHA256_OID]: 'SHA-256',
+  [ECDSA_SHA384_OID]: 'SHA-384',
+  [ECDSA_SHA512_OID]: 'SHA-512',
+};
+
+/** WebCrypto curve names and coordinate sizes by curve OID */
+const CURVES: Record<string, { name: string; size: number }> = {
+  [P256_CURVE_OID]: { name: 'P-256', size: 32 },
+  [P384_CURVE_OID]: { name: 'P-384', size: 48 },
+  [P521_CURVE_OID]: { name: 'P-521', size: 66 },
+};
+
+/**
+ * Check that `issuer`'s key signed `cert`
+ *
+ * Only ECDSA signatures with EC issuer keys are supported.
+ *
+ * @returns Whether the signature verifies
+ * @throws CredentialError NOT_SUPPORTED for other algorithms
+ */
+export async function verifyCertificateSignature(
+  cert: X509Certificate,
+  issuer: X509Certificate
+): Promise<boolean> {
+  const hash = SIGNATURE_HASHES[cert.signatureAlgorithm];
+  if (!hash) {
+    throw new CredentialError(
+      `Unsupported certificate signature ${cert.signatureAlgorithm}`,
+      'NOT_SUPPORTED'
+    );
+  }
+  const key = await importCertificateKey(issuer);
+  const { size } = CURVES[issuer.subjectPublicKeyInfo.curve!];
+
+  // X.509 carries ECDSA-Sig-Value ::= SEQUENCE { r INTEGER, s INTEGER };
+  // WebCrypto wants r || s at the curve's coordinate size
+  let signature: Uint8Array;
+  try {
+    const [r, s] = readSequence(readSingle(cert.signature), TAG_SEQUENCE).map((node) =>
+      toFixedSize(expectTag(node, TAG_INTEGER).value, size)
+    );
+    signature = new Uint8Array([...r, ...s]);
+  } catch {
+    return false;
+  }
+
+  return crypto.subtle.verify({ name: 'ECDSA', hash }, key, signature, cert.tbs);
+}
+
+/**
+ * Import a certificate's EC public key for ECDSA verification
+ *
+ * @throws CredentialError NOT_SUPPORTED for non-EC keys or other curves
+ */
+export async function importCertificateKey(cert: X509Certificate): Promise<CryptoKey> {
+  const { algorithm, curve: curveOid, der } = cert.subjectPublicKeyInfo;
+  const curve = curveOid ? CURVES[curveOid] : undefined;
+  if (algorithm !== EC_PUBLIC_KEY_OID || !curve) {
+    throw new CredentialError(
+      `Unsupported certificate key ${curveOid ?? algorithm}`,
+      'NOT_SUPPORTED'
+    );
+  }
+
+  return crypto.subtle.importKey(
+    'spki',
+    der,
+    { name: 'ECDSA', namedCurve: curve.name },
+    false,
+    ['verify']
+  );
+}
+
+/**
+ * Read the TLV at `offset`
+ */
+function readNode(bytes: Uint8Array, offset: number): DerNode {
+  if (offset + 2 > bytes.length) {
+    throw new Error('truncated DER');
+  }
+  const tag = bytes[offset];
+  if ((tag & 0x1f) === 0x1f) {
+    throw new Error('high tag numbers are not supported');
+  }
+
+  let length = bytes[offset + 1];
+  let headerLength = 2;
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    if (lengthBytes === 0 || lengthBytes > 4) {
+      throw new Error('unsupported DER length');
+    }
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      length = length * 256 + bytes[offset + 2 + i];
+    }
+    headerLength += lengthBytes;
+  }
+
+  const end = offset + headerLength + length;
+  if (end > bytes.length) {
+    throw new Error('truncated DER');
+  }
+
+  return {
+    tag,
+    bytes: bytes.subarray(offset, end),
+    value: bytes.subarray(offset + headerLength, end),
+  };
+}
+
+/**
+ * Read a buffer that holds exactly one TLV
+ */
+function readSingle(bytes: Uint8Array): DerNode {
+  const node = readNode(bytes, 0);
+  if (node.bytes.length !== bytes.length) {
+    throw new Error('trailing bytes after DER value');
+  }
+  return node;
+}
+
+/**
+ * Read the children of a constructed value
+ */
+function readSequence(node: DerNode, tag: number): DerNode[] {
+  expectTag(node, tag);
+  const children: DerNode[] = [];
+  for (let offset = 0; offset < node.value.length; ) {
+    const child = readNode(node.value, offset);
+    children.push(child);
+    offset += child.bytes.length;
+  }
+  return children;
+}
+
+function expectTag(node: DerNode | undefined, tag: number): DerNode {
+  if (!node || node.tag !== tag) {
+    throw new Error(
+      `expected tag 0x${tag.toString(16)}, got ${node ? `0x${node.tag.toString(16)}` : 'nothing'}`
+    );
+  }
+  return node;
+}
+
+function readInteger(node: DerNode): bigint {
+  expectTag(node, TAG_INTEGER);
+  let value = 0n;
+  for (const byte of node.value) {
+    value = (value << 8n) | BigInt(byte);
+  }
+  return value;
+}
+
+function readOid(node: DerNode): string {
+  expectTag(node, TAG_OID);
+  const arcs: number[] = [];
+  let value = 0;
+  for (const byte of node.value) {
+    value = value * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) {
+      if (arcs.length === 0) {
+        const first = Math.min(Math.floor(value / 40), 2);
+        arcs.push(first, value - first * 40);
+      } else {
+        arcs.push(value);
+      }
+      value = 0;
+    }
+  }
+  return arcs.join('.');
+}
+
+function readBitString(node: DerNode): Uint8Array {
+  expectTag(node, TAG_BIT_STRING);
+  // First byte is the count of unused bits in the last byte
+  return node.value.subarray(1);
+}
+
+function readTime(node: DerNode): Date {
+  const text = new TextDecoder().decode(node.value);
+  let match: RegExpMatchArray | null;
+
+  if (node.tag === TAG_UTC_TIME) {
+    // YYMMDDHHMM[SS]Z; YY >= 50 is 19YY (RFC 5280 4.1.2.5.1)
+    match = text.match(/^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?Z$/);
+    if (match) {
+      const year = Number(match[1]);
+      match[1] = String(year >= 50 ? 1900 + year : 2000 + year);
+    }
+  } else if (node.tag === TAG_GENERALIZED_TIME) {
+    match = text.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?(?:\.\d+)?Z$/);
+  } else {
+    throw new Error(`expected a time, got tag 0x${node.tag.toString(16)}`);
+  }
+
+  if (!match) {
+    throw new Error(`unsupported time format ${text}`);
+  }
+  const [, year, month, day, hour, minute, second] = match;
+  return new Date(
+    Date.UTC(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hour),
+      Number(minute),
+      Number(second ?? 0)
+    )
+  );
+}
+
+/**
+ * Name ::= SEQUENCE OF RelativeDistinguishedName (SET OF AttributeTypeAndValue)
+ */
+function readName(node: DerNode): DistinguishedName {
+  const attributes: DistinguishedName['attributes'] = [];
+  for (const rdn of readSequence(node, TAG_SEQUENCE)) {
+    for (const attribute of readSequence(rdn, 0x31)) {
+      const [typeNode, valueNode] = readSequence(attribute, TAG_SEQUENCE);
+      const oid = readOid(typeNode);
+      attributes.push({ oid, name: ATTRIBUTE_NAMES[oid], value: readString(valueNode) });
+    }
+  }
+
+  return {
+    der: node.bytes,
+    attributes,
+    text: attributes.map((a) => `${a.name ?? a.oid}=${a.value}`).join(', '),
+  };
+}
+
+function readString(node: DerNode): string {
+  // BMPString is UTF-16BE; the other string types used in names are ASCII or UTF-8
+  if (node.tag === 0x1e) {
+    let text = '';
+    for (let i = 0; i + 1 < node.value.length; i += 2) {
+      text += String.fromCharCode((node.value[i] << 8) | node.value[i + 1]);
+    }
+    return text;
+  }
+  return new TextDecoder().decode(node.value);
+}
+
+function readSubjectPublicKeyInfo(node: DerNode): SubjectPublicKeyInfo {
+  const [algorithmNode, publicKeyNode] = readSequence(node, TAG_SEQUENCE);
+  const [algorithmOid, parameters] = readSequence(algorithmNode, TAG_SEQUENCE);
+  const algorithm = readOid(algorithmOid);
+
+  return {
+    algorithm,
+    curve:
+      algorithm === EC_PUBLIC_KEY_OID && parameters?.tag === TAG_OID
+        ? readOid(parameters)
+        : undefined,
+    publicKey: readBitString(publicKeyNode),
+    der: node.bytes,
+  };
+}
+
+/**
+ * Extension ::= SEQUENCE { extnID, critical BOOLEAN DEFAULT FALSE, extnValue OCTET STRING }
+ */
+function readExtension(node: DerNode): X509Extension {
+  const parts = readSequence(node, TAG_SEQUENCE);
+  const oid = readOid(parts[0]);
+  const critical = parts[1].tag === TAG_BOOLEAN ? parts[1].value[0] !== 0 : false;
+  const value = expectTag(parts[parts.length - 1], TAG_OCTET_STRING).value;
+  return { oid, critical, value };
+}
+
+function readKeyUsage(value: Uint8Array): KeyUsage[] {
+  const bits = readBitString(readSingle(value));
+  return KEY_USAGE_BITS.filter((_, bit) => {
+    const byte = bits[bit >> 3] ?? 0;
+    return (byte & (0x80 >> (bit & 7))) !== 0;
+  });
+}
+
+function readBasicConstraints(value: Uint8Array): X509Certificate['basicConstraints'] {
+  const parts = readSequence(readSingle(value), TAG_SEQUENCE);
+  let index = 0;
+  let ca = false;
+  if (parts[index]?.tag === TAG_BOOLEAN) {
+    ca = parts[index].value[0] !== 0;
+    index++;
+  }
+  const pathLength = parts[index] ? Number(readInteger(parts[index])) : undefined;
+  return pathLength === undefined ? { ca } : { ca, pathLength };
+}
+
+/**
+ * Left-pad (or strip the sign byte from) an INTEGER to a fixed size
+ */
+function toFixedSize(integer: Uint8Array, size: number): Uint8Array {
+  let start = 0;
+  while (integer.length - start > size && integer[start] === 0) {
+    start++;
+  }
+  if (integer.length - start > size) {
+    throw new Error('integer too large');
+  }
+  const result = new Uint8Array(size);
+  result.set(integer.subarray(start), size - (integer.length - start));
+  return result;
+}
+
+function toHex(bytes: Uint8Array): string {
+  // INTEGER contents may carry a leading 0x00 to keep the value positive
+  const trimmed = bytes.length > 1 && bytes[0] === 0 ? bytes.subarray(1) : bytes;
+  return Array.from(trimmed, (b) => b.toString(16).padStart(2, '0')).join('');
+}
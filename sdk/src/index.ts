@@ -29,17 +29,30 @@ import {
   isProverInitialized,
   generateProof as proverGenerateProof,
   destroyProver,
+  acceptsClaimLayout,
   type CompiledCircuit,
   type Credential,
 } from './prover/index.js';
 import {
-  requestCredential as requestCredentialFromWallet,
+  negotiateCredential,
   parseCredential,
   toProverCredential,
+  validateIssuerChain,
+  requireIssuerSigned,
+  checkMSOValidity,
+  requireCircuitLayout,
+  getDocTypeProfile,
   isDigitalCredentialsSupported,
   createMockCredential,
+  MDL_DOCTYPE,
   type ClaimType,
+  type CredentialProtocol,
   type CredentialRequestOptions,
+  type NegotiableProtocol,
+  type NullifierStrategy,
+  type OpenID4VPQueryFormat,
+  type OpenID4VPRequestSigner,
+  type ReaderAuthConfig,
   CredentialError,
 } from './credential/index.js';
 
@@ -58,17 +71,121 @@ export {
 } from './contract/index.js';
 
 // Re-export prover types and functions
-export type { CompiledCircuit, Credential, GeneratedProof } from './prover/index.js';
-export { initProver, isProverInitialized, destroyProver } from './prover/index.js';
+export type {
+  CompiledCircuit,
+  Credential,
+  GeneratedProof,
+  ProofPublicInputHashes,
+  CredentialLayout,
+  ClaimLayout,
+} from './prover/index.js';
+export {
+  initProver,
+  isProverInitialized,
+  destroyProver,
+  computeIacaRoot,
+  computeProofPublicInputs,
+  acceptsClaimLayout,
+} from './prover/index.js';
 
 // Re-export credential types and functions
-export type { ClaimType, CredentialRequestOptions } from './credential/index.js';
+export type {
+  ClaimType,
+  DataElementDefinition,
+  DataElementImage,
+  DataElementValues,
+  DocTypeProfile,
+  CredentialProtocol,
+  CredentialRequestOptions,
+  CredentialNegotiationOptions,
+  NegotiableProtocol,
+  NegotiatedCredential,
+  OpenID4VPQueryFormat,
+  OpenID4VPRequestSigner,
+  PresentationRequestOptions,
+  PresentationRequest,
+  CompletePresentationOptions,
+  CompletedPresentation,
+  PendingPresentation,
+  PresentationStore,
+  CrossDeviceRequestOptions,
+  CrossDeviceRequest,
+  CrossDeviceStatus,
+  CrossDeviceStore,
+  CrossDeviceTransaction,
+  CrossDeviceTransactionState,
+  ReaderAuthConfig,
+  ReaderAuthRemoteSigner,
+  ChainValidationOptions,
+  IssuerChainValidation,
+  Vical,
+  VicalCertificateInfo,
+  VicalVerificationOptions,
+  IssuerSignedReport,
+  ClaimDigestCheck,
+  IssuerSignedForm,
+  IssuerSignedOptions,
+  ValidityOptions,
+  ParseOptions,
+  CircuitSlot,
+  CircuitSlotLayout,
+  CircuitLayoutOptions,
+  CircuitLayoutViolation,
+  CircuitLayoutReport,
+  CredentialReport,
+  MockIssuer,
+  MockCredentialOptions,
+  MockWallet,
+  MockWalletOptions,
+  DeviceResponse,
+  DeviceResponseStatus,
+  MdocDocument,
+  IssuerSigned,
+  DocumentError,
+  ElementError,
+  NullifierStrategy,
+  NullifierSource,
+} from './credential/index.js';
 export {
   isDigitalCredentialsSupported,
+  negotiateCredential,
+  registerDataElement,
+  registerDocTypeProfile,
   createMockCredential,
+  createMockIssuer,
+  createMockWallet,
+  createPresentationRequest,
+  completePresentation,
+  relayPresentationRequest,
+  createMemoryPresentationStore,
+  createCrossDeviceRequest,
+  handleCrossDeviceRequest,
+  getCrossDevicePresentation,
+  createMemoryCrossDeviceStore,
+  validateIssuerChain,
+  parseVical,
+  verifyVical,
+  verifyIssuerSigned,
+  checkMSOValidity,
+  analyzeCircuitLayout,
+  describeCredential,
+  CIRCUIT_LAYOUT,
+  decodeDeviceResponse,
+  DEVICE_RESPONSE_STATUS,
   CredentialError,
+  ClaimValueError,
 } from './credential/index.js';
 
+// IACA trust list
+export type {
+  TrustedIACA,
+  IACATrustList,
+  RegisteredIACARoot,
+  TrustListDiff,
+  TrustListOptions,
+} from './trust-list.js';
+export { buildTrustList, diffTrustList } from './trust-list.js';
+
 /**
  * Contract addresses for Thurin deployment
  */
@@ -94,6 +211,22 @@ export interface ThurinConfig {
   walletClient?: WalletClient;
   /** Optional compiled circuit (for proof generation) */
   circuit?: CompiledCircuit;
+  /**
+   * Trusted IACA root certificates (DER). requestCredential requires them and
+   * rejects credentials whose Document Signer does not chain to one of them.
+   */
+  iacaRoots?: Uint8Array[];
+  /** Clock for MSO validity checks (defaults to the system clock) */
+  clock?: () => Date;
+  /** Clock skew tolerated in MSO validity checks, in seconds (defaults to 300) */
+  clockSkewSeconds?: number;
+  /**
+   * Nullifier strategy by document type (defaults to each profile's, which is
+   * document-number for the built-in ones). Pick once per deployment: a
+   * switch lets every holder mint again. 'device-key' is refused because it
+   * yields one nullifier per provisioned device, not per person.
+   */
+  nullifierStrategies?: Record<string, NullifierStrategy>;
 }
 
 /**
@@ -104,6 +237,24 @@ export interface CredentialRequest {
   claims: ClaimType[];
   /** Optional nonce for freshness */
   nonce?: string;
+  /** Digital Credentials protocol (defaults to org-iso-mdoc) */
+  protocol?: CredentialProtocol;
+  /**
+   * Protocols to offer in one call, most preferred first (overrides protocol).
+   * Not the legacy identity-credential fallback: its response is not
+   * encrypted to us and carries no DeviceAuth this SDK can verify.
+   */
+  protocols?: CredentialProtocol[];
+  /** Query language for openid4vp requests (defaults to dcql) */
+  queryFormat?: OpenID4VPQueryFormat;
+  /** Verifier client identifier, required for openid4vp-v1-signed */
+  clientId?: string;
+  /** Request signer, required for openid4vp-v1-signed */
+  signRequest?: OpenID4VPRequestSigner;
+  /** Reader certificate and key, adds ReaderAuth to org-iso-mdoc requests */
+  readerAuth?: ReaderAuthConfig;
+  /** Document type to request (defaults to org.iso.18013.5.1.mDL) */
+  docType?: string;
 }
 
 /**
@@ -257,11 +408,68 @@ export class Thurin {
    * @throws CredentialError if not supported, user cancels, or no credential available
    */
   async requestCredential(options: CredentialRequest): Promise<Credential> {
-    const rawCredential = await requestCredentialFromWallet({
+    // One SBT per person: refuse per-device nullifiers before asking the wallet
+    const docType = options.docType ?? MDL_DOCTYPE;
+    const nullifierStrategy =
+      this.config.nullifierStrategies?.[docType] ??
+      getDocTypeProfile(docType)?.nullifierStrategy;
+    if (nullifierStrategy === 'device-key') {
+      throw new CredentialError(
+        `The device-key nullifier strategy (${docType}) gives one nullifier per device, ` +
+          'so a holder could mint once per device',
+        'NOT_SUPPORTED'
+      );
+    }
+    const protocols = options.protocols ?? [options.protocol ?? 'org-iso-mdoc'];
+    if ((protocols as NegotiableProtocol[]).includes('identity-credential')) {
+      throw new CredentialError(
+        'The identity-credential fallback returns an unverifiable response',
+        'NOT_SUPPORTED'
+      );
+    }
+    // Without roots any self-signed Document Signer would pass
+    const iacaRoots = this.config.iacaRoots;
+    if (!iacaRoots?.length) {
+      throw new CredentialError(
+        'No trusted IACA roots configured (ThurinConfig.iacaRoots)',
+        'UNTRUSTED_ISSUER'
+      );
+    }
+
+    const { credential: rawCredential } = await negotiateCredential({
       claims: options.claims,
       nonce: options.nonce,
+      protocols,
+      queryFormat: options.queryFormat,
+      clientId: options.clientId,
+      signRequest: options.signRequest,
+      readerAuth: options.readerAuth,
+      docType: options.docType,
+      nullifierStrategy,
+    });
+    const parsedCredential = parseCredential(rawCredential, { nullifierStrategy });
+
+    const { iaca } = await validateIssuerChain(parsedCredential.certificateChain, {
+      iacaRoots,
+      extendedKeyUsage: getDocTypeProfile(parsedCredential.mso.docType)?.documentSignerEku ?? null,
     });
-    const parsedCredential = parseCredential(rawCredential);
+    parsedCredential.iaca = iaca;
+
+    // Catch a bad signature, digest, validity period or unsupported layout here
+    // rather than as a failed proof: the signature and slot digests as the
+    // circuit checks them. Only that form: the circuit verifies a signature
+    // over the zero-padded MSO, not the ISO COSE Sig_structure, so a
+    // credential it proves carries no ISO signature to check as well
+    await requireIssuerSigned(parsedCredential, { form: 'circuit' });
+    checkMSOValidity(parsedCredential.mso, {
+      now: this.config.clock?.(),
+      clockSkewSeconds: this.config.clockSkewSeconds,
+    });
+    await requireCircuitLayout(parsedCredential, {
+      claimLayout:
+        this.config.circuit && acceptsClaimLayout(this.config.circuit) ? 'located' : 'fixed',
+    });
+
     return toProverCredential(parsedCredential);
   }
 
@@ -4,11 +4,17 @@ export {
   generateProof,
   verifyProofLocally,
   destroyProver,
+  computeIacaRoot,
+  computeProofPublicInputs,
+  acceptsClaimLayout,
 } from './prover.js';
 
 export type {
   CompiledCircuit,
   Credential,
+  CredentialLayout,
+  ClaimLayout,
   ProofGenerationOptions,
   GeneratedProof,
+  ProofPublicInputHashes,
 } from './types.js';
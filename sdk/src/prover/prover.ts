@@ -1,16 +1,24 @@
 import { Noir } from '@noir-lang/noir_js';
-import { UltraHonkBackend, Barretenberg } from '@aztec/bb.js';
+import { UltraHonkBackend, Barretenberg, BarretenbergSync, BackendType } from '@aztec/bb.js';
 import { keccak256, toHex, hexToBytes, type Address, type Hex } from 'viem';
 import type {
   CompiledCircuit,
   Credential,
   ProofGenerationOptions,
   GeneratedProof,
+  ProofPublicInputHashes,
 } from './types.js';
 
 // Must match circuit's STATE_CODE_OFFSET in main.nr
 const STATE_CODE_OFFSET = 66;
 
+// Witness name prefixes of circuits that take claim offsets, by layout slot
+const CLAIM_LAYOUT_INPUTS = {
+  age_over_21: 'ageOver21',
+  age_over_18: 'ageOver18',
+  state: 'state',
+} as const;
+
 // Domain separators - must match circuits/src/nullifier.nr
 const DOMAIN_IACA_ROOT = 0x01;
 const DOMAIN_NULLIFIER = 0x02;
@@ -18,6 +26,8 @@ const DOMAIN_ADDRESS_BINDING = 0x03;
 
 // Singleton instances for reuse
 let barretenbergAPI: Awaited<ReturnType<typeof Barretenberg.new>> | null = null;
+// Poseidon2 needs no CRS, so hashing runs on a separate synchronous instance
+let hasher: BarretenbergSync | null = null;
 let noir: Noir | null = null;
 let backend: UltraHonkBackend | null = null;
 let currentCircuit: CompiledCircuit | null = null;
@@ -73,7 +83,12 @@ export async function generateProof(
   const proofDate = timestampToYYYYMMDD(timestamp);
 
   // Build witness inputs matching circuit signature
-  const witnessInputs = await buildWitnessInputs(barretenbergAPI, credential, options, proofDate);
+  const witnessInputs = await buildWitnessInputs(
+    credential,
+    options,
+    proofDate,
+    currentCircuit !== null && acceptsClaimLayout(currentCircuit)
+  );
 
   // Execute circuit to generate witness
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -82,13 +97,8 @@ export async function generateProof(
   // Generate proof using UltraHonk
   const proof = await backend.generateProof(witness);
 
-  // Extract state code (2 ASCII chars) at offset matching circuit's STATE_CODE_OFFSET
-  const stateCode = options.proveState
-    ? String.fromCharCode(
-        credential.stateClaimBytes[STATE_CODE_OFFSET] ?? 0,
-        credential.stateClaimBytes[STATE_CODE_OFFSET + 1] ?? 0
-      )
-    : '\0\0';
+  // State code (2 ASCII chars) as the circuit reads it, or zeros if not proving
+  const stateCode = String.fromCharCode(...witnessInputs.proven_state);
 
   return {
     proof: toHex(proof.proof),
@@ -129,35 +139,118 @@ export async function destroyProver(): Promise<void> {
     await barretenbergAPI.destroy();
     barretenbergAPI = null;
   }
+  if (hasher) {
+    await hasher.destroy();
+    hasher = null;
+  }
   noir = null;
   currentCircuit = null;
 }
 
 /**
- * Build witness inputs from credential and options
+ * Compute the IACA root the circuit expects for the key it takes
+ *
+ * The circuit's iaca_pubkey is the key that signs the MSO (the Document
+ * Signer's), so that is the key to pass. This is the value
+ * ThurinSBT.addIACARoot() registers. Loads Barretenberg's WASM on first use;
+ * it needs no CRS, so no initProver() or network access.
+ *
+ * @param pubkeyX - P-256 public key x coordinate (32 bytes)
+ * @param pubkeyY - P-256 public key y coordinate (32 bytes)
  */
-async function buildWitnessInputs(
-  bb: Barretenberg,
-  credential: Credential,
-  options: ProofGenerationOptions,
-  proofDate: number
-) {
+export async function computeIacaRoot(pubkeyX: Uint8Array, pubkeyY: Uint8Array): Promise<Hex> {
+  return (await hashIacaRoot(pubkeyX, pubkeyY)) as Hex;
+}
+
+/**
+ * Compute the Poseidon2 public inputs a proof over a credential carries
+ *
+ * The values generateProof() commits to, without proving. Needs no
+ * initProver().
+ *
+ * @param credential - Nullifier input and the key the circuit roots
+ * @param options - Event ID and bound address
+ */
+export async function computeProofPublicInputs(
+  credential: Pick<Credential, 'documentNumber' | 'iacaPubkeyX' | 'iacaPubkeyY'>,
+  options: Pick<ProofGenerationOptions, 'eventId' | 'boundAddress'>
+): Promise<ProofPublicInputHashes> {
   // Compute IACA root from public key using Poseidon2
-  const iacaRoot = await computeIacaRoot(bb, credential.iacaPubkeyX, credential.iacaPubkeyY);
+  const iacaRoot = await hashIacaRoot(credential.iacaPubkeyX, credential.iacaPubkeyY);
 
   // Hash event ID to bytes32
   const eventId = hashEventId(options.eventId);
 
   // Compute nullifier using Poseidon2
-  const nullifier = await computeNullifier(bb, credential.documentNumber, eventId, iacaRoot);
+  const nullifier = await computeNullifier(credential.documentNumber, eventId, iacaRoot);
 
   // Compute address binding for front-running protection
+  const addressBinding = await computeAddressBinding(
+    nullifier,
+    addressToField(options.boundAddress)
+  );
+
+  return {
+    iacaRoot: iacaRoot as Hex,
+    eventId: eventId as Hex,
+    nullifier: nullifier as Hex,
+    addressBinding: addressBinding as Hex,
+  };
+}
+
+/**
+ * Poseidon2 over field elements, on the shared hashing instance
+ */
+async function poseidon2Hash(inputs: Uint8Array[]): Promise<Uint8Array> {
+  if (!hasher) {
+    hasher = await BarretenbergSync.new({ backend: BackendType.Wasm });
+  }
+  return hasher.poseidon2Hash({ inputs }).hash;
+}
+
+/**
+ * Check whether a circuit takes claim offsets as witness values
+ *
+ * Such circuits locate each claim's digest in the MSO and its value in the
+ * item from `<claim>_digest_offset`, `<claim>_claim_len` and
+ * `<claim>_value_offset` (claim: age_over_21, age_over_18, state), so issuers
+ * may order digestIDs and encode items freely. Other circuits read the fixed
+ * offsets of the original layout.
+ *
+ * @param circuit - Compiled Noir circuit
+ */
+export function acceptsClaimLayout(circuit: CompiledCircuit): boolean {
+  return circuit.abi.parameters.some((param) => param.name === 'age_over_21_digest_offset');
+}
+
+/**
+ * Build witness inputs from credential and options
+ */
+async function buildWitnessInputs(
+  credential: Credential,
+  options: ProofGenerationOptions,
+  proofDate: number,
+  claimLayout: boolean
+) {
+  const { iacaRoot, eventId, nullifier, addressBinding } = await computeProofPublicInputs(
+    credential,
+    options
+  );
   const boundAddressField = addressToField(options.boundAddress);
-  const addressBinding = await computeAddressBinding(bb, nullifier, boundAddressField);
 
-  // State code at offset matching circuit's STATE_CODE_OFFSET (or zeros if not proving)
+  // Claim offsets, for circuits that take them
+  const layoutInputs = claimLayout ? claimLayoutInputs(credential) : undefined;
+
+  // State code where the circuit reads it (or zeros if not proving): at
+  // STATE_CODE_OFFSET, or after the located value's text header
+  const stateCodeOffset = layoutInputs
+    ? layoutInputs.state_value_offset + 1
+    : STATE_CODE_OFFSET;
   const provenState = options.proveState
-    ? [credential.stateClaimBytes[STATE_CODE_OFFSET] ?? 0, credential.stateClaimBytes[STATE_CODE_OFFSET + 1] ?? 0]
+    ? [
+        credential.stateClaimBytes[stateCodeOffset] ?? 0,
+        credential.stateClaimBytes[stateCodeOffset + 1] ?? 0,
+      ]
     : [0, 0];
 
   return {
@@ -182,9 +275,30 @@ async function buildWitnessInputs(
     document_number: Array.from(credential.documentNumber),
     iaca_pubkey_x: Array.from(credential.iacaPubkeyX),
     iaca_pubkey_y: Array.from(credential.iacaPubkeyY),
+    ...layoutInputs,
   };
 }
 
+/**
+ * Claim offset witness values for circuits that take them
+ */
+function claimLayoutInputs(credential: Credential): Record<string, number> {
+  if (!credential.layout) {
+    throw new Error(
+      'Circuit takes claim offsets but the credential has no layout. ' +
+        'Build it with toProverCredential().'
+    );
+  }
+  const inputs: Record<string, number> = {};
+  for (const [prefix, slot] of Object.entries(CLAIM_LAYOUT_INPUTS)) {
+    const claim = credential.layout[slot];
+    inputs[`${prefix}_digest_offset`] = claim.digestOffset;
+    inputs[`${prefix}_claim_len`] = claim.length;
+    inputs[`${prefix}_value_offset`] = claim.valueOffset;
+  }
+  return inputs;
+}
+
 // BN254 field modulus (used by Noir circuits)
 const BN254_MODULUS = 21888242871839275222246405745257275088548364400416034343698204186575808495617n;
 
@@ -246,15 +360,17 @@ function timestampToYYYYMMDD(timestamp: number): number {
  * Compute IACA root from public key coordinates using Poseidon2
  * Matches circuit's Poseidon2(DOMAIN_IACA_ROOT, pubkey_x, pubkey_y)
  */
-async function computeIacaRoot(
-  bb: Barretenberg,
+async function hashIacaRoot(
   pubkeyX: Uint8Array,
   pubkeyY: Uint8Array
 ): Promise<string> {
-  const result = await bb.poseidon2Hash({
-    inputs: [domainSeparator(DOMAIN_IACA_ROOT), padTo32Bytes(pubkeyX), padTo32Bytes(pubkeyY)],
-  });
-  return toHex(result.hash);
+  return toHex(
+    await poseidon2Hash([
+      domainSeparator(DOMAIN_IACA_ROOT),
+      padTo32Bytes(pubkeyX),
+      padTo32Bytes(pubkeyY),
+    ])
+  );
 }
 
 /**
@@ -262,20 +378,18 @@ async function computeIacaRoot(
  * Matches circuit's Poseidon2(DOMAIN_NULLIFIER, doc_number, event_id, iaca_root)
  */
 async function computeNullifier(
-  bb: Barretenberg,
   documentNumber: Uint8Array,
   eventId: string,
   iacaRoot: string
 ): Promise<string> {
-  const result = await bb.poseidon2Hash({
-    inputs: [
+  return toHex(
+    await poseidon2Hash([
       domainSeparator(DOMAIN_NULLIFIER),
       padTo32Bytes(documentNumber),
       hexToBytes(eventId as Hex),
       hexToBytes(iacaRoot as Hex),
-    ],
-  });
-  return toHex(result.hash);
+    ])
+  );
 }
 
 /**
@@ -283,16 +397,14 @@ async function computeNullifier(
  * Matches circuit's Poseidon2(DOMAIN_ADDRESS_BINDING, nullifier, bound_address)
  */
 async function computeAddressBinding(
-  bb: Barretenberg,
   nullifier: string,
   boundAddress: string
 ): Promise<string> {
-  const result = await bb.poseidon2Hash({
-    inputs: [
+  return toHex(
+    await poseidon2Hash([
       domainSeparator(DOMAIN_ADDRESS_BINDING),
       hexToBytes(nullifier as Hex),
       hexToBytes(boundAddress as Hex),
-    ],
-  });
-  return toHex(result.hash);
+    ])
+  );
 }
@@ -1,4 +1,6 @@
 import type { Hex, Address } from 'viem';
+import type { NullifierStrategy } from '../credential/types.js';
+import type { X509Certificate } from '../credential/x509.js';
 
 /**
  * Compiled Noir circuit artifact
@@ -14,6 +16,27 @@ export interface CompiledCircuit {
   bytecode: string;
 }
 
+/**
+ * Where one claim sits in the MSO and in its item
+ */
+export interface ClaimLayout {
+  /** Offset of the claim's 32-byte digest in the MSO bytes */
+  digestOffset: number;
+  /** Claim length before padding */
+  length: number;
+  /** Offset of the elementValue encoding in the claim bytes */
+  valueOffset: number;
+}
+
+/**
+ * Located claim positions, for circuits that take them as witness values
+ */
+export interface CredentialLayout {
+  ageOver21: ClaimLayout;
+  ageOver18: ClaimLayout;
+  state: ClaimLayout;
+}
+
 /**
  * Raw mDL credential data extracted from wallet
  */
@@ -28,12 +51,21 @@ export interface Credential {
   ageOver18ClaimBytes: Uint8Array;
   /** State claim CBOR bytes */
   stateClaimBytes: Uint8Array;
-  /** Document number (private, used for nullifier) */
+  /** Nullifier input, e.g. the document number (private) */
   documentNumber: Uint8Array;
-  /** IACA public key X coordinate */
+  /** How documentNumber was derived; nullifiers only match within a strategy */
+  nullifierStrategy?: NullifierStrategy;
+  /** IACA public key X coordinate (the MSO signer's, i.e. the Document Signer) */
   iacaPubkeyX: Uint8Array;
-  /** IACA public key Y coordinate */
+  /** IACA public key Y coordinate (the MSO signer's, i.e. the Document Signer) */
   iacaPubkeyY: Uint8Array;
+  /** Trusted IACA the Document Signer chains to, when the chain was validated */
+  iaca?: X509Certificate;
+  /**
+   * Claim positions located by toProverCredential. Required by circuits that
+   * take claim offsets (see acceptsClaimLayout); fixed-layout circuits ignore it.
+   */
+  layout?: CredentialLayout;
 }
 
 /**
@@ -54,6 +86,17 @@ export interface ProofGenerationOptions {
   proveState?: boolean;
 }
 
+/**
+ * Poseidon2 public inputs a proof commits to
+ */
+export interface ProofPublicInputHashes {
+  iacaRoot: Hex;
+  /** Event ID as the field the circuit takes */
+  eventId: Hex;
+  nullifier: Hex;
+  addressBinding: Hex;
+}
+
 /**
  * Generated proof data
  */
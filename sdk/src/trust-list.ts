@@ -0,0 +1,188 @@
+/**
+ * IACA trust list for the circuit and ThurinSBT
+ *
+ * The circuit commits to an issuer as iaca_root = Poseidon2(DOMAIN_IACA_ROOT,
+ * pubkey_x, pubkey_y) over the key that signs the MSO, which is the Document
+ * Signer's (certificateChain[0]), not the IACA's. ThurinSBT only accepts
+ * proofs whose root was registered with addIACARoot(root, stateName).
+ * buildTrustList() checks each Document Signer against the IACAs in a
+ * verified VICAL and turns the ones that chain into those roots;
+ * diffTrustList() compares them with what is registered on-chain so the
+ * owner knows which calls to make.
+ *
+ * So a root is not stable across Document Signer rotation: each new DS key is
+ * a new root to register, and a removed one invalidates the proofs under it.
+ * A root per IACA needs the circuit to verify the DS certificate with the
+ * IACA key; until it does, the IACA only decides which DS keys are listed
+ * (validateIssuerChain), and the proof itself is anchored at the DS.
+ */
+
+import type { Hex } from 'viem';
+import { computeIacaRoot } from './prover/index.js';
+import { validateIssuerChain } from './credential/chain.js';
+import { getDocTypeProfile } from './credential/doctypes.js';
+import type { Vical, VicalCertificateInfo } from './credential/vical.js';
+import { type X509Certificate, getP256PublicKey, parseCertificate } from './credential/x509.js';
+
+/**
+ * A Document Signer the circuit can anchor proofs to, with the listed IACA
+ * that issued it
+ */
+export interface TrustedIACA extends VicalCertificateInfo {
+  /** Document Signer certificate, issued by `certificate` */
+  documentSigner: X509Certificate;
+  /** Poseidon2 root of the Document Signer key, as registered with ThurinSBT */
+  iacaRoot: Hex;
+  /** Name registered alongside the root (the jurisdiction) */
+  stateName: string;
+  /** Document Signer public key x coordinate (the circuit's iaca_pubkey_x) */
+  pubkeyX: Uint8Array;
+  /** Document Signer public key y coordinate (the circuit's iaca_pubkey_y) */
+  pubkeyY: Uint8Array;
+}
+
+/**
+ * Options for building a trust list
+ */
+export interface TrustListOptions {
+  /**
+   * Document Signer certificates (DER or parsed) to compute roots for, e.g.
+   * as collected from issued credentials' x5chain
+   */
+  documentSigners: Array<Uint8Array | X509Certificate>;
+  /** docType to keep (defaults to every listed IACA) */
+  docType?: string;
+  /** Time to check validity periods at (defaults to now) */
+  now?: Date;
+}
+
+/**
+ * Trust list built from one VICAL
+ */
+export interface IACATrustList {
+  vicalProvider: string;
+  vicalIssueID?: number;
+  /** VICAL issue date */
+  date: Date;
+  entries: TrustedIACA[];
+  /**
+   * Document Signers the circuit cannot use, e.g. not issued by a listed
+   * IACA or not P-256
+   */
+  skipped: Array<{ documentSigner: X509Certificate; reason: string }>;
+}
+
+/**
+ * A root registered with ThurinSBT
+ */
+export interface RegisteredIACARoot {
+  root: Hex;
+  stateName: string;
+}
+
+/**
+ * Changes that bring ThurinSBT's roots in line with a trust list
+ */
+export interface TrustListDiff {
+  /** Listed but not registered: addIACARoot(iacaRoot, stateName) */
+  add: TrustedIACA[];
+  /** Registered but no longer listed: removeIACARoot(root) */
+  remove: RegisteredIACARoot[];
+  /** Registered under another name: addIACARoot again to rename */
+  rename: Array<{ entry: TrustedIACA; registeredName: string }>;
+  /** Listed and registered as-is */
+  unchanged: TrustedIACA[];
+}
+
+/**
+ * Compute circuit roots for Document Signers issued by the IACAs in a VICAL
+ *
+ * Pass a VICAL from verifyVical() so the list is only as trusted as its
+ * provider. Each Document Signer must chain to a listed IACA as
+ * validateIssuerChain() checks it when a credential is requested.
+ *
+ * @param vical - Verified VICAL
+ * @param options - Document Signers to list, and the docType to keep
+ */
+export async function buildTrustList(
+  vical: Vical,
+  options: TrustListOptions
+): Promise<IACATrustList> {
+  const { docType } = options;
+  const listed = vical.certificateInfos.filter(
+    (info) => !docType || info.docTypes.includes(docType)
+  );
+  // Without a docType, the mDL DS purpose validateIssuerChain() defaults to
+  const extendedKeyUsage = docType
+    ? (getDocTypeProfile(docType)?.documentSignerEku ?? null)
+    : undefined;
+  const entries: TrustedIACA[] = [];
+  const skipped: IACATrustList['skipped'] = [];
+
+  for (const signer of options.documentSigners) {
+    const documentSigner = signer instanceof Uint8Array ? parseCertificate(signer) : signer;
+
+    try {
+      const { iaca } = await validateIssuerChain([documentSigner], {
+        iacaRoots: listed.map((info) => info.certificate),
+        now: options.now,
+        extendedKeyUsage,
+      });
+      const info = listed.find((candidate) => candidate.certificate === iaca)!;
+      const pubkey = getP256PublicKey(documentSigner);
+
+      entries.push({
+        ...info,
+        documentSigner,
+        iacaRoot: await computeIacaRoot(pubkey.x, pubkey.y),
+        stateName: info.jurisdiction,
+        pubkeyX: pubkey.x,
+        pubkeyY: pubkey.y,
+      });
+    } catch (error) {
+      skipped.push({
+        documentSigner,
+        reason: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return {
+    vicalProvider: vical.vicalProvider,
+    vicalIssueID: vical.vicalIssueID,
+    date: vical.date,
+    entries,
+    skipped,
+  };
+}
+
+/**
+ * Compare a trust list with the roots registered on-chain
+ *
+ * @param trustList - List from buildTrustList()
+ * @param registered - Roots from ThurinSBT.getTrustedIACARoots()
+ */
+export function diffTrustList(
+  trustList: IACATrustList,
+  registered: RegisteredIACARoot[]
+): TrustListDiff {
+  const registeredNames = new Map(
+    registered.map(({ root, stateName }) => [root.toLowerCase(), stateName])
+  );
+  const listedRoots = new Set(trustList.entries.map((entry) => entry.iacaRoot.toLowerCase()));
+  const diff: TrustListDiff = { add: [], remove: [], rename: [], unchanged: [] };
+
+  for (const entry of trustList.entries) {
+    const registeredName = registeredNames.get(entry.iacaRoot.toLowerCase());
+    if (registeredName === undefined) {
+      diff.add.push(entry);
+    } else if (registeredName !== entry.stateName) {
+      diff.rename.push({ entry, registeredName });
+    } else {
+      diff.unchanged.push(entry);
+    }
+  }
+  diff.remove = registered.filter(({ root }) => !listedRoots.has(root.toLowerCase()));
+
+  return diff;
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseCertificate,
+  validateIssuerChain,
+  verifyCertificateSignature,
+  CredentialError,
+} from '../src/credential/index.js';
+import { DS_CERT, IACA_CERT, P384_CERT } from './fixtures/certificates.js';
+
+const NOW = new Date('2030-01-01T00:00:00Z');
+
+async function expectUntrusted(promise: Promise<unknown>, message: RegExp) {
+  const error = await promise.catch((e) => e);
+  expect(error).toBeInstanceOf(CredentialError);
+  expect(error.code).toBe('UNTRUSTED_ISSUER');
+  expect(error.message).toMatch(message);
+}
+
+describe('verifyCertificateSignature', () => {
+  it('checks a certificate against its issuer key', async () => {
+    const ds = parseCertificate(DS_CERT);
+    const iaca = parseCertificate(IACA_CERT);
+
+    expect(await verifyCertificateSignature(ds, iaca)).toBe(true);
+    expect(await verifyCertificateSignature(iaca, iaca)).toBe(true);
+    expect(await verifyCertificateSignature(ds, ds)).toBe(false);
+  });
+});
+
+describe('validateIssuerChain', () => {
+  it('anchors the Document Signer at a configured IACA', async () => {
+    const result = await validateIssuerChain([parseCertificate(DS_CERT)], {
+      iacaRoots: [P384_CERT, IACA_CERT],
+      now: NOW,
+    });
+
+    expect(result.documentSigner.serialNumber).toBe('1092');
+    expect(result.iaca.serialNumber).toBe('1a2b3c4d5e6f');
+    expect(result.path).toHaveLength(2);
+    expect(result.iacaPubkey?.x.length).toBe(32);
+  });
+
+  it('accepts an x5chain that also carries the IACA', async () => {
+    const chain = [parseCertificate(DS_CERT), parseCertificate(IACA_CERT)];
+    const result = await validateIssuerChain(chain, { iacaRoots: [IACA_CERT], now: NOW });
+
+    expect(result.path.map((cert) => cert.serialNumber)).toEqual(['1092', '1a2b3c4d5e6f']);
+  });
+
+  it('rejects a chain that does not reach a configured root', async () => {
+    await expectUntrusted(
+      validateIssuerChain([parseCertificate(DS_CERT)], { iacaRoots: [P384_CERT], now: NOW }),
+      /No trusted IACA issued "C=US, ST=US-CA, CN=Thurin Test Document Signer"/
+    );
+    await expectUntrusted(
+      validateIssuerChain([], { iacaRoots: [IACA_CERT], now: NOW }),
+      /No Document Signer certificate/
+    );
+  });
+
+  it('enforces validity periods', async () => {
+    const chain = [parseCertificate(DS_CERT)];
+
+    await expectUntrusted(
+      validateIssuerChain(chain, { iacaRoots: [IACA_CERT], now: new Date('2040-01-01Z') }),
+      /Document Signer certificate .* is not valid at 2040-01-01/
+    );
+    await expectUntrusted(
+      validateIssuerChain(chain, { iacaRoots: [IACA_CERT], now: new Date('2026-01-01Z') }),
+      /valid 2026-10-19T04:55:16.000Z to 2036-10-16T04:55:16.000Z/
+    );
+  });
+
+  it('requires the Document Signer key usages', async () => {
+    const iaca = parseCertificate(IACA_CERT);
+
+    await expectUntrusted(
+      validateIssuerChain([iaca], { iacaRoots: [IACA_CERT], now: NOW }),
+      /lacks the digitalSignature key usage/
+    );
+  });
+
+  it('skips the extended key usage check when asked', async () => {
+    const ds = parseCertificate(DS_CERT);
+    const withoutEku = { ...ds, extendedKeyUsage: undefined };
+
+    await expectUntrusted(
+      validateIssuerChain([withoutEku], { iacaRoots: [IACA_CERT], now: NOW }),
+      /lacks the 1\.0\.18013\.5\.1\.2 extended key usage/
+    );
+    const result = await validateIssuerChain([withoutEku], {
+      iacaRoots: [IACA_CERT],
+      now: NOW,
+      extendedKeyUsage: null,
+    });
+    expect(result.iaca.serialNumber).toBe('1a2b3c4d5e6f');
+  });
+
+  it('rejects a tampered Document Signer certificate', async () => {
+    const ds = parseCertificate(DS_CERT);
+    const tbs = ds.tbs.slice();
+    tbs[tbs.length - 40] ^= 0xff;
+
+    await expectUntrusted(
+      validateIssuerChain([{ ...ds, tbs }], { iacaRoots: [IACA_CERT], now: NOW }),
+      /No trusted IACA issued/
+    );
+  });
+});
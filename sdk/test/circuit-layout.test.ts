@@ -0,0 +1,216 @@
+import { describe, it, expect } from 'vitest';
+import { encode } from 'cborg';
+import {
+  parseCredential,
+  toProverCredential,
+  analyzeCircuitLayout,
+  requireCircuitLayout,
+  CredentialError,
+  type RawCredentialResponse,
+  type RawIssuerSignedItem,
+} from '../src/credential/index.js';
+import { wrapInTag24 } from '../src/credential/device-request.js';
+import { DS_CERT } from './fixtures/certificates.js';
+import { VALIDITY_INFO } from './fixtures/mso.js';
+
+const NAMESPACE = 'org.iso.18013.5.1';
+const SLOT_SIZES: Record<string, number> = {
+  age_over_21: 96,
+  age_over_18: 96,
+  issuing_jurisdiction: 107,
+};
+
+function issuerSignedItem(
+  digestID: number,
+  elementIdentifier: string,
+  elementValue: unknown,
+  randomLength = 32
+): RawIssuerSignedItem {
+  const item = {
+    digestID,
+    random: new Uint8Array(randomLength).fill(digestID + 1),
+    elementIdentifier,
+    elementValue,
+  };
+  return { ...item, rawBytes: encode(item) };
+}
+
+async function sha256(bytes: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+}
+
+function credential(mso: Uint8Array, items: RawIssuerSignedItem[]): RawCredentialResponse {
+  return {
+    issuerAuth: encode([
+      encode(new Map([[1, -7]])),
+      new Map([[33, DS_CERT]]),
+      mso,
+      new Uint8Array(64),
+    ]),
+    namespaces: { [NAMESPACE]: items },
+  };
+}
+
+/**
+ * Credential in the circuit's own layout (as in circuits/Prover.toml): bare
+ * MSO, text digestIDs, digests over the zero-padded slots (or, for circuits
+ * that take claim lengths, over the items)
+ */
+async function circuitLayoutCredential(
+  items: RawIssuerSignedItem[],
+  padded = true
+): Promise<RawCredentialResponse> {
+  const digests: Record<string, Uint8Array> = {};
+  for (const item of items) {
+    const size = padded ? (SLOT_SIZES[item.elementIdentifier] ?? 0) : 0;
+    const slot = new Uint8Array(Math.max(size, item.rawBytes.length));
+    slot.set(item.rawBytes);
+    digests[String(item.digestID)] = await sha256(slot);
+  }
+  const mso = encode({
+    docType: 'org.iso.18013.5.1.mDL',
+    validityInfo: { signed: '2026-01-01', validFrom: '2026-01-01', validUntil: '2030-01-01' },
+    valueDigests: { [NAMESPACE]: digests },
+    digestAlgorithm: 'SHA-256',
+  });
+  return credential(mso, items);
+}
+
+const circuitItems = [
+  issuerSignedItem(0, 'age_over_21', true),
+  issuerSignedItem(1, 'issuing_jurisdiction', 'CA'),
+  issuerSignedItem(2, 'age_over_18', true),
+  issuerSignedItem(3, 'document_number', 'D1234567'),
+];
+
+describe('analyzeCircuitLayout', () => {
+  it('accepts a credential in the circuit layout', async () => {
+    const parsed = parseCredential(await circuitLayoutCredential(circuitItems));
+    const report = await analyzeCircuitLayout(parsed);
+
+    expect(report.violations).toEqual([]);
+    expect(report.compatible).toBe(true);
+    await expect(requireCircuitLayout(parsed)).resolves.toBeUndefined();
+  });
+
+  it('names each departure of an ISO 18013-5 credential', async () => {
+    const items = [
+      issuerSignedItem(0, 'issuing_jurisdiction', 'US-CA'),
+      issuerSignedItem(5, 'age_over_21', true),
+      issuerSignedItem(2, 'age_over_18', true),
+      issuerSignedItem(3, 'document_number', 'D1234567'),
+    ];
+    const digests = new Map<number, Uint8Array>();
+    for (const item of items) {
+      digests.set(item.digestID, await sha256(wrapInTag24(item.rawBytes)));
+    }
+    const mso = wrapInTag24(
+      encode({
+        version: '1.0',
+        digestAlgorithm: 'SHA-256',
+        docType: 'org.iso.18013.5.1.mDL',
+        valueDigests: { [NAMESPACE]: digests },
+        validityInfo: VALIDITY_INFO,
+      })
+    );
+
+    const report = await analyzeCircuitLayout(parseCredential(credential(mso, items)));
+    const messages = report.violations.map((v) => [v.kind, v.slot, v.message]);
+
+    expect(report.compatible).toBe(false);
+    expect(messages).toContainEqual([
+      'valid-until',
+      undefined,
+      expect.stringMatching(/^MSO bytes 96-105 are not validUntil/),
+    ]);
+    expect(messages).toContainEqual([
+      'digest-id',
+      'ageOver21',
+      `${NAMESPACE}:age_over_21 has digestID 5; the circuit expects 0`,
+    ]);
+    expect(messages).toContainEqual([
+      'digest-id',
+      'jurisdiction',
+      `${NAMESPACE}:issuing_jurisdiction has digestID 0; the circuit expects 1`,
+    ]);
+    expect(messages).toContainEqual([
+      'digest-offset',
+      'jurisdiction',
+      `MSO lists no digest for digestID 1 in ${NAMESPACE}`,
+    ]);
+    expect(messages).toContainEqual([
+      'digest-offset',
+      'ageOver18',
+      expect.stringMatching(/digestID 2 is at byte \d+; the circuit reads byte 215$/),
+    ]);
+    expect(messages).toContainEqual([
+      'value-position',
+      'jurisdiction',
+      `${NAMESPACE}:issuing_jurisdiction is "US-CA"; ` +
+        'the circuit reads a 2-letter code at bytes 66-67',
+    ]);
+  });
+
+  it('reports items the circuit would truncate or misread', async () => {
+    const items = circuitItems.slice();
+    items[2] = issuerSignedItem(2, 'age_over_18', true, 48);
+    const parsed = parseCredential(await circuitLayoutCredential(items));
+
+    const { violations } = await analyzeCircuitLayout(parsed);
+
+    expect(violations.map((v) => [v.kind, v.message])).toEqual([
+      ['claim-size', `${NAMESPACE}:age_over_18 is 112 bytes; the circuit slot holds 96`],
+      [
+        'value-position',
+        `${NAMESPACE}:age_over_18 value starts at byte 81; the circuit reads byte 65`,
+      ],
+    ]);
+    expect(() => toProverCredential(parsed)).toThrow(/age_over_18 is 112 bytes/);
+  });
+
+  it('reports digests over the tag 24 item instead of the slot', async () => {
+    const raw = await circuitLayoutCredential(circuitItems);
+    const isoDigest = await sha256(wrapInTag24(circuitItems[0].rawBytes));
+    const parsed = parseCredential(raw);
+    parsed.mso.bytes.set(isoDigest, 143);
+    parsed.mso.valueDigests.get(NAMESPACE)!.set(0, isoDigest);
+
+    const error = await requireCircuitLayout(parsed).catch((e) => e);
+
+    expect(error).toBeInstanceOf(CredentialError);
+    expect(error.code).toBe('UNSUPPORTED_CREDENTIAL');
+    expect(error.message).toMatch(/not supported yet: SHA-256 of the 96-byte .*age_over_21 slot/);
+    expect(error.message).toContain('the issuer digests IssuerSignedItemBytes (tag 24)');
+  });
+
+  it('accepts any digestID order and item size when claims are located', async () => {
+    const items = [
+      issuerSignedItem(3, 'age_over_21', true, 16),
+      issuerSignedItem(0, 'issuing_jurisdiction', 'CA', 24),
+      issuerSignedItem(1, 'age_over_18', true),
+      issuerSignedItem(2, 'document_number', 'D1234567'),
+    ];
+    const parsed = parseCredential(await circuitLayoutCredential(items, false));
+
+    const fixed = await analyzeCircuitLayout(parsed);
+    const located = await analyzeCircuitLayout(parsed, { claimLayout: 'located' });
+
+    expect(fixed.violations.map((v) => v.kind)).toContain('digest-id');
+    expect(located.violations).toEqual([]);
+
+    const { layout, msoBytes, ageOver21ClaimBytes, stateClaimBytes } = toProverCredential(parsed);
+    const { ageOver21, state } = layout!;
+    expect(msoBytes.subarray(ageOver21.digestOffset, ageOver21.digestOffset + 32)).toEqual(
+      await sha256(items[0].rawBytes)
+    );
+    expect(ageOver21).toEqual({
+      digestOffset: ageOver21.digestOffset,
+      length: items[0].rawBytes.length,
+      valueOffset: 48,
+    });
+    expect(ageOver21ClaimBytes[ageOver21.valueOffset]).toBe(0xf5);
+    expect(stateClaimBytes.subarray(state.valueOffset, state.valueOffset + 3)).toEqual(
+      new Uint8Array([0x62, 0x43, 0x41])
+    );
+  });
+});
@@ -2,7 +2,12 @@ import { describe, it, expect } from 'vitest';
 import { hashEventId } from '../src/contract/index.js';
 import { ThurinSBT, ThurinVerifier } from '../src/contract/index.js';
 import { THURIN_SBT_ABI, THURIN_VERIFIER_ABI } from '../src/contract/abi.js';
-import { Thurin } from '../src/index.js';
+import {
+  Thurin,
+  createMockIssuer,
+  createMockWallet,
+  type CredentialProtocol,
+} from '../src/index.js';
 
 describe('hashEventId', () => {
   it('produces consistent hashes', () => {
@@ -237,4 +242,58 @@ describe('Thurin', () => {
     });
     expect(thurin).toBeDefined();
   });
+
+  it('requests a mock issuer credential from a mock wallet', async () => {
+    const issuer = await createMockIssuer();
+    const mdl = await issuer.issue({ state: 'NY' });
+    const uninstall = createMockWallet({ documents: [mdl] }).install();
+    const thurin = new Thurin({
+      chainId: 84532,
+      addresses: mockAddresses,
+      iacaRoots: [issuer.certificate],
+    });
+
+    try {
+      const credential = await thurin.requestCredential({
+        // The circuit reads all three slots
+        claims: ['age_over_21', 'age_over_18', 'issuing_jurisdiction'],
+      });
+      expect(credential.msoBytes).toEqual(mdl.credential.msoBytes);
+      expect(credential.iacaPubkeyX).toEqual(issuer.iacaPubkey.x);
+      expect(credential.iaca?.der).toEqual(issuer.certificate);
+    } finally {
+      uninstall();
+    }
+  });
+
+  it('does not offer the unverifiable identity-credential fallback', async () => {
+    const thurin = new Thurin({ chainId: 84532, addresses: mockAddresses, iacaRoots: [] });
+
+    await expect(
+      thurin.requestCredential({
+        claims: ['age_over_21'],
+        protocols: ['org-iso-mdoc', 'identity-credential'] as CredentialProtocol[],
+      })
+    ).rejects.toMatchObject({ code: 'NOT_SUPPORTED' });
+  });
+
+  it('refuses to request credentials without trusted IACA roots', async () => {
+    const thurin = new Thurin({ chainId: 84532, addresses: mockAddresses });
+
+    await expect(thurin.requestCredential({ claims: ['age_over_21'] })).rejects.toMatchObject({
+      code: 'UNTRUSTED_ISSUER',
+    });
+  });
+
+  it('refuses per-device nullifiers before asking the wallet', async () => {
+    const thurin = new Thurin({
+      chainId: 84532,
+      addresses: mockAddresses,
+      nullifierStrategies: { 'eu.europa.ec.eudi.pid.1': 'device-key' },
+    });
+
+    await expect(
+      thurin.requestCredential({ claims: ['age_over_18'], docType: 'eu.europa.ec.eudi.pid.1' })
+    ).rejects.toMatchObject({ code: 'NOT_SUPPORTED' });
+  });
 });
@@ -0,0 +1,354 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { decode, encode } from 'cborg';
+import {
+  createCrossDeviceRequest,
+  handleCrossDeviceRequest,
+  getCrossDevicePresentation,
+  createMemoryCrossDeviceStore,
+  buildOpenID4VPHandoverSessionTranscript,
+  signDeviceAuthentication,
+  computeJwkThumbprint,
+  encryptJwe,
+  getClaimValue,
+  CredentialError,
+  type CrossDeviceRequestObject,
+  type CrossDeviceStore,
+} from '../src/credential/index.js';
+import { fromBase64Url, toBase64Url } from '../src/credential/encoding.js';
+import { DS_CERT } from './fixtures/certificates.js';
+import { VALIDITY_INFO } from './fixtures/mso.js';
+
+const device = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, [
+  'sign',
+  'verify',
+]);
+const devicePoint = new Uint8Array(await crypto.subtle.exportKey('raw', device.publicKey));
+const mso = encode({
+  digestAlgorithm: 'SHA-256',
+  docType: 'org.iso.18013.5.1.mDL',
+  validityInfo: VALIDITY_INFO,
+  deviceKeyInfo: {
+    deviceKey: new Map<number, unknown>([
+      [1, 2],
+      [-1, 1],
+      [-2, devicePoint.slice(1, 33)],
+      [-3, devicePoint.slice(33)],
+    ]),
+  },
+});
+
+function itemBytes(digestID: number, elementIdentifier: string, elementValue: unknown) {
+  return encode({ digestID, random: new Uint8Array(32), elementIdentifier, elementValue });
+}
+
+// DeviceResponse signed by the device for the given SessionTranscript
+async function deviceResponse(sessionTranscript: Uint8Array): Promise<Uint8Array> {
+  const deviceSignature = await signDeviceAuthentication(
+    device.privateKey,
+    sessionTranscript,
+    'org.iso.18013.5.1.mDL'
+  );
+  return encode({
+    version: '1.0',
+    documents: [
+      {
+        docType: 'org.iso.18013.5.1.mDL',
+        issuerSigned: {
+          issuerAuth: encode([encode({}), new Map([[33, DS_CERT]]), mso, new Uint8Array(64)]),
+          nameSpaces: {
+            'org.iso.18013.5.1': [
+              itemBytes(0, 'age_over_21', true),
+              itemBytes(1, 'document_number', 'D1234567'),
+            ],
+          },
+        },
+        deviceSigned: {
+          nameSpaces: encode({}),
+          deviceAuth: { deviceSignature: decode(deviceSignature) },
+        },
+      },
+    ],
+    status: 0,
+  });
+}
+
+// Verifier backend: node:http in front of the Fetch API handler
+let server: Server;
+let baseUrl: string;
+let store: CrossDeviceStore | undefined;
+
+beforeAll(async () => {
+  server = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const response = await handleCrossDeviceRequest(
+      new Request(`${baseUrl}${req.url!.slice('/mdoc'.length)}`, {
+        method: req.method,
+        headers: req.headers as Record<string, string>,
+        body: req.method === 'POST' ? Buffer.concat(chunks) : undefined,
+      }),
+      store
+    );
+    res.writeHead(response.status, { 'content-type': response.headers.get('content-type')! });
+    res.end(await response.text());
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mdoc`;
+});
+
+afterEach(() => {
+  store = undefined;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+function decodeJwtPart(part: string) {
+  return JSON.parse(new TextDecoder().decode(fromBase64Url(part)));
+}
+
+// Phone wallet stand-in: fetch the request object named by the QR code
+async function scan(qrPayload: string): Promise<CrossDeviceRequestObject> {
+  const requestUri = new URL(qrPayload).searchParams.get('request_uri')!;
+  const response = await fetch(requestUri);
+  expect(response.headers.get('content-type')).toBe('application/oauth-authz-req+jwt');
+  return decodeJwtPart((await response.text()).split('.')[1]);
+}
+
+// ... and post a vp_token signed over the request's handover (or the one
+// overridden by signedFor), encrypted to the request's response key
+async function present(
+  requestObject: CrossDeviceRequestObject,
+  signedFor: Partial<Pick<CrossDeviceRequestObject, 'client_id' | 'nonce' | 'response_uri'>> & {
+    jwkThumbprint?: Uint8Array | null;
+  } = {},
+  state = requestObject.state
+): Promise<Response> {
+  const [key] = requestObject.client_metadata.jwks.keys;
+  const handover = {
+    ...requestObject,
+    jwkThumbprint: await computeJwkThumbprint(key),
+    ...signedFor,
+  };
+  const sessionTranscript = await buildOpenID4VPHandoverSessionTranscript(
+    handover.client_id,
+    handover.nonce,
+    handover.response_uri,
+    handover.jwkThumbprint
+  );
+  const response = JSON.stringify({
+    vp_token: { mdl: [toBase64Url(await deviceResponse(sessionTranscript))] },
+    state,
+  });
+  return post(requestObject, {
+    response: await encryptJwe(new TextEncoder().encode(response), key),
+  });
+}
+
+// A store that copies transactions in and out, as one outside the process would
+function serializingStore(): CrossDeviceStore {
+  const inner = createMemoryCrossDeviceStore();
+  return {
+    get: async (id) => structuredClone(await inner.get(id)),
+    set: (id, transaction) => inner.set(id, structuredClone(transaction)),
+    transition: (id, from, state) => inner.transition(id, from, structuredClone(state)),
+    delete: (id) => inner.delete(id),
+  };
+}
+
+function post(requestObject: CrossDeviceRequestObject, body: Record<string, string>) {
+  return fetch(requestObject.response_uri, {
+    method: 'POST',
+    headers: { 'content-type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams(body),
+  });
+}
+
+describe('cross-device presentation', () => {
+  it('builds a QR payload pointing at the request URI', async () => {
+    const request = await createCrossDeviceRequest({ claims: ['age_over_21'], baseUrl });
+
+    const qr = new URL(request.qrPayload);
+    expect(qr.protocol).toBe('openid4vp:');
+    expect(qr.searchParams.get('request_uri')).toBe(request.requestUri);
+    expect(qr.searchParams.get('client_id')).toBe(`redirect_uri:${request.responseUri}`);
+    expect(await getCrossDevicePresentation(request.transactionId)).toEqual({
+      status: 'pending',
+    });
+  });
+
+  it('serves an OpenID4VP direct_post.jwt request object', async () => {
+    const request = await createCrossDeviceRequest({ claims: ['age_over_21'], baseUrl });
+
+    const jwt = await (await fetch(request.requestUri)).text();
+    expect(decodeJwtPart(jwt.split('.')[0])).toEqual({
+      alg: 'none',
+      typ: 'oauth-authz-req+jwt',
+    });
+    const requestObject = await scan(request.qrPayload);
+    expect(requestObject).toMatchObject({
+      response_type: 'vp_token',
+      response_mode: 'direct_post.jwt',
+      client_id: `redirect_uri:${request.responseUri}`,
+      response_uri: request.responseUri,
+      state: request.transactionId,
+      client_metadata: { encrypted_response_enc_values_supported: ['A128GCM', 'A256GCM'] },
+    });
+    const [key] = requestObject.client_metadata.jwks.keys;
+    expect(key).toMatchObject({ kty: 'EC', crv: 'P-256', use: 'enc', alg: 'ECDH-ES' });
+    expect(key).not.toHaveProperty('d');
+    expect(requestObject.nonce).toMatch(/^[\w-]{22}$/);
+    expect(requestObject.dcql_query.credentials[0].claims).toContainEqual({
+      path: ['org.iso.18013.5.1', 'age_over_21'],
+      intent_to_retain: false,
+    });
+    expect(await getCrossDevicePresentation(request.transactionId)).toEqual({
+      status: 'request_retrieved',
+    });
+  });
+
+  it('signs the request object for a verifier client_id', async () => {
+    const signed: unknown[] = [];
+    const request = await createCrossDeviceRequest({
+      claims: ['age_over_21'],
+      baseUrl,
+      clientId: 'x509_san_dns:verifier.example',
+      signRequest: async (payload) => {
+        signed.push(payload);
+        return 'header.payload.signature';
+      },
+    });
+
+    expect(await (await fetch(request.requestUri)).text()).toBe('header.payload.signature');
+    expect(signed).toMatchObject([{ client_id: 'x509_san_dns:verifier.example' }]);
+
+    await expect(
+      createCrossDeviceRequest({ claims: ['age_over_21'], baseUrl, clientId: 'x509_san_dns:a' })
+    ).rejects.toMatchObject({ code: 'NOT_SUPPORTED' });
+  });
+
+  it('completes when the wallet posts its vp_token', async () => {
+    const request = await createCrossDeviceRequest({ claims: ['age_over_21'], baseUrl });
+
+    const response = await present(await scan(request.qrPayload));
+    expect(response.status).toBe(200);
+
+    const outcome = await getCrossDevicePresentation(request.transactionId);
+    expect(outcome.status).toBe('completed');
+    if (outcome.status === 'completed') {
+      expect(getClaimValue(outcome.presentation.parsed, 'age_over_21')).toBe(true);
+    }
+
+    // The outcome is handed out once
+    await expect(getCrossDevicePresentation(request.transactionId)).rejects.toMatchObject({
+      code: 'SESSION_EXPIRED',
+    });
+  });
+
+  it('fails presentations signed for another request', async () => {
+    const request = await createCrossDeviceRequest({ claims: ['age_over_21'], baseUrl });
+    const requestObject = await scan(request.qrPayload);
+
+    const response = await present(requestObject, { nonce: 'other-nonce' });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('invalid_request');
+
+    const outcome = await getCrossDevicePresentation(request.transactionId);
+    expect(outcome).toMatchObject({
+      status: 'failed',
+      error: { code: 'DEVICE_AUTH_FAILED' },
+    });
+  });
+
+  it('fails presentations not bound to the response encryption key', async () => {
+    const request = await createCrossDeviceRequest({ claims: ['age_over_21'], baseUrl });
+
+    const response = await present(await scan(request.qrPayload), { jwkThumbprint: null });
+    expect(response.status).toBe(400);
+
+    expect(await getCrossDevicePresentation(request.transactionId)).toMatchObject({
+      status: 'failed',
+      error: { code: 'DEVICE_AUTH_FAILED' },
+    });
+  });
+
+  it('refuses unencrypted responses without closing the transaction', async () => {
+    const request = await createCrossDeviceRequest({ claims: ['age_over_21'], baseUrl });
+    const requestObject = await scan(request.qrPayload);
+
+    const response = await post(requestObject, {
+      vp_token: JSON.stringify({ mdl: ['AA'] }),
+      state: requestObject.state,
+    });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error_description).toMatch(/direct_post\.jwt/);
+
+    expect((await present(requestObject)).status).toBe(200);
+  });
+
+  it('records a declined request', async () => {
+    const request = await createCrossDeviceRequest({ claims: ['age_over_21'], baseUrl });
+    const requestObject = await scan(request.qrPayload);
+
+    await post(requestObject, { error: 'access_denied', state: requestObject.state });
+
+    expect(await getCrossDevicePresentation(request.transactionId)).toMatchObject({
+      status: 'failed',
+      error: { code: 'USER_CANCELLED' },
+    });
+  });
+
+  it('rejects unknown transactions, wrong state and replays', async () => {
+    expect((await fetch(`${baseUrl}/request/nope`)).status).toBe(404);
+
+    const request = await createCrossDeviceRequest({ claims: ['age_over_21'], baseUrl });
+    const requestObject = await scan(request.qrPayload);
+    expect((await present(requestObject, {}, 'other')).status).toBe(400);
+    expect((await present(requestObject)).status).toBe(200);
+    expect((await present(requestObject)).status).toBe(400);
+  });
+
+  it('completes a transaction once under concurrent responses', async () => {
+    const request = await createCrossDeviceRequest({ claims: ['age_over_21'], baseUrl });
+    const requestObject = await scan(request.qrPayload);
+
+    const responses = await Promise.all([present(requestObject), present(requestObject)]);
+
+    expect(responses.map(({ status }) => status).sort()).toEqual([200, 400]);
+    expect((await getCrossDevicePresentation(request.transactionId)).status).toBe('completed');
+  });
+
+  it('keeps transactions in the store it is given', async () => {
+    store = serializingStore();
+    const request = await createCrossDeviceRequest({ claims: ['age_over_21'], baseUrl, store });
+
+    expect((await present(await scan(request.qrPayload))).status).toBe(200);
+
+    await expect(getCrossDevicePresentation(request.transactionId)).rejects.toMatchObject({
+      code: 'SESSION_EXPIRED',
+    });
+    const outcome = await getCrossDevicePresentation(request.transactionId, store);
+    expect(outcome.status).toBe('completed');
+    if (outcome.status === 'completed') {
+      expect(getClaimValue(outcome.presentation.parsed, 'age_over_21')).toBe(true);
+    }
+  });
+
+  it('reads failures back from a serializing store as CredentialErrors', async () => {
+    store = serializingStore();
+    const request = await createCrossDeviceRequest({ claims: ['age_over_21'], baseUrl, store });
+    const requestObject = await scan(request.qrPayload);
+
+    await post(requestObject, { error: 'access_denied', state: requestObject.state });
+
+    const outcome = await getCrossDevicePresentation(request.transactionId, store);
+    expect(outcome.status).toBe('failed');
+    if (outcome.status === 'failed') {
+      expect(outcome.error).toBeInstanceOf(CredentialError);
+      expect(outcome.error.code).toBe('USER_CANCELLED');
+    }
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { encode } from 'cborg';
+import {
+  parseCredential,
+  toProverCredential,
+  describeCredential,
+  type RawIssuerSignedItem,
+} from '../src/credential/index.js';
+import { DS_CERT } from './fixtures/certificates.js';
+
+const NAMESPACE = 'org.iso.18013.5.1';
+const SLOT_SIZES: Record<string, number> = {
+  age_over_21: 96,
+  age_over_18: 96,
+  issuing_jurisdiction: 107,
+};
+
+function issuerSignedItem(
+  digestID: number,
+  elementIdentifier: string,
+  elementValue: unknown
+): RawIssuerSignedItem {
+  const item = {
+    digestID,
+    random: new Uint8Array(32).fill(digestID + 1),
+    elementIdentifier,
+    elementValue,
+  };
+  return { ...item, rawBytes: encode(item) };
+}
+
+const items = [
+  issuerSignedItem(0, 'age_over_21', true),
+  issuerSignedItem(1, 'issuing_jurisdiction', 'CA'),
+  issuerSignedItem(2, 'age_over_18', true),
+  issuerSignedItem(3, 'document_number', 'D1234567'),
+  issuerSignedItem(4, 'family_name', 'Mustermann'),
+];
+
+/** Credential in the circuit's layout (see circuit-layout.test.ts) */
+async function circuitLayoutCredential() {
+  const digests: Record<string, Uint8Array> = {};
+  for (const item of items) {
+    const slot = new Uint8Array(SLOT_SIZES[item.elementIdentifier] ?? item.rawBytes.length);
+    slot.set(item.rawBytes);
+    digests[String(item.digestID)] = new Uint8Array(await crypto.subtle.digest('SHA-256', slot));
+  }
+  const mso = encode({
+    docType: 'org.iso.18013.5.1.mDL',
+    validityInfo: { signed: '2026-01-01', validFrom: '2026-01-01', validUntil: '2030-01-01' },
+    valueDigests: { [NAMESPACE]: digests },
+    digestAlgorithm: 'SHA-256',
+  });
+  return parseCredential({
+    issuerAuth: encode([
+      encode(new Map([[1, -7]])),
+      new Map([[33, DS_CERT]]),
+      mso,
+      new Uint8Array(64),
+    ]),
+    namespaces: { [NAMESPACE]: items },
+    elementErrors: [{ namespace: NAMESPACE, elementIdentifier: 'portrait', errorCode: 0 }],
+  });
+}
+
+describe('describeCredential', () => {
+  it('reports a parsed credential without claim values', async () => {
+    const parsed = await circuitLayoutCredential();
+
+    const report = await describeCredential(parsed);
+
+    expect(report).toMatchObject({
+      source: 'parsed',
+      docType: 'org.iso.18013.5.1.mDL',
+      digestAlgorithm: 'SHA-256',
+      validity: { validUntil: '2030-01-01T23:59:59.999Z' },
+      documentSigner: { subject: parsed.certificateChain[0].subject.text },
+      certificateChainLength: 1,
+      nullifier: { strategy: 'document-number', element: `${NAMESPACE}:document_number` },
+      elementErrors: [{ elementIdentifier: 'portrait', errorCode: 0 }],
+      issuerSigned: { signatureValid: false },
+      circuitLayout: { compatible: true, violations: [] },
+    });
+    expect(report.mso).toEqual({ length: parsed.mso.bytes.length });
+    expect(report.claims?.[0]).toEqual({
+      claim: `${NAMESPACE}:age_over_21`,
+      digestID: 0,
+      length: items[0].rawBytes.length,
+      fingerprint: expect.stringMatching(/^[0-9a-f]{16}$/),
+      valueType: 'boolean',
+      // The circuit layout digests the padded slot, not tag 24
+      digest: 'mismatch',
+    });
+
+    const json = JSON.stringify(report);
+    expect(json).not.toContain('D1234567');
+    expect(json).not.toContain('Mustermann');
+    expect(JSON.parse(json)).toEqual(report);
+  });
+
+  it('repeats the circuit digest checks on a prover credential', async () => {
+    const credential = toProverCredential(await circuitLayoutCredential());
+
+    const report = await describeCredential(credential);
+
+    expect(report.source).toBe('prover');
+    expect(report.slots?.map((slot) => [slot.slot, slot.length, slot.digestMatches])).toEqual([
+      ['ageOver21', 96, true],
+      ['jurisdiction', 107, true],
+      ['ageOver18', 96, true],
+    ]);
+    expect(report.circuitLayout.compatible).toBe(true);
+
+    credential.stateClaimBytes = credential.stateClaimBytes.slice();
+    credential.stateClaimBytes[100] = 1;
+    const tampered = await describeCredential(credential);
+    expect(tampered.circuitLayout).toEqual({
+      compatible: false,
+      violations: [{ kind: 'claim-digest', slot: 'jurisdiction' }],
+    });
+  });
+
+  it('salts fingerprints per report so reports cannot be linked', async () => {
+    const parsed = await circuitLayoutCredential();
+
+    const first = await describeCredential(parsed);
+    const second = await describeCredential(parsed);
+
+    expect(first.mso).not.toHaveProperty('fingerprint');
+    expect(first.claims?.[0].fingerprint).not.toBe(second.claims?.[0].fingerprint);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { decode, encode } from 'cborg';
+import {
+  verifyDeviceAuth,
+  signDeviceAuthentication,
+  macDeviceAuthentication,
+  buildDCAPISessionTranscript,
+  type RawCredentialResponse,
+} from '../src/credential/index.js';
+import { DS_CERT } from './fixtures/certificates.js';
+import { VALIDITY_INFO } from './fixtures/mso.js';
+
+const docType = 'org.iso.18013.5.1.mDL';
+
+async function exportPoint(key: CryptoKey): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.exportKey('raw', key));
+}
+
+// IssuerSigned for an MSO bound to the given device public key
+async function issuedTo(devicePublicKey: CryptoKey): Promise<RawCredentialResponse> {
+  const point = await exportPoint(devicePublicKey);
+  const deviceKey = new Map<number, unknown>([
+    [1, 2],
+    [-1, 1],
+    [-2, point.slice(1, 33)],
+    [-3, point.slice(33)],
+  ]);
+  const mso = encode({
+    digestAlgorithm: 'SHA-256',
+    docType,
+    validityInfo: VALIDITY_INFO,
+    deviceKeyInfo: { deviceKey },
+  });
+
+  return {
+    issuerAuth: encode([encode({}), new Map([[33, DS_CERT]]), mso, new Uint8Array(64)]),
+    namespaces: { 'org.iso.18013.5.1': [] },
+  };
+}
+
+async function ecdsaKeyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, [
+    'sign',
+    'verify',
+  ]);
+}
+
+async function ecdhKeyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+}
+
+describe('DeviceSignature', () => {
+  it('verifies against the MSO deviceKey and SessionTranscript', async () => {
+    const device = await ecdsaKeyPair();
+    const sessionTranscript = await buildDCAPISessionTranscript('info', 'https://a.example');
+    const raw = await issuedTo(device.publicKey);
+    raw.deviceSigned = {
+      nameSpaces: encode({}),
+      deviceSignature: await signDeviceAuthentication(device.privateKey, sessionTranscript, docType),
+    };
+
+    expect(await verifyDeviceAuth(raw, { sessionTranscript })).toBe('deviceSignature');
+
+    const [protectedHeader, , payload] = decode(raw.deviceSigned.deviceSignature!, {
+      useMaps: true,
+    });
+    expect(decode(protectedHeader, { useMaps: true }).get(1)).toBe(-7);
+    expect(payload).toBeNull();
+  });
+
+  it('rejects a signature replayed into another session', async () => {
+    const device = await ecdsaKeyPair();
+    const original = await buildDCAPISessionTranscript('info', 'https://a.example');
+    const raw = await issuedTo(device.publicKey);
+    raw.deviceSigned = {
+      nameSpaces: encode({}),
+      deviceSignature: await signDeviceAuthentication(device.privateKey, original, docType),
+    };
+
+    const sessionTranscript = await buildDCAPISessionTranscript('info', 'https://b.example');
+    await expect(verifyDeviceAuth(raw, { sessionTranscript })).rejects.toMatchObject({
+      code: 'DEVICE_AUTH_FAILED',
+    });
+  });
+
+  it('rejects a signature from a key the MSO was not issued to', async () => {
+    const device = await ecdsaKeyPair();
+    const other = await ecdsaKeyPair();
+    const sessionTranscript = await buildDCAPISessionTranscript('info', 'https://a.example');
+    const raw = await issuedTo(device.publicKey);
+    raw.deviceSigned = {
+      nameSpaces: encode({}),
+      deviceSignature: await signDeviceAuthentication(other.privateKey, sessionTranscript, docType),
+    };
+
+    await expect(verifyDeviceAuth(raw, { sessionTranscript })).rejects.toThrow(
+      'DeviceSignature does not verify'
+    );
+  });
+
+  it('rejects documents without deviceSigned', async () => {
+    const raw = await issuedTo((await ecdsaKeyPair()).publicKey);
+    const sessionTranscript = await buildDCAPISessionTranscript('info', 'https://a.example');
+
+    await expect(verifyDeviceAuth(raw, { sessionTranscript })).rejects.toMatchObject({
+      code: 'DEVICE_AUTH_FAILED',
+    });
+  });
+});
+
+describe('DeviceMac', () => {
+  it('verifies with the reader key and rejects other readers', async () => {
+    const device = await ecdhKeyPair();
+    const reader = await ecdhKeyPair();
+    const sessionTranscript = await buildDCAPISessionTranscript('info', 'https://a.example');
+    const raw = await issuedTo(device.publicKey);
+    raw.deviceSigned = {
+      nameSpaces: encode({}),
+      deviceMac: await macDeviceAuthentication(
+        device.privateKey,
+        await exportPoint(reader.publicKey),
+        sessionTranscript,
+        docType
+      ),
+    };
+
+    expect(
+      await verifyDeviceAuth(raw, { sessionTranscript, readerPrivateKey: reader.privateKey })
+    ).toBe('deviceMac');
+
+    const otherReader = await ecdhKeyPair();
+    await expect(
+      verifyDeviceAuth(raw, { sessionTranscript, readerPrivateKey: otherReader.privateKey })
+    ).rejects.toThrow('DeviceMac does not verify');
+    await expect(verifyDeviceAuth(raw, { sessionTranscript })).rejects.toMatchObject({
+      code: 'DEVICE_AUTH_FAILED',
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import { encode } from 'cborg';
+import {
+  decodeDeviceResponse,
+  parseDeviceResponse,
+  parseCredential,
+  toProverCredential,
+  CredentialError,
+} from '../src/credential/index.js';
+import { DS_CERT } from './fixtures/certificates.js';
+import { VALIDITY_INFO } from './fixtures/mso.js';
+
+const MDL = 'org.iso.18013.5.1.mDL';
+const NAMESPACE = 'org.iso.18013.5.1';
+
+function issuerAuthFor(docType: string): Uint8Array {
+  const mso = encode({ digestAlgorithm: 'SHA-256', docType, validityInfo: VALIDITY_INFO });
+  return encode([encode({}), new Map([[33, DS_CERT]]), mso, new Uint8Array(64)]);
+}
+
+function itemBytes(digestID: number, elementIdentifier: string, elementValue: unknown) {
+  return encode({ digestID, random: new Uint8Array(32), elementIdentifier, elementValue });
+}
+
+function document(
+  docType: string,
+  nameSpaces: Record<string, Uint8Array[]>,
+  errors?: Record<string, Record<string, number>>
+) {
+  return { docType, issuerSigned: { issuerAuth: issuerAuthFor(docType), nameSpaces }, errors };
+}
+
+const mdlItems = [
+  itemBytes(0, 'age_over_21', true),
+  itemBytes(1, 'issuing_jurisdiction', 'US-CA'),
+  itemBytes(3, 'document_number', 'D1234567'),
+];
+
+function expectCode(fn: () => unknown, code: string, message: RegExp | string) {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(CredentialError);
+    expect((error as CredentialError).code).toBe(code);
+    expect((error as CredentialError).message).toMatch(message);
+    return;
+  }
+  throw new Error('expected a CredentialError');
+}
+
+describe('decodeDeviceResponse', () => {
+  it('keeps every document, namespace and error', () => {
+    const response = decodeDeviceResponse({
+      version: '1.0',
+      documents: [
+        document(
+          MDL,
+          {
+            [NAMESPACE]: mdlItems,
+            'org.iso.18013.5.1.aamva': [itemBytes(7, 'DHS_compliance', 'F')],
+          },
+          { [NAMESPACE]: { age_over_18: 0, portrait: 0 } }
+        ),
+        document('org.iso.23220.photoid.1', { 'org.iso.23220.1': [] }),
+      ],
+      documentErrors: [{ 'eu.europa.ec.eudi.pid.1': 0 }],
+      status: 0,
+    });
+
+    expect(response.status).toBe(0);
+    expect(response.documents.map((doc) => doc.docType)).toEqual([
+      MDL,
+      'org.iso.23220.photoid.1',
+    ]);
+    expect(Object.keys(response.documents[0].issuerSigned.nameSpaces)).toEqual([
+      NAMESPACE,
+      'org.iso.18013.5.1.aamva',
+    ]);
+    expect(response.documents[0].issuerSigned.nameSpaces[NAMESPACE][1].elementValue).toBe(
+      'US-CA'
+    );
+    expect(response.documents[0].errors).toEqual([
+      { namespace: NAMESPACE, elementIdentifier: 'age_over_18', errorCode: 0 },
+      { namespace: NAMESPACE, elementIdentifier: 'portrait', errorCode: 0 },
+    ]);
+    expect(response.documents[1].errors).toEqual([]);
+    expect(response.documentErrors).toEqual([
+      { docType: 'eu.europa.ec.eudi.pid.1', errorCode: 0 },
+    ]);
+  });
+
+  it('rejects unknown status codes', () => {
+    expectCode(
+      () => decodeDeviceResponse({ version: '1.0', status: 7 }),
+      'PARSE_ERROR',
+      'Unknown DeviceResponse status 7'
+    );
+  });
+});
+
+describe('parseDeviceResponse errors', () => {
+  it('maps error statuses to WALLET_ERROR', () => {
+    expectCode(
+      () => parseDeviceResponse({ version: '1.0', status: 10 }),
+      'WALLET_ERROR',
+      'status 10 (general error)'
+    );
+    expectCode(
+      () => parseDeviceResponse({ version: '1.0', status: 12 }),
+      'WALLET_ERROR',
+      'status 12 (CBOR validation error)'
+    );
+  });
+
+  it('reports a document the wallet did not return', () => {
+    expectCode(
+      () =>
+        parseDeviceResponse({ version: '1.0', documentErrors: [{ [MDL]: 0 }], status: 0 }, MDL),
+      'DOCUMENT_NOT_RETURNED',
+      `Wallet did not return the ${MDL} document (error code 0)`
+    );
+  });
+
+  it('names a withheld element instead of INVALID_CLAIM', () => {
+    const raw = parseDeviceResponse({
+      version: '1.0',
+      documents: [document(MDL, { [NAMESPACE]: mdlItems }, { [NAMESPACE]: { age_over_18: 0 } })],
+      status: 0,
+    });
+    const parsed = parseCredential(raw);
+
+    expect(parsed.elementErrors).toHaveLength(1);
+    expectCode(
+      () => toProverCredential(parsed),
+      'CLAIM_NOT_RETURNED',
+      `Wallet did not return ${NAMESPACE}:age_over_18 (error code 0), which is required`
+    );
+
+    // Absent without an element error: the response is just incomplete
+    expectCode(
+      () => toProverCredential({ ...parsed, elementErrors: undefined }),
+      'INVALID_CLAIM',
+      `${NAMESPACE}:age_over_18 claim is required`
+    );
+  });
+
+  it('accepts a document whose primary namespace was withheld entirely', () => {
+    const raw = parseDeviceResponse({
+      version: '1.0',
+      documents: [
+        document(MDL, {}, { [NAMESPACE]: { document_number: 0, age_over_21: 0 } }),
+      ],
+      status: 0,
+    });
+
+    expect(raw.namespaces[NAMESPACE]).toEqual([]);
+    expectCode(
+      () => parseCredential(raw),
+      'CLAIM_NOT_RETURNED',
+      `${NAMESPACE}:document_number (error code 0)`
+    );
+  });
+});
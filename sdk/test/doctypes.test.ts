@@ -0,0 +1,215 @@
+import { describe, it, expect } from 'vitest';
+import { decode, encode } from 'cborg';
+import {
+  buildDCQLQuery,
+  parseCredential,
+  getClaimValue,
+  toProverCredential,
+  getDocTypeProfile,
+  CredentialError,
+} from '../src/credential/index.js';
+import { buildItemsRequest, buildNameSpaces } from '../src/credential/device-request.js';
+import { parseDeviceResponse } from '../src/credential/device-response.js';
+import { DS_CERT } from './fixtures/certificates.js';
+import { VALIDITY_INFO } from './fixtures/mso.js';
+
+
+const PID = 'eu.europa.ec.eudi.pid.1';
+
+const DEVICE_KEY = new Map<number, unknown>([
+  [1, 2],
+  [-1, 1],
+  [-2, new Uint8Array(32).fill(1)],
+  [-3, new Uint8Array(32).fill(2)],
+]);
+
+function issuerAuthFor(docType: string, deviceKey?: Map<number, unknown>): Uint8Array {
+  const mso = encode({
+    digestAlgorithm: 'SHA-256',
+    docType,
+    validityInfo: VALIDITY_INFO,
+    ...(deviceKey && { deviceKeyInfo: { deviceKey } }),
+  });
+  return encode([encode({}), new Map([[33, DS_CERT]]), mso, new Uint8Array(64)]);
+}
+
+function itemBytes(digestID: number, elementIdentifier: string, elementValue: unknown) {
+  return encode({ digestID, random: new Uint8Array(32), elementIdentifier, elementValue });
+}
+
+function deviceResponse(
+  docType: string,
+  nameSpaces: Record<string, Uint8Array[]>,
+  deviceKey?: Map<number, unknown>
+) {
+  return {
+    documents: [
+      { docType, issuerSigned: { issuerAuth: issuerAuthFor(docType, deviceKey), nameSpaces } },
+    ],
+  };
+}
+
+describe('EU PID', () => {
+  it('requests PID elements under the PID namespace', () => {
+    const nameSpaces = buildNameSpaces(['age_over_18', 'family_name'], 'eu.europa.ec.eudi.pid.1');
+
+    expect(Object.keys(nameSpaces)).toEqual(['eu.europa.ec.eudi.pid.1']);
+    expect(Object.keys(nameSpaces['eu.europa.ec.eudi.pid.1'])).toEqual([
+      'age_over_18',
+      'family_name',
+      'document_number',
+      'expiry_date',
+    ]);
+
+    const query = buildDCQLQuery(['age_over_18'], 'eu.europa.ec.eudi.pid.1');
+    expect(query.credentials[0].meta.doctype_value).toBe('eu.europa.ec.eudi.pid.1');
+  });
+
+  it('takes the nullifier from personal_administrative_number under issuer-id', () => {
+    expect(Object.keys(buildNameSpaces(['age_over_18'], PID, 'issuer-id')[PID])).toEqual([
+      'age_over_18',
+      'personal_administrative_number',
+      'expiry_date',
+    ]);
+
+    const raw = parseDeviceResponse(
+      deviceResponse('eu.europa.ec.eudi.pid.1', {
+        'eu.europa.ec.eudi.pid.1': [
+          itemBytes(0, 'age_over_21', true),
+          itemBytes(1, 'age_over_18', true),
+          itemBytes(2, 'issuing_country', 'FR'),
+          itemBytes(3, 'personal_administrative_number', 'FR-123456'),
+          itemBytes(4, 'birth_date', '1990-01-01'),
+        ],
+      }),
+      'eu.europa.ec.eudi.pid.1'
+    );
+
+    const parsed = parseCredential(raw, { nullifierStrategy: 'issuer-id' });
+    expect(parsed.mso.docType).toBe('eu.europa.ec.eudi.pid.1');
+    expect(parsed.nullifierSource).toEqual({
+      strategy: 'issuer-id',
+      element: `${PID}:personal_administrative_number`,
+    });
+    // Tagged hash, never equal to a document-number input
+    expect(parsed.documentNumber[0]).toBe(0x02);
+    expect(parsed.documentNumber).not.toEqual(
+      new TextEncoder().encode('FR-123456'.padEnd(32, '\0'))
+    );
+    expect(getClaimValue(parsed, 'birth_date')).toEqual(new Date('1990-01-01T00:00:00Z'));
+
+    const [ageOver21Item, , countryItem] = raw.namespaces['eu.europa.ec.eudi.pid.1'];
+    const credential = toProverCredential(parsed);
+    expect(credential.nullifierStrategy).toBe('issuer-id');
+    expect(credential.ageOver21ClaimBytes.slice(0, ageOver21Item.rawBytes.length)).toEqual(
+      ageOver21Item.rawBytes
+    );
+    // No issuing_jurisdiction in this PID: the country fills the jurisdiction slot
+    expect(credential.stateClaimBytes.slice(0, countryItem.rawBytes.length)).toEqual(
+      countryItem.rawBytes
+    );
+  });
+});
+
+describe('ISO 23220 Photo ID', () => {
+  it('spreads requested elements across the 23220 namespaces', () => {
+    const itemsRequest = decode(
+      buildItemsRequest(['age_over_21', 'person_id'], 'org.iso.23220.photoid.1')
+    );
+
+    expect(itemsRequest.docType).toBe('org.iso.23220.photoid.1');
+    expect(itemsRequest.nameSpaces).toEqual({
+      'org.iso.23220.1': { age_over_21: false, document_number: false, expiry_date: false },
+      'org.iso.23220.photoid.1': { person_id: false },
+    });
+  });
+
+  it('parses a Photo ID and maps its claims to the circuit slots', () => {
+    const raw = parseDeviceResponse(
+      deviceResponse('org.iso.23220.photoid.1', {
+        'org.iso.23220.1': [
+          itemBytes(0, 'age_over_21', true),
+          itemBytes(1, 'age_over_18', true),
+          itemBytes(2, 'issuing_country', 'US'),
+          itemBytes(3, 'document_number', 'P123'),
+        ],
+        'org.iso.23220.photoid.1': [itemBytes(4, 'person_id', 'X9')],
+      })
+    );
+
+    const parsed = parseCredential(raw);
+    expect(getClaimValue(parsed, 'person_id')).toBe('X9');
+    expect(parsed.claims.has('org.iso.23220.1:document_number')).toBe(true);
+    expect(toProverCredential(parsed).documentNumber.length).toBe(32);
+  });
+});
+
+describe('nullifier strategies', () => {
+  const items = [itemBytes(0, 'age_over_18', true), itemBytes(1, 'document_number', 'X1')];
+
+  it('keeps the document number as the default input', () => {
+    const parsed = parseCredential(parseDeviceResponse(deviceResponse(PID, { [PID]: items })));
+
+    expect(parsed.nullifierSource).toEqual({
+      strategy: 'document-number',
+      element: `${PID}:document_number`,
+    });
+    expect(parsed.documentNumber.subarray(0, 3)).toEqual(new Uint8Array([0x58, 0x31, 0]));
+  });
+
+  it('derives the input from the MSO deviceKey without requesting an element', () => {
+    const options = { nullifierStrategy: 'device-key' } as const;
+    expect(Object.keys(buildNameSpaces(['age_over_18'], PID, 'device-key')[PID])).toEqual([
+      'age_over_18',
+      'expiry_date',
+    ]);
+
+    const withKey = parseCredential(
+      parseDeviceResponse(deviceResponse(PID, { [PID]: items }, DEVICE_KEY)),
+      options
+    );
+    const otherKey = new Map(DEVICE_KEY).set(-3, new Uint8Array(32).fill(3));
+    const withOtherKey = parseCredential(
+      parseDeviceResponse(deviceResponse(PID, { [PID]: items }, otherKey)),
+      options
+    );
+
+    expect(withKey.nullifierSource).toEqual({ strategy: 'device-key' });
+    expect(withKey.documentNumber[0]).toBe(0x01);
+    expect(withKey.documentNumber).not.toEqual(withOtherKey.documentNumber);
+    expect(() =>
+      parseCredential(parseDeviceResponse(deviceResponse(PID, { [PID]: items })), options)
+    ).toThrow('MSO has no deviceKey');
+  });
+
+  it('never falls back to another strategy', () => {
+    expect(() =>
+      parseCredential(parseDeviceResponse(deviceResponse(PID, { [PID]: items })), {
+        nullifierStrategy: 'issuer-id',
+      })
+    ).toThrow(`${PID}:personal_administrative_number claim is required`);
+    expect(() => buildNameSpaces(['age_over_21'], 'org.iso.18013.5.1.mDL', 'issuer-id')).toThrow(
+      expect.objectContaining({ code: 'NOT_SUPPORTED' })
+    );
+  });
+});
+
+describe('doctype profiles', () => {
+  it('ships profiles for the mDL, EU PID and Photo ID', () => {
+    expect(getDocTypeProfile('org.iso.18013.5.1.mDL')?.namespaces).toEqual([
+      'org.iso.18013.5.1',
+      'org.iso.18013.5.1.aamva',
+    ]);
+    expect(getDocTypeProfile('eu.europa.ec.eudi.pid.1')).toBeDefined();
+    expect(getDocTypeProfile('org.iso.23220.photoid.1')).toBeDefined();
+  });
+
+  it('rejects unknown doctypes', () => {
+    expect(() => buildNameSpaces(['age_over_18'], 'org.example.unknown.1')).toThrow(
+      CredentialError
+    );
+    expect(() =>
+      parseDeviceResponse(deviceResponse('org.example.unknown.1', { ns: [] }))
+    ).toThrow('No supported document in DeviceResponse');
+  });
+});
@@ -0,0 +1,307 @@
+import { describe, it, expect } from 'vitest';
+import { decode, encode, Token, Type } from 'cborg';
+import {
+  getDataElement,
+  registerDataElement,
+  decodeDataElement,
+  parseCredential,
+  getClaim,
+  getClaimValue,
+  buildDCQLQuery,
+  CredentialError,
+  ClaimValueError,
+  type RawIssuerSignedItem,
+} from '../src/credential/index.js';
+import { MDOC_TAGS } from '../src/credential/cbor.js';
+import {
+  buildItemsRequest,
+  buildNameSpaces,
+  encodeDeviceRequest,
+  wrapInTag24,
+} from '../src/credential/device-request.js';
+import { parseDeviceResponse } from '../src/credential/device-response.js';
+import { DS_CERT } from './fixtures/certificates.js';
+import { VALIDITY_INFO } from './fixtures/mso.js';
+
+function issuerSignedItem(
+  digestID: number,
+  elementIdentifier: string,
+  elementValue: unknown
+): RawIssuerSignedItem {
+  const item = { digestID, random: new Uint8Array(32), elementIdentifier, elementValue };
+  return { ...item, rawBytes: encode(item) };
+}
+
+const mso = encode({
+  digestAlgorithm: 'SHA-256',
+  docType: 'org.iso.18013.5.1.mDL',
+  validityInfo: VALIDITY_INFO,
+});
+const issuerAuth = encode([encode({}), new Map([[33, DS_CERT]]), mso, new Uint8Array(64)]);
+
+/** Tagged value for the encoder: tag 1004 (full-date) or 24 (embedded CBOR) */
+class Tagged {
+  constructor(
+    readonly tag: number,
+    readonly value: string | Uint8Array
+  ) {}
+}
+
+const typeEncoders = {
+  Object: (obj: unknown) =>
+    obj instanceof Tagged
+      ? [
+          new Token(Type.tag, obj.tag),
+          typeof obj.value === 'string'
+            ? new Token(Type.string, obj.value)
+            : new Token(Type.bytes, obj.value),
+        ]
+      : null,
+};
+
+describe('data element registry', () => {
+  it('knows the ISO 18013-5 mDL elements', () => {
+    expect(getDataElement('birth_date')).toEqual({
+      namespace: 'org.iso.18013.5.1',
+      identifier: 'birth_date',
+      cborType: 'full-date',
+    });
+    expect(getDataElement('portrait')?.cborType).toBe('image');
+    expect(getDataElement('age_in_years')?.cborType).toBe('uint');
+    expect(getDataElement('resident_state')?.cborType).toBe('tstr');
+  });
+
+  it('resolves age_over_NN for any two-digit NN', () => {
+    expect(getDataElement('age_over_65')?.cborType).toBe('bool');
+    expect(getDataElement('age_over_5')).toBeUndefined();
+    expect(getDataElement('not_an_element')).toBeUndefined();
+  });
+
+  it('requests registered elements under their own namespace', () => {
+    registerDataElement({
+      namespace: 'org.example.loyalty.1',
+      identifier: 'member_tier',
+      cborType: 'tstr',
+    });
+
+    const nameSpaces = buildNameSpaces(['age_over_65', 'member_tier']);
+    expect(nameSpaces['org.iso.18013.5.1']).toEqual({
+      age_over_65: false,
+      document_number: false,
+      expiry_date: false,
+    });
+    expect(nameSpaces['org.example.loyalty.1']).toEqual({ member_tier: false });
+
+    const itemsRequest = decode(buildItemsRequest(['family_name']));
+    expect(itemsRequest.nameSpaces['org.iso.18013.5.1'].family_name).toBe(false);
+
+    const paths = buildDCQLQuery(['member_tier']).credentials[0].claims.map((c) => c.path);
+    expect(paths).toContainEqual(['org.example.loyalty.1', 'member_tier']);
+  });
+
+  it('rejects unknown claims at request time', () => {
+    expect(() => buildNameSpaces(['favourite_colour'])).toThrow(CredentialError);
+  });
+
+  it('decodes values to their TypeScript types', () => {
+    const birthDate = decodeDataElement(getDataElement('birth_date')!, '1990-05-17');
+    expect(birthDate).toEqual(new Date('1990-05-17T00:00:00Z'));
+    expect(decodeDataElement(getDataElement('age_in_years')!, 34n)).toBe(34);
+    expect(() => decodeDataElement(getDataElement('age_over_21')!, 'yes')).toThrow(
+      'age_over_21 should be bool, got string'
+    );
+  });
+
+  it('detects the image format of portraits', () => {
+    const portrait = getDataElement('portrait')!;
+    const jp2 = new Uint8Array([0, 0, 0, 0x0c, 0x6a, 0x50, 0x20, 0x20, 0x0d, 0x0a]);
+
+    expect(decodeDataElement(portrait, jp2)).toEqual({ bytes: jp2, mimeType: 'image/jp2' });
+
+    const error = (() => {
+      try {
+        decodeDataElement(portrait, new Uint8Array([0x89, 0x50, 0x4e, 0x47]));
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error).toBeInstanceOf(ClaimValueError);
+    expect(error).toMatchObject({
+      code: 'INVALID_CLAIM',
+      namespace: 'org.iso.18013.5.1',
+      identifier: 'portrait',
+      expected: 'image',
+      received: 'bytes that are not JPEG or JPEG 2000',
+    });
+  });
+});
+
+describe('parseCredential with the registry', () => {
+  it('decodes claim values by their definition', () => {
+    const portrait = new Uint8Array([0xff, 0xd8, 0xff]);
+    const parsed = parseCredential({
+      issuerAuth,
+      namespaces: {
+        'org.iso.18013.5.1': [
+          issuerSignedItem(0, 'document_number', 'D1234567'),
+          issuerSignedItem(1, 'birth_date', '1990-05-17'),
+          issuerSignedItem(2, 'age_in_years', 34),
+          issuerSignedItem(3, 'portrait', portrait),
+          issuerSignedItem(4, 'age_over_65', false),
+          issuerSignedItem(5, 'vendor_extension', { any: 'thing' }),
+        ],
+      },
+    });
+
+    const birthDate: Date | undefined = getClaimValue(parsed, 'birth_date');
+    expect(birthDate).toEqual(new Date('1990-05-17T00:00:00Z'));
+    expect(getClaimValue(parsed, 'age_in_years')).toBe(34);
+    expect(getClaimValue(parsed, 'portrait')).toEqual({ bytes: portrait, mimeType: 'image/jpeg' });
+    expect(getClaimValue(parsed, 'age_over_65')).toBe(false);
+    expect(getClaimValue(parsed, 'vendor_extension')).toEqual({ any: 'thing' });
+  });
+
+  it('fails with INVALID_CLAIM when a value has the wrong type', () => {
+    expect(() =>
+      parseCredential({
+        issuerAuth,
+        namespaces: {
+          'org.iso.18013.5.1': [
+            issuerSignedItem(0, 'document_number', 'D1234567'),
+            issuerSignedItem(1, 'age_in_years', 'thirty'),
+          ],
+        },
+      })
+    ).toThrow(expect.objectContaining({ code: 'INVALID_CLAIM' }));
+  });
+});
+
+describe('tagged values through the DeviceResponse', () => {
+  it('round-trips tag 24 items and tag 1004 full-dates', () => {
+    const items = [
+      { elementIdentifier: 'document_number', elementValue: 'D1234567' },
+      { elementIdentifier: 'birth_date', elementValue: new Tagged(1004, '1990-05-17') },
+    ].map((item, digestID) =>
+      encode({ digestID, random: new Uint8Array(16), ...item }, { typeEncoders })
+    );
+    const responseBytes = encode(
+      {
+        version: '1.0',
+        documents: [
+          {
+            docType: 'org.iso.18013.5.1.mDL',
+            issuerSigned: {
+              issuerAuth,
+              nameSpaces: { 'org.iso.18013.5.1': items.map((item) => new Tagged(24, item)) },
+            },
+          },
+        ],
+        status: 0,
+      },
+      { typeEncoders }
+    );
+
+    const parsed = parseCredential(
+      parseDeviceResponse(decode(responseBytes, { tags: MDOC_TAGS }))
+    );
+
+    const birthDate = getClaim(parsed, 'birth_date');
+    expect(birthDate?.value).toEqual(new Date('1990-05-17T00:00:00Z'));
+    // The digest input is the embedded item, still carrying its tag 1004
+    expect(birthDate?.bytes).toEqual(items[1]);
+    expect(getClaimValue(parsed, 'document_number')).toBe('D1234567');
+  });
+
+  it('rejects a full-date that is not a date', () => {
+    const item = encode(
+      {
+        digestID: 0,
+        random: new Uint8Array(16),
+        elementIdentifier: 'birth_date',
+        elementValue: new Tagged(1004, '17/05/1990'),
+      },
+      { typeEncoders }
+    );
+    const raw = parseDeviceResponse({
+      documents: [
+        {
+          docType: 'org.iso.18013.5.1.mDL',
+          issuerSigned: { issuerAuth, nameSpaces: { 'org.iso.18013.5.1': [item] } },
+        },
+      ],
+    });
+
+    expect(() => parseCredential(raw)).toThrow(
+      expect.objectContaining({ identifier: 'birth_date', expected: 'full-date' })
+    );
+  });
+});
+
+describe('hand-assembled CBOR', () => {
+  it('wraps portrait-sized items in tag 24 with a 4-byte length', () => {
+    const portrait = new Uint8Array(70_000).fill(0xab);
+    const item = encode({ digestID: 0, elementIdentifier: 'portrait', elementValue: portrait });
+
+    const tagged = wrapInTag24(item);
+    expect(Array.from(tagged.slice(0, 3))).toEqual([0xd8, 0x18, 0x5a]);
+    expect(decode(tagged, { tags: MDOC_TAGS })).toEqual(item);
+  });
+
+  it('encodes DeviceRequests with more than 255 DocRequests', () => {
+    const itemsRequest = buildItemsRequest(['age_over_21']);
+    const bytes = encodeDeviceRequest(Array.from({ length: 300 }, () => ({ itemsRequest })));
+
+    const request = decode(bytes, { tags: MDOC_TAGS });
+    expect(request.docRequests).toHaveLength(300);
+    expect(request.docRequests[299].itemsRequest).toEqual(itemsRequest);
+  });
+});
+
+describe('AAMVA namespace', () => {
+  it('requests AAMVA elements under org.iso.18013.5.1.aamva', () => {
+    const nameSpaces = buildNameSpaces([
+      'age_over_21',
+      'DHS_compliance',
+      'veteran',
+      'org.iso.18013.5.1.aamva:sex',
+    ]);
+
+    expect(Object.keys(nameSpaces['org.iso.18013.5.1.aamva'])).toEqual([
+      'DHS_compliance',
+      'veteran',
+      'sex',
+    ]);
+    expect(nameSpaces['org.iso.18013.5.1'].sex).toBeUndefined();
+  });
+
+  it('keeps every namespace of the DeviceResponse', () => {
+    const itemBytes = (id: string, value: unknown) =>
+      encode({ digestID: 0, random: new Uint8Array(32), elementIdentifier: id, elementValue: value });
+    const raw = parseDeviceResponse({
+      documents: [
+        {
+          docType: 'org.iso.18013.5.1.mDL',
+          issuerSigned: {
+            issuerAuth,
+            nameSpaces: {
+              'org.iso.18013.5.1': [itemBytes('document_number', 'D1'), itemBytes('sex', 2)],
+              'org.iso.18013.5.1.aamva': [itemBytes('DHS_compliance', 'F'), itemBytes('sex', 9)],
+            },
+          },
+        },
+      ],
+    });
+
+    const parsed = parseCredential(raw);
+    expect([...parsed.claims.keys()]).toEqual([
+      'org.iso.18013.5.1:document_number',
+      'org.iso.18013.5.1:sex',
+      'org.iso.18013.5.1.aamva:DHS_compliance',
+      'org.iso.18013.5.1.aamva:sex',
+    ]);
+    expect(getClaimValue(parsed, 'DHS_compliance')).toBe('F');
+    expect(getClaimValue(parsed, 'sex')).toBe(2);
+    expect(getClaimValue(parsed, 'org.iso.18013.5.1.aamva:sex')).toBe(9);
+    expect(getClaim(parsed, 'DHS_compliance')?.namespace).toBe('org.iso.18013.5.1.aamva');
+  });
+});
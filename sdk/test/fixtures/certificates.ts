@@ -0,0 +1,60 @@
+/**
+ * Test certificates (P-256 unless noted), generated with OpenSSL
+ *
+ * IACA: self-signed CA "Thurin Test IACA" (keyCertSign, cRLSign, pathlen 0)
+ * DS: Document Signer issued by the IACA (digitalSignature, EKU
+ *   1.0.18013.5.1.2 mdlDS)
+ * P384: self-signed secp384r1 certificate
+ *
+ * The private keys are PKCS#8 and exist only for tests.
+ */
+
+import { fromBase64Url } from '../../src/credential/encoding.js';
+
+export const IACA_CERT = fromBase64Url(
+  'MIICADCCAaWgAwIBAgIGGis8TV5vMAoGCCqGSM49BAMCMFIxCzAJBgNVBAYTAlVTMQ4wDAYDVQQI' +
+  'DAVVUy1DQTEYMBYGA1UECgwPVGh1cmluIFRlc3QgRE1WMRkwFwYDVQQDDBBUaHVyaW4gVGVzdCBJ' +
+  'QUNBMCAXDTI2MTAxOTA0NTUxNloYDzIwNTQwMzA2MDQ1NTE2WjBSMQswCQYDVQQGEwJVUzEOMAwG' +
+  'A1UECAwFVVMtQ0ExGDAWBgNVBAoMD1RodXJpbiBUZXN0IERNVjEZMBcGA1UEAwwQVGh1cmluIFRl' +
+  'c3QgSUFDQTBZMBMGByqGSM49AgEGCCqGSM49AwEHA0IABK0PAB3TjVF0sp2c7f8uqGtcvpY3k719' +
+  'bocd/o0xGb/c9NyJNqORTd1QwIP5q91aSA0nmmdHX0QoOpUhiTC9AdajZTBjMBIGA1UdEwEB/wQI' +
+  'MAYBAf8CAQAwDgYDVR0PAQH/BAQDAgEGMB0GA1UdDgQWBBRKtw0f41Bs/oXZleToHFGj/iewmzAe' +
+  'BgNVHRIEFzAVhhNodHRwczovL2Rtdi5leGFtcGxlMAoGCCqGSM49BAMCA0kAMEYCIQDU4W5x71y6' +
+  'ybMTZ3u4cyXCH+KoUzdZsEa/SI22LMoGFAIhAPiLdLQkuIOJgWk3DKJEJ9WfhwneEnsaLvchWWl8' +
+  '3Zyx'
+);
+
+export const DS_CERT = fromBase64Url(
+  'MIIB6jCCAZGgAwIBAgICEJIwCgYIKoZIzj0EAwIwUjELMAkGA1UEBhMCVVMxDjAMBgNVBAgMBVVT' +
+  'LUNBMRgwFgYDVQQKDA9UaHVyaW4gVGVzdCBETVYxGTAXBgNVBAMMEFRodXJpbiBUZXN0IElBQ0Ew' +
+  'HhcNMjYxMDE5MDQ1NTE2WhcNMzYxMDE2MDQ1NTE2WjBDMQswCQYDVQQGEwJVUzEOMAwGA1UECAwF' +
+  'VVMtQ0ExJDAiBgNVBAMMG1RodXJpbiBUZXN0IERvY3VtZW50IFNpZ25lcjBZMBMGByqGSM49AgEG' +
+  'CCqGSM49AwEHA0IABH1F16WKcn21Q7ZYqfmsBajeEclLL2kAkj23VjzsFilOci5KbJ27nivaNNjl' +
+  'BR08pBKxf+EZ1S68uAssmmIoz22jZjBkMA4GA1UdDwEB/wQEAwIHgDASBgNVHSUECzAJBgcogYxd' +
+  'BQECMB0GA1UdDgQWBBT7QAIEM3JAumZz2ThAzSwQX9mDdzAfBgNVHSMEGDAWgBRKtw0f41Bs/oXZ' +
+  'leToHFGj/iewmzAKBggqhkjOPQQDAgNHADBEAiAmujd9y5xnHHqJDSpX9GDLyTTHRyt1DI/hZJ7W' +
+  'TTs0GAIgVSLOT6n2nr7LRdfaQMyYicB3cW5jJCE5mrKPdKOybxQ='
+);
+
+export const P384_CERT = fromBase64Url(
+  'MIIBwjCCAUigAwIBAgIUKBYavHW9xA+EoTC86YsGzHnoHZEwCgYIKoZIzj0EAwMwGDEWMBQGA1UE' +
+  'AwwNUC0zODQgRXhhbXBsZTAeFw0yNjEwMTkwNDU1MTZaFw0zNjEwMTYwNDU1MTZaMBgxFjAUBgNV' +
+  'BAMMDVAtMzg0IEV4YW1wbGUwdjAQBgcqhkjOPQIBBgUrgQQAIgNiAASL8rmL4U+B6KjWXCDXHpzK' +
+  'Y8ml6mus5TvN1+/3Yx8F72vB9uBSN4F1uXwimQYWsakc1MBUdNPn51BaEyuePRa4RrEF+Dyu1NQT' +
+  '35Ss0ZqbqG2BaxF4f7fTu12ytnOhIjGjUzBRMB0GA1UdDgQWBBQ/OBSf6IvAsnSSSmaW+qlb2eB1' +
+  'EzAfBgNVHSMEGDAWgBQ/OBSf6IvAsnSSSmaW+qlb2eB1EzAPBgNVHRMBAf8EBTADAQH/MAoGCCqG' +
+  'SM49BAMDA2gAMGUCMQCoscwFxtYFeQ+ZqSWA2jlQFtmvhuq9WNR9/DeujnOX51sAKx5WUItp2kMU' +
+  'WUWQldYCMADJqfvZhJWWA/R5x1zp5iWyH8/ycEvEwVbDnwW9prBIcMMy2tavHP73jPvY89xosA=='
+);
+
+export const IACA_PRIVATE_KEY_PKCS8 = fromBase64Url(
+  'MIGHAgEAMBMGByqGSM49AgEGCCqGSM49AwEHBG0wawIBAQQg5ip5ES60LVUHtgYRCmdO7QtpwTvJ' +
+  'lR9V7ZjG081A0WehRANCAAStDwAd041RdLKdnO3/LqhrXL6WN5O9fW6HHf6NMRm/3PTciTajkU3d' +
+  'UMCD+avdWkgNJ5pnR19EKDqVIYkwvQHW'
+);
+
+export const DS_PRIVATE_KEY_PKCS8 = fromBase64Url(
+  'MIGHAgEAMBMGByqGSM49AgEGCCqGSM49AwEHBG0wawIBAQQgxwWpEH6ECi3oyxnJ/jYKg6vCx08O' +
+  'vGYz+KYkIsh7XEOhRANCAAR9RdelinJ9tUO2WKn5rAWo3hHJSy9pAJI9t1Y87BYpTnIuSmydu54r' +
+  '2jTY5QUdPKQSsX/hGdUuvLgLLJpiKM9t'
+);
@@ -0,0 +1,10 @@
+/**
+ * MSO fixtures shared by the credential tests
+ */
+
+/** validityInfo covering the whole test period (RFC 3339 strings) */
+export const VALIDITY_INFO = {
+  signed: '2026-01-01T00:00:00Z',
+  validFrom: '2026-01-01T00:00:00Z',
+  validUntil: '2036-01-01T00:00:00Z',
+};
@@ -0,0 +1,51 @@
+/**
+ * Signed VICAL builders for tests
+ *
+ * A VICAL is COSE_Sign1 over a CBOR map listing IACA certificates; these
+ * sign one with a test key so it parses and verifies like a real list.
+ */
+
+import { encode, Token, Type } from 'cborg';
+
+/** CBOR tag 0 (tdate) */
+export function tdate(iso: string) {
+  return { tdate: iso };
+}
+
+export const typeEncoders = {
+  Object: (obj: unknown) =>
+    obj && typeof obj === 'object' && 'tdate' in obj
+      ? [new Token(Type.tag, 0), new Token(Type.string, (obj as { tdate: string }).tdate)]
+      : null,
+};
+
+export function certificateInfo(certificate: Uint8Array, serial: number[], extra = {}) {
+  return {
+    certificate,
+    serialNumber: new Uint8Array(serial),
+    ski: new Uint8Array(20),
+    docType: ['org.iso.18013.5.1.mDL'],
+    ...extra,
+  };
+}
+
+export async function signVical(
+  pkcs8: Uint8Array,
+  x5chain: Uint8Array,
+  body: Uint8Array
+): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    'pkcs8',
+    pkcs8,
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['sign']
+  );
+  const protectedHeader = encode(new Map([[1, -7]]));
+  const signature = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    key,
+    encode(['Signature1', protectedHeader, new Uint8Array(0), body])
+  );
+  return encode([protectedHeader, new Map([[33, x5chain]]), body, new Uint8Array(signature)]);
+}
@@ -0,0 +1,209 @@
+import { describe, it, expect } from 'vitest';
+import { decode, encode } from 'cborg';
+import {
+  parseCredential,
+  verifyIssuerSigned,
+  requireIssuerSigned,
+  createMockIssuer,
+  CredentialError,
+  type RawCredentialResponse,
+  type RawIssuerSignedItem,
+} from '../src/credential/index.js';
+import { wrapInTag24 } from '../src/credential/device-request.js';
+import { DS_CERT, DS_PRIVATE_KEY_PKCS8, IACA_PRIVATE_KEY_PKCS8 } from './fixtures/certificates.js';
+import { VALIDITY_INFO } from './fixtures/mso.js';
+
+const NAMESPACE = 'org.iso.18013.5.1';
+
+function issuerSignedItem(
+  digestID: number,
+  elementIdentifier: string,
+  elementValue: unknown
+): RawIssuerSignedItem {
+  const item = {
+    digestID,
+    random: new Uint8Array(32).fill(digestID),
+    elementIdentifier,
+    elementValue,
+  };
+  return { ...item, rawBytes: encode(item) };
+}
+
+async function sha256(bytes: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+}
+
+/**
+ * Build a signed credential; digests cover the items as listed unless overridden
+ */
+async function signedCredential(
+  items: RawIssuerSignedItem[],
+  options: { signingKey?: Uint8Array; digests?: Map<number, Uint8Array> } = {}
+): Promise<RawCredentialResponse> {
+  const digests = options.digests ?? new Map<number, Uint8Array>();
+  if (!options.digests) {
+    for (const item of items) {
+      digests.set(item.digestID, await sha256(wrapInTag24(item.rawBytes)));
+    }
+  }
+
+  const mso = wrapInTag24(
+    encode({
+      version: '1.0',
+      digestAlgorithm: 'SHA-256',
+      docType: 'org.iso.18013.5.1.mDL',
+      valueDigests: { [NAMESPACE]: digests },
+      validityInfo: VALIDITY_INFO,
+    })
+  );
+  const protectedHeader = encode(new Map([[1, -7]]));
+  const key = await crypto.subtle.importKey(
+    'pkcs8',
+    options.signingKey ?? DS_PRIVATE_KEY_PKCS8,
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    key,
+    encode(['Signature1', protectedHeader, new Uint8Array(0), mso])
+  );
+
+  return {
+    issuerAuth: encode([
+      protectedHeader,
+      new Map([[33, DS_CERT]]),
+      mso,
+      new Uint8Array(signature),
+    ]),
+    namespaces: { [NAMESPACE]: items },
+  };
+}
+
+const items = [
+  issuerSignedItem(0, 'age_over_21', true),
+  issuerSignedItem(1, 'issuing_jurisdiction', 'US-CA'),
+  issuerSignedItem(2, 'document_number', 'D1234567'),
+];
+
+describe('verifyIssuerSigned', () => {
+  it('accepts a correctly signed credential', async () => {
+    const report = await verifyIssuerSigned(parseCredential(await signedCredential(items)));
+
+    expect(report.valid).toBe(true);
+    expect(report.signatureValid).toBe(true);
+    expect(report.issuerAuthError).toBeUndefined();
+    expect(report.claims.map((c) => [c.claim, c.digestID, c.status])).toEqual([
+      [`${NAMESPACE}:age_over_21`, 0, 'valid'],
+      [`${NAMESPACE}:issuing_jurisdiction`, 1, 'valid'],
+      [`${NAMESPACE}:document_number`, 2, 'valid'],
+    ]);
+  });
+
+  it('reports each claim whose digest does not match', async () => {
+    const raw = await signedCredential(items);
+    // Same digestID, different value: the MSO still lists the original digest
+    raw.namespaces[NAMESPACE][0] = issuerSignedItem(0, 'age_over_21', false);
+    raw.namespaces[NAMESPACE].push(issuerSignedItem(9, 'age_over_18', true));
+
+    const report = await verifyIssuerSigned(parseCredential(raw));
+
+    expect(report.valid).toBe(false);
+    expect(report.signatureValid).toBe(true);
+    expect(report.claims.map((c) => c.status)).toEqual(['mismatch', 'valid', 'valid', 'missing']);
+    expect(report.claims[0].expected).toBeInstanceOf(Uint8Array);
+    expect(report.claims[3].expected).toBeUndefined();
+  });
+
+  it('reports a signature by another key', async () => {
+    const raw = await signedCredential(items, { signingKey: IACA_PRIVATE_KEY_PKCS8 });
+    const report = await verifyIssuerSigned(parseCredential(raw));
+
+    expect(report.valid).toBe(false);
+    expect(report.signatureValid).toBe(false);
+    expect(report.issuerAuthError).toMatch(/does not verify with the Document Signer key/);
+    expect(report.claims.every((c) => c.status === 'valid')).toBe(true);
+  });
+});
+
+describe('requireIssuerSigned', () => {
+  it('names the failing claims', async () => {
+    const raw = await signedCredential(items, { digests: new Map() });
+    const error = await requireIssuerSigned(parseCredential(raw)).catch((e) => e);
+
+    expect(error).toBeInstanceOf(CredentialError);
+    expect(error.code).toBe('ISSUER_AUTH_FAILED');
+    expect(error.message).toContain(`${NAMESPACE}:age_over_21 (digestID 0, missing)`);
+  });
+});
+
+const mdl = await (await createMockIssuer()).issue();
+
+describe('circuit form', () => {
+  it('accepts what the circuit verifies and nothing ISO', async () => {
+    const parsed = parseCredential(mdl.response);
+
+    const circuit = await verifyIssuerSigned(parsed, { form: 'circuit' });
+    expect(circuit.form).toBe('circuit');
+    expect(circuit.valid).toBe(true);
+
+    const iso = await verifyIssuerSigned(parsed);
+    expect(iso.signatureValid).toBe(false);
+    // Only the slot digests are bare; document_number is digested as ISO says
+    expect(iso.claims.map((c) => [c.claim, c.status])).toEqual([
+      [`${NAMESPACE}:age_over_21`, 'mismatch'],
+      [`${NAMESPACE}:issuing_jurisdiction`, 'mismatch'],
+      [`${NAMESPACE}:age_over_18`, 'mismatch'],
+      [`${NAMESPACE}:document_number`, 'valid'],
+    ]);
+  });
+
+  it('checks claims outside the circuit slots by the ISO rule', async () => {
+    const raw = structuredClone(mdl.response);
+    const documentNumber = raw.namespaces[NAMESPACE][3];
+    expect(documentNumber.elementIdentifier).toBe('document_number');
+
+    const report = await verifyIssuerSigned(parseCredential(raw), { form: 'circuit' });
+    expect(report.claims[3].computed).toEqual(await sha256(wrapInTag24(documentNumber.rawBytes)));
+
+    raw.namespaces[NAMESPACE][3] = issuerSignedItem(3, 'document_number', 'X0000000');
+    const error = await requireIssuerSigned(parseCredential(raw), { form: 'circuit' }).catch(
+      (e) => e
+    );
+    expect(error.message).toContain('document_number (digestID 3, mismatch)');
+  });
+
+  it('reports a changed claim and a signature by another issuer', async () => {
+    const raw = structuredClone(mdl.response);
+    raw.namespaces[NAMESPACE][0] = issuerSignedItem(0, 'age_over_21', false);
+    const error = await requireIssuerSigned(parseCredential(raw), { form: 'circuit' }).catch(
+      (e) => e
+    );
+    expect(error.code).toBe('ISSUER_AUTH_FAILED');
+    expect(error.message).toContain('digestID 0, mismatch');
+
+    // Same MSO and signature, another issuer's x5chain
+    const other = await (await createMockIssuer()).issue();
+    const [protectedHeader, , mso, signature] = decode(mdl.response.issuerAuth, { useMaps: true });
+    const [, unprotectedHeader] = decode(other.response.issuerAuth, { useMaps: true });
+    raw.issuerAuth = encode([protectedHeader, unprotectedHeader, mso, signature]);
+    const report = await verifyIssuerSigned(parseCredential(raw), { form: 'circuit' });
+    expect(report.signatureValid).toBe(false);
+    expect(report.issuerAuthError).toMatch(/zero-padded MSO does not verify/);
+  });
+
+  it('rejects a high-s signature the circuit would not accept', async () => {
+    const parsed = parseCredential(mdl.response);
+    const order = 0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551n;
+    const s = BigInt('0x' + Buffer.from(parsed.mso.signature.subarray(32)).toString('hex'));
+    parsed.mso.signature = new Uint8Array([
+      ...parsed.mso.signature.subarray(0, 32),
+      ...Buffer.from((order - s).toString(16).padStart(64, '0'), 'hex'),
+    ]);
+
+    const report = await verifyIssuerSigned(parsed, { form: 'circuit' });
+    expect(report.signatureValid).toBe(false);
+    expect(report.issuerAuthError).toMatch(/high s/);
+  });
+});
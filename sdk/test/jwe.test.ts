@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { computeJwkThumbprint, decryptJwe, encryptJwe } from '../src/credential/index.js';
+import { fromBase64Url, toBase64Url } from '../src/credential/encoding.js';
+
+// RFC 7518 Appendix C: Alice (ephemeral sender) and Bob (recipient) keys,
+// and the A128GCM key they agree on with apu "Alice" and apv "Bob"
+const ALICE = {
+  kty: 'EC',
+  crv: 'P-256',
+  x: 'gI0GAILBdu7T53akrFmMyGcsF3n5dO7MmwNBHKW5SV0',
+  y: 'SLW_xSffzlPWrHEVI30DHM_4egVwt3NQqeUD7nMFpps',
+};
+const BOB = {
+  kty: 'EC',
+  crv: 'P-256',
+  x: 'weNJy2HscCSM6AEDTDg04biOvhFhyyWvOHQfeF_PxMQ',
+  y: 'e8lnCO-AlStT-NJVX-crhB7QRYhiix03illJOVAOyck',
+  d: 'VEmDZpDXXK8p8N0Cndsxs924q6nS1RXFASRl6BfUqdw',
+};
+const AGREED_KEY = 'VqqN6vgjbSBcIijNcacQGg';
+
+const plaintext = new TextEncoder().encode('{"vp_token":{}}');
+
+async function importPrivate(jwk: JsonWebKey): Promise<CryptoKey> {
+  return crypto.subtle.importKey('jwk', jwk, { name: 'ECDH', namedCurve: 'P-256' }, false, [
+    'deriveBits',
+  ]);
+}
+
+describe('JWE (ECDH-ES)', () => {
+  it('derives the RFC 7518 Appendix C content key', async () => {
+    const header = { alg: 'ECDH-ES', enc: 'A128GCM', apu: 'QWxpY2U', apv: 'Qm9i', epk: ALICE };
+    const protectedHeader = toBase64Url(new TextEncoder().encode(JSON.stringify(header)));
+    const key = await crypto.subtle.importKey('raw', fromBase64Url(AGREED_KEY), 'AES-GCM', false, [
+      'encrypt',
+    ]);
+    const iv = new Uint8Array(12);
+    const sealed = new Uint8Array(
+      await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(protectedHeader) },
+        key,
+        plaintext
+      )
+    );
+    const jwe = [
+      protectedHeader,
+      '',
+      toBase64Url(iv),
+      toBase64Url(sealed.slice(0, -16)),
+      toBase64Url(sealed.slice(-16)),
+    ].join('.');
+
+    const decrypted = await decryptJwe(jwe, await importPrivate(BOB));
+
+    expect(decrypted.plaintext).toEqual(plaintext);
+    expect(decrypted.header).toMatchObject({ apu: 'QWxpY2U', apv: 'Qm9i' });
+  });
+
+  it.each(['A128GCM', 'A256GCM'] as const)('round-trips with %s', async (enc) => {
+    const jwe = await encryptJwe(plaintext, BOB, { enc, kid: 'k1' });
+
+    const { header, plaintext: decrypted } = await decryptJwe(jwe, await importPrivate(BOB));
+    expect(header).toMatchObject({ alg: 'ECDH-ES', enc, kid: 'k1' });
+    expect(decrypted).toEqual(plaintext);
+  });
+
+  it('rejects tampered ciphertext and other algorithms', async () => {
+    const privateKey = await importPrivate(BOB);
+    const parts = (await encryptJwe(plaintext, BOB)).split('.');
+
+    const tampered = [...parts];
+    tampered[3] = toBase64Url(fromBase64Url(parts[3]).map((byte) => byte ^ 1));
+    await expect(decryptJwe(tampered.join('.'), privateKey)).rejects.toMatchObject({
+      code: 'PARSE_ERROR',
+    });
+
+    const header = JSON.parse(new TextDecoder().decode(fromBase64Url(parts[0])));
+    const rsa = JSON.stringify({ ...header, alg: 'RSA-OAEP' });
+    parts[0] = toBase64Url(new TextEncoder().encode(rsa));
+    await expect(decryptJwe(parts.join('.'), privateKey)).rejects.toThrow(
+      'Unsupported JWE algorithms'
+    );
+  });
+
+  it('computes RFC 7638 thumbprints from the required members', async () => {
+    const { d: _d, ...publicKey } = BOB;
+
+    const thumbprint = await computeJwkThumbprint({ ...publicKey, kid: 'ignored', use: 'enc' });
+
+    expect(thumbprint).toEqual(await computeJwkThumbprint(BOB));
+    const canonical = `{"crv":"P-256","kty":"EC","x":"${BOB.x}","y":"${BOB.y}"}`;
+    expect(thumbprint).toEqual(
+      new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical)))
+    );
+  });
+});
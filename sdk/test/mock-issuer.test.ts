@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createMockIssuer,
+  parseCredential,
+  analyzeCircuitLayout,
+  validateIssuerChain,
+  describeCredential,
+  parseCertificate,
+  getP256PublicKey,
+  requireIssuerSigned,
+  requireCircuitLayout,
+  checkMSOValidity,
+} from '../src/credential/index.js';
+
+const P256_HALF_ORDER = 0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551n / 2n;
+
+describe('createMockIssuer', () => {
+  it('issues credentials in the circuit layout, signed over the padded MSO', async () => {
+    const issuer = await createMockIssuer();
+    const { response, credential } = await issuer.issue({
+      state: 'NY',
+      claims: { family_name: 'Mustermann' },
+    });
+
+    const parsed = parseCredential(response);
+    expect(parsed.claims.get('org.iso.18013.5.1:issuing_jurisdiction')?.value).toBe('NY');
+    expect(parsed.mso.deviceKey).toBeDefined();
+    expect((await analyzeCircuitLayout(parsed)).compatible).toBe(true);
+
+    const report = await describeCredential(credential);
+    expect(report.slots?.every((slot) => slot.digestMatches)).toBe(true);
+
+    const iacaKey = await crypto.subtle.importKey(
+      'raw',
+      new Uint8Array([4, ...issuer.iacaPubkey.x, ...issuer.iacaPubkey.y]),
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+    expect(credential.msoBytes.length).toBe(512);
+    expect(
+      await crypto.subtle.verify(
+        { name: 'ECDSA', hash: 'SHA-256' },
+        iacaKey,
+        credential.msoSignature,
+        credential.msoBytes
+      )
+    ).toBe(true);
+    const s = BigInt('0x' + Buffer.from(credential.msoSignature.subarray(32)).toString('hex'));
+    expect(s <= P256_HALF_ORDER).toBe(true);
+  });
+
+  it('chains a Document Signer to its IACA and keeps imported keys', async () => {
+    const pkcs8 = async () => {
+      const key = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, [
+        'sign',
+      ]);
+      return new Uint8Array(await crypto.subtle.exportKey('pkcs8', key.privateKey));
+    };
+    const keys = { privateKey: await pkcs8(), documentSignerKey: await pkcs8() };
+    const issuer = await createMockIssuer({ ...keys, commonName: 'Test IACA' });
+    const again = await createMockIssuer(keys);
+    expect(again.iacaPubkey).toEqual(issuer.iacaPubkey);
+
+    const parsed = parseCredential((await issuer.issue()).response);
+    const chain = await validateIssuerChain(parsed.certificateChain, {
+      iacaRoots: [issuer.certificate],
+    });
+    expect(chain.iaca.subject.text).toContain('Test IACA');
+    expect(chain.documentSigner.subject.text).toContain('Test IACA Document Signer');
+    expect(chain.documentSigner.basicConstraints?.ca).not.toBe(true);
+    expect(parseCertificate(issuer.documentSigner).der).toEqual(chain.documentSigner.der);
+    // The circuit takes the key that signs the MSO, not the IACA's
+    expect(getP256PublicKey(chain.documentSigner)).toEqual(issuer.iacaPubkey);
+    expect(chain.iacaPubkey).not.toEqual(issuer.iacaPubkey);
+  });
+
+  it('issues credentials that pass the pre-flight checks', async () => {
+    const issuer = await createMockIssuer();
+    const parsed = parseCredential((await issuer.issue()).response);
+
+    await expect(requireIssuerSigned(parsed, { form: 'circuit' })).resolves.toMatchObject({
+      valid: true,
+    });
+    await expect(requireCircuitLayout(parsed)).resolves.toBeUndefined();
+    expect(() => checkMSOValidity(parsed.mso)).not.toThrow();
+  });
+
+  it('encodes DER lengths beyond 0xffff', async () => {
+    const commonName = 'X'.repeat(70_000);
+    const issuer = await createMockIssuer({ commonName });
+
+    // 0x83: a three-byte length
+    expect(issuer.certificate[1]).toBe(0x83);
+    expect(parseCertificate(issuer.certificate).subject.text).toContain(commonName);
+  });
+
+  it('rejects what the circuit cannot take', async () => {
+    const issuer = await createMockIssuer();
+
+    await expect(issuer.issue({ state: 'California' })).rejects.toThrow('2-letter code');
+    // Each extra element adds its digest to the MSO
+    const claims = Object.fromEntries(
+      ['family_name', 'given_name', 'nationality', 'resident_city'].map((id) => [id, 'X'])
+    );
+    await expect(issuer.issue({ claims })).rejects.toThrow('at most 512');
+  });
+});
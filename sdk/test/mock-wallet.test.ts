@@ -0,0 +1,136 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  createMockIssuer,
+  createMockWallet,
+  requestCredential,
+  parseCredential,
+  getClaimValue,
+  toProverCredential,
+  type MockWalletOptions,
+} from '../src/credential/index.js';
+import { DS_CERT, DS_PRIVATE_KEY_PKCS8 } from './fixtures/certificates.js';
+
+const issuer = await createMockIssuer();
+const mdl = await issuer.issue({ state: 'NY', claims: { family_name: 'Mustermann' } });
+
+let uninstall: (() => void) | undefined;
+
+function installWallet(options: Partial<MockWalletOptions> = {}) {
+  const wallet = createMockWallet({ documents: [mdl], ...options });
+  uninstall = wallet.install();
+  return wallet;
+}
+
+afterEach(() => {
+  uninstall?.();
+  uninstall = undefined;
+});
+
+describe('createMockWallet', () => {
+  it('answers requestCredential with an encrypted, device-signed response', async () => {
+    const wallet = installWallet();
+
+    const raw = await requestCredential({ claims: ['age_over_21', 'issuing_jurisdiction'] });
+
+    expect(wallet.requests).toEqual([
+      {
+        origin: 'https://localhost',
+        docRequests: [
+          {
+            docType: 'org.iso.18013.5.1.mDL',
+            nameSpaces: {
+              'org.iso.18013.5.1': {
+                age_over_21: false,
+                issuing_jurisdiction: false,
+                document_number: false,
+                expiry_date: false,
+              },
+            },
+            readerAuth: false,
+          },
+        ],
+      },
+    ]);
+    const parsed = parseCredential(raw);
+    expect(getClaimValue(parsed, 'issuing_jurisdiction')).toBe('NY');
+    expect(getClaimValue(parsed, 'document_number')).toBe('D1234567');
+    // Only requested elements are disclosed; missing ones are reported
+    expect(getClaimValue(parsed, 'family_name')).toBeUndefined();
+    expect(raw.elementErrors).toEqual([
+      { namespace: 'org.iso.18013.5.1', elementIdentifier: 'expiry_date', errorCode: 0 },
+    ]);
+    expect(raw.deviceSigned?.deviceSignature).toBeDefined();
+  });
+
+  it('binds the response to the origin the browser reports', async () => {
+    installWallet({ origin: 'https://evil.example' });
+
+    await expect(requestCredential({ claims: ['age_over_21'] })).rejects.toMatchObject({
+      code: 'PARSE_ERROR',
+      message: expect.stringContaining('Failed to decrypt credential response'),
+    });
+  });
+
+  it('simulates the holder cancelling', async () => {
+    const wallet = installWallet({ cancel: true });
+
+    await expect(requestCredential({ claims: ['age_over_21'] })).rejects.toMatchObject({
+      code: 'USER_CANCELLED',
+    });
+    expect(wallet.requests).toHaveLength(1);
+  });
+
+  it('reports documents it does not hold', async () => {
+    installWallet();
+
+    await expect(
+      requestCredential({ claims: ['age_over_18'], docType: 'eu.europa.ec.eudi.pid.1' })
+    ).rejects.toMatchObject({ code: 'DOCUMENT_NOT_RETURNED' });
+  });
+
+  it('withholds elements the holder declines to share', async () => {
+    installWallet({ withhold: ['org.iso.18013.5.1:age_over_21'] });
+
+    const parsed = parseCredential(
+      await requestCredential({ claims: ['age_over_21', 'age_over_18', 'issuing_jurisdiction'] })
+    );
+
+    expect(getClaimValue(parsed, 'age_over_18')).toBe(true);
+    expect(() => toProverCredential(parsed)).toThrow(
+      expect.objectContaining({ code: 'CLAIM_NOT_RETURNED' })
+    );
+  });
+
+  it('verifies ReaderAuth over the request it signs', async () => {
+    const wallet = installWallet();
+    const readerKey = await crypto.subtle.importKey(
+      'pkcs8',
+      DS_PRIVATE_KEY_PKCS8,
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['sign']
+    );
+
+    await requestCredential({
+      claims: ['age_over_21'],
+      readerAuth: { certificateChain: [DS_CERT], signer: readerKey },
+    });
+    expect(wallet.requests[0].docRequests[0].readerAuth).toBe(true);
+  });
+
+  it('rejects ReaderAuth the reader certificate did not sign', async () => {
+    installWallet();
+    const { privateKey } = await crypto.subtle.generateKey(
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['sign']
+    );
+
+    await expect(
+      requestCredential({
+        claims: ['age_over_21'],
+        readerAuth: { certificateChain: [DS_CERT], signer: privateKey },
+      })
+    ).rejects.toMatchObject({ code: 'READER_AUTH_FAILED' });
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { encode } from 'cborg';
+import {
+  negotiateCredential,
+  createMockIssuer,
+  buildOpenID4VPSessionTranscript,
+  signDeviceAuthentication,
+  CredentialError,
+} from '../src/credential/index.js';
+
+const docType = 'org.iso.18013.5.1.mDL';
+const nonce = 'n-0S6_WzA2Mj';
+const issuer = await createMockIssuer();
+const mdl = await issuer.issue();
+const issuerAuth = mdl.response.issuerAuth;
+
+// vp_token as a wallet builds it: DeviceAuth over this origin and nonce
+async function presentVpToken(origin = 'https://localhost'): Promise<string> {
+  const deviceNameSpaces = encode({});
+  const deviceSignature = await signDeviceAuthentication(
+    mdl.devicePrivateKey,
+    await buildOpenID4VPSessionTranscript(origin, nonce),
+    docType,
+    deviceNameSpaces
+  );
+  const deviceResponse = encode({
+    version: '1.0',
+    documents: [
+      {
+        docType,
+        issuerSigned: {
+          issuerAuth,
+          nameSpaces: {
+            'org.iso.18013.5.1': mdl.response.namespaces['org.iso.18013.5.1'].map(
+              (item) => item.rawBytes
+            ),
+          },
+        },
+        deviceSigned: {
+          nameSpaces: deviceNameSpaces,
+          deviceAuth: { deviceSignature },
+        },
+      },
+    ],
+    status: 0,
+  });
+  return Buffer.from(deviceResponse).toString('base64url');
+}
+
+function stubCredentialsGet(get: (request: any) => Promise<unknown>) {
+  vi.stubGlobal('navigator', { credentials: { get: vi.fn(get) } });
+  return (globalThis.navigator as any).credentials.get as ReturnType<typeof vi.fn>;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('negotiateCredential', () => {
+  it('offers every protocol in one call, in preference order', async () => {
+    const get = stubCredentialsGet(async () => ({
+      protocol: 'openid4vp-v1-unsigned',
+      data: { vp_token: { mdl: [await presentVpToken()] } },
+    }));
+
+    const result = await negotiateCredential({
+      claims: ['issuing_jurisdiction'],
+      protocols: ['org-iso-mdoc', 'openid4vp-v1-unsigned'],
+      nonce,
+    });
+
+    expect(get).toHaveBeenCalledTimes(1);
+    const requests = get.mock.calls[0][0].digital.requests;
+    expect(requests.map((r: any) => r.protocol)).toEqual([
+      'org-iso-mdoc',
+      'openid4vp-v1-unsigned',
+    ]);
+    expect(requests[0].data.deviceRequest).toBeTypeOf('string');
+    expect(requests[1].data.dcql_query).toBeDefined();
+
+    expect(result.protocol).toBe('openid4vp-v1-unsigned');
+    expect(
+      result.credential.namespaces['org.iso.18013.5.1'].find(
+        (item) => item.elementIdentifier === 'issuing_jurisdiction'
+      )?.elementValue
+    ).toBe('CA');
+  });
+
+  it('infers the protocol from the response shape when not reported', async () => {
+    stubCredentialsGet(async () => ({
+      data: JSON.stringify({ vp_token: await presentVpToken() }),
+    }));
+
+    const result = await negotiateCredential({
+      claims: ['issuing_jurisdiction'],
+      protocols: ['org-iso-mdoc', 'openid4vp'],
+      nonce,
+    });
+
+    expect(result.protocol).toBe('openid4vp');
+  });
+
+  it('rejects a vp_token whose DeviceAuth is for another origin', async () => {
+    stubCredentialsGet(async () => ({
+      protocol: 'openid4vp',
+      data: { vp_token: await presentVpToken('https://evil.example') },
+    }));
+
+    await expect(
+      negotiateCredential({ claims: ['age_over_21'], protocols: ['openid4vp'], nonce })
+    ).rejects.toMatchObject({ code: 'DEVICE_AUTH_FAILED' });
+  });
+
+  it('rejects plaintext org-iso-mdoc responses', async () => {
+    stubCredentialsGet(async () => ({ protocol: 'org-iso-mdoc', data: mdl.response }));
+
+    await expect(
+      negotiateCredential({ claims: ['age_over_21'], protocols: ['org-iso-mdoc'] })
+    ).rejects.toMatchObject({
+      code: 'PARSE_ERROR',
+      message: expect.stringContaining('HPKE-encrypted'),
+    });
+  });
+
+  it('signs openid4vp-v1-signed requests with the caller signer', async () => {
+    const get = stubCredentialsGet(async () => ({
+      protocol: 'openid4vp-v1-signed',
+      data: { vp_token: { mdl: [await presentVpToken()] } },
+    }));
+    const signRequest = vi.fn(async () => 'header.payload.signature');
+
+    await negotiateCredential({
+      claims: ['age_over_21'],
+      protocols: ['openid4vp-v1-signed'],
+      clientId: 'x509_san_dns:verifier.example',
+      signRequest,
+      nonce,
+    });
+
+    const payload = signRequest.mock.calls[0][0] as Record<string, unknown>;
+    expect(payload.client_id).toBe('x509_san_dns:verifier.example');
+    expect(payload.expected_origins).toEqual(['https://localhost']);
+    expect(get.mock.calls[0][0].digital.requests[0].data).toEqual({
+      request: 'header.payload.signature',
+    });
+  });
+
+  it('requires a client id and signer for openid4vp-v1-signed', async () => {
+    const get = stubCredentialsGet(async () => null);
+
+    await expect(
+      negotiateCredential({ claims: ['age_over_21'], protocols: ['openid4vp-v1-signed'] })
+    ).rejects.toMatchObject({ code: 'NOT_SUPPORTED' });
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  it('rejects responses for protocols that were not offered', async () => {
+    stubCredentialsGet(async () => ({ protocol: 'openid4vp', data: {} }));
+
+    await expect(
+      negotiateCredential({ claims: ['age_over_21'], protocols: ['org-iso-mdoc'] })
+    ).rejects.toThrow(CredentialError);
+  });
+
+  it('falls back to the legacy IdentityCredential API when offered', async () => {
+    const legacyResponse = { issuerAuth, namespaces: { 'org.iso.18013.5.1': [] } };
+    vi.stubGlobal('IdentityCredential', class {});
+    vi.stubGlobal('navigator', {
+      identity: { get: vi.fn(async () => legacyResponse) },
+    });
+
+    const result = await negotiateCredential({
+      claims: ['age_over_21'],
+      protocols: ['org-iso-mdoc', 'identity-credential'],
+    });
+
+    expect(result.protocol).toBe('identity-credential');
+    expect(result.credential).toBe(legacyResponse);
+  });
+
+  it('reports NOT_SUPPORTED without a fallback', async () => {
+    await expect(
+      negotiateCredential({ claims: ['age_over_21'], protocols: ['org-iso-mdoc'] })
+    ).rejects.toMatchObject({ code: 'NOT_SUPPORTED' });
+  });
+});
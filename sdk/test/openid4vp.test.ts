@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { encode } from 'cborg';
+import {
+  buildOpenID4VPRequest,
+  buildDCQLQuery,
+  buildPresentationDefinition,
+  parseOpenID4VPResponse,
+  CredentialError,
+} from '../src/credential/index.js';
+
+function toBase64Url(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('base64url');
+}
+
+// Minimal DeviceResponse with a single mDL document
+const itemBytes = encode({
+  digestID: 0,
+  random: new Uint8Array(32),
+  elementIdentifier: 'age_over_21',
+  elementValue: true,
+});
+const issuerAuth = encode([new Uint8Array(0), {}, new Uint8Array(0), new Uint8Array(64)]);
+const deviceResponseBytes = encode({
+  version: '1.0',
+  documents: [
+    {
+      docType: 'org.iso.18013.5.1.mDL',
+      issuerSigned: {
+        issuerAuth,
+        nameSpaces: { 'org.iso.18013.5.1': [itemBytes] },
+      },
+    },
+  ],
+  status: 0,
+});
+
+describe('OpenID4VP request', () => {
+  it('builds a DCQL query for the mDL doctype', () => {
+    const query = buildDCQLQuery(['age_over_21']);
+    const credential = query.credentials[0];
+
+    expect(credential.format).toBe('mso_mdoc');
+    expect(credential.meta.doctype_value).toBe('org.iso.18013.5.1.mDL');
+    const paths = credential.claims.map((c) => c.path[1]);
+    expect(paths).toContain('age_over_21');
+    // Always requested for nullifier and validity
+    expect(paths).toContain('document_number');
+    expect(paths).toContain('expiry_date');
+  });
+
+  it('builds a presentation definition with mso_mdoc field paths', () => {
+    const definition = buildPresentationDefinition(['issuing_jurisdiction']);
+    const fields = definition.input_descriptors[0].constraints.fields;
+
+    expect(definition.input_descriptors[0].id).toBe('org.iso.18013.5.1.mDL');
+    expect(fields.map((f) => f.path[0])).toContain(
+      "$['org.iso.18013.5.1']['issuing_jurisdiction']"
+    );
+  });
+
+  it('uses DCQL by default and presentation_definition on request', () => {
+    const dcql = buildOpenID4VPRequest(['age_over_21'], { nonce: 'n' });
+    expect(dcql.response_mode).toBe('dc_api');
+    expect(dcql.nonce).toBe('n');
+    expect(dcql.dcql_query).toBeDefined();
+    expect(dcql.presentation_definition).toBeUndefined();
+
+    const pe = buildOpenID4VPRequest(['age_over_21'], {
+      nonce: 'n',
+      queryFormat: 'presentation_definition',
+    });
+    expect(pe.presentation_definition).toBeDefined();
+    expect(pe.dcql_query).toBeUndefined();
+  });
+});
+
+describe('OpenID4VP response', () => {
+  it('parses a DCQL vp_token into a RawCredentialResponse', () => {
+    const raw = parseOpenID4VPResponse({
+      vp_token: { mdl: [toBase64Url(deviceResponseBytes)] },
+    });
+
+    const items = raw.namespaces['org.iso.18013.5.1'];
+    expect(items).toHaveLength(1);
+    expect(items[0].elementIdentifier).toBe('age_over_21');
+    expect(items[0].elementValue).toBe(true);
+    expect(raw.issuerAuth).toEqual(issuerAuth);
+  });
+
+  it('parses a Presentation Exchange vp_token string from JSON', () => {
+    const raw = parseOpenID4VPResponse(
+      JSON.stringify({ vp_token: toBase64Url(deviceResponseBytes) })
+    );
+    expect(raw.namespaces['org.iso.18013.5.1'][0].digestID).toBe(0);
+  });
+
+  it('rejects responses without a vp_token', () => {
+    expect(() => parseOpenID4VPResponse({})).toThrow(CredentialError);
+  });
+});
@@ -0,0 +1,247 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { decode, encode } from 'cborg';
+import {
+  type PendingPresentation,
+  type PresentationRequest,
+  type PresentationStore,
+  createPresentationRequest,
+  completePresentation,
+  relayPresentationRequest,
+  encryptCredentialResponse,
+  signDeviceAuthentication,
+  getClaimValue,
+  createMockIssuer,
+  createMockWallet,
+} from '../src/credential/index.js';
+import { fromBase64Url, toBase64Url } from '../src/credential/encoding.js';
+import { DS_CERT, IACA_CERT } from './fixtures/certificates.js';
+import { VALIDITY_INFO } from './fixtures/mso.js';
+
+const origin = 'https://verifier.example';
+const issuer = await createMockIssuer();
+const mdl = await issuer.issue();
+// Mock issuer credentials are signed in the circuit's form
+const trust = { iacaRoots: [issuer.certificate], form: 'circuit' as const };
+
+// Relay a backend request to a mock wallet holding `mdl`, as the browser would
+async function relay(
+  request: PresentationRequest,
+  documents = [mdl],
+  walletOrigin = origin
+): Promise<string> {
+  const uninstall = createMockWallet({ documents, origin: walletOrigin }).install();
+  try {
+    return await relayPresentationRequest(request.digital);
+  } finally {
+    uninstall();
+  }
+}
+const device = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, [
+  'sign',
+  'verify',
+]);
+const devicePoint = new Uint8Array(await crypto.subtle.exportKey('raw', device.publicKey));
+const mso = encode({
+  digestAlgorithm: 'SHA-256',
+  docType: 'org.iso.18013.5.1.mDL',
+  validityInfo: VALIDITY_INFO,
+  deviceKeyInfo: {
+    deviceKey: new Map<number, unknown>([
+      [1, 2],
+      [-1, 1],
+      [-2, devicePoint.slice(1, 33)],
+      [-3, devicePoint.slice(33)],
+    ]),
+  },
+});
+
+function itemBytes(digestID: number, elementIdentifier: string, elementValue: unknown) {
+  return encode({ digestID, random: new Uint8Array(32), elementIdentifier, elementValue });
+}
+
+// DeviceResponse signed by the device for the given SessionTranscript, whose
+// issuerAuth carries a genuine x5chain (DS_CERT) but no issuer signature
+async function deviceResponse(sessionTranscript: Uint8Array): Promise<Uint8Array> {
+  const deviceSignature = await signDeviceAuthentication(
+    device.privateKey,
+    sessionTranscript,
+    'org.iso.18013.5.1.mDL'
+  );
+  return encode({
+    version: '1.0',
+    documents: [
+      {
+        docType: 'org.iso.18013.5.1.mDL',
+        issuerSigned: {
+          issuerAuth: encode([encode({}), new Map([[33, DS_CERT]]), mso, new Uint8Array(64)]),
+          nameSpaces: {
+            'org.iso.18013.5.1': [
+              itemBytes(0, 'age_over_21', true),
+              itemBytes(1, 'document_number', 'D1234567'),
+            ],
+          },
+        },
+        deviceSigned: {
+          nameSpaces: encode({}),
+          deviceAuth: { deviceSignature: decode(deviceSignature) },
+        },
+      },
+    ],
+    status: 0,
+  });
+}
+
+// Answer a backend request the way a wallet relayed through the browser would
+async function walletResponse(data: { encryptionInfo: string }): Promise<string> {
+  const encrypted = await encryptCredentialResponse(
+    deviceResponse,
+    fromBase64Url(data.encryptionInfo),
+    origin
+  );
+  return toBase64Url(encode({ protocol: 'org-iso-mdoc', data: encrypted }));
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('backend presentation flow', () => {
+  it('decrypts, parses and verifies the relayed wallet response', async () => {
+    const request = await createPresentationRequest({ claims: ['age_over_21'], origin });
+    const [{ protocol }] = request.digital.requests;
+    expect(protocol).toBe('org-iso-mdoc');
+    expect(request.expiresAt.getTime()).toBeGreaterThan(Date.now());
+
+    const { parsed } = await completePresentation(request.handle, await relay(request), trust);
+
+    expect(getClaimValue(parsed, 'age_over_21')).toBe(true);
+    expect(getClaimValue(parsed, 'document_number')).toBe('D1234567');
+    expect(parsed.iaca?.der).toEqual(issuer.certificate);
+  });
+
+  it('accepts each handle once', async () => {
+    const request = await createPresentationRequest({ claims: ['age_over_21'], origin });
+    const response = await relay(request);
+
+    await completePresentation(request.handle, response, trust);
+    await expect(completePresentation(request.handle, response, trust)).rejects.toMatchObject({
+      code: 'SESSION_EXPIRED',
+    });
+  });
+
+  it('rejects expired handles', async () => {
+    const request = await createPresentationRequest({
+      claims: ['age_over_21'],
+      origin,
+      ttlSeconds: 0,
+    });
+    const response = await relay(request);
+
+    await expect(completePresentation(request.handle, response, trust)).rejects.toMatchObject({
+      code: 'SESSION_EXPIRED',
+    });
+  });
+
+  it('rejects plaintext responses', async () => {
+    const request = await createPresentationRequest({ claims: ['age_over_21'], origin });
+    const forged = toBase64Url(
+      encode({ protocol: 'org-iso-mdoc', data: { issuerAuth: new Uint8Array(0), namespaces: {} } })
+    );
+
+    await expect(completePresentation(request.handle, forged, trust)).rejects.toThrow(
+      'Expected an HPKE-encrypted org-iso-mdoc response'
+    );
+  });
+
+  it('rejects responses encrypted for another origin', async () => {
+    const request = await createPresentationRequest({
+      claims: ['age_over_21'],
+      origin: 'https://other.example',
+    });
+    const response = await relay(request);
+
+    await expect(completePresentation(request.handle, response, trust)).rejects.toMatchObject({
+      code: 'PARSE_ERROR',
+    });
+  });
+
+  it('rejects issuers that do not chain to the given roots', async () => {
+    const other = await createMockIssuer({ commonName: 'Other IACA' });
+    const request = await createPresentationRequest({ claims: ['age_over_21'], origin });
+    const response = await relay(request, [await other.issue()]);
+
+    await expect(completePresentation(request.handle, response, trust)).rejects.toMatchObject({
+      code: 'UNTRUSTED_ISSUER',
+    });
+  });
+
+  it('rejects documents the Document Signer did not sign', async () => {
+    const request = await createPresentationRequest({ claims: ['age_over_21'], origin });
+    const data = request.digital.requests[0].data as { encryptionInfo: string };
+    // Correct DeviceAuth and x5chain, forged MSO signature
+    const encrypted = await encryptCredentialResponse(
+      deviceResponse,
+      fromBase64Url(data.encryptionInfo),
+      origin
+    );
+    const response = toBase64Url(encode({ protocol: 'org-iso-mdoc', data: encrypted }));
+
+    await expect(
+      completePresentation(request.handle, response, {
+        iacaRoots: [IACA_CERT],
+        now: new Date('2030-01-01T00:00:00Z'),
+      })
+    ).rejects.toMatchObject({ code: 'ISSUER_AUTH_FAILED' });
+  });
+
+  it('keeps pending sessions in the given store, sealed', async () => {
+    // A store that serializes, as a shared one would
+    const entries = new Map<string, string>();
+    const store: PresentationStore = {
+      async set(handle, presentation) {
+        entries.set(handle, JSON.stringify(presentation));
+      },
+      async take(handle) {
+        const entry = entries.get(handle);
+        entries.delete(handle);
+        return entry === undefined ? undefined : (JSON.parse(entry) as PendingPresentation);
+      },
+    };
+    const sessionKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+      'encrypt',
+      'decrypt',
+    ]);
+
+    const request = await createPresentationRequest({
+      claims: ['age_over_21'],
+      origin,
+      store,
+      sessionKey,
+    });
+    expect(JSON.parse(entries.get(request.handle)!).session).toMatch(/^hpke1e\./);
+
+    const response = await relay(request);
+    await expect(completePresentation(request.handle, response, trust)).rejects.toMatchObject({
+      code: 'SESSION_EXPIRED',
+    });
+    const { parsed } = await completePresentation(request.handle, response, {
+      ...trust,
+      store,
+      sessionKey,
+    });
+    expect(getClaimValue(parsed, 'age_over_21')).toBe(true);
+  });
+
+  it('relays the wallet response without reading it', async () => {
+    const request = await createPresentationRequest({ claims: ['age_over_21'], origin });
+    const wallet = createMockWallet({ documents: [mdl], origin });
+    const get = vi.fn(wallet.get);
+    vi.stubGlobal('navigator', { credentials: { get } });
+
+    const relayed = await relayPresentationRequest(request.digital);
+
+    expect(get).toHaveBeenCalledWith({ mediation: 'required', digital: request.digital });
+    const { parsed } = await completePresentation(request.handle, relayed, trust);
+    expect(getClaimValue(parsed, 'age_over_21')).toBe(true);
+  });
+});
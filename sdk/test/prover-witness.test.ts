@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Address } from 'viem';
+import { initProver, destroyProver, generateProof } from '../src/prover/index.js';
+import type { CompiledCircuit, Credential } from '../src/prover/index.js';
+
+// Witness inputs generateProof hands to the circuit, captured instead of
+// executed. Poseidon2 hashing stays real.
+const execute = vi.hoisted(() =>
+  vi.fn(async (_inputs: Record<string, unknown>) => ({ witness: new Uint8Array(0) }))
+);
+
+vi.mock('@noir-lang/noir_js', () => ({
+  Noir: class {
+    execute = execute;
+  },
+}));
+
+vi.mock('@aztec/bb.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@aztec/bb.js')>()),
+  Barretenberg: { new: async () => ({ destroy: async () => {} }) },
+  UltraHonkBackend: class {
+    async generateProof() {
+      return { proof: new Uint8Array(0), publicInputs: [] };
+    }
+  },
+}));
+
+const OFFSET_INPUTS = ['digest_offset', 'claim_len', 'value_offset'].flatMap((suffix) =>
+  ['age_over_21', 'age_over_18', 'state'].map((claim) => `${claim}_${suffix}`)
+);
+
+function circuit(parameters: string[]): CompiledCircuit {
+  return {
+    abi: {
+      parameters: parameters.map((name) => ({
+        name,
+        type: { kind: 'integer' },
+        visibility: 'private',
+      })),
+    },
+    bytecode: '',
+  };
+}
+
+const fixedCircuit = circuit(['nullifier', 'state_claim_bytes']);
+const locatedCircuit = circuit(['nullifier', 'state_claim_bytes', ...OFFSET_INPUTS]);
+
+// "CA" at the fixed STATE_CODE_OFFSET, "NY" after a text header at offset 40
+const stateClaimBytes = new Uint8Array(107);
+stateClaimBytes.set([67, 65], 66);
+stateClaimBytes.set([0x62, 78, 89], 40);
+
+const credential: Credential = {
+  msoBytes: new Uint8Array(512),
+  msoSignature: new Uint8Array(64),
+  ageOver21ClaimBytes: new Uint8Array(96),
+  ageOver18ClaimBytes: new Uint8Array(96),
+  stateClaimBytes,
+  documentNumber: new Uint8Array(32),
+  iacaPubkeyX: new Uint8Array(32),
+  iacaPubkeyY: new Uint8Array(32),
+  layout: {
+    ageOver21: { digestOffset: 301, length: 78, valueOffset: 48 },
+    ageOver18: { digestOffset: 103, length: 94, valueOffset: 64 },
+    state: { digestOffset: 67, length: 88, valueOffset: 40 },
+  },
+};
+
+const options = {
+  eventId: 'event',
+  boundAddress: '0x1234567890123456789012345678901234567890' as Address,
+  proveState: true,
+  timestamp: 1767225600,
+};
+
+function witnessInputs(): Record<string, unknown> {
+  return execute.mock.calls[0][0];
+}
+
+describe('generateProof witness inputs', () => {
+  beforeEach(() => {
+    execute.mockClear();
+  });
+
+  afterEach(async () => {
+    await destroyProver();
+  });
+
+  it('passes located claim offsets to circuits that take them', async () => {
+    await initProver(locatedCircuit);
+
+    const { publicInputs } = await generateProof(credential, options);
+
+    expect(witnessInputs()).toMatchObject({
+      age_over_21_digest_offset: 301,
+      age_over_21_claim_len: 78,
+      age_over_21_value_offset: 48,
+      age_over_18_digest_offset: 103,
+      age_over_18_claim_len: 94,
+      age_over_18_value_offset: 64,
+      state_digest_offset: 67,
+      state_claim_len: 88,
+      state_value_offset: 40,
+      proven_state: [78, 89],
+    });
+    expect(publicInputs.provenState).toBe('NY');
+  });
+
+  it('reads the fixed layout for circuits without offset inputs', async () => {
+    await initProver(fixedCircuit);
+
+    const { publicInputs } = await generateProof(credential, options);
+
+    expect(Object.keys(witnessInputs())).not.toContain('state_value_offset');
+    expect(witnessInputs().proven_state).toEqual([67, 65]);
+    expect(publicInputs.provenState).toBe('CA');
+  });
+
+  it('requires a layout when the circuit takes claim offsets', async () => {
+    await initProver(locatedCircuit);
+
+    await expect(generateProof({ ...credential, layout: undefined }, options)).rejects.toThrow(
+      'Circuit takes claim offsets but the credential has no layout'
+    );
+    expect(execute).not.toHaveBeenCalled();
+  });
+});
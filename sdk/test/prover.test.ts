@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach, beforeAll } from 'vitest';
-import { readFileSync, existsSync } from 'fs';
+import { readFileSync, readdirSync, existsSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import {
@@ -7,6 +7,9 @@ import {
   isProverInitialized,
   destroyProver,
   generateProof,
+  computeIacaRoot,
+  computeProofPublicInputs,
+  acceptsClaimLayout,
 } from '../src/prover/index.js';
 import type { Credential, CompiledCircuit } from '../src/prover/index.js';
 import type { Address } from 'viem';
@@ -95,6 +98,23 @@ describe('Credential Type', () => {
   });
 });
 
+describe('acceptsClaimLayout', () => {
+  it('detects circuits that take claim offsets from the ABI', () => {
+    const variant: CompiledCircuit = {
+      ...mockCircuit,
+      abi: {
+        parameters: [
+          ...mockCircuit.abi.parameters,
+          { name: 'age_over_21_digest_offset', type: { kind: 'integer' }, visibility: 'private' },
+        ],
+      },
+    };
+
+    expect(acceptsClaimLayout(mockCircuit)).toBe(false);
+    expect(acceptsClaimLayout(variant)).toBe(true);
+  });
+});
+
 describe('CompiledCircuit Type', () => {
   it('has expected shape', () => {
     expect(mockCircuit.abi).toBeDefined();
@@ -104,6 +124,44 @@ describe('CompiledCircuit Type', () => {
   });
 });
 
+/**
+ * Golden Poseidon2 values in the test vectors, recomputed by the SDK
+ */
+describe('Test vector public inputs', () => {
+  const fixturesDir = join(dirname(fileURLToPath(import.meta.url)), '../../test-vectors/fixtures');
+
+  const vectors = readdirSync(fixturesDir).filter((file) => file.endsWith('.json'));
+
+  describe.each(vectors)('%s', (file) => {
+    const vector = JSON.parse(readFileSync(join(fixturesDir, file), 'utf-8'));
+    const credential = {
+      documentNumber: new Uint8Array(vector.documentNumber),
+      iacaPubkeyX: new Uint8Array(vector.iacaKey.publicKeyX),
+      iacaPubkeyY: new Uint8Array(vector.iacaKey.publicKeyY),
+    };
+
+    it('has the SDK iaca_root', async () => {
+      expect(await computeIacaRoot(credential.iacaPubkeyX, credential.iacaPubkeyY)).toBe(
+        vector.iacaKey.root
+      );
+    });
+
+    it('has the SDK event field, nullifier and address binding', async () => {
+      expect(
+        await computeProofPublicInputs(credential, {
+          eventId: vector.eventId,
+          boundAddress: vector.boundAddress,
+        })
+      ).toEqual({
+        iacaRoot: vector.iacaKey.root,
+        eventId: vector.eventIdField,
+        nullifier: vector.expectedNullifier,
+        addressBinding: vector.expectedAddressBinding,
+      });
+    });
+  });
+});
+
 /**
  * Pad array to specified length with zeros
  */
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { decode, encode } from 'cborg';
+import {
+  buildReaderAuth,
+  buildReaderAuthenticationBytes,
+  buildDCAPISessionTranscript,
+  negotiateCredential,
+} from '../src/credential/index.js';
+import { buildItemsRequest } from '../src/credential/device-request.js';
+
+const readerCert = new Uint8Array([0x30, 0x82, 0x01, 0x00]);
+const intermediateCert = new Uint8Array([0x30, 0x82, 0x02, 0x00]);
+
+async function generateReaderKey(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, [
+    'sign',
+    'verify',
+  ]);
+}
+
+function decodeCose(bytes: Uint8Array) {
+  return decode(bytes, { useMaps: true }) as [
+    Uint8Array,
+    Map<number, unknown>,
+    null,
+    Uint8Array,
+  ];
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('buildReaderAuth', () => {
+  it('produces a detached COSE_Sign1 verifiable over ReaderAuthenticationBytes', async () => {
+    const { privateKey, publicKey } = await generateReaderKey();
+    const itemsRequest = buildItemsRequest(['age_over_21']);
+    const transcript = await buildDCAPISessionTranscript('info', 'https://verifier.example');
+
+    const readerAuth = await buildReaderAuth(
+      { certificateChain: [readerCert], signer: privateKey },
+      transcript,
+      itemsRequest
+    );
+
+    const [protectedHeader, unprotectedHeader, payload, signature] = decodeCose(readerAuth);
+    expect(decode(protectedHeader, { useMaps: true }).get(1)).toBe(-7);
+    expect(unprotectedHeader.get(33)).toEqual(readerCert);
+    expect(payload).toBeNull();
+
+    const toBeSigned = encode([
+      'Signature1',
+      protectedHeader,
+      new Uint8Array(0),
+      buildReaderAuthenticationBytes(transcript, itemsRequest),
+    ]);
+    const valid = await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      publicKey,
+      signature,
+      toBeSigned
+    );
+    expect(valid).toBe(true);
+  });
+
+  it('embeds the SessionTranscript and tagged ItemsRequest', async () => {
+    const itemsRequest = buildItemsRequest(['age_over_18']);
+    const transcript = await buildDCAPISessionTranscript('info', 'https://verifier.example');
+
+    const bytes = buildReaderAuthenticationBytes(transcript, itemsRequest);
+    const tagged = decode(bytes, { tags: { 24: (inner: Uint8Array) => inner } as never });
+    const [label, sessionTranscript] = decode(tagged, {
+      tags: { 24: (inner: Uint8Array) => inner } as never,
+    });
+
+    expect(label).toBe('ReaderAuthentication');
+    expect(sessionTranscript[2][0]).toBe('dcapi');
+  });
+
+  it('uses a remote signer and sends the full chain', async () => {
+    const signer = vi.fn(async () => new Uint8Array(64).fill(7));
+
+    const readerAuth = await buildReaderAuth(
+      { certificateChain: [readerCert, intermediateCert], signer },
+      await buildDCAPISessionTranscript('info', 'https://verifier.example'),
+      buildItemsRequest(['age_over_21'])
+    );
+
+    const [, unprotectedHeader, , signature] = decodeCose(readerAuth);
+    expect(signer).toHaveBeenCalledTimes(1);
+    expect(unprotectedHeader.get(33)).toEqual([readerCert, intermediateCert]);
+    expect(signature).toEqual(new Uint8Array(64).fill(7));
+  });
+
+  it('rejects DER-encoded signatures and empty chains', async () => {
+    const transcript = await buildDCAPISessionTranscript('info', 'https://verifier.example');
+    const itemsRequest = buildItemsRequest(['age_over_21']);
+
+    await expect(
+      buildReaderAuth(
+        { certificateChain: [readerCert], signer: async () => new Uint8Array(70) },
+        transcript,
+        itemsRequest
+      )
+    ).rejects.toMatchObject({
+      code: 'READER_AUTH_FAILED',
+      message: expect.stringContaining('64 bytes'),
+    });
+    await expect(
+      buildReaderAuth(
+        { certificateChain: [], signer: async () => new Uint8Array(64) },
+        transcript,
+        itemsRequest
+      )
+    ).rejects.toMatchObject({
+      code: 'READER_AUTH_FAILED',
+      message: expect.stringContaining('certificate'),
+    });
+  });
+});
+
+describe('org-iso-mdoc request with readerAuth', () => {
+  it('signs the DocRequest over the encryptionInfo sent to the wallet', async () => {
+    const { privateKey, publicKey } = await generateReaderKey();
+    // Only the request matters here; the holder dismisses the wallet
+    const get = vi.fn(async () => {
+      throw new DOMException('Dismissed', 'NotAllowedError');
+    });
+    vi.stubGlobal('navigator', { credentials: { get } });
+
+    await expect(
+      negotiateCredential({
+        claims: ['age_over_21'],
+        protocols: ['org-iso-mdoc'],
+        readerAuth: { certificateChain: [readerCert], signer: privateKey },
+      })
+    ).rejects.toMatchObject({ code: 'USER_CANCELLED' });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { deviceRequest, encryptionInfo } = (get.mock.calls[0] as any)[0].digital
+      .requests[0].data;
+    const request = decode(Buffer.from(deviceRequest, 'base64'), {
+      useMaps: true,
+      tags: { 24: (inner: Uint8Array) => inner } as never,
+    });
+    const docRequest = request.get('docRequests')[0];
+    const itemsRequest = docRequest.get('itemsRequest');
+    const [protectedHeader, , , signature] = decodeCose(
+      encode(docRequest.get('readerAuth'))
+    );
+    const transcript = await buildDCAPISessionTranscript(encryptionInfo, 'https://localhost');
+    const toBeSigned = encode([
+      'Signature1',
+      protectedHeader,
+      new Uint8Array(0),
+      buildReaderAuthenticationBytes(transcript, itemsRequest),
+    ]);
+    expect(
+      await crypto.subtle.verify(
+        { name: 'ECDSA', hash: 'SHA-256' },
+        publicKey,
+        signature,
+        toBeSigned
+      )
+    ).toBe(true);
+  });
+});
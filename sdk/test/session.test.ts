@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createHPKESession,
+  decryptCredentialResponse,
+  encryptCredentialResponse,
+  exportSession,
+  importSession,
+} from '../src/credential/index.js';
+
+const origin = 'https://verifier.example';
+const plaintext = new TextEncoder().encode('device response');
+
+async function sealingKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+    'encrypt',
+    'decrypt',
+  ]);
+}
+
+describe('exportSession / importSession', () => {
+  it('decrypts responses with an imported session', async () => {
+    const { session, encryptionInfo } = await createHPKESession(origin);
+    const blob = await exportSession(session);
+    expect(blob.startsWith('hpke1.')).toBe(true);
+
+    const encrypted = await encryptCredentialResponse(plaintext, encryptionInfo, origin);
+    const imported = await importSession(blob);
+
+    expect(imported.publicKeyBytes).toEqual(session.publicKeyBytes);
+    expect(imported.nonce).toEqual(session.nonce);
+    expect(imported.origin).toBe(origin);
+    expect(await decryptCredentialResponse(encrypted, imported)).toEqual(plaintext);
+  });
+
+  it('seals the blob with an encryption key', async () => {
+    const { session, encryptionInfo } = await createHPKESession(origin);
+    const encryptionKey = await sealingKey();
+    const blob = await exportSession(session, { encryptionKey });
+
+    expect(blob.startsWith('hpke1e.')).toBe(true);
+    expect(blob).not.toContain(origin);
+
+    const imported = await importSession(blob, { encryptionKey });
+    const encrypted = await encryptCredentialResponse(plaintext, encryptionInfo, origin);
+    expect(await decryptCredentialResponse(encrypted, imported)).toEqual(plaintext);
+
+    const wrongKey = await sealingKey();
+    await expect(importSession(blob, { encryptionKey: wrongKey })).rejects.toMatchObject({
+      code: 'PARSE_ERROR',
+    });
+    await expect(importSession(blob)).rejects.toMatchObject({
+      code: 'PARSE_ERROR',
+      message: expect.stringContaining('need the encryptionKey'),
+    });
+  });
+
+  it('binds the session to its expiry', async () => {
+    const { session, encryptionInfo } = await createHPKESession(origin);
+
+    const expired = await exportSession(session, { ttlSeconds: 0 });
+    await expect(importSession(expired)).rejects.toMatchObject({ code: 'SESSION_EXPIRED' });
+
+    const imported = await importSession(await exportSession(session, { ttlSeconds: 60 }));
+    expect(imported.expiresAt!.getTime()).toBeGreaterThan(Date.now());
+
+    const encrypted = await encryptCredentialResponse(plaintext, encryptionInfo, origin);
+    imported.expiresAt = new Date(Date.now() - 1000);
+    await expect(decryptCredentialResponse(encrypted, imported)).rejects.toMatchObject({
+      code: 'SESSION_EXPIRED',
+    });
+  });
+
+  it('rejects malformed blobs', async () => {
+    await expect(importSession('hpke2.abc')).rejects.toThrow('Unrecognized HPKE session blob');
+    await expect(importSession('hpke1.bm90IGpzb24')).rejects.toMatchObject({
+      code: 'PARSE_ERROR',
+    });
+    await expect(importSession('hpke1.not*base64')).rejects.toMatchObject({
+      code: 'PARSE_ERROR',
+    });
+  });
+
+  it('refuses to export a non-extractable key', async () => {
+    const { session } = await createHPKESession(origin);
+    const keyPair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, false, [
+      'deriveBits',
+    ]);
+
+    await expect(
+      exportSession({ ...session, privateKey: keyPair.privateKey })
+    ).rejects.toMatchObject({ code: 'NOT_SUPPORTED' });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { encode } from 'cborg';
+import type { Hex } from 'viem';
+import {
+  createMockIssuer,
+  getP256PublicKey,
+  parseCertificate,
+  verifyVical,
+} from '../src/credential/index.js';
+import { computeIacaRoot } from '../src/prover/index.js';
+import {
+  buildTrustList,
+  diffTrustList,
+  type IACATrustList,
+  type TrustedIACA,
+} from '../src/trust-list.js';
+import { DS_CERT, IACA_CERT, IACA_PRIVATE_KEY_PKCS8 } from './fixtures/certificates.js';
+import { certificateInfo, signVical, tdate, typeEncoders } from './fixtures/vical.js';
+
+const NOW = new Date('2030-01-01T00:00:00Z');
+
+function serial(certificate: Uint8Array): number[] {
+  return Array.from(Buffer.from(parseCertificate(certificate).serialNumber, 'hex'));
+}
+
+// Lists the fixture IACA for mDLs and a mock IACA for photo IDs only
+const mockIssuer = await createMockIssuer();
+const vical = await verifyVical(
+  await signVical(
+    IACA_PRIVATE_KEY_PKCS8,
+    IACA_CERT,
+    encode(
+      {
+        version: '1.0',
+        vicalProvider: 'Thurin Test VICAL',
+        date: tdate('2029-06-01T00:00:00Z'),
+        vicalIssueID: 7,
+        certificateInfos: [
+          certificateInfo(IACA_CERT, serial(IACA_CERT)),
+          certificateInfo(mockIssuer.certificate, serial(mockIssuer.certificate), {
+            docType: ['org.iso.23220.photoid.1'],
+            stateOrProvinceName: 'US-TX',
+          }),
+        ],
+      },
+      { typeEncoders }
+    )
+  ),
+  { providerCertificates: [IACA_CERT], now: NOW }
+);
+
+describe('buildTrustList', () => {
+  it('roots each Document Signer key under the listed IACA that issued it', async () => {
+    const trustList = await buildTrustList(vical, {
+      documentSigners: [DS_CERT, mockIssuer.documentSigner],
+      now: NOW,
+    });
+
+    expect(trustList.vicalProvider).toBe('Thurin Test VICAL');
+    expect(trustList.vicalIssueID).toBe(7);
+    expect(trustList.skipped).toEqual([]);
+    const [fixture, mock] = trustList.entries;
+
+    // The circuit's iaca_pubkey is the DS key, not the IACA's
+    const ds = getP256PublicKey(parseCertificate(DS_CERT));
+    const iaca = getP256PublicKey(parseCertificate(IACA_CERT));
+    expect(fixture.iacaRoot).toBe(await computeIacaRoot(ds.x, ds.y));
+    expect(fixture.iacaRoot).not.toBe(await computeIacaRoot(iaca.x, iaca.y));
+    expect(fixture.pubkeyX).toEqual(ds.x);
+    expect(fixture.documentSigner.subject.text).toContain('Document Signer');
+    expect(fixture.certificate.subject.text).toContain('CN=Thurin Test IACA');
+    expect(fixture.stateName).toBe('US-CA');
+
+    expect(mock.iacaRoot).toBe(await mockIssuer.iacaRoot());
+    expect(mock.stateName).toBe('US-TX');
+  });
+
+  it('skips Document Signers no listed IACA issued for the docType', async () => {
+    const other = await createMockIssuer({ commonName: 'Unlisted IACA' });
+    const trustList = await buildTrustList(vical, {
+      documentSigners: [DS_CERT, mockIssuer.documentSigner, other.documentSigner, IACA_CERT],
+      docType: 'org.iso.18013.5.1.mDL',
+      now: NOW,
+    });
+
+    expect(trustList.entries.map((entry) => entry.documentSigner.subject.text)).toEqual([
+      parseCertificate(DS_CERT).subject.text,
+    ]);
+    expect(trustList.skipped.map(({ reason }) => reason)).toEqual([
+      expect.stringMatching(/No trusted IACA issued ".*Thurin Mock IACA Document Signer"/),
+      expect.stringMatching(/No trusted IACA issued ".*Unlisted IACA Document Signer"/),
+      expect.stringMatching(/lacks the digitalSignature key usage/),
+    ]);
+  });
+});
+
+const [listed] = (await buildTrustList(vical, { documentSigners: [DS_CERT], now: NOW })).entries;
+
+function entry(iacaRoot: Hex, stateName: string): TrustedIACA {
+  return { ...listed, iacaRoot, stateName };
+}
+
+describe('diffTrustList', () => {
+  const trustList: IACATrustList = {
+    vicalProvider: 'Thurin Test VICAL',
+    date: new Date('2029-06-01T00:00:00Z'),
+    entries: [entry('0x01', 'US-CA'), entry('0x02', 'US-TX'), entry('0x03', 'US-NY')],
+    skipped: [],
+  };
+
+  it('lists the addIACARoot/removeIACARoot calls needed', () => {
+    const diff = diffTrustList(trustList, [
+      { root: '0x01', stateName: 'US-CA' },
+      { root: '0x02', stateName: 'Texas' },
+      { root: '0x04', stateName: 'US-WA' },
+    ]);
+
+    expect(diff.add.map((e) => e.iacaRoot)).toEqual(['0x03']);
+    expect(diff.remove).toEqual([{ root: '0x04', stateName: 'US-WA' }]);
+    expect(diff.rename.map((r) => [r.entry.iacaRoot, r.registeredName])).toEqual([
+      ['0x02', 'Texas'],
+    ]);
+    expect(diff.unchanged.map((e) => e.iacaRoot)).toEqual(['0x01']);
+  });
+
+  it('matches roots regardless of hex case', () => {
+    const diff = diffTrustList(
+      { ...trustList, entries: [entry('0xABCD', 'US-CA')] },
+      [{ root: '0xabcd', stateName: 'US-CA' }]
+    );
+
+    expect(diff.unchanged).toHaveLength(1);
+    expect(diff.add).toHaveLength(0);
+    expect(diff.remove).toHaveLength(0);
+  });
+});
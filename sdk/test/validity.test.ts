@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { encode, Token, Type } from 'cborg';
+import { checkMSOValidity, CredentialError, type ParsedMSO } from '../src/credential/index.js';
+import { parseMSO } from '../src/credential/parse.js';
+import { DS_CERT } from './fixtures/certificates.js';
+
+/** Tagged date for the MSO encoder: tag 0 (tdate) or 1004 (full-date) */
+class Tagged {
+  constructor(
+    readonly tag: number,
+    readonly value: string
+  ) {}
+}
+
+const typeEncoders = {
+  Object: (obj: unknown) =>
+    obj instanceof Tagged
+      ? [new Token(Type.tag, obj.tag), new Token(Type.string, obj.value)]
+      : null,
+};
+
+function issuerAuthWith(validityInfo: Record<string, unknown>): Uint8Array {
+  const mso = encode(
+    { digestAlgorithm: 'SHA-256', docType: 'org.iso.18013.5.1.mDL', validityInfo },
+    { typeEncoders }
+  );
+  return encode([encode({}), new Map([[33, DS_CERT]]), mso, new Uint8Array(64)]);
+}
+
+function msoValidity(validityInfo: Partial<ParsedMSO['validityInfo']>): ParsedMSO {
+  return {
+    validityInfo: {
+      signed: new Date('2026-01-01T00:00:00Z'),
+      validFrom: new Date('2026-01-01T00:00:00Z'),
+      validUntil: new Date('2027-01-01T00:00:00Z'),
+      ...validityInfo,
+    },
+  } as ParsedMSO;
+}
+
+function expectCode(fn: () => void, code: string, message: RegExp) {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(CredentialError);
+    expect((error as CredentialError).code).toBe(code);
+    expect((error as CredentialError).message).toMatch(message);
+    return;
+  }
+  throw new Error('expected a CredentialError');
+}
+
+describe('parseMSO validityInfo', () => {
+  it('reads tdate (tag 0) and full-date (tag 1004) values', () => {
+    const mso = parseMSO(
+      issuerAuthWith({
+        signed: new Tagged(0, '2026-03-01T12:00:00Z'),
+        validFrom: new Tagged(0, '2026-03-01T12:00:00+02:00'),
+        validUntil: new Tagged(1004, '2027-03-01'),
+        expectedUpdate: '2026-09-01T00:00:00Z',
+      })
+    );
+
+    expect(mso.validityInfo.signed).toEqual(new Date('2026-03-01T12:00:00Z'));
+    expect(mso.validityInfo.validFrom).toEqual(new Date('2026-03-01T10:00:00Z'));
+    // A full-date validUntil lasts through that day
+    expect(mso.validityInfo.validUntil).toEqual(new Date('2027-03-01T23:59:59.999Z'));
+    expect(mso.validityInfo.expectedUpdate).toEqual(new Date('2026-09-01T00:00:00Z'));
+  });
+
+  it('keeps a full-date validUntil valid until the end of its day', () => {
+    const valid = { signed: '2026-01-01T00:00:00Z', validFrom: new Tagged(1004, '2026-01-01') };
+    for (const validUntil of [new Tagged(1004, '2027-03-01'), '2027-03-01']) {
+      const mso = parseMSO(issuerAuthWith({ ...valid, validUntil }));
+      expect(mso.validityInfo.validFrom).toEqual(new Date('2026-01-01T00:00:00Z'));
+
+      const lastMinute = new Date('2027-03-01T23:59:00Z');
+      expect(() => checkMSOValidity(mso, { now: lastMinute, clockSkewSeconds: 0 })).not.toThrow();
+      expectCode(
+        () => checkMSOValidity(mso, { now: new Date('2027-03-02T00:00:00Z'), clockSkewSeconds: 0 }),
+        'EXPIRED',
+        /MSO expired at 2027-03-01T23:59:59.999Z/
+      );
+    }
+  });
+
+  it('rejects missing and malformed dates instead of defaulting', () => {
+    const valid = { signed: '2026-01-01T00:00:00Z', validFrom: '2026-01-01T00:00:00Z' };
+
+    expectCode(
+      () => parseMSO(issuerAuthWith(valid)),
+      'PARSE_ERROR',
+      /validityInfo.validUntil is not a valid date/
+    );
+    expectCode(
+      () => parseMSO(issuerAuthWith({ ...valid, validUntil: new Tagged(0, 'tomorrow') })),
+      'PARSE_ERROR',
+      /validityInfo.validUntil is not a valid date/
+    );
+    const dateTimeAsFullDate = new Tagged(1004, '2027-03-01T00:00:00Z');
+    expectCode(
+      () => parseMSO(issuerAuthWith({ ...valid, validUntil: dateTimeAsFullDate })),
+      'PARSE_ERROR',
+      /validityInfo.validUntil is not a valid date/
+    );
+  });
+});
+
+describe('checkMSOValidity', () => {
+  it('accepts an MSO inside its validity period', () => {
+    expect(() =>
+      checkMSOValidity(msoValidity({}), { now: new Date('2026-06-01T00:00:00Z') })
+    ).not.toThrow();
+  });
+
+  it('rejects an MSO that is not yet valid', () => {
+    expectCode(
+      () => checkMSOValidity(msoValidity({}), { now: new Date('2025-12-31T23:00:00Z') }),
+      'NOT_YET_VALID',
+      /not valid until 2026-01-01T00:00:00.000Z/
+    );
+  });
+
+  it('rejects an expired MSO', () => {
+    expectCode(
+      () => checkMSOValidity(msoValidity({}), { now: new Date('2027-01-01T01:00:00Z') }),
+      'EXPIRED',
+      /MSO expired at 2027-01-01T00:00:00.000Z/
+    );
+  });
+
+  it('applies the clock skew to both ends', () => {
+    const mso = msoValidity({});
+
+    // 4 minutes out is inside the default 5 minute skew
+    checkMSOValidity(mso, { now: new Date('2025-12-31T23:56:00Z') });
+    checkMSOValidity(mso, { now: new Date('2027-01-01T00:04:00Z') });
+
+    expectCode(
+      () => checkMSOValidity(mso, { now: new Date('2027-01-01T00:04:00Z'), clockSkewSeconds: 0 }),
+      'EXPIRED',
+      /MSO expired/
+    );
+  });
+
+  it('rejects a stale MSO past its expectedUpdate unless allowed', () => {
+    const mso = msoValidity({ expectedUpdate: new Date('2026-04-01T00:00:00Z') });
+    const now = new Date('2026-06-01T00:00:00Z');
+
+    expectCode(() => checkMSOValidity(mso, { now }), 'EXPIRED', /due for an update/);
+    expect(() => checkMSOValidity(mso, { now, allowStale: true })).not.toThrow();
+  });
+});
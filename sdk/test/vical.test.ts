@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { encode } from 'cborg';
+import {
+  parseCertificate,
+  parseVical,
+  verifyVical,
+  CredentialError,
+} from '../src/credential/index.js';
+import {
+  DS_CERT,
+  DS_PRIVATE_KEY_PKCS8,
+  IACA_CERT,
+  IACA_PRIVATE_KEY_PKCS8,
+  P384_CERT,
+} from './fixtures/certificates.js';
+import {
+  certificateInfo,
+  signVical,
+  tdate,
+  typeEncoders,
+} from './fixtures/vical.js';
+
+const NOW = new Date('2030-01-01T00:00:00Z');
+
+const payload = encode(
+  {
+    version: '1.0',
+    vicalProvider: 'Thurin Test VICAL',
+    date: tdate('2029-06-01T00:00:00Z'),
+    vicalIssueID: 7,
+    certificateInfos: [
+      certificateInfo(IACA_CERT, [0x1a, 0x2b, 0x3c, 0x4d, 0x5e, 0x6f], {
+        issuingAuthority: 'Thurin Test DMV',
+        issuingCountry: 'US',
+      }),
+      certificateInfo(P384_CERT, [], { stateOrProvinceName: 'US-TX' }),
+    ],
+  },
+  { typeEncoders }
+);
+
+async function expectCode(promise: Promise<unknown>, code: string, message: RegExp) {
+  const error = await promise.catch((e) => e);
+  expect(error).toBeInstanceOf(CredentialError);
+  expect(error.code).toBe(code);
+  expect(error.message).toMatch(message);
+}
+
+describe('parseVical', () => {
+  it('reads issuer certificates and jurisdictions', async () => {
+    const p384Serial = parseCertificate(P384_CERT).serialNumber;
+    const body = encode(
+      {
+        version: '1.0',
+        vicalProvider: 'Thurin Test VICAL',
+        date: tdate('2029-06-01T00:00:00Z'),
+        certificateInfos: [
+          certificateInfo(P384_CERT, Array.from(Buffer.from(p384Serial, 'hex')), {
+            stateOrProvinceName: 'US-TX',
+          }),
+        ],
+      },
+      { typeEncoders }
+    );
+    const vical = parseVical(await signVical(IACA_PRIVATE_KEY_PKCS8, IACA_CERT, body));
+
+    expect(vical.vicalProvider).toBe('Thurin Test VICAL');
+    expect(vical.date).toEqual(new Date('2029-06-01T00:00:00Z'));
+    expect(vical.vicalIssueID).toBeUndefined();
+    expect(vical.signerChain[0].subject.text).toContain('CN=Thurin Test IACA');
+    expect(vical.certificateInfos[0].jurisdiction).toBe('US-TX');
+    expect(vical.certificateInfos[0].docTypes).toEqual(['org.iso.18013.5.1.mDL']);
+  });
+
+  it('rejects a serialNumber that does not match its certificate', async () => {
+    await expectCode(
+      signVical(IACA_PRIVATE_KEY_PKCS8, IACA_CERT, payload).then(parseVical),
+      'PARSE_ERROR',
+      /certificateInfos\[1\] serialNumber .* does not match its certificate/
+    );
+  });
+});
+
+describe('verifyVical', () => {
+  const body = encode(
+    {
+      version: '1.0',
+      vicalProvider: 'Thurin Test VICAL',
+      date: tdate('2029-06-01T00:00:00Z'),
+      vicalIssueID: 7,
+      certificateInfos: [
+        certificateInfo(IACA_CERT, [0x1a, 0x2b, 0x3c, 0x4d, 0x5e, 0x6f], {
+          issuingAuthority: 'Thurin Test DMV',
+          issuingCountry: 'US',
+        }),
+      ],
+    },
+    { typeEncoders }
+  );
+
+  it('accepts a VICAL signed by a provider certificate', async () => {
+    const vical = await verifyVical(await signVical(IACA_PRIVATE_KEY_PKCS8, IACA_CERT, body), {
+      providerCertificates: [IACA_CERT],
+      now: NOW,
+    });
+
+    expect(vical.vicalIssueID).toBe(7);
+    const [iaca] = vical.certificateInfos;
+    expect(iaca.serialNumber).toBe('1a2b3c4d5e6f');
+    expect(iaca.issuingAuthority).toBe('Thurin Test DMV');
+    // No stateOrProvinceName listed: falls back to the certificate's ST
+    expect(iaca.jurisdiction).toBe('US-CA');
+  });
+
+  it('accepts a signer issued by the provider', async () => {
+    const vical = await verifyVical(await signVical(DS_PRIVATE_KEY_PKCS8, DS_CERT, body), {
+      providerCertificates: [IACA_CERT],
+      now: NOW,
+    });
+
+    expect(vical.signerChain[0].subject.text).toContain('Document Signer');
+  });
+
+  it('rejects untrusted signers, expired signers and bad signatures', async () => {
+    const signed = await signVical(DS_PRIVATE_KEY_PKCS8, DS_CERT, body);
+
+    await expectCode(
+      verifyVical(signed, { providerCertificates: [P384_CERT], now: NOW }),
+      'UNTRUSTED_ISSUER',
+      /is not a trusted VICAL provider/
+    );
+    await expectCode(
+      verifyVical(signed, { providerCertificates: [IACA_CERT], now: new Date('2040-01-01Z') }),
+      'UNTRUSTED_ISSUER',
+      /not valid at 2040/
+    );
+
+    // Signed by the IACA key but claiming the DS certificate
+    await expectCode(
+      verifyVical(await signVical(IACA_PRIVATE_KEY_PKCS8, DS_CERT, body), {
+        providerCertificates: [IACA_CERT],
+        now: NOW,
+      }),
+      'UNTRUSTED_ISSUER',
+      /VICAL signature does not verify/
+    );
+  });
+});
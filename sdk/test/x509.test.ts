@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { encode } from 'cborg';
+import {
+  parseCertificate,
+  getP256PublicKey,
+  parseCredential,
+  P256_CURVE_OID,
+  P384_CURVE_OID,
+  MDL_DS_EKU_OID,
+  CredentialError,
+} from '../src/credential/index.js';
+import { DS_CERT, IACA_CERT, P384_CERT } from './fixtures/certificates.js';
+import { VALIDITY_INFO } from './fixtures/mso.js';
+
+function issuerAuthWith(x5chain: Uint8Array | Uint8Array[]): Uint8Array {
+  const mso = encode({
+    digestAlgorithm: 'SHA-256',
+    docType: 'org.iso.18013.5.1.mDL',
+    validityInfo: VALIDITY_INFO,
+  });
+  return encode([encode({}), new Map([[33, x5chain]]), mso, new Uint8Array(64)]);
+}
+
+const documentNumber = {
+  digestID: 0,
+  random: new Uint8Array(32),
+  elementIdentifier: 'document_number',
+  elementValue: 'D1',
+};
+const namespaces = {
+  'org.iso.18013.5.1': [{ ...documentNumber, rawBytes: encode(documentNumber) }],
+};
+
+describe('parseCertificate', () => {
+  it('reads a Document Signer certificate', () => {
+    const cert = parseCertificate(DS_CERT);
+
+    expect(cert.version).toBe(3);
+    expect(cert.serialNumber).toBe('1092');
+    expect(cert.signatureAlgorithm).toBe('1.2.840.10045.4.3.2');
+    expect(cert.subject.text).toBe('C=US, ST=US-CA, CN=Thurin Test Document Signer');
+    expect(cert.issuer.text).toBe('C=US, ST=US-CA, O=Thurin Test DMV, CN=Thurin Test IACA');
+    expect(cert.validity.notBefore).toEqual(new Date('2026-10-19T04:55:16Z'));
+    expect(cert.validity.notAfter).toEqual(new Date('2036-10-16T04:55:16Z'));
+    expect(cert.keyUsage).toEqual(['digitalSignature']);
+    expect(cert.extendedKeyUsage).toEqual([MDL_DS_EKU_OID]);
+    expect(cert.basicConstraints).toBeUndefined();
+    expect(cert.extensions.map((e) => [e.oid, e.critical])).toEqual([
+      ['2.5.29.15', true],
+      ['2.5.29.37', false],
+      ['2.5.29.14', false],
+      ['2.5.29.35', false],
+    ]);
+
+    expect(cert.subjectPublicKeyInfo.curve).toBe(P256_CURVE_OID);
+    const { x, y } = getP256PublicKey(cert);
+    expect(x.length).toBe(32);
+    expect(cert.subjectPublicKeyInfo.publicKey).toEqual(new Uint8Array([0x04, ...x, ...y]));
+  });
+
+  it('reads an IACA certificate', () => {
+    const cert = parseCertificate(IACA_CERT);
+
+    expect(cert.serialNumber).toBe('1a2b3c4d5e6f');
+    expect(cert.subject.der).toEqual(parseCertificate(DS_CERT).issuer.der);
+    expect(cert.basicConstraints).toEqual({ ca: true, pathLength: 0 });
+    expect(cert.keyUsage).toEqual(['keyCertSign', 'cRLSign']);
+    // Dates from 2050 on are GeneralizedTime
+    expect(cert.validity.notAfter).toEqual(new Date('2054-03-06T04:55:16Z'));
+  });
+
+  it('reports the curve of non-P-256 keys', () => {
+    const cert = parseCertificate(P384_CERT);
+
+    expect(cert.subjectPublicKeyInfo.curve).toBe(P384_CURVE_OID);
+    expect(cert.subjectPublicKeyInfo.publicKey.length).toBe(97);
+    expect(() => getP256PublicKey(cert)).toThrow(`has a ${P384_CURVE_OID} key, expected P-256`);
+  });
+
+  it('rejects malformed DER', () => {
+    expect(() => parseCertificate(DS_CERT.slice(0, 100))).toThrow(CredentialError);
+    expect(() => parseCertificate(new Uint8Array([0x30, 0x41, 0x04, 1, 2, 3]))).toThrow(
+      'Invalid X.509 certificate'
+    );
+  });
+});
+
+describe('parseCredential certificate chain', () => {
+  it('exposes the parsed x5chain, leaf first', () => {
+    const parsed = parseCredential({
+      issuerAuth: issuerAuthWith([DS_CERT, IACA_CERT]),
+      namespaces,
+    });
+
+    expect(parsed.certificateChain.map((c) => c.subject.attributes.at(-1)?.value)).toEqual([
+      'Thurin Test Document Signer',
+      'Thurin Test IACA',
+    ]);
+    expect(parsed.iacaPubkey).toEqual(getP256PublicKey(parsed.certificateChain[0]));
+  });
+
+  it('rejects issuers whose key is not P-256', () => {
+    expect(() =>
+      parseCredential({
+        issuerAuth: issuerAuthWith(P384_CERT),
+        namespaces,
+      })
+    ).toThrow(expect.objectContaining({ code: 'PARSE_ERROR' }));
+  });
+});
@@ -26,6 +26,21 @@ export function encodeMSO(mso: MobileSecurityObject): Uint8Array {
   return encode(mso);
 }
 
+/**
+ * Create an IssuerSignedItem for any data element
+ *
+ * @param random - 32-byte salt (random if omitted; pass derived bytes for
+ *   reproducible fixtures)
+ */
+export function createIssuerSignedItem(
+  elementIdentifier: string,
+  elementValue: unknown,
+  digestID: number,
+  random: Uint8Array = crypto.getRandomValues(new Uint8Array(32))
+): IssuerSignedItem {
+  return { digestID, random, elementIdentifier, elementValue };
+}
+
 /**
  * Create an IssuerSignedItem for age_over_21
  */
@@ -3,6 +3,7 @@
  */
 
 import { p256 } from '@noble/curves/p256';
+import { deriveBytes } from './seed';
 
 export interface IACAKeyPair {
   privateKey: Uint8Array;
@@ -28,6 +29,28 @@ export function generateTestIACAKey(): IACAKeyPair {
   };
 }
 
+/**
+ * Derive a test IACA P-256 key pair from a seed
+ * The same seed always gives the same key.
+ */
+export function deriveTestIACAKey(seed: string): IACAKeyPair {
+  // Rehash in the (negligible) case the digest is not a valid scalar
+  let privateKey = deriveBytes(seed, 'iaca-key');
+  for (let counter = 1; !p256.utils.isValidPrivateKey(privateKey); counter++) {
+    privateKey = deriveBytes(seed, `iaca-key/${counter}`);
+  }
+  return keyPairFromPrivateKey(privateKey);
+}
+
+function keyPairFromPrivateKey(privateKey: Uint8Array): IACAKeyPair {
+  const publicKey = p256.getPublicKey(privateKey, false); // uncompressed
+  return {
+    privateKey: new Uint8Array(privateKey),
+    publicKeyX: new Uint8Array(publicKey.slice(1, 33)),
+    publicKeyY: new Uint8Array(publicKey.slice(33, 65)),
+  };
+}
+
 /**
  * Sign a message hash with the IACA private key
  */
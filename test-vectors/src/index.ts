@@ -7,3 +7,7 @@
 export * from './types';
 export * from './cbor';
 export * from './iaca';
+export * from './poseidon';
+export * from './scenario';
+export * from './seed';
+export * from './vector';
@@ -0,0 +1,129 @@
+/**
+ * Poseidon2 public inputs, computed the way the circuit does
+ *
+ * iaca_root       = Poseidon2(DOMAIN_IACA_ROOT, pubkey_x, pubkey_y)
+ * nullifier       = Poseidon2(DOMAIN_NULLIFIER, document_number, event_id, iaca_root)
+ * address_binding = Poseidon2(DOMAIN_ADDRESS_BINDING, nullifier, bound_address)
+ *
+ * Byte arrays become fields big-endian (bytes32_to_field in nullifier.nr).
+ * Event IDs are hashed to a field like the SDK's generateProof does, so a
+ * vector's values are what the SDK, circuit and contracts all see.
+ */
+
+import { BarretenbergSync, BackendType } from '@aztec/bb.js';
+import { keccak_256 } from '@noble/hashes/sha3';
+
+// Domain separators (must match circuits/src/nullifier.nr)
+const DOMAIN_IACA_ROOT = 0x01;
+const DOMAIN_NULLIFIER = 0x02;
+const DOMAIN_ADDRESS_BINDING = 0x03;
+
+// BN254 scalar field modulus
+const BN254_MODULUS =
+  21888242871839275222246405745257275088548364400416034343698204186575808495617n;
+
+export interface PublicInputs {
+  iacaRoot: string;
+  /** Event ID as the field the circuit takes */
+  eventIdField: string;
+  nullifier: string;
+  addressBinding: string;
+  /** Bound address as a field */
+  boundAddressField: string;
+}
+
+// Poseidon2 needs no CRS, so the WASM backend runs offline
+let bb: BarretenbergSync | null = null;
+
+/**
+ * Compute iaca_root, nullifier and address_binding for a credential
+ *
+ * @param eventId - Event ID string, as passed to the SDK's generateProof
+ * @param boundAddress - 0x-prefixed wallet address the proof is bound to
+ */
+export async function computePublicInputs(params: {
+  publicKeyX: Uint8Array;
+  publicKeyY: Uint8Array;
+  documentNumber: Uint8Array;
+  eventId: string;
+  boundAddress: string;
+}): Promise<PublicInputs> {
+  bb ??= await BarretenbergSync.new({ backend: BackendType.Wasm });
+
+  const iacaRoot = poseidon2(bb, [
+    fieldFromNumber(DOMAIN_IACA_ROOT),
+    padTo32Bytes(params.publicKeyX),
+    padTo32Bytes(params.publicKeyY),
+  ]);
+  const eventIdField = hashEventId(params.eventId);
+  const nullifier = poseidon2(bb, [
+    fieldFromNumber(DOMAIN_NULLIFIER),
+    padTo32Bytes(params.documentNumber),
+    fromHex(eventIdField),
+    fromHex(iacaRoot),
+  ]);
+  const boundAddressField = addressToField(params.boundAddress);
+  const addressBinding = poseidon2(bb, [
+    fieldFromNumber(DOMAIN_ADDRESS_BINDING),
+    fromHex(nullifier),
+    fromHex(boundAddressField),
+  ]);
+
+  return { iacaRoot, eventIdField, nullifier, addressBinding, boundAddressField };
+}
+
+/**
+ * Release the Barretenberg WASM instance
+ */
+export async function destroyPoseidon(): Promise<void> {
+  if (bb) {
+    await bb.destroy();
+    bb = null;
+  }
+}
+
+function poseidon2(api: BarretenbergSync, inputs: Uint8Array[]): string {
+  return toHex(api.poseidon2Hash({ inputs }).hash);
+}
+
+/**
+ * Hash an event ID string to a field: keccak256, reduced mod BN254
+ * (matches the SDK's prover)
+ */
+function hashEventId(eventId: string): string {
+  const hash = BigInt(toHex(keccak_256(new TextEncoder().encode(eventId))));
+  return `0x${(hash % BN254_MODULUS).toString(16).padStart(64, '0')}`;
+}
+
+function addressToField(address: string): string {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    throw new Error(`Invalid bound address: ${address}`);
+  }
+  return `0x${address.slice(2).toLowerCase().padStart(64, '0')}`;
+}
+
+/**
+ * Right-align to 32 bytes (big-endian field)
+ */
+function padTo32Bytes(input: Uint8Array): Uint8Array {
+  if (input.length >= 32) {
+    return input.slice(0, 32);
+  }
+  const padded = new Uint8Array(32);
+  padded.set(input, 32 - input.length);
+  return padded;
+}
+
+function fieldFromNumber(value: number): Uint8Array {
+  const bytes = new Uint8Array(32);
+  bytes[31] = value;
+  return bytes;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return '0x' + Buffer.from(bytes).toString('hex');
+}
+
+function fromHex(hex: string): Uint8Array {
+  return new Uint8Array(Buffer.from(hex.slice(2), 'hex'));
+}
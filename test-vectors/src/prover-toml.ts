@@ -19,39 +19,41 @@ function formatField(hex: string): string {
 
 function main() {
   const fixturePath = process.argv[2] || './fixtures/california-over21.json';
-  const outputPath = process.argv[3] || '../../packages/circuits/Prover.toml';
+  const outputPath = process.argv[3] || '../circuits/Prover.toml';
 
   console.log(`Loading fixture: ${fixturePath}`);
   const fixture = JSON.parse(readFileSync(fixturePath, 'utf-8'));
 
-  // For now, use placeholder values for nullifier and iaca_root
-  // These would need to be computed with the same Pedersen hash as the circuit
-  // We'll use dummy values and let the circuit compute them
-  const nullifier = "0x0"; // Placeholder - circuit will verify
-  const iacaRoot = "0x0";  // Placeholder - circuit will verify
-  const eventId = "0x1";   // Test event ID
-  const proofTimestamp = 1704067200; // 2024-01-01 00:00:00 UTC
+  // Poseidon2 public inputs, computed by the generator (see poseidon.ts)
+  if (!fixture.expectedAddressBinding) {
+    throw new Error(`${fixturePath} has no nullifier or address binding; run pnpm generate`);
+  }
+  const nullifier = fixture.expectedNullifier;
+  const addressBinding = fixture.expectedAddressBinding;
+  const iacaRoot = fixture.iacaKey.root;
+  const eventId = fixture.eventIdField;
+  const boundAddress = fixture.boundAddress;
+  // YYYYMMDD, from the scenario's proofDate
+  const proofDate = Number((fixture.proofDate ?? '2024-01-01').replaceAll('-', ''));
 
   // Pad MSO bytes to 512
   const msoBytes = fixture.mso.bytes.data || fixture.mso.bytes;
   const msoPadded = [...msoBytes, ...Array(512 - msoBytes.length).fill(0)];
 
-  // Example bound address (vitalik.eth)
-  const boundAddress = "0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045";
-
   const proverToml = `# Thurin Circuit - Prover inputs
 # Generated from: ${fixturePath}
 
 # === Public inputs ===
 nullifier = ${formatField(nullifier)}
-proof_timestamp = ${proofTimestamp}
+address_binding = ${formatField(addressBinding)}
+proof_date = ${proofDate}
 event_id = ${formatField(eventId)}
 iaca_root = ${formatField(iacaRoot)}
 bound_address = ${formatField(boundAddress)}
-reveal_age_over_21 = true
-reveal_age_over_18 = true
-reveal_state = true
-revealed_state = [${fixture.claims.issuingJurisdiction.item.elementValue.charCodeAt(0)}, ${fixture.claims.issuingJurisdiction.item.elementValue.charCodeAt(1)}]
+prove_age_over_21 = true
+prove_age_over_18 = true
+prove_state = true
+proven_state = [${fixture.claims.issuingJurisdiction.item.elementValue.charCodeAt(0)}, ${fixture.claims.issuingJurisdiction.item.elementValue.charCodeAt(1)}]
 
 # === Private inputs ===
 
@@ -83,9 +85,6 @@ iaca_pubkey_y = ${formatBytes(fixture.iacaKey.publicKeyY)}
   console.log(`Writing: ${outputPath}`);
   writeFileSync(outputPath, proverToml);
   console.log('Done!');
-
-  console.log('\nNote: nullifier and iaca_root are placeholders.');
-  console.log('To get correct values, we need to compute Pedersen hashes in TS.');
 }
 
 main();
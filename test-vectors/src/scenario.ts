@@ -0,0 +1,134 @@
+/**
+ * Scenario files: one JSON Scenario per file
+ */
+
+import { readFileSync, readdirSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+import type { Scenario, ScenarioClaim } from './types';
+
+/** Namespace of claims that don't name one */
+export const DEFAULT_NAMESPACE = 'org.iso.18013.5.1';
+
+const DATE = /^\d{4}-\d{2}-\d{2}/;
+
+/**
+ * Load scenarios from files and directories (every .json file, by name)
+ */
+export function loadScenarios(paths: string[]): Scenario[] {
+  const files = paths.flatMap((path) =>
+    statSync(path).isDirectory()
+      ? readdirSync(path)
+          .filter((file) => file.endsWith('.json'))
+          .sort()
+          .map((file) => join(path, file))
+      : [path]
+  );
+
+  const scenarios = files.map(loadScenario);
+  const names = new Set<string>();
+  scenarios.forEach((scenario, i) => {
+    if (names.has(scenario.name)) {
+      throw new Error(`${files[i]}: duplicate scenario name "${scenario.name}"`);
+    }
+    names.add(scenario.name);
+  });
+  return scenarios;
+}
+
+/**
+ * Load and check one scenario file
+ */
+export function loadScenario(file: string): Scenario {
+  let scenario: unknown;
+  try {
+    scenario = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new Error(`${file}: ${error instanceof Error ? error.message : 'Unreadable'}`);
+  }
+
+  const problem = checkScenario(scenario);
+  if (problem) {
+    throw new Error(`${file}: ${problem}`);
+  }
+  return scenario as Scenario;
+}
+
+/**
+ * @returns What is wrong with the scenario, or undefined
+ */
+function checkScenario(value: unknown): string | undefined {
+  if (!isObject(value)) {
+    return 'scenario must be an object';
+  }
+  for (const field of ['name', 'description', 'docType', 'issuerKeySeed', 'documentNumber']) {
+    if (typeof value[field] !== 'string' || value[field] === '') {
+      return `${field} must be a non-empty string`;
+    }
+  }
+  if (!/^[a-z0-9-]+$/.test(value.name as string)) {
+    return 'name must be lowercase letters, digits and dashes (it names the fixture files)';
+  }
+  if (new TextEncoder().encode(value.documentNumber as string).length > 32) {
+    return 'documentNumber must be at most 32 bytes';
+  }
+  for (const field of ['seed', 'eventId', 'boundAddress']) {
+    if (value[field] !== undefined && typeof value[field] !== 'string') {
+      return `${field} must be a string`;
+    }
+  }
+  if (value.proofDate !== undefined && !isDate(value.proofDate)) {
+    return 'proofDate must be a YYYY-MM-DD date';
+  }
+
+  const { validity } = value;
+  if (!isObject(validity)) {
+    return 'validity must be an object';
+  }
+  for (const field of ['signed', 'validFrom', 'validUntil']) {
+    if (!isDate(validity[field])) {
+      return `validity.${field} must be a date`;
+    }
+  }
+
+  if (!Array.isArray(value.claims) || value.claims.length === 0) {
+    return 'claims must be a non-empty array';
+  }
+  const digestIDs = new Set<string>();
+  for (const claim of value.claims as unknown[]) {
+    if (!isObject(claim) || typeof claim.elementIdentifier !== 'string') {
+      return 'each claim needs an elementIdentifier';
+    }
+    const { namespace, elementIdentifier, digestID } = claim;
+    if (namespace !== undefined && typeof namespace !== 'string') {
+      return `claim ${elementIdentifier} has a non-string namespace`;
+    }
+    if (!('elementValue' in claim)) {
+      return `claim ${elementIdentifier} needs an elementValue`;
+    }
+    if (!Number.isInteger(digestID) || (digestID as number) < 0) {
+      return `claim ${elementIdentifier} needs a non-negative integer digestID`;
+    }
+    const key = `${namespace ?? DEFAULT_NAMESPACE}:${digestID}`;
+    if (digestIDs.has(key)) {
+      return `digestID ${digestID} is used twice in one namespace`;
+    }
+    digestIDs.add(key);
+  }
+  if (!value.claims.some((claim: ScenarioClaim) => claim.elementIdentifier === 'age_over_21')) {
+    return 'claims must include age_over_21 (the circuit always reads it)';
+  }
+
+  const { expected } = value;
+  if (!isObject(expected) || (expected.outcome !== 'valid' && expected.outcome !== 'invalid')) {
+    return 'expected.outcome must be "valid" or "invalid"';
+  }
+  return undefined;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isDate(value: unknown): boolean {
+  return typeof value === 'string' && DATE.test(value);
+}
@@ -0,0 +1,16 @@
+/**
+ * Deterministic byte derivation for reproducible fixtures
+ *
+ * Every value a scenario doesn't spell out (item salts, the IACA key) is
+ * derived from its seed, so regenerating an unchanged scenario rewrites
+ * byte-identical fixtures.
+ */
+
+import { createHash } from 'node:crypto';
+
+/**
+ * Derive 32 bytes for a labelled use of a seed: SHA-256("<seed>/<label>")
+ */
+export function deriveBytes(seed: string, label: string): Uint8Array {
+  return new Uint8Array(createHash('sha256').update(`${seed}/${label}`).digest());
+}
@@ -31,27 +31,72 @@ export interface TestIACAKey {
   root: string; // Poseidon hash as hex
 }
 
+/**
+ * Test scenario, as read from a scenario file (see scenarios/)
+ */
+export interface Scenario {
+  name: string;
+  description: string;
+  /** Seed for item salts (defaults to name) */
+  seed?: string;
+  docType: string;
+  /** Seed the IACA key is derived from; scenarios sharing it share an issuer */
+  issuerKeySeed: string;
+  /** Document number (UTF-8, at most 32 bytes, zero-padded) */
+  documentNumber: string;
+  validity: {
+    signed: string;
+    validFrom: string;
+    validUntil: string;
+  };
+  claims: ScenarioClaim[];
+  /** Event ID the nullifier is computed for (defaults to thurin-sbt) */
+  eventId?: string;
+  /** Address the proof is bound to */
+  boundAddress?: string;
+  /** Date the proof is made for, YYYY-MM-DD (defaults to 2024-01-01) */
+  proofDate?: string;
+  expected: ExpectedOutcome;
+}
+
+export interface ScenarioClaim {
+  /** Defaults to org.iso.18013.5.1 */
+  namespace?: string;
+  elementIdentifier: string;
+  elementValue: unknown;
+  digestID: number;
+}
+
+/**
+ * Whether the circuit should accept a proof over the vector
+ */
+export interface ExpectedOutcome {
+  outcome: 'valid' | 'invalid';
+  /** Why an invalid vector is rejected */
+  reason?: string;
+}
+
+export interface ClaimVector {
+  namespace: string;
+  item: IssuerSignedItem;
+  bytes: Uint8Array;
+  hash: Uint8Array;
+}
+
 export interface TestVector {
   name: string;
   description: string;
+  /** Seed the item salts were derived from */
+  seed: string;
   iacaKey: TestIACAKey;
+  /** Claims the circuit reads */
   claims: {
-    ageOver21: {
-      item: IssuerSignedItem;
-      bytes: Uint8Array;
-      hash: Uint8Array;
-    };
-    ageOver18?: {
-      item: IssuerSignedItem;
-      bytes: Uint8Array;
-      hash: Uint8Array;
-    };
-    issuingJurisdiction?: {
-      item: IssuerSignedItem;
-      bytes: Uint8Array;
-      hash: Uint8Array;
-    };
+    ageOver21: ClaimVector;
+    ageOver18?: ClaimVector;
+    issuingJurisdiction?: ClaimVector;
   };
+  /** Every other claim in the MSO */
+  otherClaims: ClaimVector[];
   mso: {
     object: MobileSecurityObject;
     bytes: Uint8Array;
@@ -59,5 +104,16 @@ export interface TestVector {
     signature: Uint8Array;
   };
   documentNumber: Uint8Array;
+  /** Event ID string (hashed to eventIdField like the SDK does) */
+  eventId: string;
+  eventIdField: string;
+  /** Wallet address the proof is bound to */
+  boundAddress: string;
+  /** Poseidon2 nullifier for documentNumber, eventIdField and the IACA root */
   expectedNullifier: string;
+  /** Poseidon2 binding of the nullifier to boundAddress */
+  expectedAddressBinding: string;
+  /** Proof date, YYYY-MM-DD */
+  proofDate: string;
+  expected: ExpectedOutcome;
 }
@@ -0,0 +1,174 @@
+/**
+ * Test vectors built from scenarios
+ *
+ * Everything a scenario doesn't spell out is derived from its seed, so an
+ * unchanged scenario regenerates byte-identical fixtures.
+ */
+
+import { writeFileSync } from 'node:fs';
+import { createHash } from 'node:crypto';
+import { createIssuerSignedItem, encodeIssuerSignedItem, encodeMSO } from './cbor';
+import { deriveTestIACAKey, signWithIACA } from './iaca';
+import { computePublicInputs } from './poseidon';
+import { DEFAULT_NAMESPACE } from './scenario';
+import { deriveBytes } from './seed';
+import type { ClaimVector, MobileSecurityObject, Scenario, TestVector } from './types';
+
+function sha256(data: Uint8Array): Uint8Array {
+  return new Uint8Array(createHash('sha256').update(data).digest());
+}
+
+const DEFAULT_EVENT_ID = 'thurin-sbt';
+const DEFAULT_BOUND_ADDRESS = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const DEFAULT_PROOF_DATE = '2024-01-01';
+
+// Pad MSO to 512 bytes (must match circuit's fixed array size)
+const MSO_PADDED_SIZE = 512;
+
+// Claims the circuit reads, by TestVector.claims key
+const CIRCUIT_CLAIMS = {
+  ageOver21: 'age_over_21',
+  ageOver18: 'age_over_18',
+  issuingJurisdiction: 'issuing_jurisdiction',
+} as const;
+
+/**
+ * Build the test vector a scenario describes
+ *
+ * Deterministic: the same scenario gives the same bytes.
+ */
+export async function generateTestVector(scenario: Scenario): Promise<TestVector> {
+  const seed = scenario.seed ?? scenario.name;
+  const iacaKey = deriveTestIACAKey(scenario.issuerKeySeed);
+
+  const claims: ClaimVector[] = scenario.claims.map((claim) => {
+    const namespace = claim.namespace ?? DEFAULT_NAMESPACE;
+    const item = createIssuerSignedItem(
+      claim.elementIdentifier,
+      claim.elementValue,
+      claim.digestID,
+      deriveBytes(seed, `random/${namespace}/${claim.elementIdentifier}`)
+    );
+    const bytes = encodeIssuerSignedItem(item);
+    return { namespace, item, bytes, hash: sha256(bytes) };
+  });
+
+  const valueDigests: MobileSecurityObject['valueDigests'] = {};
+  for (const claim of claims) {
+    (valueDigests[claim.namespace] ??= {})[claim.item.digestID] = claim.hash;
+  }
+  const mso: MobileSecurityObject = {
+    digestAlgorithm: 'SHA-256',
+    docType: scenario.docType,
+    valueDigests,
+    validityInfo: { ...scenario.validity },
+  };
+
+  const msoBytes = encodeMSO(mso);
+  if (msoBytes.length > MSO_PADDED_SIZE) {
+    throw new Error(
+      `${scenario.name}: MSO is ${msoBytes.length} bytes; the circuit takes at most ` +
+        `${MSO_PADDED_SIZE}`
+    );
+  }
+
+  const msoPadded = new Uint8Array(MSO_PADDED_SIZE);
+  msoPadded.set(msoBytes);
+  // Rest is already zeros
+
+  // Hash the PADDED MSO (this is what the circuit will hash)
+  const msoHash = sha256(msoPadded);
+
+  // RFC 6979 nonces, so the signature is deterministic too
+  const msoSignature = signWithIACA(msoHash, iacaKey.privateKey);
+
+  const documentNumber = new Uint8Array(32);
+  documentNumber.set(new TextEncoder().encode(scenario.documentNumber));
+
+  const eventId = scenario.eventId ?? DEFAULT_EVENT_ID;
+  const boundAddress = scenario.boundAddress ?? DEFAULT_BOUND_ADDRESS;
+  const publicInputs = await computePublicInputs({
+    publicKeyX: iacaKey.publicKeyX,
+    publicKeyY: iacaKey.publicKeyY,
+    documentNumber,
+    eventId,
+    boundAddress,
+  });
+
+  const find = (identifier: string) =>
+    claims.find(
+      (claim) =>
+        claim.namespace === DEFAULT_NAMESPACE && claim.item.elementIdentifier === identifier
+    );
+  const circuitClaims = new Set(Object.values(CIRCUIT_CLAIMS).map(find));
+
+  return {
+    name: scenario.name,
+    description: scenario.description,
+    seed,
+    iacaKey: {
+      privateKey: iacaKey.privateKey,
+      publicKeyX: iacaKey.publicKeyX,
+      publicKeyY: iacaKey.publicKeyY,
+      root: publicInputs.iacaRoot,
+    },
+    claims: {
+      // The scenario loader requires age_over_21
+      ageOver21: find(CIRCUIT_CLAIMS.ageOver21)!,
+      ageOver18: find(CIRCUIT_CLAIMS.ageOver18),
+      issuingJurisdiction: find(CIRCUIT_CLAIMS.issuingJurisdiction),
+    },
+    otherClaims: claims.filter((claim) => !circuitClaims.has(claim)),
+    mso: {
+      object: mso,
+      bytes: msoBytes,
+      hash: msoHash,
+      signature: msoSignature,
+    },
+    documentNumber,
+    eventId,
+    eventIdField: publicInputs.eventIdField,
+    boundAddress,
+    expectedNullifier: publicInputs.nullifier,
+    expectedAddressBinding: publicInputs.addressBinding,
+    proofDate: scenario.proofDate ?? DEFAULT_PROOF_DATE,
+    expected: scenario.expected,
+  };
+}
+
+// Fixture file stem for a claim (issuing_jurisdiction keeps its old "state" name)
+function claimFileStem(claim: ClaimVector): string {
+  const { elementIdentifier } = claim.item;
+  return elementIdentifier === 'issuing_jurisdiction'
+    ? 'state'
+    : elementIdentifier.replaceAll('_', '-');
+}
+
+/**
+ * Write a vector's JSON and raw .bin files into a fixtures directory
+ */
+export function writeTestVector(fixturesDir: string, vector: TestVector) {
+  const prefix = `${fixturesDir}/${vector.name}`;
+
+  // Write full test vector as JSON
+  writeFileSync(
+    `${prefix}.json`,
+    JSON.stringify(
+      vector,
+      (_, v) => (v instanceof Uint8Array ? Array.from(v) : v),
+      2
+    ) + '\n'
+  );
+
+  // Write raw bytes for circuit testing
+  const { ageOver21, ageOver18, issuingJurisdiction } = vector.claims;
+  for (const claim of [ageOver21, ageOver18, issuingJurisdiction, ...vector.otherClaims]) {
+    if (claim) {
+      writeFileSync(`${prefix}-${claimFileStem(claim)}-claim.bin`, Buffer.from(claim.bytes));
+    }
+  }
+  writeFileSync(`${prefix}-mso.bin`, Buffer.from(vector.mso.bytes));
+  writeFileSync(`${prefix}-mso-signature.bin`, Buffer.from(vector.mso.signature));
+  writeFileSync(`${prefix}-iaca-pubkey-x.bin`, Buffer.from(vector.iacaKey.publicKeyX));
+  writeFileSync(`${prefix}-iaca-pubkey-y.bin`, Buffer.from(vector.iacaKey.publicKeyY));
+}
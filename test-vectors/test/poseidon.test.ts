@@ -0,0 +1,81 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { BarretenbergSync, BackendType } from '@aztec/bb.js';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { computePublicInputs, destroyPoseidon } from '../src/poseidon';
+
+const BN254_MODULUS =
+  21888242871839275222246405745257275088548364400416034343698204186575808495617n;
+
+const params = {
+  publicKeyX: new Uint8Array(32).fill(1),
+  publicKeyY: new Uint8Array(32).fill(2),
+  documentNumber: new TextEncoder().encode('D1234567'),
+  eventId: 'thurin-sbt',
+  boundAddress: '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045',
+};
+
+function field(value: bigint): Uint8Array {
+  return new Uint8Array(Buffer.from(value.toString(16).padStart(64, '0'), 'hex'));
+}
+
+function hex(bytes: Uint8Array): string {
+  return '0x' + Buffer.from(bytes).toString('hex');
+}
+
+afterAll(async () => {
+  await destroyPoseidon();
+});
+
+describe('computePublicInputs', () => {
+  it('hashes the fields the circuit does, domain separator first', async () => {
+    const inputs = await computePublicInputs(params);
+
+    const bb = await BarretenbergSync.new({ backend: BackendType.Wasm });
+    const poseidon2 = (fields: Uint8Array[]) => hex(bb.poseidon2Hash({ inputs: fields }).hash);
+    const documentNumber = new Uint8Array(32);
+    documentNumber.set(params.documentNumber, 32 - params.documentNumber.length);
+
+    const iacaRoot = poseidon2([field(1n), params.publicKeyX, params.publicKeyY]);
+    const nullifier = poseidon2([
+      field(2n),
+      documentNumber,
+      field(BigInt(inputs.eventIdField)),
+      field(BigInt(iacaRoot)),
+    ]);
+    const addressBinding = poseidon2([
+      field(3n),
+      field(BigInt(nullifier)),
+      field(BigInt(params.boundAddress)),
+    ]);
+    await bb.destroy();
+
+    expect(inputs).toMatchObject({ iacaRoot, nullifier, addressBinding });
+  });
+
+  it('reduces keccak256 of the event ID into the field', async () => {
+    const { eventIdField } = await computePublicInputs({ ...params, eventId: '' });
+
+    // keccak256("") exceeds the BN254 modulus
+    const hash = BigInt(hex(keccak_256(new Uint8Array(0))));
+    expect(hash).toBeGreaterThan(BN254_MODULUS);
+    expect(eventIdField).toBe(hex(field(hash % BN254_MODULUS)));
+  });
+
+  it('binds the lowercased address and rejects malformed ones', async () => {
+    const { boundAddressField } = await computePublicInputs(params);
+    expect(boundAddressField).toBe(`0x${'0'.repeat(24)}d8da6bf26964af9d7eed9e03e53415d37aa96045`);
+
+    await expect(computePublicInputs({ ...params, boundAddress: '0x1234' })).rejects.toThrow(
+      'Invalid bound address: 0x1234'
+    );
+  });
+
+  it('changes the nullifier, not the root, with the event', async () => {
+    const a = await computePublicInputs(params);
+    const b = await computePublicInputs({ ...params, eventId: 'another-event' });
+
+    expect(b.iacaRoot).toBe(a.iacaRoot);
+    expect(b.nullifier).not.toBe(a.nullifier);
+    expect(b.addressBinding).not.toBe(a.addressBinding);
+  });
+});
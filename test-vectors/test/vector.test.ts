@@ -0,0 +1,50 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { destroyPoseidon } from '../src/poseidon';
+import { loadScenario, loadScenarios } from '../src/scenario';
+import { generateTestVector, writeTestVector } from '../src/vector';
+
+const testDir = dirname(fileURLToPath(import.meta.url));
+const scenariosDir = join(testDir, '../scenarios');
+const fixturesDir = join(testDir, '../fixtures');
+const outDir = mkdtempSync(join(tmpdir(), 'thurin-vectors-'));
+
+afterAll(async () => {
+  rmSync(outDir, { recursive: true, force: true });
+  await destroyPoseidon();
+});
+
+describe('generateTestVector', () => {
+  it('gives identical bytes for the same scenario and seed', async () => {
+    const scenario = loadScenario(join(scenariosDir, 'california-over21.json'));
+
+    expect(await generateTestVector(scenario)).toEqual(await generateTestVector(scenario));
+  });
+
+  it('derives item salts from the seed, and the key from issuerKeySeed', async () => {
+    const scenario = loadScenario(join(scenariosDir, 'california-over21.json'));
+    const a = await generateTestVector(scenario);
+    const b = await generateTestVector({ ...scenario, seed: 'another-seed' });
+
+    expect(b.claims.ageOver21.item.random).not.toEqual(a.claims.ageOver21.item.random);
+    expect(b.mso.bytes).not.toEqual(a.mso.bytes);
+    expect(b.iacaKey).toEqual(a.iacaKey);
+  });
+
+  it('regenerates the committed fixtures', async () => {
+    for (const scenario of loadScenarios([scenariosDir])) {
+      writeTestVector(outDir, await generateTestVector(scenario));
+    }
+
+    const written = readdirSync(outDir).sort();
+    expect(readdirSync(fixturesDir).sort()).toEqual(written);
+    for (const file of written) {
+      expect(readFileSync(join(outDir, file)), file).toEqual(
+        readFileSync(join(fixturesDir, file))
+      );
+    }
+  });
+});